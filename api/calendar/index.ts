@@ -1,5 +1,7 @@
 // Consolidated Calendar API endpoint
 // Handles: status, week (events), calendars list
+// Write-back: ensure (create the Looops calendar), events (its events, deletions included),
+// create, update, delete
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 
 interface CalendarEvent {
@@ -30,6 +32,45 @@ function mapCalendarToLoop(calendarName: string): string {
   return 'Maintenance';
 }
 
+// An event on the Looops calendar, as the app tracks it
+interface LooopsCalendarEvent {
+  id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  status: 'confirmed' | 'tentative' | 'cancelled';
+  looopsKey?: string; // Which task or routine block it was written for
+}
+
+const LOOOPS_CALENDAR_NAME = 'Looops';
+const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+
+function toLooopsEvent(event: any): LooopsCalendarEvent {
+  return {
+    id: event.id,
+    title: event.summary || '(No title)',
+    startTime: event.start?.dateTime || event.start?.date || '',
+    endTime: event.end?.dateTime || event.end?.date || '',
+    status: event.status || 'confirmed',
+    looopsKey: event.extendedProperties?.private?.looopsKey,
+  };
+}
+
+// Google answers 403 both for a token missing the write scope (granted before write-back
+// existed) and for rate limits - only the first needs the user to reconnect
+async function writeFailure(res: VercelResponse, response: Response) {
+  const body = await response.json().catch(() => null);
+  const reasons = [...(body?.error?.errors || []), ...(body?.error?.details || [])].map((e: any) => e.reason);
+  const missingScope = reasons.includes('insufficientPermissions') || reasons.includes('ACCESS_TOKEN_SCOPE_INSUFFICIENT');
+  if (response.status === 401 || (response.status === 403 && missingScope)) {
+    return res.json({ needsReauth: true, source: 'local' });
+  }
+  return res.status(500).json({
+    error: body?.error?.message || `Calendar API error: ${response.status}`,
+    source: 'local',
+  });
+}
+
 interface CalendarInfo {
   id: string;
   name: string;
@@ -195,5 +236,152 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
   }
 
+  // Create the Looops calendar. Never matched by name - a calendar the user made called
+  // "Looops" can't be written with the calendar.app.created scope. The app keeps the id
+  // of the one created here, and 'events' reports when it's gone.
+  if (action === 'ensure') {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+    try {
+      const createResponse = await fetch(`${GOOGLE_CALENDAR_API}/calendars`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          summary: LOOOPS_CALENDAR_NAME,
+          description: 'Task blocks and routines planned in Looops. Move or delete events here to reschedule.',
+          timeZone: req.body?.timeZone,
+        }),
+      });
+      if (!createResponse.ok) {
+        return writeFailure(res, createResponse);
+      }
+      const created = await createResponse.json();
+      return res.json({ source: 'google', data: { id: created.id, created: true } });
+    } catch (error) {
+      console.error('Calendar ensure error:', error);
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to set up the Looops calendar',
+        source: 'local',
+      });
+    }
+  }
+
+  // Events on the Looops calendar - deleted ones included, so removals can be picked up
+  if (action === 'events') {
+    const calendarId = req.query.calendarId as string;
+    const timeMin = req.query.timeMin as string;
+    const timeMax = req.query.timeMax as string;
+    if (!calendarId || !timeMin || !timeMax) {
+      return res.status(400).json({ error: 'calendarId, timeMin and timeMax are required' });
+    }
+    try {
+      const events: LooopsCalendarEvent[] = [];
+      let pageToken: string | undefined;
+      do {
+        const params = new URLSearchParams({
+          timeMin,
+          timeMax,
+          singleEvents: 'true',
+          showDeleted: 'true',
+          maxResults: '250',
+        });
+        if (pageToken) params.set('pageToken', pageToken);
+        const response = await fetch(
+          `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events?${params}`,
+          { headers: { Authorization: `Bearer ${accessToken}` } }
+        );
+        if (!response.ok) {
+          if (response.status === 404) {
+            return res.json({ source: 'google', data: [], calendarMissing: true });
+          }
+          return writeFailure(res, response);
+        }
+        const data = await response.json();
+        events.push(...(data.items || []).map(toLooopsEvent));
+        pageToken = data.nextPageToken;
+      } while (pageToken);
+
+      return res.json({ source: 'google', data: events, fetchedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Looops events fetch error:', error);
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to fetch Looops events',
+        source: 'local',
+      });
+    }
+  }
+
+  if (action === 'create' || action === 'update') {
+    const expected = action === 'create' ? 'POST' : 'PATCH';
+    if (req.method !== expected) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+    const { calendarId, eventId, title, description, startTime, endTime, key } = req.body || {};
+    if (!calendarId || !startTime || !endTime || (action === 'update' && !eventId)) {
+      return res.status(400).json({ error: 'calendarId, startTime and endTime are required' });
+    }
+    try {
+      const url = action === 'create'
+        ? `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events`
+        : `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+      const response = await fetch(url, {
+        method: expected,
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          summary: title,
+          description,
+          start: { dateTime: startTime },
+          end: { dateTime: endTime },
+          // Restores an event that was deleted in Google, if it is being written again
+          ...(action === 'update' ? { status: 'confirmed' } : {}),
+          ...(key ? { extendedProperties: { private: { looopsKey: key } } } : {}),
+        }),
+      });
+      if (!response.ok) {
+        if (response.status === 404 || response.status === 410) {
+          return res.json({ source: 'google', data: null, missing: true });
+        }
+        return writeFailure(res, response);
+      }
+      const event = await response.json();
+      return res.json({ source: 'google', data: toLooopsEvent(event) });
+    } catch (error) {
+      console.error(`Calendar ${action} error:`, error);
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : `Failed to ${action} event`,
+        source: 'local',
+      });
+    }
+  }
+
+  if (action === 'delete') {
+    if (req.method !== 'DELETE') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+    const calendarId = req.query.calendarId as string;
+    const eventId = req.query.eventId as string;
+    if (!calendarId || !eventId) {
+      return res.status(400).json({ error: 'calendarId and eventId are required' });
+    }
+    try {
+      const response = await fetch(
+        `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+        { method: 'DELETE', headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+      // Already gone counts as deleted
+      if (!response.ok && response.status !== 404 && response.status !== 410) {
+        return writeFailure(res, response);
+      }
+      return res.json({ source: 'google', data: { id: eventId, deleted: true } });
+    } catch (error) {
+      console.error('Calendar delete error:', error);
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to delete event',
+        source: 'local',
+      });
+    }
+  }
+
   res.status(400).json({ error: 'Unknown action' });
 }
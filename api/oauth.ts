@@ -48,7 +48,11 @@ function handleAuth(req: VercelRequest, res: VercelResponse, provider: string) {
       const service = provider === 'google_sheets' ? 'sheets' : 'calendar';
       const scopes = service === 'sheets'
         ? ['https://www.googleapis.com/auth/spreadsheets.readonly']
-        : ['https://www.googleapis.com/auth/calendar.readonly'];
+        : [
+            'https://www.googleapis.com/auth/calendar.readonly',
+            // Write access only to calendars Looops creates - planned blocks go on its own calendar
+            'https://www.googleapis.com/auth/calendar.app.created',
+          ];
 
       const state = Buffer.from(JSON.stringify({
         csrf: Math.random().toString(36).substring(7),
@@ -88,7 +92,7 @@ function handleAuth(req: VercelRequest, res: VercelResponse, provider: string) {
         return res.status(500).json({ error: 'Todoist not configured' });
       }
       const state = Math.random().toString(36).substring(7);
-      const scopes = 'data:read';
+      const scopes = 'data:read_write,data:delete'; // Task changes made in Looops are written back
       const authUrl = `https://todoist.com/oauth/authorize?` +
         `client_id=${TODOIST_CLIENT_ID}&` +
         `scope=${scopes}&` +
@@ -0,0 +1,157 @@
+// Todoist task write endpoint - what the app's outbox sends
+// POST /api/todoist/tasks                        create
+// PUT /api/todoist/tasks?id=...                  update
+// POST /api/todoist/tasks?id=...&action=complete close (action=reopen to reopen)
+// DELETE /api/todoist/tasks?id=...               delete
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const TODOIST_API = 'https://api.todoist.com/rest/v2';
+
+// Task fields as the app sends them (see looopsToTodoistTask)
+interface TaskInput {
+  title?: string;
+  description?: string;
+  labels?: string[];
+  priority?: number;
+  dueDate?: string | null;
+  rrule?: string | null;
+  loop?: string;
+}
+
+function toTodoistBody(input: TaskInput, isUpdate: boolean): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (input.title !== undefined) body.content = input.title;
+  if (input.description !== undefined) body.description = input.description;
+  if (input.priority !== undefined) body.priority = input.priority;
+
+  // Sync reads the loop back from labels, so make sure the task carries one
+  if (input.labels !== undefined || input.loop) {
+    const labels = [...(input.labels || [])];
+    if (input.loop && !labels.some((label) => label.toLowerCase() === input.loop!.toLowerCase())) {
+      labels.push(input.loop.toLowerCase());
+    }
+    body.labels = labels;
+  }
+
+  // The REST API only takes recurrence as a natural-language due string, so the RRULE stays
+  // local - and on an update, a due_date would end a recurring task's series
+  if (!(isUpdate && input.rrule)) {
+    if (input.dueDate) body.due_date = input.dueDate;
+    else if (input.dueDate === null) body.due_string = 'no date';
+  }
+
+  return body;
+}
+
+function toTask(task: any) {
+  return {
+    id: task.id,
+    todoistId: task.id,
+    title: task.content,
+    description: task.description || '',
+    labels: task.labels || [],
+    projectId: task.project_id,
+    sectionId: task.section_id,
+    parentId: task.parent_id,
+    priority: task.priority,
+    dueDate: task.due?.date || null,
+    dueString: task.due?.string || null,
+    isRecurring: task.due?.is_recurring || false,
+    url: task.url,
+    order: task.order,
+    createdAt: task.created_at,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Get access token from Authorization header
+  const authHeader = req.headers.authorization;
+  const accessToken = authHeader?.replace('Bearer ', '');
+
+  if (!accessToken) {
+    return res.status(401).json({
+      source: 'local',
+      data: null,
+      message: 'No Todoist access token provided. Connect Todoist first.',
+    });
+  }
+
+  const id = req.query.id as string | undefined;
+  const action = req.query.action as string | undefined;
+  const taskUrl = id ? `${TODOIST_API}/tasks/${encodeURIComponent(id)}` : null;
+
+  let request: { url: string; method: string; body?: Record<string, unknown> } | null = null;
+  if (req.method === 'POST' && !taskUrl) {
+    request = { url: `${TODOIST_API}/tasks`, method: 'POST', body: toTodoistBody(req.body || {}, false) };
+  } else if (req.method === 'PUT' && taskUrl) {
+    request = { url: taskUrl, method: 'POST', body: toTodoistBody(req.body || {}, true) };
+  } else if (req.method === 'POST' && taskUrl && action === 'complete') {
+    request = { url: `${taskUrl}/close`, method: 'POST' };
+  } else if (req.method === 'POST' && taskUrl && action === 'reopen') {
+    request = { url: `${taskUrl}/reopen`, method: 'POST' };
+  } else if (req.method === 'DELETE' && taskUrl) {
+    request = { url: taskUrl, method: 'DELETE' };
+  }
+
+  if (!request) {
+    return res.status(400).json({ source: 'error', data: null, message: 'Unknown task request' });
+  }
+
+  try {
+    const todoistRes = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        ...(request.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: request.body ? JSON.stringify(request.body) : undefined,
+    });
+
+    // Check if token is expired
+    if (todoistRes.status === 401 || todoistRes.status === 403) {
+      return res.status(401).json({
+        source: 'error',
+        data: null,
+        message: 'Todoist token expired. Please reconnect.',
+        needsReauth: true,
+      });
+    }
+
+    // Already gone in Todoist - the delete has nothing left to do
+    if (todoistRes.status === 404 && request.method === 'DELETE') {
+      return res.status(200).json({ source: 'todoist', data: { success: true } });
+    }
+
+    if (!todoistRes.ok) {
+      const errorText = await todoistRes.text();
+      console.error('Todoist API error:', todoistRes.status, errorText);
+      return res.status(todoistRes.status >= 500 ? 502 : todoistRes.status).json({
+        source: 'error',
+        data: null,
+        message: 'Todoist rejected the task change',
+      });
+    }
+
+    // Create and update answer with the task; close, reopen and delete with 204
+    if (request.body) {
+      return res.status(200).json({ source: 'todoist', data: toTask(await todoistRes.json()) });
+    }
+    return res.status(200).json({ source: 'todoist', data: { success: true } });
+  } catch (error) {
+    console.error('Todoist task write error:', error);
+    return res.status(500).json({
+      source: 'error',
+      data: null,
+      message: 'Failed to reach Todoist',
+    });
+  }
+}
@@ -0,0 +1,20 @@
+// Imported into the generated service worker (see vite.config.ts workbox.importScripts).
+// Tapping a reminder focuses an open Looops window and tells it what to open,
+// or opens a new window on the notification's deep link.
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const url = data.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((w) => 'focus' in w);
+      if (client) {
+        client.postMessage({ type: 'looops-notification-click', target: data.target });
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
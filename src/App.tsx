@@ -17,11 +17,13 @@ import {
   useHabits,
   FirebaseSyncProvider,
   useSyncStatus,
+  getConditionContext,
 } from "./context";
 import {
   TabId,
   Task,
   LoopId,
+  ParsedTaskInput,
   ALL_LOOPS,
   LOOP_DEFINITIONS,
   LOOP_COLORS,
@@ -32,10 +34,18 @@ import {
   sortTasksByStatePriority,
 } from "./types";
 import { Sidebar } from "./components/layout";
-import { LoopsVisualization, LoopsListView } from "./components/loops";
-import { TodaysStack, CalendarView, QuickAddModal } from "./components/today";
+import {
+  LoopsVisualization,
+  LoopsListView,
+  LoopTriggersEditor,
+  CascadeSuggestions,
+  CascadeRuleEditor,
+  CascadePreviewModal,
+  StateAdvisor,
+} from "./components/loops";
+import { TodaysStack, CalendarView, QuickAddModal, TodayCapacity, TimeBlockPlan } from "./components/today";
 import { OnboardingFlow, OnboardingData } from "./components/onboarding";
-import { StateSelector } from "./components/common";
+import { StateSelector, SyncConflictLog, UndoToast, BackupRestore, EncryptionSettings, ReminderSettings, LoopModelSettings } from "./components/common";
 import { AnnualGoalsWizard, GoalsDashboard, GoalBreakdownWizard } from "./components/goals";
 import { getNextTimeframe } from "./types/goals";
 import { TaskDetailModal } from "./components/tasks";
@@ -47,7 +57,7 @@ import { GoodTimesWidget } from "./components/dashboard/GoodTimesWidget";
 import { SpotifyWidget } from "./components/dashboard/SpotifyWidget";
 import { MediaWidget } from "./components/dashboard/MediaWidget";
 import { CalendarWidget as GoogleCalendarWidget } from "./components/dashboard/CalendarWidget";
-import { HistoryScreen } from "./components/history";
+import { HistoryScreen, TimeReport } from "./components/history";
 import { WeeklyPlanning, SmartScheduler } from "./components/planning";
 import { QuickActionsFAB } from "./components/common/QuickActionsFAB";
 import { IntegrationsScreen } from "./components/integrations";
@@ -61,6 +71,7 @@ import { SphereDemoPage } from "./pages/sphere-demo";
 import { Routes, Route } from "react-router-dom";
 import { BabysitterPortal } from "./components/babysitter";
 import { DecisionCoachPortal } from "./components/decisions/DecisionCoachPortal";
+import { STORAGE_KEYS } from "./storage";
 
 // Mock data for previewing completed directional document
 const MOCK_DIRECTIONAL_DOCUMENT: DirectionalDocument = {
@@ -209,12 +220,22 @@ const MOCK_DIRECTIONAL_DOCUMENT: DirectionalDocument = {
 };
 import { LoginScreen } from "./components/auth";
 import { useFirebaseAuth } from "./hooks/useFirebaseAuth";
+import { useUndoShortcuts } from "./hooks/useUndoShortcuts";
+import { useOutbox } from "./hooks/useOutbox";
+import { useLoopTriggers } from "./hooks/useLoopTriggers";
+import { useWeeklyPlan } from "./hooks/useWeeklyPlan";
+import { useReminderScheduler } from "./hooks/useReminderScheduler";
+import { useCalendarWriteBack } from "./hooks/useCalendarWriteBack";
 import { generatePrototype, getArchetypeGreeting, frameTasks } from "./engines";
 import { getInspirationsByIds } from "./data/inspirations";
 import { generateStarterContent, ChallengeId, LifeSeasonId, TransitionId } from "./engines/starterContentEngine";
 import { SystemTemplate } from "./types/systems";
-import { Goal, LoopStateType } from "./types";
+import { Goal, LoopStateType, NotificationTarget } from "./types";
 import { getStateDisplayName, getStateColor } from "./engines/stateEngine";
+import { getBlockedStates } from "./engines/cascadeEngine";
+import { simulateCascade, hasCascadeImpact } from "./engines/cascadeSimulator";
+import { getTodayStackTasks, getCapacityAdjustments, checkStackAddition } from "./engines/capacityEngine";
+import { indexTasks, isTaskBlocked } from "./engines/dependencyEngine";
 import {
   DEMO_TASKS,
   DEMO_HABITS,
@@ -261,6 +282,15 @@ function AppContent() {
   // For demo mode, data is loaded immediately. For authenticated mode, wait for Firebase initial load.
   const isFirebaseDataLoaded = authMode === 'demo' || (authMode === 'authenticated' && syncStatus.isInitialLoadComplete);
 
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo app-level changes
+  useUndoShortcuts();
+
+  // Evaluate loop state triggers once data is loaded
+  useLoopTriggers(isFirebaseDataLoaded);
+
+  // Switch loop states to the weekly plan when a planned day starts
+  useWeeklyPlan(isFirebaseDataLoaded);
+
   // Check for skip param immediately
   const skipOnboarding = new URLSearchParams(window.location.search).get('skip') === '1';
   const [showOnboarding, setShowOnboarding] = useState(false);
@@ -269,8 +299,10 @@ function AppContent() {
   const [viewMode, setViewMode] = useState<"visual" | "kanban" | "list">("visual");
   const [showGoalsWizard, setShowGoalsWizard] = useState(false);
   const [showDirectionalWizard, setShowDirectionalWizard] = useState(false);
-  const [planningView, setPlanningView] = useState<"states" | "goals" | "weekly" | "directions" | "scheduler" | "history">("goals");
-  const [todayViewMode, setTodayViewMode] = useState<"stack" | "calendar">("stack");
+  const [planningView, setPlanningView] = useState<"states" | "goals" | "weekly" | "directions" | "scheduler" | "history" | "time" | "cascades">("goals");
+  const [triggersLoop, setTriggersLoop] = useState<LoopId | null>(null);
+  const [pendingStateChange, setPendingStateChange] = useState<{ loopId: LoopId; state: LoopStateType } | null>(null);
+  const [todayViewMode, setTodayViewMode] = useState<"stack" | "plan" | "calendar">("stack");
   const [todayFilter, setTodayFilter] = useState<LoopId | "all">("all");
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [quickAddDate, setQuickAddDate] = useState<string | null>(null);
@@ -278,9 +310,33 @@ function AppContent() {
   const [showBreakdownWizard, setShowBreakdownWizard] = useState(false);
   const [selectedLoopDashboard, setSelectedLoopDashboard] = useState<LoopId | null>(null);
   const [activeRoutineForModal, setActiveRoutineForModal] = useState<typeof routines.items[0] | null>(null);
+
+  // Open what a tapped reminder notification is about
+  const handleNotificationTarget = (target: NotificationTarget) => {
+    switch (target.kind) {
+      case "task":
+        dispatch({ type: "OPEN_MODAL", payload: { modal: "taskDetail", value: target.id } });
+        break;
+      case "routine": {
+        dispatch({ type: "SET_ACTIVE_TAB", payload: "routines" });
+        const routine = routines.items.find((r) => r.id === target.id);
+        if (routine) setActiveRoutineForModal(routine);
+        break;
+      }
+      case "specialDate":
+      case "babysitter":
+        // Both live on the Family dashboard
+        dispatch({ type: "SET_ACTIVE_TAB", payload: "loops" });
+        setSelectedLoopDashboard("Family");
+        break;
+    }
+  };
+
+  // Fire reminder notifications once data is loaded
+  useReminderScheduler(isFirebaseDataLoaded, handleNotificationTarget);
   const [theme, setTheme] = useState<"dark" | "light">(() => {
     // Check localStorage for saved preference
-    const saved = localStorage.getItem("looops-theme");
+    const saved = localStorage.getItem(STORAGE_KEYS.THEME);
     return (saved as "dark" | "light") || "dark";
   });
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -289,7 +345,7 @@ function AppContent() {
   const [showSystemSuggestions, setShowSystemSuggestions] = useState(false);
   const [welcomeMessage, setWelcomeMessage] = useState<string>("");
   const [todayWidgets, setTodayWidgets] = useState<WidgetConfig[]>(() => {
-    const saved = localStorage.getItem("looops-today-widgets");
+    const saved = localStorage.getItem(STORAGE_KEYS.TODAY_WIDGETS);
     if (saved) {
       try {
         return JSON.parse(saved);
@@ -305,13 +361,13 @@ function AppContent() {
 
   // Save today widgets to localStorage
   useEffect(() => {
-    localStorage.setItem("looops-today-widgets", JSON.stringify(todayWidgets));
+    localStorage.setItem(STORAGE_KEYS.TODAY_WIDGETS, JSON.stringify(todayWidgets));
   }, [todayWidgets]);
 
   // Apply theme to document
   useEffect(() => {
     document.documentElement.setAttribute("data-theme", theme);
-    localStorage.setItem("looops-theme", theme);
+    localStorage.setItem(STORAGE_KEYS.THEME, theme);
   }, [theme]);
 
   // Toggle theme
@@ -421,11 +477,11 @@ function AppContent() {
     if (params.get("reset-dashboards") === "1") {
       // Clear dashboards from localStorage to get fresh defaults
       try {
-        const saved = localStorage.getItem("looops_app_state");
+        const saved = localStorage.getItem(STORAGE_KEYS.APP_STATE);
         if (saved) {
           const state = JSON.parse(saved);
           delete state.dashboards;
-          localStorage.setItem("looops_app_state", JSON.stringify(state));
+          localStorage.setItem(STORAGE_KEYS.APP_STATE, JSON.stringify(state));
         }
       } catch (e) {
         console.error("Failed to reset dashboards:", e);
@@ -513,34 +569,58 @@ function AppContent() {
     return states;
   }, [loops.states]);
 
-  // Get today's tasks with archetype framing and state-based prioritization
-  const todaysTasks = useMemo(() => {
-    const today = new Date().toISOString().split("T")[0];
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = tomorrow.toISOString().split("T")[0];
+  // States each loop can't enter right now because of cascade rules
+  const blockedStates = useMemo(
+    () => getBlockedStates(loops.cascadeRules, getConditionContext(state)),
+    [state]
+  );
 
-    let filtered = (tasks?.items || []).filter((t) => {
-      // Skip completed, dropped, or someday tasks
-      if (t.status === "done" || t.status === "dropped" || t.priority === 0) return false;
+  // Cascade capacity adjustments per loop, for today's capacity checks
+  const capacityAdjustments = useMemo(
+    () => getCapacityAdjustments(loops.cascadeRules, getConditionContext(state)),
+    [state]
+  );
 
-      // For recurring tasks, only show if due today or tomorrow (day before)
-      if (t.recurrence && t.dueDate) {
-        return t.dueDate === today || t.dueDate === tomorrowStr;
-      }
+  // Everything on today's stack - due, overdue, or added explicitly
+  const todayStackTasks = useMemo(
+    () => getTodayStackTasks(tasks?.items || [], tasks.todayStack || [], new Date().toISOString().split("T")[0]),
+    [tasks.items, tasks.todayStack]
+  );
 
-      // For non-recurring tasks, show if due today or overdue
-      return t.dueDate === today || (t.dueDate && t.dueDate < today);
-    });
+  // Write today's plan and timed routines to the Looops Google calendar once data is loaded
+  useCalendarWriteBack(isFirebaseDataLoaded, capacityAdjustments);
+
+  // Get today's tasks with archetype framing and state-based prioritization
+  const todaysTasks = useMemo(() => {
+    let filtered = todayStackTasks;
 
     // Apply archetype framing if prototype exists
     if (user.prototype?.archetypeBlend?.primary) {
       filtered = frameTasks(filtered, user.prototype.archetypeBlend.primary);
     }
 
-    // Sort by state-adjusted priority (considers loop states) and take top 5
-    return sortTasksByStatePriority(filtered, loops.states).slice(0, 5);
-  }, [tasks.items, user.prototype, loops.states]);
+    // Sort by state-adjusted priority (considers loop states) - capacity is shown alongside
+    return sortTasksByStatePriority(filtered, loops.states);
+  }, [todayStackTasks, user.prototype, loops.states]);
+
+  // Confirm before a task pushes a loop past its max or the day past its energy budget
+  const confirmStackAddition = (task: Task): boolean => {
+    const warnings = checkStackAddition(todayStackTasks, task, loops.states, capacityAdjustments);
+    if (warnings.length === 0) return true;
+    return window.confirm(`${warnings.map((w) => w.message).join("\n")}\n\nAdd it to today anyway?`);
+  };
+
+  const handleAddToToday = (task: Task) => {
+    if (confirmStackAddition(task)) {
+      dispatch({ type: "ADD_TO_TODAY_STACK", payload: task.id });
+    }
+  };
+
+  const handleDeferTasks = (taskIds: string[]) => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    dispatch({ type: "DEFER_TASKS", payload: { taskIds, date: tomorrow.toISOString().split("T")[0] } });
+  };
 
   // Handle onboarding completion
   const handleOnboardingComplete = (data: OnboardingData) => {
@@ -614,20 +694,27 @@ function AppContent() {
   // Handle task skip
   const handleSkipTask = (taskId: string) => {
     // Move to tomorrow
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const task = tasks.items.find((t) => t.id === taskId);
-    if (task) {
-      dispatch({
-        type: "UPDATE_TASK",
-        payload: { ...task, dueDate: tomorrow.toISOString().split("T")[0] },
-      });
-    }
+    handleDeferTasks([taskId]);
   };
 
   // Handle loop state change
-  const handleLoopStateChange = (loopId: LoopId, state: any) => {
-    dispatch({ type: "SET_LOOP_STATE", payload: { loopId, state } });
+  // Preview the cascade first when the change would ripple into other loops
+  const handleLoopStateChange = (loopId: LoopId, newState: LoopStateType) => {
+    const simulation = simulateCascade(loops.cascadeRules, getConditionContext(state), loopId, newState);
+    if (hasCascadeImpact(simulation)) {
+      setPendingStateChange({ loopId, state: newState });
+      return;
+    }
+    dispatch({ type: "SET_LOOP_STATE", payload: { loopId, state: newState } });
+  };
+
+  const handleConfirmStateChange = (adjustments: { loopId: LoopId; state: LoopStateType }[]) => {
+    if (!pendingStateChange) return;
+    dispatch({ type: "SET_LOOP_STATE", payload: pendingStateChange });
+    adjustments.forEach((adjustment) => {
+      dispatch({ type: "SET_LOOP_STATE", payload: adjustment });
+    });
+    setPendingStateChange(null);
   };
 
   // Render widget for Today page
@@ -690,18 +777,30 @@ function AppContent() {
         };
 
         // Handle quick add submit
-        const handleQuickAddSubmit = (title: string, loopId: LoopId) => {
-          if (title.trim()) {
+        const handleQuickAddSubmit = (parsed: ParsedTaskInput, loopId: LoopId) => {
+          if (parsed.title.trim()) {
             const newTask: Task = {
               id: `task_${Date.now()}`,
-              title: title.trim(),
+              title: parsed.title.trim(),
               loop: loopId,
-              priority: 3,
+              subLoop: parsed.subLoop,
+              projectId: parsed.projectId,
+              priority: parsed.priority ?? 3,
               status: "todo",
               order: tasks.items.length,
-              dueDate: quickAddDate || new Date().toISOString().split("T")[0],
+              dueDate: parsed.dueDate || quickAddDate || new Date().toISOString().split("T")[0],
+              dueTime: parsed.dueTime,
+              recurrence: parsed.recurrence,
+              estimateMinutes: parsed.estimateMinutes,
+              labels: parsed.labels,
+              constraints: parsed.constraints,
+              source: parsed.recurrence ? "recurring" : undefined,
               createdAt: new Date().toISOString(),
             };
+            // Keep the modal open if the user backs out of an over-capacity day
+            if (newTask.dueDate === new Date().toISOString().split("T")[0] && !confirmStackAddition(newTask)) {
+              return;
+            }
             dispatch({ type: "ADD_TASK", payload: newTask });
           }
           setShowQuickAdd(false);
@@ -737,6 +836,15 @@ function AppContent() {
                       <path d="M4 6h16v2H4V6zm0 5h16v2H4v-2zm0 5h16v2H4v-2z" />
                     </svg>
                   </button>
+                  <button
+                    className={`view-toggle-btn ${todayViewMode === "plan" ? "active" : ""}`}
+                    onClick={() => setTodayViewMode("plan")}
+                    title="Time-Blocked Plan"
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18">
+                      <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
+                    </svg>
+                  </button>
                   <button
                     className={`view-toggle-btn ${todayViewMode === "calendar" ? "active" : ""}`}
                     onClick={() => setTodayViewMode("calendar")}
@@ -775,6 +883,9 @@ function AppContent() {
               </div>
             </div>
 
+            <CascadeSuggestions />
+            <StateAdvisor />
+
             {todayViewMode === "stack" ? (
               <div className="today-content">
                 <div className="today-main">
@@ -802,6 +913,13 @@ function AppContent() {
                 </div>
 
                 <div className="today-sidebar">
+                  <TodayCapacity
+                    tasks={todayStackTasks}
+                    loopStates={loops.states}
+                    capacityAdjustments={capacityAdjustments}
+                    onDefer={handleDeferTasks}
+                  />
+
                   <div className="loop-states-summary">
                     <h3>Loop States</h3>
                     <div className="loop-states-list">
@@ -881,6 +999,16 @@ function AppContent() {
                   </div>
                 </div>
               </div>
+            ) : todayViewMode === "plan" ? (
+              <div className="today-content">
+                <div className="today-main">
+                  <TimeBlockPlan
+                    tasks={todayStackTasks}
+                    capacityAdjustments={capacityAdjustments}
+                    onSelectTask={(id) => dispatch({ type: "OPEN_MODAL", payload: { modal: "taskDetail", value: id } })}
+                  />
+                </div>
+              </div>
             ) : (
               <CalendarView
                 tasks={todayFilter === "all" ? (tasks?.items || []) : (tasks?.items || []).filter((t) => t.loop === todayFilter)}
@@ -898,6 +1026,8 @@ function AppContent() {
             {showQuickAdd && (
               <QuickAddModal
                 date={quickAddDate || new Date().toISOString().split("T")[0]}
+                projects={projects}
+                taskHistory={tasks.items}
                 onSubmit={handleQuickAddSubmit}
                 onClose={() => {
                   setShowQuickAdd(false);
@@ -1133,6 +1263,9 @@ function AppContent() {
                 onUncompleteTask={(taskId) => dispatch({ type: "UNCOMPLETE_TASK", payload: taskId })}
                 onOpenLoopDashboard={(loopId) => setSelectedLoopDashboard(loopId)}
                 onOpenTaskDetail={(taskId) => dispatch({ type: "OPEN_MODAL", payload: { modal: "taskDetail", value: taskId } })}
+                onBulkUpdateTasks={(taskIds, changes) => dispatch({ type: "BULK_UPDATE_TASKS", payload: { taskIds, changes } })}
+                onBulkCompleteTasks={(taskIds) => dispatch({ type: "BULK_COMPLETE_TASKS", payload: taskIds })}
+                onBulkDeleteTasks={(taskIds) => dispatch({ type: "BULK_DELETE_TASKS", payload: taskIds })}
               />
             ) : viewMode === "visual" ? (
               <>
@@ -1238,6 +1371,7 @@ function AppContent() {
                           onStateChange={(newState) =>
                             handleLoopStateChange(loopId, newState)
                           }
+                          blockedStates={blockedStates[loopId]}
                         />
                       </div>
 
@@ -1331,12 +1465,24 @@ function AppContent() {
                 >
                   Smart Schedule
                 </button>
+                <button
+                  className={`planning-view-btn ${planningView === "cascades" ? "active" : ""}`}
+                  onClick={() => setPlanningView("cascades")}
+                >
+                  Cascade Rules
+                </button>
                 <button
                   className={`planning-view-btn ${planningView === "history" ? "active" : ""}`}
                   onClick={() => setPlanningView("history")}
                 >
                   History
                 </button>
+                <button
+                  className={`planning-view-btn ${planningView === "time" ? "active" : ""}`}
+                  onClick={() => setPlanningView("time")}
+                >
+                  Time Report
+                </button>
               </div>
             </div>
 
@@ -1369,36 +1515,61 @@ function AppContent() {
                   Set your loop states for the week ahead. This is your Sunday ritual.
                 </p>
 
+                <CascadeSuggestions />
+                <StateAdvisor />
+
                 <div className="weekly-planning">
                   {ALL_LOOPS.map((loopId) => {
                     const loop = LOOP_DEFINITIONS[loopId];
                     const loopState = loops.states[loopId];
                     const loopStateValue = loopState?.currentState || "MAINTAIN";
 
+                    const triggerCount = loopState?.triggers?.length ?? 0;
+
                     return (
-                      <div key={loopId} className="planning-loop-row">
-                        <div className="planning-loop-info">
-                          <span className="planning-loop-icon">{loop.icon}</span>
-                          <div>
-                            <strong>{loop.name}</strong>
-                            <span>{loop.description}</span>
+                      <React.Fragment key={loopId}>
+                        <div className="planning-loop-row">
+                          <div className="planning-loop-info">
+                            <span className="planning-loop-icon">{loop.icon}</span>
+                            <div>
+                              <strong>{loop.name}</strong>
+                              <span>{loop.description}</span>
+                            </div>
                           </div>
+                          <StateSelector
+                            currentState={loopStateValue}
+                            onStateChange={(newState) =>
+                              handleLoopStateChange(loopId, newState)
+                            }
+                            blockedStates={blockedStates[loopId]}
+                          />
+                          <button
+                            className={`planning-loop-triggers-btn ${triggersLoop === loopId ? "active" : ""}`}
+                            onClick={() => setTriggersLoop(triggersLoop === loopId ? null : loopId)}
+                          >
+                            Triggers{triggerCount > 0 ? ` (${triggerCount})` : ""}
+                          </button>
                         </div>
-                        <StateSelector
-                          currentState={loopStateValue}
-                          onStateChange={(newState) =>
-                            handleLoopStateChange(loopId, newState)
-                          }
-                        />
-                      </div>
+                        {triggersLoop === loopId && <LoopTriggersEditor loopId={loopId} />}
+                      </React.Fragment>
                     );
                   })}
                 </div>
               </>
             ) : planningView === "scheduler" ? (
               <SmartScheduler />
+            ) : planningView === "cascades" ? (
+              <CascadeRuleEditor />
             ) : planningView === "history" ? (
-              <HistoryScreen tasks={tasks.items} />
+              <HistoryScreen tasks={tasks.items} loopStates={loops.states} />
+            ) : planningView === "time" ? (
+              <TimeReport
+                tasks={tasks.items}
+                sessions={state.timerSessions}
+                projects={projects}
+                labels={labels}
+                loopStates={loops.states}
+              />
             ) : (
               /* Directions View */
               <div className="directions-view">
@@ -1964,6 +2135,38 @@ function AppContent() {
               <IntegrationsScreen embedded />
             </div>
 
+            <div className="profile-section">
+              <h3>Backup & Restore</h3>
+              <p className="section-description">Download all your data as a file, or restore everything or selected sections from one</p>
+              <BackupRestore />
+            </div>
+
+            {authMode === 'authenticated' && (
+              <div className="profile-section">
+                <h3>Cloud Encryption</h3>
+                <EncryptionSettings />
+              </div>
+            )}
+
+            {authMode === 'authenticated' && (
+              <div className="profile-section">
+                <h3>Sync Conflicts</h3>
+                <p className="section-description">Edits made on two devices at once, and how they were merged</p>
+                <SyncConflictLog conflicts={syncStatus.conflicts} onClear={syncStatus.clearConflicts} />
+              </div>
+            )}
+
+            <div className="profile-section">
+              <h3>Reminders</h3>
+              <ReminderSettings />
+            </div>
+
+            <div className="profile-section">
+              <h3>Loop Prediction</h3>
+              <p className="section-description">How new tasks get their suggested loop, learned from the loops you pick</p>
+              <LoopModelSettings />
+            </div>
+
             <div className="profile-section">
               <h3>Appearance</h3>
               <div className="appearance-settings">
@@ -2093,6 +2296,19 @@ function AppContent() {
 
       <main className="app-main">{renderScreen()}</main>
 
+      {/* Undo toast for deletes, resets and bulk edits */}
+      <UndoToast />
+
+      {/* "What happens if…" preview for loop state changes that cascade */}
+      {pendingStateChange && (
+        <CascadePreviewModal
+          loopId={pendingStateChange.loopId}
+          state={pendingStateChange.state}
+          onConfirm={handleConfirmStateChange}
+          onCancel={() => setPendingStateChange(null)}
+        />
+      )}
+
       {/* Floating action button for quick actions */}
       <QuickActionsFAB
         onStartRoutine={(routineId) => {
@@ -2306,6 +2522,12 @@ function AppContent() {
             onSave={(task) => dispatch({ type: "UPDATE_TASK", payload: task })}
             onDelete={(taskId) => dispatch({ type: "DELETE_TASK", payload: taskId })}
             onClose={() => dispatch({ type: "CLOSE_MODAL", payload: "taskDetail" })}
+            onAddToToday={
+              todayStackTasks.some((t) => t.id === selectedTask.id) || isTaskBlocked(selectedTask, indexTasks(tasks.items))
+                ? undefined
+                : () => handleAddToToday(selectedTask)
+            }
+            allTasks={tasks.items}
             onAddSubtask={(parentId, title) => {
               const newTask = {
                 id: `task_${Date.now()}`,
@@ -2348,10 +2570,31 @@ function AppContent() {
   );
 }
 
-// Sync status indicator component - simplified, sync happens silently
+// Sync status indicator - cloud sync happens silently, but queued integration writes are shown
 function SyncStatusIndicator() {
-  // Sync runs in background, no UI needed
-  return null;
+  const { pending, failed, isOnline, isReplaying, retryNow, discardFailed } = useOutbox();
+
+  if (pending.length === 0 && failed.length === 0) return null;
+
+  const label = failed.length > 0
+    ? `${failed.length} change${failed.length === 1 ? "" : "s"} couldn't sync`
+    : `${pending.length} change${pending.length === 1 ? "" : "s"} pending sync`;
+
+  return (
+    <div
+      className={`sync-pending ${failed.length > 0 ? "sync-pending--failed" : ""}`}
+      title={failed[0]?.lastError || pending[0]?.lastError || undefined}
+    >
+      <span className={`sync-pending__dot ${isReplaying ? "sync-pending__dot--active" : ""}`} />
+      <span>{label}{!isOnline && " · offline"}</span>
+      {isOnline && !isReplaying && (
+        <button className="sync-pending__btn" onClick={retryNow}>Retry</button>
+      )}
+      {failed.length > 0 && (
+        <button className="sync-pending__btn" onClick={discardFailed}>Discard</button>
+      )}
+    </div>
+  );
 }
 
 // Main app wrapped with providers
@@ -0,0 +1,193 @@
+// Backup & restore - download everything as JSON, preview and restore a backup file
+
+import React, { useRef, useState } from "react";
+import { useApp } from "../../context";
+import {
+  BackupFile,
+  BackupDiffEntry,
+  createBackup,
+  downloadBackup,
+  parseBackup,
+  diffBackup,
+  getRestorePayload,
+  restoreBackupStorage,
+} from "../../storage/backup";
+
+const STATUS_LABELS: Record<BackupDiffEntry["status"], string> = {
+  added: "New",
+  changed: "Changed",
+  unchanged: "Same",
+  notInBackup: "Not in backup",
+};
+
+type RestoreResult = {
+  slices: number;
+  storageKeys: number;
+};
+
+export function BackupRestore() {
+  const { state, dispatch } = useApp();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [diff, setDiff] = useState<BackupDiffEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const handleDownload = () => {
+    downloadBackup(createBackup(state));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    const parsed = parseBackup(await file.text());
+    if ("error" in parsed) {
+      setError(parsed.error);
+      setBackup(null);
+      return;
+    }
+
+    const entries = diffBackup(state, parsed.backup);
+    setBackup(parsed.backup);
+    setDiff(entries);
+    // Everything that would actually change is selected by default
+    setSelected(new Set(
+      entries.filter((d) => d.status === "added" || d.status === "changed").map((d) => d.key)
+    ));
+  };
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const restorable = diff.filter((d) => d.status !== "notInBackup");
+
+  const handleRestore = () => {
+    if (!backup) return;
+    const slices = restorable.filter((d) => d.kind === "slice" && selected.has(d.key)).map((d) => d.key);
+    const storageKeys = restorable.filter((d) => d.kind === "storage" && selected.has(d.key)).map((d) => d.key);
+
+    if (slices.length > 0) {
+      dispatch({ type: "RESTORE_BACKUP", payload: getRestorePayload(backup, slices) });
+    }
+    restoreBackupStorage(backup, storageKeys);
+
+    setResult({ slices: slices.length, storageKeys: storageKeys.length });
+    setBackup(null);
+    setDiff([]);
+  };
+
+  const handleCancel = () => {
+    setBackup(null);
+    setDiff([]);
+    setError(null);
+  };
+
+  return (
+    <div className="backup-restore">
+      <div className="backup-restore__actions">
+        <button className="backup-restore__btn backup-restore__btn--primary" onClick={handleDownload}>
+          Download backup
+        </button>
+        <button className="backup-restore__btn" onClick={() => fileInputRef.current?.click()}>
+          Restore from file…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          hidden
+        />
+      </div>
+
+      {error && <p className="backup-restore__error">{error}</p>}
+
+      {result && (
+        <div className="backup-restore__result">
+          <span>
+            Restored {result.slices} section{result.slices === 1 ? "" : "s"}
+            {result.storageKeys > 0 && ` and ${result.storageKeys} widget data set${result.storageKeys === 1 ? "" : "s"}`}.
+          </span>
+          {result.storageKeys > 0 && (
+            <button className="backup-restore__btn" onClick={() => window.location.reload()}>
+              Reload to show widget data
+            </button>
+          )}
+        </div>
+      )}
+
+      {backup && (
+        <div className="backup-restore__preview">
+          <div className="backup-restore__preview-header">
+            <span>
+              Backup from {backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : "an unknown date"}
+            </span>
+            <div className="backup-restore__select">
+              <button onClick={() => setSelected(new Set(restorable.map((d) => d.key)))}>All</button>
+              <button onClick={() => setSelected(new Set())}>None</button>
+            </div>
+          </div>
+
+          <table className="backup-restore__table">
+            <thead>
+              <tr>
+                <th />
+                <th>Section</th>
+                <th>Current</th>
+                <th>Backup</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((entry) => (
+                <tr key={entry.key} className={`backup-restore__row backup-restore__row--${entry.status}`}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(entry.key)}
+                      disabled={entry.status === "notInBackup"}
+                      onChange={() => toggle(entry.key)}
+                    />
+                  </td>
+                  <td>{entry.label}</td>
+                  <td>{entry.current}</td>
+                  <td>{entry.backup}</td>
+                  <td>{STATUS_LABELS[entry.status]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="backup-restore__actions">
+            <button
+              className="backup-restore__btn backup-restore__btn--primary"
+              onClick={handleRestore}
+              disabled={selected.size === 0}
+            >
+              Restore {selected.size} selected
+            </button>
+            <button className="backup-restore__btn" onClick={handleCancel}>
+              Cancel
+            </button>
+          </div>
+          <p className="backup-restore__hint">
+            Selected sections replace what's here now. Ctrl+Z undoes an app data restore, but not widget data.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BackupRestore;
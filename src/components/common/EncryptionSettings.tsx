@@ -0,0 +1,238 @@
+// Encryption settings - passphrase setup, unlock, rotation for cloud encryption
+
+import React, { useEffect, useState } from "react";
+import { useSyncStatus } from "../../context";
+import {
+  EncryptionStatus,
+  getEncryptionStatus,
+  onEncryptionStatusChange,
+  enableEncryption,
+  unlockEncryption,
+  rotateEncryptionKey,
+  disableEncryption,
+  forgetEncryptionKey,
+} from "../../services/encryption";
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+type Mode = "idle" | "rotate" | "disable";
+
+const STATUS_TEXT: Record<EncryptionStatus, string> = {
+  disabled: "Off - sensitive data is stored in the cloud as plain text",
+  locked: "On - enter your passphrase to read encrypted data on this device",
+  unlocked: "On - sensitive data is encrypted before it leaves this device",
+};
+
+export function EncryptionSettings() {
+  const { userId, forceResync } = useSyncStatus();
+  const [status, setStatus] = useState<EncryptionStatus>(getEncryptionStatus);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [passphrase, setPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => onEncryptionStatusChange(setStatus), []);
+
+  const reset = () => {
+    setMode("idle");
+    setPassphrase("");
+    setNewPassphrase("");
+    setConfirmPassphrase("");
+    setError(null);
+  };
+
+  // Validate a new passphrase and its confirmation
+  const checkNewPassphrase = (value: string): boolean => {
+    if (value.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (value !== confirmPassphrase) {
+      setError("Passphrases don't match.");
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (action: () => Promise<boolean>, failure: string) => {
+    if (!userId) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (await action()) {
+        reset();
+      } else {
+        setError(failure);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !checkNewPassphrase(newPassphrase)) return;
+    run(async () => {
+      await enableEncryption(userId, newPassphrase);
+      forceResync();
+      return true;
+    }, "Couldn't turn on encryption.");
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    run(() => unlockEncryption(userId, passphrase), "That passphrase didn't work.");
+  };
+
+  const handleRotate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !checkNewPassphrase(newPassphrase)) return;
+    run(async () => {
+      const rotated = await rotateEncryptionKey(userId, passphrase, newPassphrase);
+      if (rotated) forceResync();
+      return rotated;
+    }, "Your current passphrase didn't work.");
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    run(async () => {
+      const disabled = await disableEncryption(userId, passphrase);
+      if (disabled) forceResync();
+      return disabled;
+    }, "That passphrase didn't work.");
+  };
+
+  if (!userId) {
+    return <p className="encryption-settings__note">Sign in to sync with the cloud before turning on encryption.</p>;
+  }
+
+  return (
+    <div className="encryption-settings">
+      <div className={`encryption-settings__status encryption-settings__status--${status}`}>
+        {STATUS_TEXT[status]}
+      </div>
+      <p className="encryption-settings__note">
+        Covers household info, babysitter portal passwords, bank connections and decision journals.
+        Your passphrase never leaves this device. If you forget it, the encrypted cloud copy can't be recovered.
+      </p>
+
+      {status === "disabled" && (
+        <form className="encryption-settings__form" onSubmit={handleEnable}>
+          <input
+            type="password"
+            placeholder="New passphrase"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <button type="submit" className="encryption-settings__btn encryption-settings__btn--primary" disabled={isWorking}>
+            Turn on encryption
+          </button>
+        </form>
+      )}
+
+      {status === "locked" && (
+        <form className="encryption-settings__form" onSubmit={handleUnlock}>
+          <input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+          />
+          <button type="submit" className="encryption-settings__btn encryption-settings__btn--primary" disabled={isWorking}>
+            Unlock
+          </button>
+        </form>
+      )}
+
+      {status === "unlocked" && mode === "idle" && (
+        <div className="encryption-settings__actions">
+          <button className="encryption-settings__btn" onClick={() => setMode("rotate")}>
+            Change passphrase
+          </button>
+          <button className="encryption-settings__btn" onClick={() => forgetEncryptionKey(userId)}>
+            Lock this device
+          </button>
+          <button className="encryption-settings__btn encryption-settings__btn--danger" onClick={() => setMode("disable")}>
+            Turn off
+          </button>
+        </div>
+      )}
+
+      {status === "unlocked" && mode === "rotate" && (
+        <form className="encryption-settings__form" onSubmit={handleRotate}>
+          <input
+            type="password"
+            placeholder="Current passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+          />
+          <input
+            type="password"
+            placeholder="New passphrase"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            placeholder="Confirm new passphrase"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <p className="encryption-settings__note">
+            Everything is re-encrypted with the new key. Your other devices will ask for the new passphrase.
+          </p>
+          <div className="encryption-settings__actions">
+            <button type="submit" className="encryption-settings__btn encryption-settings__btn--primary" disabled={isWorking}>
+              Change passphrase
+            </button>
+            <button type="button" className="encryption-settings__btn" onClick={reset}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status === "unlocked" && mode === "disable" && (
+        <form className="encryption-settings__form" onSubmit={handleDisable}>
+          <input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+          />
+          <div className="encryption-settings__actions">
+            <button type="submit" className="encryption-settings__btn encryption-settings__btn--danger" disabled={isWorking}>
+              Turn off encryption
+            </button>
+            <button type="button" className="encryption-settings__btn" onClick={reset}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isWorking && <p className="encryption-settings__note">Working…</p>}
+      {error && <p className="encryption-settings__error">{error}</p>}
+    </div>
+  );
+}
+
+export default EncryptionSettings;
@@ -0,0 +1,124 @@
+// Loop model settings - what the loop predictor has learned and how well it does on past tasks
+
+import { useState } from "react";
+import { useApp } from "../../context";
+import { ALL_LOOPS, LOOP_DEFINITIONS } from "../../types";
+import {
+  LoopPredictionEvaluation,
+  evaluateLoopPrediction,
+  getModelTrust,
+  MIN_TRAINING_DOCUMENTS,
+} from "../../engines";
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function LoopModelSettings() {
+  const { state, dispatch } = useApp();
+  const model = state.loopModel;
+  const [evaluation, setEvaluation] = useState<LoopPredictionEvaluation | null>(null);
+
+  const trust = getModelTrust(model);
+
+  const handleRebuild = () => {
+    if (!window.confirm("Rebuild the model from your current tasks? Corrections you've made will be forgotten.")) return;
+    dispatch({ type: "REBUILD_LOOP_MODEL" });
+    setEvaluation(null);
+  };
+
+  return (
+    <div className="loop-model-settings">
+      <div className="loop-model-settings__stats">
+        <div>
+          <span className="loop-model-settings__value">{model.documents}</span>
+          <span className="loop-model-settings__label">Titles learned</span>
+        </div>
+        <div>
+          <span className="loop-model-settings__value">{model.corrections}</span>
+          <span className="loop-model-settings__label">Corrections</span>
+        </div>
+        <div>
+          <span className="loop-model-settings__value">{model.vocabulary}</span>
+          <span className="loop-model-settings__label">Words</span>
+        </div>
+        <div>
+          <span className="loop-model-settings__value">{percent(trust)}</span>
+          <span className="loop-model-settings__label">Weight in suggestions</span>
+        </div>
+      </div>
+      <span className="setting-description">
+        {model.documents < MIN_TRAINING_DOCUMENTS
+          ? `Suggestions use keywords only until ${MIN_TRAINING_DOCUMENTS} tasks have been learned.`
+          : "Learns from every task you add and every time you change a suggested or saved loop. Stays on this account."}
+      </span>
+
+      <div className="loop-model-settings__actions">
+        <button onClick={() => setEvaluation(evaluateLoopPrediction(state.tasks.items))} disabled={state.tasks.items.length === 0}>
+          Test against my tasks
+        </button>
+        <button onClick={handleRebuild} disabled={state.tasks.items.length === 0}>
+          Rebuild from my tasks
+        </button>
+      </div>
+
+      {evaluation && (
+        <div className="loop-model-settings__evaluation">
+          <span className="setting-description">
+            Replayed {evaluation.tasks} tasks oldest first, predicting each from the ones before it.
+          </span>
+          <div className="loop-model-settings__stats">
+            <div>
+              <span className="loop-model-settings__value">{percent(evaluation.keywordAccuracy)}</span>
+              <span className="loop-model-settings__label">Keywords only</span>
+            </div>
+            <div>
+              <span className="loop-model-settings__value">{percent(evaluation.modelAccuracy)}</span>
+              <span className="loop-model-settings__label">Learned only</span>
+            </div>
+            <div>
+              <span className="loop-model-settings__value">{percent(evaluation.combinedAccuracy)}</span>
+              <span className="loop-model-settings__label">Combined</span>
+            </div>
+          </div>
+          <table className="loop-model-settings__table">
+            <thead>
+              <tr>
+                <th>Loop</th>
+                <th>Tasks</th>
+                <th title="Share of this loop's tasks that were predicted correctly">Found</th>
+                <th title="Share of predictions for this loop that were right">Right</th>
+                <th>Most often confused with</th>
+              </tr>
+            </thead>
+            <tbody>
+              {evaluation.rows
+                .filter((row) => row.tasks > 0 || row.predicted > 0)
+                .map((row) => {
+                  const confusedWith = ALL_LOOPS.filter((l) => l !== row.loop && evaluation.confusion[row.loop][l])
+                    .sort((a, b) => (evaluation.confusion[row.loop][b] ?? 0) - (evaluation.confusion[row.loop][a] ?? 0))[0];
+                  return (
+                    <tr key={row.loop}>
+                      <td>
+                        {LOOP_DEFINITIONS[row.loop].icon} {LOOP_DEFINITIONS[row.loop].name}
+                      </td>
+                      <td>{row.tasks}</td>
+                      <td>{row.tasks > 0 ? percent(row.correct / row.tasks) : "-"}</td>
+                      <td>{row.predicted > 0 ? percent(row.correct / row.predicted) : "-"}</td>
+                      <td>
+                        {confusedWith
+                          ? `${LOOP_DEFINITIONS[confusedWith].name} (${evaluation.confusion[row.loop][confusedWith]})`
+                          : "-"}
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LoopModelSettings;
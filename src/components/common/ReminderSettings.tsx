@@ -0,0 +1,261 @@
+// Reminder settings - notification permission, what to notify about, quiet hours and day types
+
+import { useMemo, useState } from "react";
+import { useApp } from "../../context";
+import {
+  QuietHours,
+  ReminderKind,
+  ReminderSettings as ReminderSettingsType,
+  REMINDER_KIND_LABELS,
+} from "../../types";
+import { DayType, DEFAULT_DAY_TYPE_CONFIGS, DayTypeConfig } from "../../types/dayTypes";
+import { scheduleNotifications } from "../../engines/reminderEngine";
+import {
+  NotificationPermissionState,
+  getNotificationPermission,
+  requestNotificationPermission,
+} from "../../services/notifications";
+
+const PREVIEW_HOURS = 48;
+
+const PERMISSION_TEXT: Record<NotificationPermissionState, string> = {
+  default: "This device hasn't been asked yet",
+  granted: "Allowed on this device",
+  denied: "Blocked on this device - allow notifications for this site in your browser settings",
+  unsupported: "This browser can't show notifications",
+};
+
+// How a day type treats notifications
+type DayTypeMode = "default" | "own" | "muted";
+
+export function ReminderSettings() {
+  const { state, dispatch } = useApp();
+  const { settings } = state.reminders;
+  const [permission, setPermission] = useState<NotificationPermissionState>(getNotificationPermission);
+
+  const update = (changes: Partial<ReminderSettingsType>) => {
+    dispatch({ type: "UPDATE_REMINDER_SETTINGS", payload: changes });
+  };
+
+  const dayTypes = useMemo<DayTypeConfig[]>(() => {
+    const configs = { ...DEFAULT_DAY_TYPE_CONFIGS, ...state.smartSchedule.dayTypeConfigs };
+    return [...Object.values(configs), ...state.smartSchedule.customDayTypes];
+  }, [state.smartSchedule.dayTypeConfigs, state.smartSchedule.customDayTypes]);
+
+  // What's coming up, so the settings can be checked at a glance
+  const upcoming = useMemo(() => {
+    const now = new Date();
+    return scheduleNotifications(
+      {
+        tasks: state.tasks.items,
+        reminders: state.reminders.items,
+        routines: state.routines.items,
+        specialDates: state.specialDates.dates,
+        babysitterSchedule: state.babysitterSchedule,
+        smartSchedule: state.smartSchedule,
+        settings,
+      },
+      now,
+      new Date(now.getTime() + PREVIEW_HOURS * 60 * 60 * 1000)
+    ).slice(0, 5);
+  }, [state.tasks.items, state.reminders.items, state.routines.items, state.specialDates.dates, state.babysitterSchedule, state.smartSchedule, settings]);
+
+  const handleToggleEnabled = async () => {
+    if (settings.enabled) {
+      update({ enabled: false });
+      return;
+    }
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === "granted") update({ enabled: true });
+  };
+
+  const getDayTypeMode = (dayType: DayType): DayTypeMode => {
+    if (settings.mutedDayTypes.includes(dayType)) return "muted";
+    return settings.dayTypeQuietHours[dayType] ? "own" : "default";
+  };
+
+  const setDayTypeMode = (dayType: DayType, mode: DayTypeMode) => {
+    const { [dayType]: _removed, ...otherQuietHours } = settings.dayTypeQuietHours;
+    const mutedDayTypes = settings.mutedDayTypes.filter((t) => t !== dayType);
+    update({
+      mutedDayTypes: mode === "muted" ? [...mutedDayTypes, dayType] : mutedDayTypes,
+      dayTypeQuietHours:
+        mode === "own"
+          ? { ...otherQuietHours, [dayType]: settings.quietHours ?? { start: "22:00", end: "07:00" } }
+          : otherQuietHours,
+    });
+  };
+
+  const setDayTypeQuietHours = (dayType: DayType, hours: QuietHours) => {
+    update({ dayTypeQuietHours: { ...settings.dayTypeQuietHours, [dayType]: hours } });
+  };
+
+  return (
+    <div className="reminder-settings">
+      <div className="setting-row">
+        <div className="setting-info">
+          <span className="setting-label">Notifications</span>
+          <span className="setting-description">{PERMISSION_TEXT[permission]}</span>
+        </div>
+        <button
+          className={`reminder-settings__toggle ${settings.enabled ? "reminder-settings__toggle--on" : ""}`}
+          onClick={handleToggleEnabled}
+          disabled={!settings.enabled && (permission === "denied" || permission === "unsupported")}
+        >
+          {settings.enabled ? "On" : "Off"}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="reminder-settings__group">
+            <span className="setting-label">Notify about</span>
+            {(Object.keys(REMINDER_KIND_LABELS) as ReminderKind[]).map((kind) => (
+              <label key={kind} className="reminder-settings__check">
+                <input
+                  type="checkbox"
+                  checked={settings.kinds[kind]}
+                  onChange={(e) => update({ kinds: { ...settings.kinds, [kind]: e.target.checked } })}
+                />
+                {REMINDER_KIND_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+
+          <div className="reminder-settings__group">
+            <span className="setting-label">Timing</span>
+            <label className="reminder-settings__field">
+              Tasks
+              <input
+                type="number"
+                min={0}
+                value={settings.taskLeadMinutes}
+                onChange={(e) => update({ taskLeadMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+              min before the due time
+            </label>
+            <label className="reminder-settings__field">
+              Routines
+              <input
+                type="number"
+                min={0}
+                value={settings.routineLeadMinutes}
+                onChange={(e) => update({ routineLeadMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+              min before the start time
+            </label>
+            <label className="reminder-settings__field">
+              Babysitter
+              <input
+                type="number"
+                min={0}
+                value={settings.babysitterLeadMinutes}
+                onChange={(e) => update({ babysitterLeadMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+              min before the booking
+            </label>
+            <label className="reminder-settings__field">
+              Special dates at
+              <input
+                type="time"
+                value={settings.specialDateTime}
+                onChange={(e) => e.target.value && update({ specialDateTime: e.target.value })}
+              />
+              on the day
+            </label>
+          </div>
+
+          <div className="reminder-settings__group">
+            <label className="reminder-settings__check">
+              <input
+                type="checkbox"
+                checked={!!settings.quietHours}
+                onChange={(e) => update({ quietHours: e.target.checked ? { start: "22:00", end: "07:00" } : null })}
+              />
+              <span className="setting-label">Quiet hours</span>
+            </label>
+            {settings.quietHours && (
+              <label className="reminder-settings__field">
+                From
+                <input
+                  type="time"
+                  value={settings.quietHours.start}
+                  onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours!, start: e.target.value } })}
+                />
+                to
+                <input
+                  type="time"
+                  value={settings.quietHours.end}
+                  onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours!, end: e.target.value } })}
+                />
+              </label>
+            )}
+            <span className="setting-description">
+              Anything due during quiet hours is shown when they end.
+            </span>
+          </div>
+
+          <div className="reminder-settings__group">
+            <span className="setting-label">Day types</span>
+            {dayTypes.map((config) => {
+              const mode = getDayTypeMode(config.dayType);
+              const ownHours = settings.dayTypeQuietHours[config.dayType];
+              return (
+                <div key={config.dayType} className="reminder-settings__day-type">
+                  <span className="reminder-settings__day-type-name">
+                    {config.icon} {config.label}
+                  </span>
+                  <select
+                    value={mode}
+                    onChange={(e) => setDayTypeMode(config.dayType, e.target.value as DayTypeMode)}
+                  >
+                    <option value="default">Usual quiet hours</option>
+                    <option value="own">Own quiet hours</option>
+                    <option value="muted">No notifications</option>
+                  </select>
+                  {mode === "own" && ownHours && (
+                    <span className="reminder-settings__day-type-hours">
+                      <input
+                        type="time"
+                        value={ownHours.start}
+                        onChange={(e) => e.target.value && setDayTypeQuietHours(config.dayType, { ...ownHours, start: e.target.value })}
+                      />
+                      –
+                      <input
+                        type="time"
+                        value={ownHours.end}
+                        onChange={(e) => e.target.value && setDayTypeQuietHours(config.dayType, { ...ownHours, end: e.target.value })}
+                      />
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="reminder-settings__group">
+            <span className="setting-label">Coming up</span>
+            {upcoming.length === 0 ? (
+              <span className="setting-description">Nothing in the next {PREVIEW_HOURS} hours.</span>
+            ) : (
+              <ul className="reminder-settings__upcoming">
+                {upcoming.map((n) => (
+                  <li key={n.key}>
+                    <span className="reminder-settings__upcoming-time">
+                      {new Date(n.fireAt).toLocaleString("en-US", { weekday: "short", hour: "numeric", minute: "2-digit" })}
+                    </span>
+                    {n.title}
+                    {n.deferred && <span className="reminder-settings__deferred">after quiet hours</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ReminderSettings;
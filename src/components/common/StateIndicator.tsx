@@ -42,12 +42,14 @@ type StateSelectorProps = {
   currentState: LoopStateType;
   onStateChange: (state: LoopStateType) => void;
   disabled?: boolean;
+  blockedStates?: Partial<Record<LoopStateType, string>>; // Blocked by cascade rules, with the reason
 };
 
 export function StateSelector({
   currentState,
   onStateChange,
   disabled = false,
+  blockedStates,
 }: StateSelectorProps) {
   const states: LoopStateType[] = ["BUILD", "MAINTAIN", "RECOVER", "HIBERNATE"];
 
@@ -63,7 +65,8 @@ export function StateSelector({
             color: currentState === state ? "white" : STATE_COLORS[state],
           }}
           onClick={() => onStateChange(state)}
-          disabled={disabled}
+          disabled={disabled || !!blockedStates?.[state]}
+          title={blockedStates?.[state]}
         >
           {getStateDisplayName(state)}
         </button>
@@ -0,0 +1,64 @@
+// Sync conflict log - shows conflicts that cloud sync resolved automatically
+
+import React from "react";
+import { SyncConflict, getSyncCollection } from "../../services/entitySync";
+
+type SyncConflictLogProps = {
+  conflicts: SyncConflict[];
+  onClear: () => void;
+};
+
+const WINNER_LABELS: Record<SyncConflict["winner"], string> = {
+  local: "Kept this device",
+  remote: "Kept other device",
+  mixed: "Merged",
+};
+
+function formatResolvedAt(iso: string): string {
+  const date = new Date(iso);
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function SyncConflictLog({ conflicts, onClear }: SyncConflictLogProps) {
+  if (conflicts.length === 0) {
+    return (
+      <p className="sync-conflicts__empty">
+        No conflicts. Edits from your other devices are merging cleanly.
+      </p>
+    );
+  }
+
+  return (
+    <div className="sync-conflicts">
+      <ul className="sync-conflicts__list">
+        {conflicts.map((conflict) => (
+          <li key={conflict.id} className="sync-conflicts__item">
+            <div className="sync-conflicts__header">
+              <span className="sync-conflicts__label">{conflict.label}</span>
+              <span className={`sync-conflicts__winner sync-conflicts__winner--${conflict.winner}`}>
+                {WINNER_LABELS[conflict.winner]}
+              </span>
+            </div>
+            <div className="sync-conflicts__meta">
+              <span>
+                {conflict.collection === "root" ? "Settings" : getSyncCollection(conflict.collection).name}
+              </span>
+              <span>{conflict.fields.join(", ")}</span>
+              <span>{formatResolvedAt(conflict.resolvedAt)}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <button className="sync-conflicts__clear" onClick={onClear}>
+        Clear log
+      </button>
+    </div>
+  );
+}
+
+export default SyncConflictLog;
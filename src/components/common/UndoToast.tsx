@@ -0,0 +1,51 @@
+// Undo toast - offers to reverse destructive actions (delete, reset, bulk edits)
+
+import React, { useEffect, useState } from "react";
+import { useUndoHistory } from "../../context";
+
+const TOAST_DURATION_MS = 6000;
+
+export function UndoToast() {
+  const { lastChange, canUndo, undo } = useUndoHistory();
+  const [visibleId, setVisibleId] = useState<number | null>(null);
+
+  // Show for destructive actions, and briefly confirm undo/redo
+  useEffect(() => {
+    if (!lastChange || (lastChange.kind === "action" && !lastChange.destructive)) {
+      setVisibleId(null);
+      return;
+    }
+    setVisibleId(lastChange.id);
+    const timeout = setTimeout(() => setVisibleId(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [lastChange]);
+
+  if (!lastChange || visibleId !== lastChange.id) return null;
+
+  const message =
+    lastChange.kind === "undo"
+      ? `Undone: ${lastChange.label}`
+      : lastChange.kind === "redo"
+        ? `Redone: ${lastChange.label}`
+        : lastChange.label;
+
+  return (
+    <div className="undo-toast" role="status">
+      <span className="undo-toast__message">{message}</span>
+      {lastChange.kind === "action" && canUndo && (
+        <button className="undo-toast__btn" onClick={undo}>
+          Undo
+        </button>
+      )}
+      <button
+        className="undo-toast__close"
+        onClick={() => setVisibleId(null)}
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+export default UndoToast;
@@ -3,3 +3,9 @@
 export { StateIndicator, StateSelector } from "./StateIndicator";
 export { LogoWordmark, LogoMark, LogoDots, LogoSimple } from "./Logo";
 export { QuickActionsFAB } from "./QuickActionsFAB";
+export { SyncConflictLog } from "./SyncConflictLog";
+export { UndoToast } from "./UndoToast";
+export { BackupRestore } from "./BackupRestore";
+export { EncryptionSettings } from "./EncryptionSettings";
+export { ReminderSettings } from "./ReminderSettings";
+export { LoopModelSettings } from "./LoopModelSettings";
@@ -4,6 +4,7 @@
 
 import React, { useEffect, useState } from "react";
 import { LoopId, LOOP_COLORS } from "../../types";
+import { STORAGE_KEYS } from "../../storage";
 
 // Helper to get Google Sheets tokens from localStorage
 function getSheetsToken(): string | null {
@@ -206,7 +207,7 @@ export function BudgetWidget() {
     let loopBudgets: LoopBudget[] = [];
 
     // Load expenses
-    const storedExpenses = localStorage.getItem('looops_expenses');
+    const storedExpenses = localStorage.getItem(STORAGE_KEYS.EXPENSES);
     if (storedExpenses) {
       try {
         expenses = JSON.parse(storedExpenses);
@@ -216,7 +217,7 @@ export function BudgetWidget() {
     }
 
     // Load transactions
-    const storedTransactions = localStorage.getItem('looops_transactions');
+    const storedTransactions = localStorage.getItem(STORAGE_KEYS.SHEET_TRANSACTIONS);
     if (storedTransactions) {
       try {
         transactions = JSON.parse(storedTransactions);
@@ -226,7 +227,7 @@ export function BudgetWidget() {
     }
 
     // Load accounts
-    const storedAccounts = localStorage.getItem('looops_accounts');
+    const storedAccounts = localStorage.getItem(STORAGE_KEYS.SHEET_ACCOUNTS);
     if (storedAccounts) {
       try {
         accounts = JSON.parse(storedAccounts);
@@ -236,7 +237,7 @@ export function BudgetWidget() {
     }
 
     // Load loop budgets
-    const storedBudgets = localStorage.getItem('looops_loop_budgets');
+    const storedBudgets = localStorage.getItem(STORAGE_KEYS.LOOP_BUDGETS);
     if (storedBudgets) {
       try {
         loopBudgets = JSON.parse(storedBudgets);
@@ -247,7 +248,7 @@ export function BudgetWidget() {
 
     // Load monthly income
     let monthlyIncome = 0;
-    const storedIncome = localStorage.getItem('looops_monthly_income');
+    const storedIncome = localStorage.getItem(STORAGE_KEYS.MONTHLY_INCOME);
     if (storedIncome) {
       try {
         monthlyIncome = parseFloat(storedIncome) || 0;
@@ -272,7 +273,7 @@ export function BudgetWidget() {
   };
 
   const saveLocalExpenses = (expenses: Expense[]) => {
-    localStorage.setItem('looops_expenses', JSON.stringify(expenses));
+    localStorage.setItem(STORAGE_KEYS.EXPENSES, JSON.stringify(expenses));
   };
 
   const fetchBudgetData = async () => {
@@ -301,7 +302,7 @@ export function BudgetWidget() {
 
       if (result.data) {
         // Load local expenses and merge with sheet data
-        const storedExpenses = localStorage.getItem('looops_expenses');
+        const storedExpenses = localStorage.getItem(STORAGE_KEYS.EXPENSES);
         let expenses: Expense[] = [];
         if (storedExpenses) {
           try {
@@ -313,7 +314,7 @@ export function BudgetWidget() {
 
         // Load loop budgets (always from localStorage)
         let loopBudgets: LoopBudget[] = [];
-        const storedBudgets = localStorage.getItem('looops_loop_budgets');
+        const storedBudgets = localStorage.getItem(STORAGE_KEYS.LOOP_BUDGETS);
         if (storedBudgets) {
           try {
             loopBudgets = JSON.parse(storedBudgets);
@@ -414,12 +415,12 @@ export function BudgetWidget() {
       updatedBudgets = [...currentBudgets, { loop, budgeted }];
     }
 
-    localStorage.setItem('looops_loop_budgets', JSON.stringify(updatedBudgets));
+    localStorage.setItem(STORAGE_KEYS.LOOP_BUDGETS, JSON.stringify(updatedBudgets));
     setData(prev => prev ? { ...prev, loopBudgets: updatedBudgets } : null);
   };
 
   const handleUpdateMonthlyIncome = (income: number) => {
-    localStorage.setItem('looops_monthly_income', income.toString());
+    localStorage.setItem(STORAGE_KEYS.MONTHLY_INCOME, income.toString());
     setData(prev => prev ? {
       ...prev,
       monthlyIncome: income,
@@ -538,7 +539,7 @@ export function BudgetWidget() {
         }));
 
         // Save to localStorage
-        localStorage.setItem('looops_transactions', JSON.stringify(importedTransactions));
+        localStorage.setItem(STORAGE_KEYS.SHEET_TRANSACTIONS, JSON.stringify(importedTransactions));
 
         setData(prev => prev ? {
           ...prev,
@@ -591,7 +592,7 @@ export function BudgetWidget() {
         }));
 
         // Save to localStorage
-        localStorage.setItem('looops_accounts', JSON.stringify(importedAccounts));
+        localStorage.setItem(STORAGE_KEYS.SHEET_ACCOUNTS, JSON.stringify(importedAccounts));
 
         setData(prev => prev ? {
           ...prev,
@@ -1,5 +1,6 @@
 // Good Times Widget - Log and remember memorable moments and fun experiences
 import React, { useState, useEffect } from "react";
+import { STORAGE_KEYS } from "../../storage";
 
 interface GoodTime {
   id: string;
@@ -37,7 +38,7 @@ export function GoodTimesWidget() {
 
   // Load from localStorage
   useEffect(() => {
-    const stored = localStorage.getItem("goodtimes_entries");
+    const stored = localStorage.getItem(STORAGE_KEYS.GOOD_TIMES_ENTRIES);
     if (stored) {
       try {
         setGoodTimes(JSON.parse(stored));
@@ -49,7 +50,7 @@ export function GoodTimesWidget() {
 
   // Save to localStorage
   const saveGoodTimes = (entries: GoodTime[]) => {
-    localStorage.setItem("goodtimes_entries", JSON.stringify(entries));
+    localStorage.setItem(STORAGE_KEYS.GOOD_TIMES_ENTRIES, JSON.stringify(entries));
     setGoodTimes(entries);
   };
 
@@ -54,6 +54,7 @@ import { FinanceScreen } from "../finance/FinanceScreen";
 import { MealPrepScreen } from "../mealprep/MealPrepScreen";
 import { ZeroWasteWidget } from "./ZeroWasteWidget";
 import { FoodWasteTrackerWidget } from "./FoodWasteTrackerWidget";
+import { STORAGE_KEYS } from "../../storage";
 
 interface LoopDashboardProps {
   loop: LoopId;
@@ -1281,7 +1282,7 @@ function QuickLinksWidget({ loop }: { loop: LoopId }) {
 
   // Load links from localStorage
   React.useEffect(() => {
-    const stored = localStorage.getItem(`quicklinks_${loop}`);
+    const stored = localStorage.getItem(`${STORAGE_KEYS.QUICK_LINKS}_${loop}`);
     if (stored) {
       try {
         setLinks(JSON.parse(stored));
@@ -1293,7 +1294,7 @@ function QuickLinksWidget({ loop }: { loop: LoopId }) {
 
   // Save links to localStorage
   const saveLinks = (newLinks: typeof links) => {
-    localStorage.setItem(`quicklinks_${loop}`, JSON.stringify(newLinks));
+    localStorage.setItem(`${STORAGE_KEYS.QUICK_LINKS}_${loop}`, JSON.stringify(newLinks));
     setLinks(newLinks);
   };
 
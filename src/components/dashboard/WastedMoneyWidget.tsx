@@ -2,6 +2,7 @@
 // Categories: Eating out, Food waste, Cannabis, Impulse purchases, etc.
 
 import React, { useState, useEffect, useMemo } from "react";
+import { STORAGE_KEYS } from "../../storage";
 
 // Wasted money entry types
 export type WastedCategory =
@@ -66,7 +67,7 @@ export function WastedMoneyWidget() {
 
   // Load from localStorage
   useEffect(() => {
-    const stored = localStorage.getItem("wasted_money_entries");
+    const stored = localStorage.getItem(STORAGE_KEYS.WASTED_MONEY_ENTRIES);
     if (stored) {
       try {
         setEntries(JSON.parse(stored));
@@ -83,7 +84,7 @@ export function WastedMoneyWidget() {
   const loadFoodWasteFromMealPrep = () => {
     try {
       // The app state is stored in looops_app_state, which contains mealPrep.wasteLog
-      const appStateStr = localStorage.getItem("looops_app_state");
+      const appStateStr = localStorage.getItem(STORAGE_KEYS.APP_STATE);
       if (appStateStr) {
         const appState = JSON.parse(appStateStr);
         const wasteLog = appState?.mealPrep?.wasteLog;
@@ -95,7 +96,7 @@ export function WastedMoneyWidget() {
           );
 
           if (wasteWithCost.length > 0) {
-            const existingEntries = localStorage.getItem("wasted_money_entries");
+            const existingEntries = localStorage.getItem(STORAGE_KEYS.WASTED_MONEY_ENTRIES);
             let entries: WastedMoneyEntry[] = existingEntries
               ? JSON.parse(existingEntries)
               : [];
@@ -123,7 +124,7 @@ export function WastedMoneyWidget() {
             if (newEntries.length > 0) {
               entries = [...entries, ...newEntries];
               localStorage.setItem(
-                "wasted_money_entries",
+                STORAGE_KEYS.WASTED_MONEY_ENTRIES,
                 JSON.stringify(entries)
               );
               setEntries(entries);
@@ -138,7 +139,7 @@ export function WastedMoneyWidget() {
 
   // Save to localStorage
   const saveEntries = (newEntries: WastedMoneyEntry[]) => {
-    localStorage.setItem("wasted_money_entries", JSON.stringify(newEntries));
+    localStorage.setItem(STORAGE_KEYS.WASTED_MONEY_ENTRIES, JSON.stringify(newEntries));
     setEntries(newEntries);
   };
 
@@ -1,5 +1,6 @@
 // Weather Widget - Current weather and forecast using Open-Meteo API (free, no key required)
 import React, { useEffect, useState } from "react";
+import { STORAGE_KEYS } from "../../storage";
 
 interface WeatherData {
   current: {
@@ -30,11 +31,9 @@ interface WeatherSettings {
   savedLocation: SavedLocation | null;
 }
 
-const STORAGE_KEY = "weather_settings";
-
 function loadSettings(): WeatherSettings {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(STORAGE_KEYS.WEATHER_SETTINGS);
     if (stored) {
       return JSON.parse(stored);
     }
@@ -45,7 +44,7 @@ function loadSettings(): WeatherSettings {
 }
 
 function saveSettings(settings: WeatherSettings) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  localStorage.setItem(STORAGE_KEYS.WEATHER_SETTINGS, JSON.stringify(settings));
 }
 
 interface WeatherWidgetProps {
@@ -29,6 +29,7 @@ import {
   LOOP_COLORS,
 } from "../../types";
 import { connectSimplefin, performFullSync } from "../../lib/finance/service";
+import { enqueueOutbox } from "../../services/outbox";
 
 type FinanceView = "overview" | "transactions" | "expenses" | "accounts" | "categories" | "settings";
 
@@ -75,8 +76,18 @@ export function FinanceScreen({ embedded = false }: FinanceScreenProps) {
     });
     if (!activeConnection) return;
 
+    // Offline - queue it and let the outbox run it on reconnect
+    if (!navigator.onLine) {
+      enqueueOutbox({ kind: "simplefin.sync", connectionId: activeConnection.id });
+      dispatch({
+        type: "SET_FINANCE_SYNC_STATUS",
+        payload: { isSyncing: false, error: "Offline - sync will run when you reconnect" },
+      });
+      return;
+    }
+
     try {
-      await performFullSync(
+      const result = await performFullSync(
         activeConnection,
         accounts,
         transactions,
@@ -84,6 +95,9 @@ export function FinanceScreen({ embedded = false }: FinanceScreenProps) {
         categories,
         dispatch
       );
+      if (!result.success && result.retryable) {
+        enqueueOutbox({ kind: "simplefin.sync", connectionId: activeConnection.id });
+      }
     } catch (error) {
       console.error("[Finance] Sync error:", error);
       // Ensure syncing state is reset on any error
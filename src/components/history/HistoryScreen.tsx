@@ -1,12 +1,18 @@
 // History Screen - Shows completion history with stats and charts
 
-import { useMemo } from "react";
-import { Task, LoopId, LOOP_DEFINITIONS, LOOP_COLORS } from "../../types";
+import React, { useMemo } from "react";
+import { Task, LoopId, LoopState, ALL_LOOPS, LOOP_DEFINITIONS, LOOP_COLORS, getLocalDateKey } from "../../types";
+import { comparePlanToActual, PlanComparison } from "../../engines/weeklyPlanEngine";
+import { getStateColor, getStateDisplayName } from "../../engines/stateEngine";
 
 type HistoryScreenProps = {
   tasks: Task[];
+  loopStates?: Record<LoopId, LoopState>;
 };
 
+// Days shown in the plan vs actual grid, ending today
+const PLAN_HISTORY_DAYS = 14;
+
 type DayStats = {
   date: string;
   completed: number;
@@ -19,7 +25,7 @@ type StreakInfo = {
   lastCompletedDate: string | null;
 };
 
-export function HistoryScreen({ tasks }: HistoryScreenProps) {
+export function HistoryScreen({ tasks, loopStates }: HistoryScreenProps) {
   // Get completed tasks
   const completedTasks = useMemo(() => {
     return tasks
@@ -187,6 +193,25 @@ export function HistoryScreen({ tasks }: HistoryScreenProps) {
     };
   }, [completedTasks]);
 
+  // Planned vs actual loop states - only loops that had a plan in the window
+  const planHistory = useMemo(() => {
+    if (!loopStates) return { dates: [] as string[], rows: [] as { loopId: LoopId; days: PlanComparison[] }[] };
+
+    const dates: string[] = [];
+    for (let i = PLAN_HISTORY_DAYS - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      dates.push(getLocalDateKey(date));
+    }
+
+    const rows = ALL_LOOPS
+      .filter((loopId) => loopStates[loopId])
+      .map((loopId) => ({ loopId, days: comparePlanToActual(loopStates[loopId], dates) }))
+      .filter((row) => row.days.some((day) => day.planned));
+
+    return { dates, rows };
+  }, [loopStates]);
+
   // Get max for chart scaling
   const maxDaily = Math.max(...dailyStats.map((d) => d.completed), 1);
 
@@ -251,6 +276,53 @@ export function HistoryScreen({ tasks }: HistoryScreenProps) {
         </div>
       </div>
 
+      {/* Planned vs Actual Loop States */}
+      {planHistory.rows.length > 0 && (
+        <div className="history-section">
+          <h3>Loop Plan vs Actual</h3>
+          <div
+            className="history-plan-grid"
+            style={{ gridTemplateColumns: `140px repeat(${planHistory.dates.length}, 1fr)` }}
+          >
+            <span />
+            {planHistory.dates.map((date) => (
+              <span key={date} className="history-plan-date">
+                {new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "narrow" })}
+                <br />
+                {Number(date.slice(8))}
+              </span>
+            ))}
+            {planHistory.rows.map(({ loopId, days }) => (
+              <React.Fragment key={loopId}>
+                <span className="history-plan-loop">
+                  {LOOP_DEFINITIONS[loopId].icon} {LOOP_DEFINITIONS[loopId].name}
+                </span>
+                {days.map((day) => {
+                  const missed = !!day.planned && !!day.actual && day.planned !== day.actual;
+                  return (
+                    <span
+                      key={day.date}
+                      className={`history-plan-cell ${missed ? "history-plan-cell--missed" : ""}`}
+                      title={`${day.date}: planned ${day.planned ? getStateDisplayName(day.planned) : "nothing"}, actual ${day.actual ? getStateDisplayName(day.actual) : "-"}`}
+                    >
+                      <span
+                        className="history-plan-planned"
+                        style={day.planned ? { background: getStateColor(day.planned) } : undefined}
+                      />
+                      <span
+                        className="history-plan-actual"
+                        style={day.actual ? { background: getStateColor(day.actual) } : undefined}
+                      />
+                    </span>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+          <p className="history-plan-legend">Top: planned · Bottom: actual (state at the end of the day)</p>
+        </div>
+      )}
+
       {/* Loop Breakdown */}
       <div className="history-section">
         <h3>By Loop</h3>
@@ -0,0 +1,264 @@
+// Time Report - tracked minutes by loop, project, label and day, estimate accuracy and state fit
+
+import { useMemo, useState } from "react";
+import {
+  Task,
+  Project,
+  Label,
+  LoopId,
+  LoopState,
+  TimerSession,
+  ALL_LOOPS,
+  LOOP_DEFINITIONS,
+  LOOP_COLORS,
+  getLocalDateKey,
+} from "../../types";
+import {
+  buildTimeReport,
+  buildTimesheetCsv,
+  formatMinutes,
+  getWeekStart,
+  TimeBucket,
+} from "../../engines/timeReportEngine";
+
+type TimeReportProps = {
+  tasks: Task[];
+  sessions: TimerSession[];
+  projects: Project[];
+  labels: Label[];
+  loopStates: Record<LoopId, LoopState>;
+};
+
+type RangeMode = "week" | "month";
+
+function shiftDate(key: string, days: number): string {
+  const date = new Date(`${key}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return getLocalDateKey(date);
+}
+
+function formatDay(key: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${key}T12:00:00`).toLocaleDateString("en-US", options);
+}
+
+export function TimeReport({ tasks, sessions, projects, labels, loopStates }: TimeReportProps) {
+  const today = getLocalDateKey();
+  const [mode, setMode] = useState<RangeMode>("week");
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(today));
+
+  const from = mode === "week" ? weekStart : shiftDate(today, -29);
+  const to = mode === "week" ? shiftDate(weekStart, 6) : today;
+
+  const report = useMemo(
+    () => buildTimeReport({ tasks, sessions, projects, labels, loopStates, from, to }),
+    [tasks, sessions, projects, labels, loopStates, from, to]
+  );
+
+  const maxDay = Math.max(...report.byDay.map((d) => d.minutes), 1);
+  const maxLoop = Math.max(...ALL_LOOPS.map((loop) => report.byLoop[loop]), 1);
+  const activeDays = report.byDay.filter((d) => d.minutes > 0).length;
+  const topLoop = report.totalMinutes > 0
+    ? ALL_LOOPS.reduce((best, loop) => (report.byLoop[loop] > report.byLoop[best] ? loop : best))
+    : null;
+
+  const handleExport = () => {
+    const csv = buildTimesheetCsv(report.logs, weekStart, projects);
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `timesheet-${weekStart}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderBuckets = (title: string, buckets: TimeBucket[]) => (
+    <div className="history-section time-report__buckets">
+      <h3>{title}</h3>
+      {buckets.length === 0 ? (
+        <p className="time-report__empty">Nothing tracked</p>
+      ) : (
+        <table className="time-report__table">
+          <tbody>
+            {buckets.map((bucket) => (
+              <tr key={bucket.id ?? "none"} className={bucket.id ? "" : "time-report__row--none"}>
+                <td>{bucket.name}</td>
+                <td>{formatMinutes(bucket.minutes)}</td>
+                <td>{report.totalMinutes > 0 ? Math.round((bucket.minutes / report.totalMinutes) * 100) : 0}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="screen history-screen time-report">
+      <div className="screen-header">
+        <h2>Time Report</h2>
+        <p className="screen-description">Where your tracked time went, how your estimates held up, and whether it fits your loop states</p>
+      </div>
+
+      <div className="time-report__controls">
+        <div className="time-report__modes">
+          <button
+            className={`planning-view-btn ${mode === "week" ? "active" : ""}`}
+            onClick={() => setMode("week")}
+          >
+            Week
+          </button>
+          <button
+            className={`planning-view-btn ${mode === "month" ? "active" : ""}`}
+            onClick={() => setMode("month")}
+          >
+            Last 30 days
+          </button>
+        </div>
+        {mode === "week" && (
+          <div className="time-report__week-nav">
+            <button onClick={() => setWeekStart(shiftDate(weekStart, -7))} title="Previous week">‹</button>
+            <span>
+              {formatDay(from, { month: "short", day: "numeric" })} – {formatDay(to, { month: "short", day: "numeric" })}
+            </span>
+            <button
+              onClick={() => setWeekStart(shiftDate(weekStart, 7))}
+              disabled={shiftDate(weekStart, 7) > today}
+              title="Next week"
+            >
+              ›
+            </button>
+            <button className="time-report__export" onClick={handleExport} disabled={report.logs.length === 0}>
+              Export timesheet (CSV)
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Loops whose time contradicts their state */}
+      {report.mismatches.length > 0 && (
+        <div className="time-report__mismatches">
+          {report.mismatches.map((mismatch) => (
+            <div
+              key={mismatch.loop}
+              className={`time-report__mismatch time-report__mismatch--${mismatch.direction}`}
+            >
+              <span className="time-report__mismatch-icon">{LOOP_DEFINITIONS[mismatch.loop].icon}</span>
+              {mismatch.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="history-stats-grid">
+        <div className="history-stat-card">
+          <span className="history-stat-value">{formatMinutes(report.totalMinutes)}</span>
+          <span className="history-stat-label">Tracked</span>
+        </div>
+        <div className="history-stat-card">
+          <span className="history-stat-value">{activeDays > 0 ? formatMinutes(report.totalMinutes / activeDays) : "-"}</span>
+          <span className="history-stat-label">Per Active Day</span>
+        </div>
+        <div className="history-stat-card">
+          <span className="history-stat-value">{report.logs.length}</span>
+          <span className="history-stat-label">Sessions</span>
+        </div>
+        <div className="history-stat-card">
+          <span className="history-stat-value">{topLoop ? LOOP_DEFINITIONS[topLoop].icon : "-"}</span>
+          <span className="history-stat-label">{topLoop ? `Most: ${LOOP_DEFINITIONS[topLoop].name}` : "Most Time"}</span>
+        </div>
+      </div>
+
+      {/* Per day, stacked by loop */}
+      <div className="history-section">
+        <h3>By Day</h3>
+        <div className="time-report__days">
+          {report.byDay.map((day) => (
+            <div key={day.date} className="time-report__day" title={`${day.date}: ${formatMinutes(day.minutes)}`}>
+              <div className="time-report__day-bar">
+                {ALL_LOOPS.filter((loop) => day.byLoop[loop]).map((loop) => (
+                  <div
+                    key={loop}
+                    className="time-report__day-segment"
+                    style={{
+                      height: `${((day.byLoop[loop] ?? 0) / maxDay) * 100}%`,
+                      background: LOOP_COLORS[loop].border,
+                    }}
+                  />
+                ))}
+              </div>
+              <span className="time-report__day-label">
+                {mode === "week" ? formatDay(day.date, { weekday: "short" }) : Number(day.date.slice(8))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per loop, with estimate accuracy */}
+      <div className="history-section">
+        <h3>By Loop</h3>
+        <table className="time-report__table time-report__table--loops">
+          <thead>
+            <tr>
+              <th>Loop</th>
+              <th>Tracked</th>
+              <th />
+              <th title="Completed tasks with an estimate and tracked time">Estimated → Actual</th>
+              <th>Accuracy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ALL_LOOPS.map((loop) => {
+              const accuracy = report.accuracy.find((a) => a.loop === loop);
+              return (
+                <tr key={loop}>
+                  <td>
+                    {LOOP_DEFINITIONS[loop].icon} {LOOP_DEFINITIONS[loop].name}
+                  </td>
+                  <td>{formatMinutes(report.byLoop[loop])}</td>
+                  <td className="time-report__loop-bar">
+                    <span
+                      style={{
+                        width: `${(report.byLoop[loop] / maxLoop) * 100}%`,
+                        background: LOOP_COLORS[loop].border,
+                      }}
+                    />
+                  </td>
+                  <td>
+                    {accuracy
+                      ? `${formatMinutes(accuracy.estimatedMinutes)} → ${formatMinutes(accuracy.actualMinutes)} (${accuracy.tasks})`
+                      : "-"}
+                  </td>
+                  <td
+                    className={
+                      accuracy
+                        ? accuracy.ratio > 1.25
+                          ? "time-report__accuracy--under"
+                          : accuracy.ratio < 0.8
+                          ? "time-report__accuracy--over"
+                          : ""
+                        : ""
+                    }
+                    title={accuracy ? `Tasks take ${accuracy.ratio.toFixed(1)}× the estimate overall` : undefined}
+                  >
+                    {accuracy ? `${accuracy.accuracy}%` : "-"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="time-report__bucket-grid">
+        {renderBuckets("By Project", report.byProject)}
+        {renderBuckets("By Label", report.byLabel)}
+      </div>
+    </div>
+  );
+}
+
+export default TimeReport;
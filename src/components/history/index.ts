@@ -1 +1,2 @@
 export { HistoryScreen } from "./HistoryScreen";
+export { TimeReport } from "./TimeReport";
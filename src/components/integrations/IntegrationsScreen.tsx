@@ -18,6 +18,7 @@ import {
 } from "../../services/integrations";
 import { useApp } from "../../context";
 import { Task, LoopId } from "../../types";
+import { recurrenceFromTodoist } from "../../services/todoistSync";
 
 // Icons for each integration
 const FitbitIcon = () => (
@@ -200,9 +201,7 @@ function convertTodoistTask(todoistTask: TodoistSyncTask): Task {
     priority: todoistTask.priority as 1 | 2 | 3 | 4,
     status: 'todo',
     dueDate: todoistTask.dueDate || undefined,
-    recurrence: todoistTask.isRecurring
-      ? { frequency: 'custom' as const, interval: 1 }
-      : undefined,
+    recurrence: recurrenceFromTodoist(todoistTask.isRecurring, todoistTask.rrule),
     labels: todoistTask.labels,
     source: 'todoist',
     externalId: todoistTask.id,
@@ -294,14 +293,9 @@ export function IntegrationsScreen({ embedded = false }: IntegrationsScreenProps
         // Convert Todoist tasks to app format
         const convertedTasks = result.tasks.map(convertTodoistTask);
 
-        // Merge with existing tasks:
-        // - Keep non-Todoist tasks as-is
-        // - Replace Todoist tasks with fresh data
-        const nonTodoistTasks = state.tasks.items.filter((t: Task) => t.source !== 'todoist');
-        const mergedTasks = [...nonTodoistTasks, ...convertedTasks];
-
-        // Update task store
-        dispatch({ type: 'SET_TASKS', payload: mergedTasks });
+        // Replace Todoist tasks with fresh data, non-Todoist tasks kept as-is.
+        // Changes this brings in are logged as made in Todoist.
+        dispatch({ type: 'SYNC_TODOIST_TASKS', payload: convertedTasks });
 
         setTodoistTaskCount(result.taskCount || 0);
         console.log(`Synced ${convertedTasks.length} Todoist tasks`);
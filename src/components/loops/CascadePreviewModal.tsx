@@ -0,0 +1,148 @@
+// Cascade preview - "what happens if…" before a loop state change is made
+
+import { useMemo } from "react";
+import { useApp, getConditionContext } from "../../context";
+import { LoopId, LoopStateType, LOOP_DEFINITIONS } from "../../types";
+import { getStateColor, getStateDisplayName } from "../../engines/stateEngine";
+import {
+  CascadeIssueKind,
+  SimulatedLoop,
+  getAffectedLoops,
+  simulateCascade,
+} from "../../engines/cascadeSimulator";
+
+const ISSUE_LABELS: Record<CascadeIssueKind, string> = {
+  cycle: "Cycle",
+  contradiction: "Contradiction",
+  blocked: "Blocked",
+  conflict: "Conflict",
+  oscillation: "Unstable",
+};
+
+type CascadePreviewModalProps = {
+  loopId: LoopId;
+  state: LoopStateType;
+  onConfirm: (adjustments: { loopId: LoopId; state: LoopStateType }[]) => void;
+  onCancel: () => void;
+};
+
+// Plain-language changes to a loop's limits
+function describeLimitChanges(loop: SimulatedLoop): string[] {
+  const { before, after } = loop;
+  const changes: string[] = [];
+  if (before.maxState !== after.maxState) {
+    changes.push(after.maxState === "BUILD"
+      ? "no longer capped"
+      : `capped at ${getStateDisplayName(after.maxState)}`);
+  }
+  if (before.minState !== after.minState) {
+    changes.push(after.minState === "HIBERNATE"
+      ? "no longer held up"
+      : `kept at ${getStateDisplayName(after.minState)} or above`);
+  }
+  if (before.capacityAdjustment !== after.capacityAdjustment) {
+    const sign = after.capacityAdjustment > 0 ? "+" : "";
+    changes.push(`capacity ${sign}${after.capacityAdjustment}%`);
+  }
+  const newlyBlocked = after.blockedStates.filter((s) => !before.blockedStates.includes(s));
+  if (newlyBlocked.length > 0) {
+    changes.push(`blocks ${newlyBlocked.map(getStateDisplayName).join(", ")}`);
+  }
+  return changes;
+}
+
+function StateName({ state }: { state: LoopStateType }) {
+  return <span style={{ color: getStateColor(state) }}>{getStateDisplayName(state)}</span>;
+}
+
+export function CascadePreviewModal({ loopId, state, onConfirm, onCancel }: CascadePreviewModalProps) {
+  const { state: appState } = useApp();
+
+  const simulation = useMemo(
+    () => simulateCascade(appState.loops.cascadeRules, getConditionContext(appState), loopId, state),
+    [appState, loopId, state]
+  );
+
+  const affected = getAffectedLoops(simulation);
+  const adjustments = affected
+    .filter((loop) => loop.loopId !== loopId && loop.toState !== loop.fromState)
+    .map((loop) => ({ loopId: loop.loopId, state: loop.toState }));
+  const isBlocked = simulation.issues.some((issue) => issue.kind === "blocked");
+  const loop = LOOP_DEFINITIONS[loopId];
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal cascade-preview" onClick={(e) => e.stopPropagation()}>
+        <h3 className="cascade-preview__title">
+          What happens if {loop.icon} {loop.name} goes to <StateName state={state} />?
+        </h3>
+
+        {affected.length === 0 ? (
+          <p className="cascade-preview__empty">No other loops are affected.</p>
+        ) : (
+          <ul className="cascade-preview__list">
+            {affected.map((item) => {
+              const def = LOOP_DEFINITIONS[item.loopId];
+              const moved = item.loopId !== loopId && item.toState !== item.fromState;
+              const changes = describeLimitChanges(item);
+              return (
+                <li key={item.loopId} className="cascade-preview__item">
+                  <span className="cascade-preview__loop">{def.icon} {def.name}</span>
+                  <div className="cascade-preview__effects">
+                    {moved && (
+                      <div>
+                        <StateName state={item.fromState} /> → <StateName state={item.toState} />
+                        {item.reason && <span className="cascade-preview__reason"> - {item.reason}</span>}
+                      </div>
+                    )}
+                    {changes.length > 0 && <div className="cascade-preview__limits">{changes.join(" · ")}</div>}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {simulation.issues.length > 0 && (
+          <ul className="cascade-preview__issues">
+            {simulation.issues.map((issue, index) => (
+              <li key={index} className={`cascade-preview__issue cascade-preview__issue--${issue.kind}`}>
+                <strong>{ISSUE_LABELS[issue.kind]}:</strong> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="cascade-preview__meta">
+          {simulation.converged
+            ? `Settled after ${simulation.iterations} round${simulation.iterations === 1 ? "" : "s"}.`
+            : "Didn't settle - review your cascade rules."}
+        </p>
+
+        <div className="modal-actions">
+          <button className="modal-btn modal-btn--secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className={`modal-btn ${adjustments.length > 0 ? "modal-btn--secondary" : "modal-btn--primary"}`}
+            onClick={() => onConfirm([])}
+            disabled={isBlocked}
+          >
+            {adjustments.length > 0 ? `Change ${loop.name} only` : "Change state"}
+          </button>
+          {adjustments.length > 0 && (
+            <button
+              className="modal-btn modal-btn--primary"
+              onClick={() => onConfirm(adjustments)}
+              disabled={isBlocked}
+            >
+              Change and adjust {adjustments.length} loop{adjustments.length === 1 ? "" : "s"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CascadePreviewModal;
@@ -0,0 +1,352 @@
+// Cascade rule editor - add, edit and toggle the rules that link loop states
+
+import React, { useMemo, useState } from "react";
+import { useApp, getConditionContext } from "../../context";
+import {
+  ALL_LOOPS,
+  CascadeEffect,
+  CascadeEffectType,
+  CascadeRule,
+  LoopId,
+  LoopStateType,
+  LOOP_DEFINITIONS,
+} from "../../types";
+import { getStateDisplayName } from "../../engines/stateEngine";
+import { parseCondition } from "../../engines/conditionEngine";
+import { isCascadeConditionMet } from "../../engines/cascadeEngine";
+import { detectCascadeCycles } from "../../engines/cascadeSimulator";
+
+const STATES: LoopStateType[] = ["BUILD", "MAINTAIN", "RECOVER", "HIBERNATE"];
+
+const EFFECT_LABELS: Record<CascadeEffectType, string> = {
+  set_max_state: "Cap at",
+  set_min_state: "Keep at least",
+  adjust_capacity: "Adjust capacity",
+  block_state: "Block",
+  recommend_state: "Suggest",
+};
+
+function createEmptyRule(): CascadeRule {
+  return {
+    id: `cascade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: "",
+    sourceLoop: "Family",
+    sourceState: "BUILD",
+    targetLoop: "Health",
+    effects: [{ type: "set_max_state", targetState: "MAINTAIN", reason: "" }],
+    priority: 10,
+    enabled: true,
+    userOverrideable: true,
+  };
+}
+
+function describeEffect(effect: CascadeEffect): string {
+  if (effect.type === "adjust_capacity") {
+    const amount = effect.capacityAdjustment ?? 0;
+    return `${EFFECT_LABELS[effect.type]} ${amount > 0 ? "+" : ""}${amount}%`;
+  }
+  return `${EFFECT_LABELS[effect.type]} ${effect.targetState ? getStateDisplayName(effect.targetState) : "?"}`;
+}
+
+// Problems that would stop a rule from saving
+function validateRule(rule: CascadeRule): string | null {
+  if (!rule.name.trim()) return "Give the rule a name.";
+  if (rule.sourceLoop === rule.targetLoop) return "A rule can't target its own source loop.";
+  if (rule.effects.length === 0) return "Add at least one effect.";
+  for (const effect of rule.effects) {
+    if (effect.type === "adjust_capacity") {
+      const amount = effect.capacityAdjustment ?? 0;
+      if (amount < -50 || amount > 50) return "Capacity adjustments must be between -50% and +50%.";
+    } else if (!effect.targetState) {
+      return "Pick a state for every effect.";
+    }
+    if (!effect.reason.trim()) return "Every effect needs a reason - it's shown to you when the rule applies.";
+  }
+  if (rule.triggerCondition?.trim()) {
+    const parsed = parseCondition(rule.triggerCondition);
+    if ("error" in parsed) return `Condition: ${parsed.error}`;
+  }
+  return null;
+}
+
+type RuleFormProps = {
+  initial: CascadeRule;
+  onSave: (rule: CascadeRule) => void;
+  onCancel: () => void;
+};
+
+function RuleForm({ initial, onSave, onCancel }: RuleFormProps) {
+  const [rule, setRule] = useState<CascadeRule>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<CascadeRule>) => setRule((prev) => ({ ...prev, ...changes }));
+
+  const updateEffect = (index: number, changes: Partial<CascadeEffect>) => {
+    setRule((prev) => ({
+      ...prev,
+      effects: prev.effects.map((effect, i) => (i === index ? { ...effect, ...changes } : effect)),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed: CascadeRule = {
+      ...rule,
+      name: rule.name.trim(),
+      triggerCondition: rule.triggerCondition?.trim() || undefined,
+    };
+    const problem = validateRule(trimmed);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(trimmed);
+  };
+
+  const conditionResult = rule.triggerCondition?.trim() ? parseCondition(rule.triggerCondition) : null;
+
+  return (
+    <form className="cascade-editor__form" onSubmit={handleSubmit}>
+      <label className="cascade-editor__field">
+        <span>Name</span>
+        <input type="text" value={rule.name} onChange={(e) => update({ name: e.target.value })} />
+      </label>
+
+      <div className="cascade-editor__row">
+        <span>When</span>
+        <select value={rule.sourceLoop} onChange={(e) => update({ sourceLoop: e.target.value as LoopId })}>
+          {ALL_LOOPS.map((loopId) => <option key={loopId} value={loopId}>{loopId}</option>)}
+        </select>
+        <span>is</span>
+        <select value={rule.sourceState} onChange={(e) => update({ sourceState: e.target.value as LoopStateType })}>
+          {STATES.map((s) => <option key={s} value={s}>{getStateDisplayName(s)}</option>)}
+        </select>
+        <span>then for</span>
+        <select value={rule.targetLoop} onChange={(e) => update({ targetLoop: e.target.value as LoopId })}>
+          {ALL_LOOPS.map((loopId) => <option key={loopId} value={loopId}>{loopId}</option>)}
+        </select>
+      </div>
+
+      <label className="cascade-editor__field">
+        <span>Only if (optional)</span>
+        <input
+          type="text"
+          placeholder="e.g. day type is custody, date 2026-07-01 to 2026-08-31, sleepScore < 60"
+          value={rule.triggerCondition ?? ""}
+          onChange={(e) => update({ triggerCondition: e.target.value })}
+        />
+      </label>
+      {conditionResult && "error" in conditionResult && (
+        <p className="cascade-editor__error">{conditionResult.error}</p>
+      )}
+
+      <div className="cascade-editor__effects">
+        {rule.effects.map((effect, index) => (
+          <div key={index} className="cascade-editor__row">
+            <select
+              value={effect.type}
+              onChange={(e) => updateEffect(index, { type: e.target.value as CascadeEffectType })}
+            >
+              {(Object.keys(EFFECT_LABELS) as CascadeEffectType[]).map((type) => (
+                <option key={type} value={type}>{EFFECT_LABELS[type]}</option>
+              ))}
+            </select>
+            {effect.type === "adjust_capacity" ? (
+              <input
+                type="number"
+                min={-50}
+                max={50}
+                step={5}
+                value={effect.capacityAdjustment ?? 0}
+                onChange={(e) => updateEffect(index, { capacityAdjustment: Number(e.target.value) })}
+              />
+            ) : (
+              <select
+                value={effect.targetState ?? ""}
+                onChange={(e) => updateEffect(index, { targetState: e.target.value as LoopStateType })}
+              >
+                <option value="" disabled>State…</option>
+                {STATES.map((s) => <option key={s} value={s}>{getStateDisplayName(s)}</option>)}
+              </select>
+            )}
+            <input
+              type="text"
+              className="cascade-editor__reason"
+              placeholder="Reason"
+              value={effect.reason}
+              onChange={(e) => updateEffect(index, { reason: e.target.value })}
+            />
+            <button
+              type="button"
+              className="cascade-editor__btn"
+              onClick={() => update({ effects: rule.effects.filter((_, i) => i !== index) })}
+              aria-label="Remove effect"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="cascade-editor__btn"
+          onClick={() => update({ effects: [...rule.effects, { type: "recommend_state", targetState: "MAINTAIN", reason: "" }] })}
+        >
+          + Add effect
+        </button>
+      </div>
+
+      <div className="cascade-editor__row">
+        <label className="cascade-editor__field cascade-editor__field--inline">
+          <span>Priority</span>
+          <input
+            type="number"
+            value={rule.priority}
+            onChange={(e) => update({ priority: Number(e.target.value) })}
+          />
+        </label>
+        <label className="cascade-editor__check">
+          <input type="checkbox" checked={rule.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+          Enabled
+        </label>
+        <label className="cascade-editor__check">
+          <input
+            type="checkbox"
+            checked={rule.userOverrideable}
+            onChange={(e) => update({ userOverrideable: e.target.checked })}
+          />
+          I can override it
+        </label>
+      </div>
+
+      {error && <p className="cascade-editor__error">{error}</p>}
+
+      <div className="cascade-editor__row">
+        <button type="submit" className="cascade-editor__btn cascade-editor__btn--primary">Save rule</button>
+        <button type="button" className="cascade-editor__btn" onClick={onCancel}>Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+export function CascadeRuleEditor() {
+  const { state, dispatch } = useApp();
+  const rules = state.loops.cascadeRules;
+  const [editing, setEditing] = useState<{ rule: CascadeRule; isNew: boolean } | null>(null);
+
+  const context = useMemo(() => getConditionContext(state), [state]);
+
+  const cycles = useMemo(() => detectCascadeCycles(rules), [rules]);
+
+  const sortedRules = useMemo(
+    () => [...rules].sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name)),
+    [rules]
+  );
+
+  const handleSave = (rule: CascadeRule) => {
+    dispatch({ type: editing?.isNew ? "ADD_CASCADE_RULE" : "UPDATE_CASCADE_RULE", payload: rule });
+    setEditing(null);
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Replace all cascade rules with the defaults?")) {
+      dispatch({ type: "RESET_CASCADE_RULES" });
+    }
+  };
+
+  return (
+    <div className="cascade-editor">
+      <p className="screen-description">
+        Cascade rules let one loop's state shape another's - for example, capping Health at Maintain during a
+        custody week. Higher priority rules are applied first.
+      </p>
+
+      <div className="cascade-editor__toolbar">
+        <button
+          className="cascade-editor__btn cascade-editor__btn--primary"
+          onClick={() => setEditing({ rule: createEmptyRule(), isNew: true })}
+          disabled={!!editing}
+        >
+          + New rule
+        </button>
+        <button className="cascade-editor__btn" onClick={handleReset}>
+          Reset to defaults
+        </button>
+      </div>
+
+      {cycles.length > 0 && (
+        <ul className="cascade-editor__warnings">
+          {cycles.map((cycle) => (
+            <li key={cycle.ruleIds.join()}>
+              Cycle: {[...cycle.loops, cycle.loops[0]].join(" → ")} - a change to any of these loops can feed back
+              into itself ({cycle.ruleIds.map((id) => rules.find((r) => r.id === id)?.name ?? id).join(", ")}).
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing?.isNew && (
+        <RuleForm initial={editing.rule} onSave={handleSave} onCancel={() => setEditing(null)} />
+      )}
+
+      <ul className="cascade-editor__list">
+        {sortedRules.map((rule) => {
+          const isActive = rule.enabled
+            && state.loops.states[rule.sourceLoop]?.currentState === rule.sourceState
+            && isCascadeConditionMet(rule, context);
+
+          if (editing && !editing.isNew && editing.rule.id === rule.id) {
+            return (
+              <li key={rule.id} className="cascade-editor__item">
+                <RuleForm initial={rule} onSave={handleSave} onCancel={() => setEditing(null)} />
+              </li>
+            );
+          }
+
+          return (
+            <li
+              key={rule.id}
+              className={`cascade-editor__item ${rule.enabled ? "" : "cascade-editor__item--disabled"}`}
+            >
+              <div className="cascade-editor__summary">
+                <strong>{rule.name}</strong>
+                {isActive && <span className="cascade-editor__badge">Active now</span>}
+              </div>
+              <div className="cascade-editor__detail">
+                {LOOP_DEFINITIONS[rule.sourceLoop].icon} {rule.sourceLoop} is {getStateDisplayName(rule.sourceState)}
+                {rule.triggerCondition && <> and <code>{rule.triggerCondition}</code></>}
+                {" → "}
+                {LOOP_DEFINITIONS[rule.targetLoop].icon} {rule.targetLoop}: {rule.effects.map(describeEffect).join(", ")}
+              </div>
+              <div className="cascade-editor__row">
+                <span className="cascade-editor__meta">Priority {rule.priority}</span>
+                <label className="cascade-editor__check">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => dispatch({ type: "UPDATE_CASCADE_RULE", payload: { ...rule, enabled: !rule.enabled } })}
+                  />
+                  Enabled
+                </label>
+                <button
+                  className="cascade-editor__btn"
+                  onClick={() => setEditing({ rule, isNew: false })}
+                  disabled={!!editing}
+                >
+                  Edit
+                </button>
+                <button
+                  className="cascade-editor__btn cascade-editor__btn--danger"
+                  onClick={() => dispatch({ type: "DELETE_CASCADE_RULE", payload: rule.id })}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default CascadeRuleEditor;
@@ -0,0 +1,65 @@
+// Cascade suggestions - recommend_state effects shown as dismissible cards
+
+import { useMemo } from "react";
+import { useApp, getConditionContext } from "../../context";
+import { LOOP_DEFINITIONS } from "../../types";
+import { getCascadeSuggestions } from "../../engines/cascadeEngine";
+import { getStateColor, getStateDisplayName } from "../../engines/stateEngine";
+
+export function CascadeSuggestions() {
+  const { state, dispatch } = useApp();
+
+  const suggestions = useMemo(
+    () => getCascadeSuggestions(
+      state.loops.cascadeRules,
+      getConditionContext(state),
+      state.loops.dismissedSuggestions
+    ),
+    [state]
+  );
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="cascade-suggestions">
+      {suggestions.map((suggestion) => {
+        const loop = LOOP_DEFINITIONS[suggestion.loopId];
+        return (
+          <div key={suggestion.id} className="cascade-suggestion">
+            <span className="cascade-suggestion__icon">{loop.icon}</span>
+            <div className="cascade-suggestion__body">
+              <div className="cascade-suggestion__title">
+                Consider{" "}
+                <span style={{ color: getStateColor(suggestion.state) }}>
+                  {getStateDisplayName(suggestion.state)}
+                </span>{" "}
+                for {loop.name}
+              </div>
+              <div className="cascade-suggestion__reason">
+                {suggestion.reason} <span className="cascade-suggestion__rule">· {suggestion.ruleName}</span>
+              </div>
+            </div>
+            <button
+              className="cascade-suggestion__btn cascade-suggestion__btn--primary"
+              onClick={() => dispatch({
+                type: "SET_LOOP_STATE",
+                payload: { loopId: suggestion.loopId, state: suggestion.state },
+              })}
+            >
+              Apply
+            </button>
+            <button
+              className="cascade-suggestion__btn"
+              onClick={() => dispatch({ type: "DISMISS_CASCADE_SUGGESTION", payload: suggestion.id })}
+              aria-label="Dismiss suggestion"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default CascadeSuggestions;
@@ -0,0 +1,202 @@
+// Loop triggers editor - author the conditions that switch a loop's state automatically
+
+import React, { useMemo, useState } from "react";
+import { useApp, getConditionContext } from "../../context";
+import { LoopId, LoopStateType, StateTransitionTrigger, TriggerType } from "../../types";
+import { getStateDisplayName, transitionLoopState } from "../../engines/stateEngine";
+import {
+  TriggerContext,
+  createTrigger,
+  evaluateTrigger,
+  inferTriggerType,
+} from "../../engines/triggerEngine";
+import { getCascadeResult } from "../../engines/cascadeEngine";
+import { parseCondition } from "../../engines/conditionEngine";
+
+const TARGET_STATES: LoopStateType[] = ["BUILD", "MAINTAIN", "RECOVER", "HIBERNATE"];
+
+const TYPE_LABELS: Record<TriggerType, string> = {
+  threshold: "Tasks",
+  time: "Schedule",
+  manual: "Manual",
+  cascade: "Other loops",
+  biometric: "Health",
+};
+
+const EXAMPLES = [
+  "sleepScore < 60 for 2 days",
+  "overdue Health tasks > 5",
+  "every Friday 17:00",
+  "Family is BUILD",
+  "steps >= 10000 and readiness > 70",
+];
+
+type LoopTriggersEditorProps = {
+  loopId: LoopId;
+};
+
+export function LoopTriggersEditor({ loopId }: LoopTriggersEditorProps) {
+  const { state, dispatch } = useApp();
+  const loopState = state.loops.states[loopId];
+  const triggers = loopState.triggers || [];
+
+  const [condition, setCondition] = useState("");
+  const [targetState, setTargetState] = useState<LoopStateType>("RECOVER");
+  const [manual, setManual] = useState(false);
+
+  const context: TriggerContext = useMemo(
+    () => ({ ...getConditionContext(state), cascadeRules: state.loops.cascadeRules }),
+    [state]
+  );
+  const cascade = useMemo(
+    () => getCascadeResult(state.loops.cascadeRules, context, loopId),
+    [state.loops.cascadeRules, context, loopId]
+  );
+
+  const parsed = condition.trim() ? parseCondition(condition) : null;
+  const parseError = parsed && "error" in parsed ? parsed.error : null;
+  const inferredType = parsed && !("error" in parsed) ? inferTriggerType(parsed) : null;
+  // Manual triggers are just a label for a state change you run by hand
+  const canAdd = condition.trim() !== "" && (manual || !parseError);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    dispatch({
+      type: "ADD_LOOP_TRIGGER",
+      payload: { loopId, trigger: createTrigger(condition.trim(), targetState, manual) },
+    });
+    setCondition("");
+    setManual(false);
+  };
+
+  const handleToggle = (trigger: StateTransitionTrigger) => {
+    dispatch({
+      type: "UPDATE_LOOP_TRIGGER",
+      payload: { loopId, trigger: { ...trigger, enabled: !trigger.enabled } },
+    });
+  };
+
+  const handleRun = (trigger: StateTransitionTrigger) => {
+    dispatch({
+      type: "RUN_LOOP_TRIGGER",
+      payload: {
+        loopId,
+        triggerId: trigger.id,
+        fromState: loopState.currentState,
+        toState: trigger.targetState,
+        reason: `Trigger "${trigger.condition}" run manually`,
+        triggeredBy: "manual",
+        firedAt: new Date().toISOString(),
+      },
+    });
+  };
+
+  return (
+    <div className="loop-triggers">
+      {triggers.length === 0 ? (
+        <p className="loop-triggers__empty">No triggers yet. Add one to switch this loop's state automatically.</p>
+      ) : (
+        <ul className="loop-triggers__list">
+          {triggers.map((trigger) => {
+            const status = trigger.type === "manual"
+              ? null
+              : evaluateTrigger(loopState, trigger, context);
+            const manualRun = transitionLoopState(loopState, trigger.targetState, undefined, cascade);
+            const canRun = loopState.currentState !== trigger.targetState && manualRun.success;
+
+            return (
+              <li
+                key={trigger.id}
+                className={`loop-triggers__item ${trigger.enabled ? "" : "loop-triggers__item--disabled"}`}
+              >
+                <div className="loop-triggers__main">
+                  <span className={`loop-triggers__type loop-triggers__type--${trigger.type}`}>
+                    {TYPE_LABELS[trigger.type]}
+                  </span>
+                  <code className="loop-triggers__condition">{trigger.condition}</code>
+                  <span className="loop-triggers__arrow">→</span>
+                  <strong>{getStateDisplayName(trigger.targetState)}</strong>
+                </div>
+                {status && (
+                  <div className={`loop-triggers__status ${status.firing ? "loop-triggers__status--match" : ""}`}>
+                    {status.firing ? "Matches now - " : ""}{status.reason}
+                  </div>
+                )}
+                {trigger.lastFiredAt && (
+                  <div className="loop-triggers__status">
+                    Last fired {new Date(trigger.lastFiredAt).toLocaleString()}
+                  </div>
+                )}
+                <div className="loop-triggers__actions">
+                  <label className="loop-triggers__toggle">
+                    <input type="checkbox" checked={trigger.enabled} onChange={() => handleToggle(trigger)} />
+                    Enabled
+                  </label>
+                  <button
+                    className="loop-triggers__btn"
+                    onClick={() => handleRun(trigger)}
+                    disabled={!canRun}
+                    title={manualRun.success ? undefined : manualRun.reason}
+                  >
+                    Run now
+                  </button>
+                  <button
+                    className="loop-triggers__btn loop-triggers__btn--danger"
+                    onClick={() => dispatch({ type: "DELETE_LOOP_TRIGGER", payload: { loopId, triggerId: trigger.id } })}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className="loop-triggers__form" onSubmit={handleAdd}>
+        <div className="loop-triggers__form-row">
+          <input
+            type="text"
+            className="loop-triggers__input"
+            placeholder={`e.g. ${EXAMPLES[0]}`}
+            value={condition}
+            onChange={(e) => setCondition(e.target.value)}
+            list={`loop-trigger-examples-${loopId}`}
+          />
+          <datalist id={`loop-trigger-examples-${loopId}`}>
+            {EXAMPLES.map((example) => <option key={example} value={example} />)}
+          </datalist>
+          <select
+            className="loop-triggers__select"
+            value={targetState}
+            onChange={(e) => setTargetState(e.target.value as LoopStateType)}
+          >
+            {TARGET_STATES.map((s) => (
+              <option key={s} value={s}>→ {getStateDisplayName(s)}</option>
+            ))}
+          </select>
+          <button type="submit" className="loop-triggers__btn loop-triggers__btn--primary" disabled={!canAdd}>
+            Add
+          </button>
+        </div>
+        <label className="loop-triggers__toggle">
+          <input type="checkbox" checked={manual} onChange={(e) => setManual(e.target.checked)} />
+          Manual only (never runs automatically)
+        </label>
+        {!manual && parseError && <p className="loop-triggers__error">{parseError}</p>}
+        {!manual && inferredType && (
+          <p className="loop-triggers__hint">Recognized as a {TYPE_LABELS[inferredType].toLowerCase()} trigger.</p>
+        )}
+        <p className="loop-triggers__hint">
+          Health metrics: sleepScore, sleepHours, steps, activeMinutes, restingHeartRate, mindfulness, weight,
+          readiness. Tasks: overdue / open / due today / completed today [loop] tasks. Schedules: every
+          day/weekday/weekend/Monday… HH:MM. Days: day type is custody, date 2026-12-24 to 2026-12-26.
+          Combine with "and".
+        </p>
+      </form>
+    </div>
+  );
+}
+
+export default LoopTriggersEditor;
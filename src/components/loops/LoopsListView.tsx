@@ -16,6 +16,7 @@ import {
   LoopState,
 } from "../../types";
 import { TaskList } from "../tasks/TaskList";
+import { BulkTaskChanges } from "../../engines/bulkTaskEngine";
 
 type LoopsListViewProps = {
   tasks: Task[];
@@ -33,6 +34,9 @@ type LoopsListViewProps = {
   onUncompleteTask: (taskId: string) => void;
   onOpenLoopDashboard: (loopId: LoopId) => void;
   onOpenTaskDetail: (taskId: string) => void;
+  onBulkUpdateTasks?: (taskIds: string[], changes: BulkTaskChanges) => void; // Multi-select
+  onBulkCompleteTasks?: (taskIds: string[]) => void;
+  onBulkDeleteTasks?: (taskIds: string[]) => void;
 };
 
 function getStateDisplayName(state: string): string {
@@ -59,6 +63,9 @@ export function LoopsListView({
   onUncompleteTask,
   onOpenLoopDashboard,
   onOpenTaskDetail,
+  onBulkUpdateTasks,
+  onBulkCompleteTasks,
+  onBulkDeleteTasks,
 }: LoopsListViewProps) {
   // Track which loops are expanded (all expanded by default)
   const [expandedLoops, setExpandedLoops] = useState<Set<LoopId>>(
@@ -197,6 +204,10 @@ export function LoopsListView({
                     onAddTask={onAddTask}
                     showAddInput={false}
                     showGroupHeaders={false}
+                    allTasks={tasks}
+                    onBulkUpdate={onBulkUpdateTasks}
+                    onBulkComplete={onBulkCompleteTasks}
+                    onBulkDelete={onBulkDeleteTasks}
                   />
                 ) : (
                   <p className="loops-list-empty">No active tasks in {loop.name}</p>
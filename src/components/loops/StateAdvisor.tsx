@@ -0,0 +1,77 @@
+// State advisor - daily loop state proposals with the signals behind them
+
+import { useMemo } from "react";
+import { useApp, getConditionContext } from "../../context";
+import { LOOP_DEFINITIONS } from "../../types";
+import { getStateColor, getStateDisplayName } from "../../engines/stateEngine";
+import { describeProposal, getStateAdvice } from "../../engines/stateAdvisorEngine";
+
+export function StateAdvisor() {
+  const { state, dispatch } = useApp();
+
+  const proposals = useMemo(
+    () => getStateAdvice({
+      context: getConditionContext(state),
+      cascadeRules: state.loops.cascadeRules,
+      systems: state.systems.items,
+      completions: state.systems.completions,
+      transactions: state.finance.transactions,
+      loopBudgets: state.finance.loopBudgets,
+      specialDates: state.specialDates.dates,
+      advisor: state.loops.advisor,
+    }),
+    [state]
+  );
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <div className="state-advisor">
+      <div className="state-advisor__header">State advisor</div>
+      {proposals.map((proposal) => {
+        const loop = LOOP_DEFINITIONS[proposal.loopId];
+        return (
+          <div key={proposal.id} className="state-advisor__item">
+            <span className="state-advisor__icon">{loop.icon}</span>
+            <div className="state-advisor__body">
+              <div className="state-advisor__title">
+                {loop.name}: {describeProposal(proposal)}{" "}
+                <span className="state-advisor__states">
+                  (<span style={{ color: getStateColor(proposal.fromState) }}>{getStateDisplayName(proposal.fromState)}</span>
+                  {" → "}
+                  <span style={{ color: getStateColor(proposal.toState) }}>{getStateDisplayName(proposal.toState)}</span>)
+                </span>
+              </div>
+              <ul className="state-advisor__reasons">
+                {proposal.contributions.slice(0, 3).map((c) => (
+                  <li
+                    key={c.signal}
+                    className={c.value * c.weight >= 0 ? "state-advisor__reason--up" : "state-advisor__reason--down"}
+                  >
+                    {c.explanation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="state-advisor__actions">
+              <button
+                className="state-advisor__btn state-advisor__btn--primary"
+                onClick={() => dispatch({ type: "ACCEPT_STATE_ADVICE", payload: proposal })}
+              >
+                Accept
+              </button>
+              <button
+                className="state-advisor__btn"
+                onClick={() => dispatch({ type: "REJECT_STATE_ADVICE", payload: proposal })}
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default StateAdvisor;
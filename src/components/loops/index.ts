@@ -2,3 +2,8 @@
 
 export { LoopsVisualization } from "./LoopsVisualization";
 export { LoopsListView } from "./LoopsListView";
+export { LoopTriggersEditor } from "./LoopTriggersEditor";
+export { CascadeSuggestions } from "./CascadeSuggestions";
+export { CascadeRuleEditor } from "./CascadeRuleEditor";
+export { CascadePreviewModal } from "./CascadePreviewModal";
+export { StateAdvisor } from "./StateAdvisor";
@@ -1,6 +1,6 @@
 // Weekly Planning Component - Sunday Ritual for setting up the week
 
-import { useState, useMemo, useEffect } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import {
   Task,
   LoopId,
@@ -10,6 +10,7 @@ import {
   LoopStateType,
   ArchetypeId,
   CalendarEvent,
+  getLocalDateKey,
 } from "../../types";
 import { Goal } from "../../types";
 import {
@@ -24,10 +25,11 @@ import {
 import { getDayTypes } from "../../engines/smartSchedulerEngine";
 import { StateSelector } from "../common";
 import { getRandomMotivation, celebrateCompletion } from "../../engines/voiceEngine";
+import { getStateColor, getStateDisplayName } from "../../engines/stateEngine";
 import { AppAction } from "../../context/AppContext";
 
 type WeeklyPlanningProps = {
-  loopStates: Record<LoopId, { currentState: LoopStateType }>;
+  loopStates: Record<LoopId, { currentState: LoopStateType; weeklyStates?: Record<string, LoopStateType> }>;
   tasks: Task[];
   goals: Goal[];
   calendarEvents?: CalendarEvent[];
@@ -40,6 +42,8 @@ type WeeklyPlanningProps = {
   onComplete: () => void;
 };
 
+const PLAN_STATES: LoopStateType[] = ["BUILD", "MAINTAIN", "RECOVER", "HIBERNATE"];
+
 type PlanningStep = "review" | "reflect" | "states" | "dayTypes" | "priorities" | "schedule" | "complete";
 
 const STEPS: { id: PlanningStep; title: string; description: string }[] = [
@@ -556,6 +560,57 @@ export function WeeklyPlanning({
                 );
               })}
             </div>
+
+            {/* Day-by-day plan - applied automatically at midnight */}
+            <div className="weekly-plan">
+              <h4>Day by Day</h4>
+              <p className="weekly-plan-hint">
+                Plan a different state for specific days, like Health on Build Mon–Wed and Recover after a race.
+                Loops switch at midnight, with cascade rules applied. Leave a day blank to keep the current state.
+              </p>
+              <div className="weekly-plan-grid">
+                <span />
+                {weekDates.map((date) => (
+                  <span key={getLocalDateKey(date)} className="weekly-plan-day">
+                    {date.toLocaleDateString("en-US", { weekday: "short" })} {date.getDate()}
+                  </span>
+                ))}
+                {ALL_LOOPS.map((loopId) => (
+                  <React.Fragment key={loopId}>
+                    <span className="weekly-plan-loop">
+                      {LOOP_DEFINITIONS[loopId].icon} {LOOP_DEFINITIONS[loopId].name}
+                    </span>
+                    {weekDates.map((date) => {
+                      const dateKey = getLocalDateKey(date);
+                      const planned = loopStates[loopId]?.weeklyStates?.[dateKey];
+                      return (
+                        <select
+                          key={dateKey}
+                          className="weekly-plan-cell"
+                          value={planned ?? ""}
+                          style={planned ? { borderColor: getStateColor(planned), color: getStateColor(planned) } : undefined}
+                          onChange={(e) =>
+                            dispatch({
+                              type: "SET_PLANNED_LOOP_STATE",
+                              payload: {
+                                loopId,
+                                date: dateKey,
+                                state: (e.target.value || null) as LoopStateType | null,
+                              },
+                            })
+                          }
+                        >
+                          <option value="">—</option>
+                          {PLAN_STATES.map((s) => (
+                            <option key={s} value={s}>{getStateDisplayName(s)}</option>
+                          ))}
+                        </select>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
           </div>
         );
 
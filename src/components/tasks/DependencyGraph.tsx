@@ -0,0 +1,100 @@
+// Dependency graph for a project - tasks laid out by prerequisite depth, critical path highlighted
+
+import { useMemo } from "react";
+import { Task, LOOP_COLORS } from "../../types";
+import { getCriticalPath, isTaskOpen, DEFAULT_ESTIMATE_MINUTES } from "../../engines/dependencyEngine";
+
+type DependencyGraphProps = {
+  tasks: Task[];
+  onSelectTask: (task: Task) => void;
+};
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+export function DependencyGraph({ tasks, onSelectTask }: DependencyGraphProps) {
+  const topLevel = useMemo(() => tasks.filter((t) => !t.parentId), [tasks]);
+  const critical = useMemo(() => getCriticalPath(topLevel), [topLevel]);
+  const titleOf = (id: string) => topLevel.find((t) => t.id === id)?.title ?? id;
+  const prerequisitesOf = (task: Task) =>
+    (task.dependencies || []).filter((id) => topLevel.some((t) => t.id === id));
+
+  if (critical.cycle) {
+    return (
+      <div className="dependency-graph">
+        <div className="dependency-graph__cycle">
+          These tasks depend on each other in a loop: {critical.cycle.map(titleOf).join(" → ")} → {titleOf(critical.cycle[0])}.
+          Remove one of the dependencies to see the critical path.
+        </div>
+      </div>
+    );
+  }
+
+  const columns: typeof critical.nodes[] = [];
+  for (const node of critical.nodes) {
+    if (!columns[node.depth]) columns[node.depth] = [];
+    columns[node.depth].push(node);
+  }
+  const usesDefaultEstimates = critical.nodes.some((n) => n.estimated);
+
+  return (
+    <div className="dependency-graph">
+      <div className="dependency-graph__summary">
+        <span className="dependency-graph__total">
+          Critical path: {formatMinutes(critical.totalMinutes)} remaining
+        </span>
+        {critical.path.length > 0 && (
+          <span className="dependency-graph__chain">
+            {critical.path.map((t) => t.title).join(" → ")}
+          </span>
+        )}
+        {usesDefaultEstimates && (
+          <span className="dependency-graph__note">
+            ~ tasks without an estimate count as {DEFAULT_ESTIMATE_MINUTES}m
+          </span>
+        )}
+      </div>
+
+      <div className="dependency-graph__columns">
+        {columns.map((column, depth) => (
+          <div key={depth} className="dependency-graph__column">
+            <div className="dependency-graph__column-header">
+              {depth === 0 ? "Start" : `Step ${depth + 1}`}
+            </div>
+            {column.map((node) => (
+              <button
+                key={node.task.id}
+                className={[
+                  "dependency-graph__node",
+                  node.critical && isTaskOpen(node.task) ? "dependency-graph__node--critical" : "",
+                  !isTaskOpen(node.task) ? "dependency-graph__node--done" : "",
+                ].join(" ")}
+                style={{ borderLeftColor: LOOP_COLORS[node.task.loop].border }}
+                onClick={() => onSelectTask(node.task)}
+              >
+                <span className="dependency-graph__node-title">{node.task.title}</span>
+                <span className="dependency-graph__node-meta">
+                  {isTaskOpen(node.task)
+                    ? `${node.estimated ? "~" : ""}${formatMinutes(node.minutes)}`
+                    : "Done"}
+                  {isTaskOpen(node.task) && node.slack > 0 && ` · ${formatMinutes(node.slack)} slack`}
+                </span>
+                {prerequisitesOf(node.task).length > 0 && (
+                  <span className="dependency-graph__node-deps">
+                    after {prerequisitesOf(node.task).map(titleOf).join(", ")}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default DependencyGraph;
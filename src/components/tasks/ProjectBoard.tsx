@@ -0,0 +1,286 @@
+// Project board - sections as columns, cards dragged between them, with WIP limits
+
+import { useState, useMemo } from "react";
+import {
+  DragDropContext,
+  Droppable,
+  Draggable,
+  DropResult,
+} from "react-beautiful-dnd";
+import { Task, Project, ProjectSection, LOOP_DEFINITIONS, LOOP_COLORS, createSection } from "../../types";
+import { isTaskOpen } from "../../engines/dependencyEngine";
+
+// Droppable ID for tasks without a (known) section
+const UNSECTIONED = "unsectioned";
+
+type ProjectBoardProps = {
+  project: Project;
+  tasks: Task[]; // The project's tasks
+  onUpdateProject: (project: Project) => void;
+  onMoveTasks: (taskIds: string[], sectionId: string | null) => void; // New order of a column
+  onDeleteSection: (projectId: string, sectionId: string) => void;
+  onSelectTask: (task: Task) => void;
+};
+
+export function ProjectBoard({
+  project,
+  tasks,
+  onUpdateProject,
+  onMoveTasks,
+  onDeleteSection,
+  onSelectTask,
+}: ProjectBoardProps) {
+  const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
+  const [newSectionName, setNewSectionName] = useState("");
+
+  const sections = useMemo(
+    () => [...project.sections].sort((a, b) => a.order - b.order),
+    [project.sections]
+  );
+
+  // Open top-level cards per column, in board order
+  const columns = useMemo(() => {
+    const sectionIds = new Set(sections.map((s) => s.id));
+    const byColumn = new Map<string, Task[]>([[UNSECTIONED, []], ...sections.map((s) => [s.id, []] as [string, Task[]])]);
+    for (const task of tasks) {
+      if (task.parentId || !isTaskOpen(task)) continue;
+      const column = task.sectionId && sectionIds.has(task.sectionId) ? task.sectionId : UNSECTIONED;
+      byColumn.get(column)!.push(task);
+    }
+    for (const cards of byColumn.values()) {
+      cards.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    }
+    return byColumn;
+  }, [tasks, sections]);
+
+  const saveSections = (next: ProjectSection[]) => {
+    onUpdateProject({
+      ...project,
+      sections: next.map((s, index) => ({ ...s, order: index })),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const updateSection = (sectionId: string, changes: Partial<ProjectSection>) => {
+    saveSections(sections.map((s) => (s.id === sectionId ? { ...s, ...changes } : s)));
+  };
+
+  const handleAddSection = () => {
+    if (!newSectionName.trim()) return;
+    saveSections([...sections, createSection(project.id, newSectionName.trim(), sections.length)]);
+    setNewSectionName("");
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    const { source, destination, type } = result;
+    if (!destination) return;
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+    if (type === "COLUMN") {
+      const next = [...sections];
+      const [moved] = next.splice(source.index, 1);
+      next.splice(destination.index, 0, moved);
+      saveSections(next);
+      return;
+    }
+
+    const sourceCards = [...(columns.get(source.droppableId) || [])];
+    const [moved] = sourceCards.splice(source.index, 1);
+    if (!moved) return;
+
+    if (source.droppableId === destination.droppableId) {
+      sourceCards.splice(destination.index, 0, moved);
+      onMoveTasks(sourceCards.map((t) => t.id), source.droppableId === UNSECTIONED ? null : source.droppableId);
+      return;
+    }
+
+    // Moving into a section that is already at its WIP limit needs a yes
+    const target = sections.find((s) => s.id === destination.droppableId);
+    const destinationCards = [...(columns.get(destination.droppableId) || [])];
+    if (target?.wipLimit && destinationCards.length >= target.wipLimit) {
+      const proceed = window.confirm(
+        `"${target.name}" is at its limit of ${target.wipLimit} tasks. Move "${moved.title}" there anyway?`
+      );
+      if (!proceed) return;
+    }
+
+    destinationCards.splice(destination.index, 0, moved);
+    onMoveTasks(destinationCards.map((t) => t.id), target ? target.id : null);
+  };
+
+  const renderCards = (columnId: string) => (
+    <Droppable droppableId={columnId} type="CARD">
+      {(provided, snapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.droppableProps}
+          className={`kanban-column-tasks project-board__cards ${snapshot.isDraggingOver ? "project-board__cards--over" : ""}`}
+        >
+          {(columns.get(columnId) || []).map((task, index) => (
+            <Draggable key={task.id} draggableId={task.id} index={index}>
+              {(provided, snapshot) => (
+                <div
+                  ref={provided.innerRef}
+                  {...provided.draggableProps}
+                  {...provided.dragHandleProps}
+                  className={`kanban-task-card ${snapshot.isDragging ? "project-board__card--dragging" : ""}`}
+                  onClick={() => onSelectTask(task)}
+                  style={{ ...provided.draggableProps.style, borderLeftColor: LOOP_COLORS[task.loop].border }}
+                >
+                  <div className="kanban-task-title">{task.title}</div>
+                  <div className="kanban-task-meta">
+                    <span className="kanban-task-loop">{LOOP_DEFINITIONS[task.loop].icon}</span>
+                    {task.status === "doing" && <span className="project-board__doing">In progress</span>}
+                    {task.dueDate && (
+                      <span className="kanban-task-due">
+                        {new Date(task.dueDate + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </Draggable>
+          ))}
+          {provided.placeholder}
+        </div>
+      )}
+    </Droppable>
+  );
+
+  const renderSectionHeader = (section: ProjectSection) => {
+    const count = columns.get(section.id)?.length ?? 0;
+    const isOver = !!section.wipLimit && count > section.wipLimit;
+    const isFull = !!section.wipLimit && count === section.wipLimit;
+
+    if (editingSectionId === section.id) {
+      return (
+        <div className="project-board__section-edit">
+          <input
+            type="text"
+            defaultValue={section.name}
+            onBlur={(e) => e.target.value.trim() && updateSection(section.id, { name: e.target.value.trim() })}
+            autoFocus
+          />
+          <label>
+            WIP limit
+            <input
+              type="number"
+              min={0}
+              defaultValue={section.wipLimit ?? ""}
+              placeholder="None"
+              onBlur={(e) => {
+                const limit = parseInt(e.target.value, 10);
+                updateSection(section.id, { wipLimit: limit > 0 ? limit : undefined });
+              }}
+            />
+          </label>
+          <div className="project-board__section-edit-actions">
+            <button
+              className="project-board__delete-section"
+              onClick={() => {
+                if (window.confirm(`Delete section "${section.name}"? Its tasks move to No section.`)) {
+                  onDeleteSection(project.id, section.id);
+                  setEditingSectionId(null);
+                }
+              }}
+            >
+              Delete
+            </button>
+            <button onClick={() => setEditingSectionId(null)}>Done</button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <button
+          className="project-board__collapse"
+          onClick={() => updateSection(section.id, { collapsed: !section.collapsed })}
+          title={section.collapsed ? "Expand" : "Collapse"}
+        >
+          {section.collapsed ? "▸" : "▾"}
+        </button>
+        <span
+          className="kanban-column-title"
+          onDoubleClick={() => setEditingSectionId(section.id)}
+          title="Double-click to edit"
+        >
+          {section.name}
+        </span>
+        <span
+          className={`kanban-column-count ${isOver ? "project-board__count--over" : isFull ? "project-board__count--full" : ""}`}
+          title={section.wipLimit ? `WIP limit ${section.wipLimit}` : undefined}
+        >
+          {section.wipLimit ? `${count}/${section.wipLimit}` : count}
+        </span>
+        <button
+          className="project-board__settings"
+          onClick={() => setEditingSectionId(section.id)}
+          title="Section settings"
+        >
+          ⋯
+        </button>
+      </>
+    );
+  };
+
+  return (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <div className="project-board">
+        {/* Tasks without a section - always first, not reorderable */}
+        <div className="kanban-column project-board__column">
+          <div className="kanban-column-header project-board__header">
+            <span className="kanban-column-title">No section</span>
+            <span className="kanban-column-count">{columns.get(UNSECTIONED)?.length ?? 0}</span>
+          </div>
+          {renderCards(UNSECTIONED)}
+        </div>
+
+        <Droppable droppableId="board" type="COLUMN" direction="horizontal">
+          {(provided) => (
+            <div ref={provided.innerRef} {...provided.droppableProps} className="project-board__sections">
+              {sections.map((section, index) => (
+                <Draggable key={section.id} draggableId={`section_${section.id}`} index={index}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      className={[
+                        "kanban-column",
+                        "project-board__column",
+                        section.collapsed ? "project-board__column--collapsed" : "",
+                        snapshot.isDragging ? "project-board__column--dragging" : "",
+                      ].join(" ")}
+                    >
+                      <div className="kanban-column-header project-board__header" {...provided.dragHandleProps}>
+                        {renderSectionHeader(section)}
+                      </div>
+                      {!section.collapsed && renderCards(section.id)}
+                    </div>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+
+        <div className="project-board__add-section">
+          <input
+            type="text"
+            value={newSectionName}
+            onChange={(e) => setNewSectionName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddSection()}
+            placeholder="New section"
+          />
+          <button onClick={handleAddSection} disabled={!newSectionName.trim()}>
+            Add section
+          </button>
+        </div>
+      </div>
+    </DragDropContext>
+  );
+}
+
+export default ProjectBoard;
@@ -0,0 +1,58 @@
+// Live preview of quick add input - recognised tokens highlighted, with what each was read as
+
+import { ReactNode } from "react";
+import { QuickAddToken } from "../../engines/quickAddEngine";
+
+type QuickAddPreviewProps = {
+  input: string;
+  tokens: QuickAddToken[];
+};
+
+export function QuickAddPreview({ input, tokens }: QuickAddPreviewProps) {
+  if (tokens.length === 0) return null;
+
+  const segments: ReactNode[] = [];
+  let position = 0;
+  tokens.forEach((token, index) => {
+    if (token.start > position) {
+      segments.push(input.slice(position, token.start));
+    }
+    segments.push(
+      <mark
+        key={index}
+        className={[
+          "quick-add-preview__token",
+          `quick-add-preview__token--${token.kind}`,
+          token.unresolved ? "quick-add-preview__token--unresolved" : "",
+        ].join(" ")}
+        title={token.label}
+      >
+        {input.slice(token.start, token.end)}
+      </mark>
+    );
+    position = token.end;
+  });
+  segments.push(input.slice(position));
+
+  return (
+    <div className="quick-add-preview">
+      <div className="quick-add-preview__text">{segments}</div>
+      <div className="quick-add-preview__chips">
+        {tokens.map((token, index) => (
+          <span
+            key={index}
+            className={[
+              "quick-add-preview__chip",
+              `quick-add-preview__chip--${token.kind}`,
+              token.unresolved ? "quick-add-preview__chip--unresolved" : "",
+            ].join(" ")}
+          >
+            {token.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default QuickAddPreview;
@@ -0,0 +1,105 @@
+// Create or edit a saved filter - query validated and counted as you type
+
+import { useState, useMemo } from "react";
+import { Task, SavedFilter } from "../../types";
+import {
+  parseFilterQuery,
+  filterTasks,
+  FilterContext,
+  FILTER_QUERY_EXAMPLES,
+} from "../../engines/filterQueryEngine";
+
+type SavedFilterModalProps = {
+  filter?: SavedFilter; // Editing when set
+  tasks: Task[];
+  context: FilterContext;
+  onSave: (name: string, query: string) => void;
+  onClose: () => void;
+};
+
+export function SavedFilterModal({ filter, tasks, context, onSave, onClose }: SavedFilterModalProps) {
+  const [name, setName] = useState(filter?.name ?? "");
+  const [query, setQuery] = useState(filter?.query ?? "");
+
+  const parsed = useMemo(() => (query.trim() ? parseFilterQuery(query) : null), [query]);
+  const matchCount = useMemo(
+    () => (parsed?.node ? filterTasks(tasks, parsed.node, context).length : 0),
+    [parsed, tasks, context]
+  );
+  const canSave = !!name.trim() && !!parsed?.node;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="new-project-modal saved-filter-modal" onClick={(e) => e.stopPropagation()}>
+        <h3>{filter ? "Edit Filter" : "New Filter"}</h3>
+        <div className="form-group">
+          <label>Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Deep-work candidates this week"
+            autoFocus
+          />
+        </div>
+        <div className="form-group">
+          <label>Query</label>
+          <textarea
+            className="saved-filter-modal__query"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="loop:Health & due:<=7d & !label:waiting"
+            rows={3}
+            spellCheck={false}
+          />
+          {parsed?.error && <div className="saved-filter-modal__error">{parsed.error}</div>}
+          {parsed?.node && (
+            <div className="saved-filter-modal__count">
+              {matchCount} {matchCount === 1 ? "task matches" : "tasks match"}
+            </div>
+          )}
+        </div>
+
+        {!filter && (
+          <div className="saved-filter-modal__examples">
+            <span>Examples:</span>
+            {FILTER_QUERY_EXAMPLES.map((example) => (
+              <button
+                key={example.name}
+                className="saved-filter-modal__example"
+                onClick={() => {
+                  setQuery(example.query);
+                  if (!name.trim()) setName(example.name);
+                }}
+                title={example.query}
+              >
+                {example.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p className="saved-filter-modal__help">
+          Fields: loop, subloop, due (today, overdue, none, &lt;=7d, 2026-12-01), label, project, p (1-4),
+          status, energy, location, focus, state, requires, estimate (minutes), is (recurring, blocked, subtask,
+          overdue), has, source. Combine with &amp;, |, ! and parentheses; plain words search titles.
+        </p>
+
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="create-btn"
+            onClick={() => onSave(name.trim(), query.trim())}
+            disabled={!canSave}
+          >
+            {filter ? "Save Filter" : "Create Filter"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SavedFilterModal;
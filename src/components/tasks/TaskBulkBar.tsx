@@ -0,0 +1,188 @@
+// Bulk action bar - shown while tasks are selected in a task list
+
+import { useState } from "react";
+import {
+  Task,
+  Project,
+  Label,
+  LoopId,
+  Priority,
+  ALL_LOOPS,
+  LOOP_DEFINITIONS,
+} from "../../types";
+import { BulkTaskChanges } from "../../engines/bulkTaskEngine";
+
+type TaskBulkBarProps = {
+  selectedTasks: Task[];
+  selectableCount: number;
+  projects: Project[];
+  labels: Label[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onUpdate: (changes: BulkTaskChanges) => void;
+  onComplete?: () => void;
+  onDelete?: () => void;
+};
+
+const PRIORITY_OPTIONS: { value: Priority; label: string }[] = [
+  { value: 1, label: "P1 (Urgent)" },
+  { value: 2, label: "P2 (High)" },
+  { value: 3, label: "P3 (Medium)" },
+  { value: 4, label: "P4 (Low)" },
+  { value: 0, label: "Someday" },
+];
+
+export function TaskBulkBar({
+  selectedTasks,
+  selectableCount,
+  projects,
+  labels,
+  onSelectAll,
+  onClearSelection,
+  onUpdate,
+  onComplete,
+  onDelete,
+}: TaskBulkBarProps) {
+  const [dueDate, setDueDate] = useState("");
+
+  // Sections only make sense when everything selected is in one project
+  const projectIds = new Set(selectedTasks.map((t) => t.projectId ?? ""));
+  const sharedProject = projectIds.size === 1 ? projects.find((p) => p.id === [...projectIds][0]) : undefined;
+
+  const handleDelete = () => {
+    const count = selectedTasks.length;
+    if (window.confirm(`Delete ${count} task${count !== 1 ? "s" : ""}?`)) {
+      onDelete?.();
+    }
+  };
+
+  return (
+    <div className="task-bulk-bar">
+      <div className="task-bulk-bar__selection">
+        <span className="task-bulk-bar__count">{selectedTasks.length} selected</span>
+        {selectedTasks.length < selectableCount && (
+          <button className="task-bulk-bar__link" onClick={onSelectAll}>
+            Select all {selectableCount}
+          </button>
+        )}
+        <button className="task-bulk-bar__link" onClick={onClearSelection}>
+          Clear
+        </button>
+      </div>
+
+      <div className="task-bulk-bar__actions">
+        <select
+          value=""
+          onChange={(e) => e.target.value && onUpdate({ loop: e.target.value as LoopId })}
+          title="Move to loop"
+        >
+          <option value="">Loop…</option>
+          {ALL_LOOPS.map((loop) => (
+            <option key={loop} value={loop}>
+              {LOOP_DEFINITIONS[loop].icon} {loop}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && onUpdate({ projectId: e.target.value === "none" ? null : e.target.value })}
+          title="Move to project"
+        >
+          <option value="">Project…</option>
+          <option value="none">No project</option>
+          {projects
+            .filter((p) => !p.archived)
+            .map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+        </select>
+
+        {sharedProject && sharedProject.sections.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onUpdate({ sectionId: e.target.value === "none" ? null : e.target.value })}
+            title={`Move to a section of ${sharedProject.name}`}
+          >
+            <option value="">Section…</option>
+            <option value="none">No section</option>
+            {sharedProject.sections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {section.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && onUpdate({ priority: Number(e.target.value) as Priority })}
+          title="Set priority"
+        >
+          <option value="">Priority…</option>
+          {PRIORITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        {labels.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const [mode, id] = e.target.value.split(":");
+              if (!id) return;
+              onUpdate(mode === "add" ? { addLabels: [id] } : { removeLabels: [id] });
+            }}
+            title="Add or remove a label"
+          >
+            <option value="">Labels…</option>
+            <optgroup label="Add">
+              {labels.map((label) => (
+                <option key={label.id} value={`add:${label.id}`}>
+                  + {label.name}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Remove">
+              {labels.map((label) => (
+                <option key={label.id} value={`remove:${label.id}`}>
+                  − {label.name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        )}
+
+        <span className="task-bulk-bar__due">
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            title="Due date"
+          />
+          <button onClick={() => onUpdate({ dueDate })} disabled={!dueDate}>
+            Set due
+          </button>
+          <button onClick={() => onUpdate({ dueDate: null })}>No date</button>
+        </span>
+
+        {onComplete && (
+          <button className="task-bulk-bar__complete" onClick={onComplete}>
+            Complete
+          </button>
+        )}
+        {onDelete && (
+          <button className="task-bulk-bar__delete" onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TaskBulkBar;
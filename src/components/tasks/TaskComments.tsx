@@ -0,0 +1,201 @@
+// Threaded comments and activity timeline for a task - reads and writes app state directly
+
+import { useMemo, useState } from "react";
+import { useApp } from "../../context/AppContext";
+import { Task, TaskComment, createTaskComment } from "../../types";
+import {
+  getCommentThreads,
+  getTaskActivity,
+  describeActivity,
+} from "../../engines/taskActivityEngine";
+
+type TaskCommentsProps = {
+  task: Task;
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function TaskComments({ task }: TaskCommentsProps) {
+  const { state, dispatch } = useApp();
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+
+  const threads = useMemo(
+    () => getCommentThreads(state.taskComments, task.id),
+    [state.taskComments, task.id]
+  );
+  const activity = useMemo(
+    () => getTaskActivity(state.taskActivity, task.id),
+    [state.taskActivity, task.id]
+  );
+  const isTodoistTask = task.source === "todoist";
+
+  const addComment = (content: string, parentId?: string) => {
+    if (!content.trim()) return;
+    dispatch({ type: "ADD_TASK_COMMENT", payload: createTaskComment(task.id, content.trim(), parentId) });
+  };
+
+  const saveEdit = (comment: TaskComment) => {
+    if (editDraft.trim() && editDraft.trim() !== comment.content) {
+      dispatch({
+        type: "UPDATE_TASK_COMMENT",
+        payload: { ...comment, content: editDraft.trim(), updatedAt: new Date().toISOString() },
+      });
+    }
+    setEditingId(null);
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => (
+    <div key={comment.id} className={`task-comment ${isReply ? "task-comment--reply" : ""}`}>
+      <div className="task-comment__meta">
+        <span>{formatTimestamp(comment.createdAt)}</span>
+        {comment.updatedAt && <span className="task-comment__edited">edited</span>}
+      </div>
+      {editingId === comment.id ? (
+        <div className="task-comment__edit">
+          <textarea
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            rows={2}
+            autoFocus
+          />
+          <div className="task-comment__actions">
+            <button onClick={() => saveEdit(comment)} disabled={!editDraft.trim()}>Save</button>
+            <button onClick={() => setEditingId(null)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="task-comment__content">{comment.content}</div>
+          <div className="task-comment__actions">
+            {!isReply && (
+              <button
+                onClick={() => {
+                  setReplyTo(replyTo === comment.id ? null : comment.id);
+                  setReplyDraft("");
+                }}
+              >
+                Reply
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setEditingId(comment.id);
+                setEditDraft(comment.content);
+              }}
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => {
+                const message = isReply ? "Delete this reply?" : "Delete this comment and its replies?";
+                if (window.confirm(message)) {
+                  dispatch({ type: "DELETE_TASK_COMMENT", payload: comment.id });
+                }
+              }}
+            >
+              Delete
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {/* Comments */}
+      <div className="task-detail-section task-comments">
+        <h4>
+          <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+            <path d="M21.99 4c0-1.1-.89-2-1.99-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h14l4 4-.01-18zM18 14H6v-2h12v2zm0-3H6V9h12v2zm0-3H6V6h12v2z" />
+          </svg>
+          Comments
+          {threads.length > 0 && <span className="subtasks-count">{threads.length}</span>}
+        </h4>
+
+        {threads.map(({ comment, replies }) => (
+          <div key={comment.id} className="task-comment-thread">
+            {renderComment(comment, false)}
+            {replies.map((reply) => renderComment(reply, true))}
+            {replyTo === comment.id && (
+              <div className="task-comment-compose task-comment-compose--reply">
+                <input
+                  type="text"
+                  value={replyDraft}
+                  onChange={(e) => setReplyDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && replyDraft.trim()) {
+                      addComment(replyDraft, comment.id);
+                      setReplyDraft("");
+                      setReplyTo(null);
+                    }
+                  }}
+                  placeholder="Write a reply..."
+                  autoFocus
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="task-comment-compose">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a comment..."
+            rows={2}
+          />
+          <button
+            onClick={() => {
+              addComment(draft);
+              setDraft("");
+            }}
+            disabled={!draft.trim()}
+          >
+            Comment
+          </button>
+        </div>
+      </div>
+
+      {/* Activity */}
+      {activity.length > 0 && (
+        <div className="task-detail-section task-activity">
+          <h4>
+            <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+              <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z" />
+            </svg>
+            Activity
+          </h4>
+          <ol className="task-activity__timeline">
+            {activity.map((entry) => (
+              <li key={entry.id} className={`task-activity__entry task-activity__entry--${entry.field}`}>
+                <span className="task-activity__text">{describeActivity(entry)}</span>
+                <span className="task-activity__meta">
+                  {formatTimestamp(entry.at)}
+                  {isTodoistTask && (
+                    <span className={`task-activity__origin task-activity__origin--${entry.origin}`}>
+                      {entry.origin === "todoist" ? "in Todoist" : "in Looops"}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default TaskComments;
@@ -1,7 +1,9 @@
 // Task detail/edit modal (Todoist-style)
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { TaskTimer } from "./TaskTimer";
+import { TaskComments } from "./TaskComments";
+import { TaskReminders } from "./TaskReminders";
 import {
   Task,
   Project,
@@ -16,6 +18,8 @@ import {
   RECURRENCE_PRESETS,
   getRecurrenceLabel,
 } from "../../types";
+import { getDependents, isTaskOpen, wouldCreateCycle } from "../../engines/dependencyEngine";
+import { formatRRule, parseRRule, getUpcomingOccurrences } from "../../engines/recurrenceEngine";
 
 type TaskDetailModalProps = {
   task: Task;
@@ -29,6 +33,8 @@ type TaskDetailModalProps = {
   onAddSubtask: (parentId: string, title: string) => void;
   onToggleSubtask: (taskId: string) => void;
   onToggleComplete?: (taskId: string) => void;
+  onAddToToday?: () => void; // Omitted when the task is already on today's stack
+  allTasks?: Task[]; // Candidates for dependencies - editing is hidden without them
 };
 
 export function TaskDetailModal({
@@ -43,6 +49,8 @@ export function TaskDetailModal({
   onAddSubtask,
   onToggleSubtask,
   onToggleComplete,
+  onAddToToday,
+  allTasks,
 }: TaskDetailModalProps) {
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description || "");
@@ -58,44 +66,87 @@ export function TaskDetailModal({
   const [selectedLabels, setSelectedLabels] = useState<string[]>(task.labels || []);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [dependencies, setDependencies] = useState<string[]>(task.dependencies || []);
+
+  // Prerequisites that can be added without closing a dependency cycle
+  const dependencyCandidates = useMemo(() => {
+    if (!allTasks) return [];
+    const withEdits = allTasks.map((t) => (t.id === task.id ? { ...t, dependencies } : t));
+    return allTasks
+      .filter((t) => isTaskOpen(t) && !t.parentId && !dependencies.includes(t.id))
+      .filter((t) => !wouldCreateCycle(withEdits, task.id, t.id))
+      .sort((a, b) => {
+        const aSameProject = a.projectId === task.projectId ? 0 : 1;
+        const bSameProject = b.projectId === task.projectId ? 0 : 1;
+        return aSameProject - bSameProject || a.title.localeCompare(b.title);
+      });
+  }, [allTasks, dependencies, task.id, task.projectId]);
+
+  const dependents = useMemo(
+    () => (allTasks ? getDependents(task.id, allTasks) : []),
+    [allTasks, task.id]
+  );
 
   // Recurrence state
   const [recurrencePreset, setRecurrencePreset] = useState<string>(() => {
     if (!task.recurrence) return "";
-    // Try to match existing recurrence to a preset
-    const match = RECURRENCE_PRESETS.find(p => {
-      const r = task.recurrence!;
-      if (p.pattern.frequency !== r.frequency) return false;
-      if (p.pattern.interval !== r.interval) return false;
-      if (p.pattern.daysOfWeek && r.daysOfWeek) {
-        return JSON.stringify(p.pattern.daysOfWeek.sort()) === JSON.stringify(r.daysOfWeek.sort());
-      }
-      return !p.pattern.daysOfWeek && !r.daysOfWeek;
-    });
-    return match ? match.id : "custom";
+    // Compare the schedule itself - series bounds and anchor are kept whichever option is picked
+    const { anchor: _anchor, exceptions: _exceptions, endDate: _endDate, count: _count, occurrence: _occurrence, ...schedule } = task.recurrence;
+    const rule = formatRRule(schedule);
+    const match = RECURRENCE_PRESETS.find(p => formatRRule(p.pattern) === rule);
+    if (match) return match.id;
+    const isPlainWeekly = rule === formatRRule({ frequency: "weekly", interval: 1, daysOfWeek: schedule.daysOfWeek });
+    return isPlainWeekly && (schedule.daysOfWeek?.length || 0) > 0 ? "custom" : "rrule";
   });
   const [customDays, setCustomDays] = useState<number[]>(task.recurrence?.daysOfWeek || []);
   const [showCustomDays, setShowCustomDays] = useState(recurrencePreset === "custom" && (task.recurrence?.daysOfWeek?.length || 0) > 0);
+  const [rruleText, setRruleText] = useState(task.recurrence ? formatRRule(task.recurrence) : "");
+  const [repeatFromCompletion, setRepeatFromCompletion] = useState(task.recurrence?.anchor === "completion");
+
+  // Pattern from the RRULE field, or null while it doesn't parse
+  const rrulePattern = useMemo(() => (rruleText.trim() ? parseRRule(rruleText) : null), [rruleText]);
 
   // Build recurrence pattern from state
   const getRecurrencePattern = (): RecurrencePattern | undefined => {
     if (!recurrencePreset) return undefined;
 
+    // A full rule carries its own bounds and anchor
+    if (recurrencePreset === "rrule") {
+      if (!rrulePattern) return task.recurrence;
+      return { ...rrulePattern, occurrence: task.recurrence?.occurrence };
+    }
+
+    let schedule: RecurrencePattern | undefined;
     if (recurrencePreset === "custom") {
       if (customDays.length > 0) {
-        return {
+        schedule = {
           frequency: "weekly",
           interval: 1,
           daysOfWeek: customDays,
         };
       }
-      return undefined;
+    } else {
+      schedule = RECURRENCE_PRESETS.find(p => p.id === recurrencePreset)?.pattern;
     }
-
-    const preset = RECURRENCE_PRESETS.find(p => p.id === recurrencePreset);
-    return preset?.pattern;
+    if (!schedule) return undefined;
+
+    return {
+      ...schedule,
+      anchor: repeatFromCompletion ? "completion" : undefined,
+      exceptions: task.recurrence?.exceptions,
+      endDate: task.recurrence?.endDate,
+      until: task.recurrence?.until,
+      count: task.recurrence?.count,
+      occurrence: task.recurrence?.occurrence,
+    };
   };
 
+  // Next few dates for the pattern as edited
+  const editedRecurrence = getRecurrencePattern();
+  const upcomingDates = editedRecurrence && editedRecurrence.anchor !== "completion"
+    ? getUpcomingOccurrences(editedRecurrence, dueDate || new Date().toISOString().split("T")[0], 3)
+    : [];
+
   const handleSave = () => {
     const updatedTask: Task = {
       ...task,
@@ -112,6 +163,7 @@ export function TaskDetailModal({
       requiredState: requiredState || undefined,
       labels: selectedLabels.length > 0 ? selectedLabels : undefined,
       recurrence: getRecurrencePattern(),
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
       updatedAt: new Date().toISOString(),
     };
     onSave(updatedTask);
@@ -269,6 +321,9 @@ export function TaskDetailModal({
             <TaskTimer task={task} />
           </div>
 
+          {/* Comments and activity timeline */}
+          <TaskComments task={task} />
+
           {/* Properties */}
           <div className="task-detail-properties">
             {/* Loop */}
@@ -403,6 +458,10 @@ export function TaskDetailModal({
                 value={recurrencePreset}
                 onChange={(e) => {
                   setRecurrencePreset(e.target.value);
+                  if (e.target.value === "rrule" && !rruleText) {
+                    const current = getRecurrencePattern();
+                    setRruleText(current ? formatRRule(current) : "RRULE:FREQ=WEEKLY");
+                  }
                   if (e.target.value === "custom") {
                     setShowCustomDays(true);
                   } else {
@@ -418,9 +477,43 @@ export function TaskDetailModal({
                   </option>
                 ))}
                 <option value="custom">Custom days...</option>
+                <option value="rrule">Custom rule (RRULE)...</option>
               </select>
             </div>
 
+            {/* Full iCalendar rule - paste from another calendar or copy out */}
+            {recurrencePreset === "rrule" && (
+              <div className="property-row property-row-rrule">
+                <label>RRULE</label>
+                <div className="rrule-editor">
+                  <textarea
+                    value={rruleText}
+                    onChange={(e) => setRruleText(e.target.value)}
+                    rows={2}
+                    spellCheck={false}
+                    placeholder="RRULE:FREQ=MONTHLY;BYDAY=2TU"
+                  />
+                  {rruleText.trim() && !rrulePattern && (
+                    <span className="rrule-editor__error">Not a rule we can schedule - the previous repeat is kept</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {recurrencePreset && recurrencePreset !== "rrule" && (
+              <div className="property-row">
+                <label />
+                <label className="repeat-anchor-toggle">
+                  <input
+                    type="checkbox"
+                    checked={repeatFromCompletion}
+                    onChange={(e) => setRepeatFromCompletion(e.target.checked)}
+                  />
+                  Count from completion, not the schedule
+                </label>
+              </div>
+            )}
+
             {/* Custom days picker */}
             {showCustomDays && (
               <div className="property-row property-row-days">
@@ -459,6 +552,24 @@ export function TaskDetailModal({
                 </span>
               </div>
             )}
+            {upcomingDates.length > 0 && (
+              <div className="property-row recurrence-info">
+                <span className="recurrence-upcoming">
+                  Next: {upcomingDates.map((d) => new Date(`${d}T12:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })).join(", ")}
+                </span>
+              </div>
+            )}
+
+            {/* Reminders */}
+            <div className="property-row property-row-reminders">
+              <label>
+                <svg viewBox="0 0 24 24" fill="currentColor" className="property-icon">
+                  <path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
+                </svg>
+                Remind me
+              </label>
+              <TaskReminders task={task} />
+            </div>
 
             {/* Time estimate */}
             <div className="property-row">
@@ -500,6 +611,55 @@ export function TaskDetailModal({
               </select>
             </div>
 
+            {/* Dependencies */}
+            {allTasks && (
+              <div className="property-row property-row-dependencies">
+                <label>
+                  <svg viewBox="0 0 24 24" fill="currentColor" className="property-icon">
+                    <path d="M3.9 12c0-1.71 1.39-3.1 3.1-3.1h4V7H7c-2.76 0-5 2.24-5 5s2.24 5 5 5h4v-1.9H7c-1.71 0-3.1-1.39-3.1-3.1zM8 13h8v-2H8v2zm9-6h-4v1.9h4c1.71 0 3.1 1.39 3.1 3.1s-1.39 3.1-3.1 3.1h-4V17h4c2.76 0 5-2.24 5-5s-2.24-5-5-5z" />
+                  </svg>
+                  Depends on
+                </label>
+                <div className="dependency-picker">
+                  {dependencies.map((id) => {
+                    const dep = allTasks.find((t) => t.id === id);
+                    if (!dep) return null;
+                    return (
+                      <span
+                        key={id}
+                        className={`dependency-chip ${isTaskOpen(dep) ? "dependency-chip--open" : "dependency-chip--done"}`}
+                      >
+                        {isTaskOpen(dep) ? "🔒" : "✓"} {dep.title}
+                        <button
+                          className="dependency-chip__remove"
+                          onClick={() => setDependencies(dependencies.filter((d) => d !== id))}
+                          title="Remove dependency"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    );
+                  })}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setDependencies([...dependencies, e.target.value])}
+                  >
+                    <option value="">Add prerequisite…</option>
+                    {dependencyCandidates.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {LOOP_DEFINITIONS[t.loop].icon} {t.title}
+                      </option>
+                    ))}
+                  </select>
+                  {dependents.length > 0 && (
+                    <span className="dependency-dependents">
+                      Blocks: {dependents.map((t) => t.title).join(", ")}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Labels */}
             <div className="property-row property-row-labels">
               <label>
@@ -557,6 +717,11 @@ export function TaskDetailModal({
             )}
           </div>
           <div className="footer-right">
+            {onAddToToday && (
+              <button className="cancel-btn" onClick={onAddToToday}>
+                Add to Today
+              </button>
+            )}
             <button className="cancel-btn" onClick={onClose}>
               Cancel
             </button>
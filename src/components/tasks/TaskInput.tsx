@@ -9,13 +9,14 @@ import {
   Label,
   RecurrencePattern,
   RECURRENCE_PRESETS,
-  parseTaskInput,
   createTask,
   ALL_LOOPS,
   LOOP_DEFINITIONS,
   LOOP_COLORS,
 } from "../../types";
-import { predictLoop } from "../../engines";
+import { predictLoop, parseQuickAdd } from "../../engines";
+import { useApp, useLoopModel } from "../../context/AppContext";
+import { QuickAddPreview } from "./QuickAddPreview";
 
 type TaskInputProps = {
   onAddTask: (task: Task) => void;
@@ -37,7 +38,7 @@ export function TaskInput({
   taskHistory = [],
   defaultLoop = "Work",
   defaultProjectId,
-  placeholder = "Add task... (try: 'Review budget #Wealth p1 tomorrow')",
+  placeholder = "Add task... (try: 'Review budget #Wealth p1 fri 3pm ~30m')",
   autoFocus = false,
   onCancel,
   showExpandedForm = false,
@@ -52,6 +53,8 @@ export function TaskInput({
   const [userOverrodeLoop, setUserOverrodeLoop] = useState(false);
   const [recurrence, setRecurrence] = useState<RecurrencePattern | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const { dispatch } = useApp();
+  const loopModel = useLoopModel();
 
   useEffect(() => {
     if (autoFocus && inputRef.current) {
@@ -60,39 +63,51 @@ export function TaskInput({
   }, [autoFocus]);
 
   // Parse input as user types for preview
-  const parsed = parseTaskInput(input);
+  const { parsed, tokens } = useMemo(() => parseQuickAdd(input, { projects }), [input, projects]);
 
-  // Smart loop prediction based on task text
+  // Smart loop prediction based on task text - kept after a manual pick so the correction can be learned
   const loopPrediction = useMemo(() => {
     // Don't predict if user explicitly set a loop with #LoopName
-    if (parsed.loop || userOverrodeLoop || !input.trim()) {
+    if (parsed.loop || !input.trim()) {
       return null;
     }
-    return predictLoop(input, taskHistory);
-  }, [input, parsed.loop, userOverrodeLoop, taskHistory]);
+    return predictLoop(parsed.title || input, taskHistory, undefined, loopModel);
+  }, [input, parsed.title, parsed.loop, taskHistory, loopModel]);
+  const predicted = loopPrediction?.topPrediction ?? null;
 
   // Auto-update selected loop based on prediction
   useEffect(() => {
-    if (loopPrediction?.topPrediction && !userOverrodeLoop && !parsed.loop) {
-      setSelectedLoop(loopPrediction.topPrediction.loop);
+    if (predicted && !userOverrodeLoop && !parsed.loop) {
+      setSelectedLoop(predicted.loop);
     }
-  }, [loopPrediction, userOverrodeLoop, parsed.loop]);
+  }, [predicted, userOverrodeLoop, parsed.loop]);
 
   const handleSubmit = () => {
     if (!input.trim()) return;
 
-    const task = createTask(parsed.title || input.trim(), parsed.loop || selectedLoop, {
+    const taskRecurrence = parsed.recurrence || recurrence || undefined;
+    const title = parsed.title || input.trim();
+    const loop = parsed.loop || selectedLoop;
+    const task = createTask(title, loop, {
       description: description || parsed.description,
+      subLoop: parsed.subLoop || (predicted?.loop === loop ? predicted.subLoop : undefined),
       priority: parsed.priority || selectedPriority,
       dueDate: parsed.dueDate || dueDate || undefined,
-      projectId: selectedProject,
+      dueTime: parsed.dueTime,
+      estimateMinutes: parsed.estimateMinutes,
+      projectId: parsed.projectId || selectedProject,
       labels: parsed.labels,
+      constraints: parsed.constraints,
       status: "todo",
-      source: recurrence ? "recurring" : "manual",
-      recurrence: recurrence || undefined,
+      source: taskRecurrence ? "recurring" : "manual",
+      recurrence: taskRecurrence,
     });
 
     onAddTask(task);
+    // Picked a different loop than the one suggested
+    if (!parsed.loop && userOverrodeLoop && predicted && predicted.loop !== loop) {
+      dispatch({ type: "LEARN_LOOP_CORRECTION", payload: { title, loop, subLoop: parsed.subLoop } });
+    }
     resetForm();
   };
 
@@ -133,14 +148,6 @@ export function TaskInput({
     0: "#a3a3b8",  // Gray
   };
 
-  const priorityLabels: Record<Priority, string> = {
-    1: "P1",
-    2: "P2",
-    3: "P3",
-    4: "P4",
-    0: "Someday",
-  };
-
   return (
     <div className="task-input-container">
       <div className="task-input-main">
@@ -171,53 +178,27 @@ export function TaskInput({
         </button>
       </div>
 
-      {/* Quick hints when typing */}
-      {input && (parsed.loop || parsed.priority || parsed.dueDate || loopPrediction?.topPrediction) && (
+      {/* Live preview of recognised tokens */}
+      <QuickAddPreview input={input} tokens={tokens} />
+
+      {/* Predicted loop when none was given with #LoopName */}
+      {input && !parsed.loop && !userOverrodeLoop && predicted && (
         <div className="task-input-hints">
-          {/* Show parsed loop if explicitly set with #LoopName */}
-          {parsed.loop && (
-            <span
-              className="hint-tag"
-              style={{ backgroundColor: LOOP_COLORS[parsed.loop].bg, color: LOOP_COLORS[parsed.loop].text }}
-            >
-              {LOOP_DEFINITIONS[parsed.loop].icon} {parsed.loop}
-            </span>
-          )}
-          {/* Show AI-predicted loop if no explicit loop */}
-          {!parsed.loop && loopPrediction?.topPrediction && (
-            <span
-              className="hint-tag hint-predicted"
-              style={{
-                backgroundColor: LOOP_COLORS[loopPrediction.topPrediction.loop].bg,
-                color: LOOP_COLORS[loopPrediction.topPrediction.loop].text,
-                border: `1px dashed ${LOOP_COLORS[loopPrediction.topPrediction.loop].border}`
-              }}
-              title={`Predicted: ${loopPrediction.topPrediction.matchedKeywords.join(", ")}`}
-            >
-              {LOOP_DEFINITIONS[loopPrediction.topPrediction.loop].icon} {loopPrediction.topPrediction.loop}
-              <span className="hint-confidence">
-                {Math.round(loopPrediction.topPrediction.confidence * 100)}%
-              </span>
-            </span>
-          )}
-          {parsed.priority && (
-            <span
-              className="hint-tag"
-              style={{ backgroundColor: priorityColors[parsed.priority], color: "white" }}
-            >
-              {priorityLabels[parsed.priority]}
-            </span>
-          )}
-          {parsed.dueDate && (
-            <span className="hint-tag hint-date">
-              {parsed.dueDate}
-            </span>
-          )}
-          {parsed.labels?.map((label) => (
-            <span key={label} className="hint-tag hint-label">
-              @{label}
+          <span
+            className="hint-tag hint-predicted"
+            style={{
+              backgroundColor: LOOP_COLORS[predicted.loop].bg,
+              color: LOOP_COLORS[predicted.loop].text,
+              border: `1px dashed ${LOOP_COLORS[predicted.loop].border}`
+            }}
+            title={`Predicted: ${[...predicted.learnedFeatures, ...predicted.matchedKeywords].join(", ")}`}
+          >
+            {LOOP_DEFINITIONS[predicted.loop].icon} {predicted.loop}
+            {predicted.subLoop && ` / ${predicted.subLoop}`}
+            <span className="hint-confidence">
+              {Math.round(predicted.confidence * 100)}%
             </span>
-          ))}
+          </span>
         </div>
       )}
 
@@ -237,7 +218,7 @@ export function TaskInput({
             <div className="task-input-option">
               <label>
                 Loop
-                {loopPrediction?.topPrediction && !userOverrodeLoop && (
+                {predicted && !userOverrodeLoop && (
                   <span className="loop-auto-badge">auto</span>
                 )}
               </label>
@@ -23,6 +23,10 @@ type TaskItemProps = {
   showProject?: boolean;
   showLoop?: boolean;
   indent?: number;
+  blockedBy?: Task[]; // Open prerequisites
+  isSelected?: boolean;
+  selectionActive?: boolean; // Something is selected - clicks select instead of opening
+  onSelect?: (taskId: string, extendRange: boolean) => void;
 };
 
 export function TaskItem({
@@ -37,6 +41,10 @@ export function TaskItem({
   showProject = true,
   showLoop = true,
   indent = 0,
+  blockedBy = [],
+  isSelected = false,
+  selectionActive = false,
+  onSelect,
 }: TaskItemProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [showSubtasks, setShowSubtasks] = useState(true);
@@ -84,10 +92,22 @@ export function TaskItem({
   return (
     <div className="task-item-wrapper" style={{ marginLeft: indent * 24 }}>
       <div
-        className={`task-item ${isCompleted ? "completed" : ""} priority-${task.priority}`}
+        className={`task-item ${isCompleted ? "completed" : ""} ${isSelected ? "selected" : ""} priority-${task.priority}`}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
       >
+        {/* Multi-select */}
+        {onSelect && (isHovered || selectionActive) && (
+          <input
+            type="checkbox"
+            className="task-select-checkbox"
+            checked={isSelected}
+            onChange={() => {}}
+            onClick={(e) => onSelect(task.id, e.shiftKey)}
+            title="Select (shift-click for a range)"
+          />
+        )}
+
         {/* Checkbox */}
         <button
           className="task-checkbox"
@@ -102,7 +122,16 @@ export function TaskItem({
         </button>
 
         {/* Main content */}
-        <div className="task-content" onClick={() => onEdit(task)}>
+        <div
+          className="task-content"
+          onClick={(e) => {
+            if (onSelect && (selectionActive || e.shiftKey || e.metaKey || e.ctrlKey)) {
+              onSelect(task.id, e.shiftKey);
+            } else {
+              onEdit(task);
+            }
+          }}
+        >
           <div className="task-title-row">
             <span className={`task-title ${isCompleted ? "completed" : ""}`}>
               {task.title}
@@ -132,6 +161,16 @@ export function TaskItem({
 
           {/* Metadata row */}
           <div className="task-meta">
+            {/* Blocked by open prerequisites */}
+            {blockedBy.length > 0 && !isCompleted && (
+              <span
+                className="task-blocked"
+                title={`Waiting on: ${blockedBy.map((t) => t.title).join(", ")}`}
+              >
+                🔒 Blocked{blockedBy.length === 1 ? ` by ${blockedBy[0].title}` : ` by ${blockedBy.length} tasks`}
+              </span>
+            )}
+
             {/* Due date & time */}
             {dueInfo && (
               <span className={`task-due ${dueInfo.className}`}>
@@ -13,8 +13,11 @@ import {
   LOOP_COLORS,
   parseLocalDate,
 } from "../../types";
+import { getOpenBlockers, indexTasks } from "../../engines/dependencyEngine";
+import { BulkTaskChanges, getSelectionRange } from "../../engines/bulkTaskEngine";
 import { TaskItem } from "./TaskItem";
 import { TaskInput } from "./TaskInput";
+import { TaskBulkBar } from "./TaskBulkBar";
 
 type TaskListProps = {
   tasks: Task[];
@@ -30,6 +33,11 @@ type TaskListProps = {
   showAddInput?: boolean;
   emptyMessage?: string;
   showGroupHeaders?: boolean;
+  allTasks?: Task[]; // For resolving prerequisites outside this list
+  // Multi-select is on when onBulkUpdate is given; each bulk change is a single action
+  onBulkUpdate?: (taskIds: string[], changes: BulkTaskChanges) => void;
+  onBulkComplete?: (taskIds: string[]) => void;
+  onBulkDelete?: (taskIds: string[]) => void;
 };
 
 type TaskGroup = {
@@ -55,9 +63,17 @@ export function TaskList({
   showAddInput = true,
   emptyMessage = "No tasks yet",
   showGroupHeaders = true,
+  allTasks,
+  onBulkUpdate,
+  onBulkComplete,
+  onBulkDelete,
 }: TaskListProps) {
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [showCompletedTasks, setShowCompletedTasks] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+
+  const tasksById = useMemo(() => indexTasks(allTasks || tasks), [allTasks, tasks]);
 
   // Filter out subtasks (they're rendered within their parent)
   const topLevelTasks = useMemo(() => {
@@ -256,6 +272,39 @@ export function TaskList({
     });
   }, [topLevelTasks, groupBy, sortBy, showCompletedTasks, projects, labels]);
 
+  // Tasks in the order they're shown - what shift-click ranges and "select all" cover
+  const visibleTaskIds = useMemo(
+    () => groupedTasks.flatMap((group) => group.tasks.map((t) => t.id)),
+    [groupedTasks]
+  );
+
+  // Selection survives re-renders but not tasks leaving the list
+  const selectedTasks = useMemo(
+    () => topLevelTasks.filter((t) => selectedIds.has(t.id)),
+    [topLevelTasks, selectedIds]
+  );
+  const selectedTaskIds = selectedTasks.map((t) => t.id);
+
+  const handleSelect = (taskId: string, extendRange: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (extendRange && selectionAnchor) {
+        getSelectionRange(visibleTaskIds, selectionAnchor, taskId).forEach((id) => next.add(id));
+      } else if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+    if (!extendRange || !selectionAnchor) setSelectionAnchor(taskId);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  };
+
   const toggleGroupCollapse = (groupId: string) => {
     setCollapsedGroups((prev) => {
       const next = new Set(prev);
@@ -293,6 +342,27 @@ export function TaskList({
         </div>
       )}
 
+      {/* Bulk actions for the selection */}
+      {onBulkUpdate && selectedTasks.length > 0 && (
+        <TaskBulkBar
+          selectedTasks={selectedTasks}
+          selectableCount={visibleTaskIds.length}
+          projects={projects}
+          labels={labels}
+          onSelectAll={() => setSelectedIds(new Set(visibleTaskIds))}
+          onClearSelection={clearSelection}
+          onUpdate={(changes) => onBulkUpdate(selectedTaskIds, changes)}
+          onComplete={onBulkComplete && (() => {
+            onBulkComplete(selectedTaskIds);
+            clearSelection();
+          })}
+          onDelete={onBulkDelete && (() => {
+            onBulkDelete(selectedTaskIds);
+            clearSelection();
+          })}
+        />
+      )}
+
       {/* Task count and completed toggle */}
       {totalCount > 0 && (
         <div className="task-list-header">
@@ -300,6 +370,15 @@ export function TaskList({
             {totalCount - completedCount} tasks
             {completedCount > 0 && ` (${completedCount} completed)`}
           </span>
+          {onBulkUpdate && selectedTasks.length === 0 && visibleTaskIds.length > 1 && (
+            <button
+              className="show-completed-btn"
+              onClick={() => setSelectedIds(new Set(visibleTaskIds))}
+              title="Select every task shown here - shift-click to select a range"
+            >
+              Select all
+            </button>
+          )}
           {completedCount > 0 && (
             <button
               className="show-completed-btn"
@@ -363,6 +442,10 @@ export function TaskList({
                     onAddSubtask={onAddSubtask}
                     showProject={groupBy !== "project"}
                     showLoop={groupBy !== "loop"}
+                    blockedBy={getOpenBlockers(task, tasksById)}
+                    isSelected={selectedIds.has(task.id)}
+                    selectionActive={selectedTasks.length > 0}
+                    onSelect={onBulkUpdate ? handleSelect : undefined}
                   />
                 ))}
               </div>
@@ -0,0 +1,63 @@
+// Time reminders for a task - reads and writes app state directly
+
+import { useMemo, useState } from "react";
+import { useApp } from "../../context/AppContext";
+import { Task, createTaskReminder } from "../../types";
+
+type TaskRemindersProps = {
+  task: Task;
+};
+
+export function TaskReminders({ task }: TaskRemindersProps) {
+  const { state, dispatch } = useApp();
+  const [datetime, setDatetime] = useState("");
+
+  const reminders = useMemo(
+    () =>
+      state.reminders.items
+        .filter((r) => r.taskId === task.id && r.type === "time" && r.datetime)
+        .sort((a, b) => a.datetime!.localeCompare(b.datetime!)),
+    [state.reminders.items, task.id]
+  );
+
+  const handleAdd = () => {
+    if (!datetime) return;
+    dispatch({ type: "ADD_TASK_REMINDER", payload: createTaskReminder(task.id, datetime) });
+    setDatetime("");
+  };
+
+  return (
+    <div className="task-reminders">
+      {reminders.map((reminder) => (
+        <span
+          key={reminder.id}
+          className={`task-reminders__chip ${new Date(reminder.datetime!).getTime() < Date.now() ? "task-reminders__chip--past" : ""}`}
+        >
+          🔔 {new Date(reminder.datetime!).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+          <button
+            className="task-reminders__remove"
+            onClick={() => dispatch({ type: "DELETE_TASK_REMINDER", payload: reminder.id })}
+            title="Remove reminder"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <span className="task-reminders__add">
+        <input
+          type="datetime-local"
+          value={datetime}
+          onChange={(e) => setDatetime(e.target.value)}
+        />
+        <button onClick={handleAdd} disabled={!datetime}>
+          Add
+        </button>
+      </span>
+      {!state.reminders.settings.enabled && reminders.length > 0 && (
+        <span className="task-reminders__hint">Turn on notifications in your profile to get these</span>
+      )}
+    </div>
+  );
+}
+
+export default TaskReminders;
@@ -6,10 +6,13 @@ import {
   Project,
   Label,
   LoopId,
+  LoopState,
+  SavedFilter,
   TaskGroupOption,
   TaskSortOption,
   createTask,
   createProject,
+  createSavedFilter,
   ALL_LOOPS,
   LOOP_DEFINITIONS,
   LOOP_COLORS,
@@ -18,8 +21,13 @@ import { TaskList } from "./TaskList";
 import { TaskDetailModal } from "./TaskDetailModal";
 import { TaskInput } from "./TaskInput";
 import { TemplatesModal } from "./TemplatesModal";
+import { DependencyGraph } from "./DependencyGraph";
+import { SavedFilterModal } from "./SavedFilterModal";
+import { ProjectBoard } from "./ProjectBoard";
+import { parseFilterQuery, filterTasks, FilterContext } from "../../engines/filterQueryEngine";
+import { BulkTaskChanges } from "../../engines/bulkTaskEngine";
 
-type TaskView = "inbox" | "today" | "upcoming" | "project" | "loop" | "label";
+type TaskView = "inbox" | "today" | "upcoming" | "project" | "loop" | "label" | "filter";
 
 type TasksScreenProps = {
   tasks: Task[];
@@ -34,6 +42,16 @@ type TasksScreenProps = {
   onUpdateProject: (project: Project) => void;
   onDeleteProject: (projectId: string) => void;
   onAddLabel: (label: Label) => void;
+  savedFilters?: SavedFilter[];
+  loopStates?: Record<LoopId, LoopState>; // For state: in filter queries
+  onAddFilter?: (filter: SavedFilter) => void;
+  onUpdateFilter?: (filter: SavedFilter) => void;
+  onDeleteFilter?: (filterId: string) => void;
+  onReorderTasks?: (taskIds: string[], sectionId: string | null) => void; // Board drag and drop
+  onDeleteSection?: (projectId: string, sectionId: string) => void;
+  onBulkUpdateTasks?: (taskIds: string[], changes: BulkTaskChanges) => void; // Multi-select
+  onBulkCompleteTasks?: (taskIds: string[]) => void;
+  onBulkDeleteTasks?: (taskIds: string[]) => void;
 };
 
 export function TasksScreen({
@@ -49,11 +67,23 @@ export function TasksScreen({
   onUpdateProject,
   onDeleteProject,
   onAddLabel,
+  savedFilters = [],
+  loopStates,
+  onAddFilter,
+  onUpdateFilter,
+  onDeleteFilter,
+  onReorderTasks,
+  onDeleteSection,
+  onBulkUpdateTasks,
+  onBulkCompleteTasks,
+  onBulkDeleteTasks,
 }: TasksScreenProps) {
   const [currentView, setCurrentView] = useState<TaskView>("inbox");
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [selectedLoopId, setSelectedLoopId] = useState<LoopId | null>(null);
   const [selectedLabelId, setSelectedLabelId] = useState<string | null>(null);
+  const [selectedFilterId, setSelectedFilterId] = useState<string | null>(null);
+  const [filterModal, setFilterModal] = useState<{ filter?: SavedFilter } | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [groupBy, setGroupBy] = useState<TaskGroupOption>("none");
   const [sortBy, setSortBy] = useState<TaskSortOption>("manual");
@@ -64,11 +94,43 @@ export function TasksScreen({
   const [newProjectLoop, setNewProjectLoop] = useState<LoopId>("Work");
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<"list" | "kanban">("list");
+  const [viewMode, setViewMode] = useState<"list" | "kanban" | "dependencies">("list");
 
   // Get today's date string
   const today = new Date().toISOString().split("T")[0];
 
+  // Projects remember list vs board; the dependency graph is a one-off look
+  const selectedProject = currentView === "project" ? projects.find((p) => p.id === selectedProjectId) : undefined;
+  const effectiveViewMode = selectedProject && viewMode !== "dependencies"
+    ? (selectedProject.view === "board" ? "kanban" : "list")
+    : viewMode;
+
+  const handleViewModeChange = (mode: "list" | "kanban" | "dependencies") => {
+    setViewMode(mode);
+    if (selectedProject && mode !== "dependencies") {
+      const view = mode === "kanban" ? "board" : "list";
+      if ((selectedProject.view ?? "list") !== view) {
+        onUpdateProject({ ...selectedProject, view, updatedAt: new Date().toISOString() });
+      }
+    }
+  };
+
+  const filterContext: FilterContext = useMemo(
+    () => ({ labels, projects, loopStates }),
+    [labels, projects, loopStates]
+  );
+  const selectedFilter = savedFilters.find((f) => f.id === selectedFilterId);
+
+  // Saved filter results, for the sidebar counts and the filter view
+  const filterResults = useMemo(() => {
+    const results = new Map<string, { tasks: Task[]; error: string | null }>();
+    for (const filter of savedFilters) {
+      const { node, error } = parseFilterQuery(filter.query);
+      results.set(filter.id, { tasks: node ? filterTasks(tasks, node, filterContext) : [], error });
+    }
+    return results;
+  }, [savedFilters, tasks, filterContext]);
+
   // Filter tasks based on current view (exclude Someday/priority 0 tasks from main views)
   const filteredTasks = useMemo(() => {
     // Helper to exclude Someday tasks
@@ -99,10 +161,15 @@ export function TasksScreen({
         if (!selectedLabelId) return [];
         return tasks.filter((t) => t.labels?.includes(selectedLabelId) && excludeSomeday(t));
 
+      case "filter":
+        // The query decides, Someday tasks included (p:someday should work)
+        if (!selectedFilterId) return [];
+        return filterResults.get(selectedFilterId)?.tasks ?? [];
+
       default:
         return tasks.filter(excludeSomeday);
     }
-  }, [tasks, currentView, selectedProjectId, selectedLoopId, selectedLabelId, today]);
+  }, [tasks, currentView, selectedProjectId, selectedLoopId, selectedLabelId, selectedFilterId, filterResults, today]);
 
   // Count tasks for sidebar badges (exclude Someday tasks)
   const inboxCount = tasks.filter((t) => (t.status === "inbox" || (!t.projectId && t.status !== "done")) && t.priority !== 0).length;
@@ -153,6 +220,20 @@ export function TasksScreen({
     setCurrentView("project");
   };
 
+  // Handle save filter (create or edit)
+  const handleSaveFilter = (name: string, query: string) => {
+    const editing = filterModal?.filter;
+    if (editing) {
+      onUpdateFilter?.({ ...editing, name, query });
+    } else {
+      const filter = createSavedFilter(name, query, savedFilters.length);
+      onAddFilter?.(filter);
+      setSelectedFilterId(filter.id);
+      setCurrentView("filter");
+    }
+    setFilterModal(null);
+  };
+
   // Get view title
   const getViewTitle = () => {
     switch (currentView) {
@@ -170,6 +251,8 @@ export function TasksScreen({
       case "label":
         const label = labels.find((l) => l.id === selectedLabelId);
         return label?.name || "Label";
+      case "filter":
+        return selectedFilter?.name || "Filter";
       default:
         return "Tasks";
     }
@@ -189,17 +272,20 @@ export function TasksScreen({
         return project?.description || `Tasks in ${project?.name}`;
       case "loop":
         return selectedLoopId ? LOOP_DEFINITIONS[selectedLoopId].description : "";
+      case "filter":
+        return selectedFilter?.query || "";
       default:
         return "";
     }
   };
 
   // Handle view change and close mobile sidebar
-  const handleViewChange = (view: TaskView, projectId?: string, loopId?: LoopId, labelId?: string) => {
+  const handleViewChange = (view: TaskView, projectId?: string, loopId?: LoopId, labelId?: string, filterId?: string) => {
     setCurrentView(view);
     if (projectId) setSelectedProjectId(projectId);
     if (loopId) setSelectedLoopId(loopId);
     if (labelId) setSelectedLabelId(labelId);
+    if (filterId) setSelectedFilterId(filterId);
     setMobileSidebarOpen(false); // Close mobile sidebar after selection
   };
 
@@ -359,6 +445,73 @@ export function TasksScreen({
             )}
           </div>
 
+          {/* Saved filters */}
+          <div className="sidebar-section">
+            <div className="sidebar-section-header">
+              <span>Filters</span>
+              {onAddFilter && (
+                <button
+                  className="add-btn"
+                  onClick={() => setFilterModal({})}
+                  title="Add filter"
+                >
+                  +
+                </button>
+              )}
+            </div>
+            {[...savedFilters]
+              .sort((a, b) => a.order - b.order)
+              .map((filter) => {
+                const result = filterResults.get(filter.id);
+                return (
+                  <div
+                    key={filter.id}
+                    className={`sidebar-item sidebar-item-with-actions ${currentView === "filter" && selectedFilterId === filter.id ? "active" : ""}`}
+                  >
+                    <button
+                      className="sidebar-item-main"
+                      onClick={() => handleViewChange("filter", undefined, undefined, undefined, filter.id)}
+                      title={result?.error ? `Invalid query: ${result.error}` : filter.query}
+                    >
+                      <span
+                        className="sidebar-icon project-dot"
+                        style={{ backgroundColor: filter.color }}
+                      />
+                      <span>{filter.name}</span>
+                      {result?.error ? (
+                        <span className="sidebar-badge sidebar-badge--error">!</span>
+                      ) : (
+                        (result?.tasks.length ?? 0) > 0 && (
+                          <span className="sidebar-badge">{result?.tasks.length}</span>
+                        )
+                      )}
+                    </button>
+                    {onDeleteFilter && (
+                      <button
+                        className="sidebar-item-delete"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (window.confirm(`Delete filter "${filter.name}"?`)) {
+                            onDeleteFilter(filter.id);
+                            if (selectedFilterId === filter.id) {
+                              setCurrentView("inbox");
+                              setSelectedFilterId(null);
+                            }
+                          }
+                        }}
+                        title="Delete filter"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            {savedFilters.length === 0 && (
+              <div className="sidebar-empty">No filters yet</div>
+            )}
+          </div>
+
           {/* Labels */}
           <div className="sidebar-section">
             <div className="sidebar-section-header">
@@ -429,6 +582,21 @@ export function TasksScreen({
             <div>
               <h2>{getViewTitle()}</h2>
               <p className="tasks-description">{getViewDescription()}</p>
+              {currentView === "filter" && selectedFilter && (
+                <>
+                  {filterResults.get(selectedFilter.id)?.error && (
+                    <p className="tasks-filter-error">{filterResults.get(selectedFilter.id)?.error}</p>
+                  )}
+                  {onUpdateFilter && (
+                    <button
+                      className="tasks-filter-edit-btn"
+                      onClick={() => setFilterModal({ filter: selectedFilter })}
+                    >
+                      Edit filter
+                    </button>
+                  )}
+                </>
+              )}
             </div>
           </div>
           <div className="tasks-header-right">
@@ -457,8 +625,8 @@ export function TasksScreen({
             {/* View Mode Toggle */}
             <div className="view-toggle">
               <button
-                className={`view-toggle-btn ${viewMode === "list" ? "active" : ""}`}
-                onClick={() => setViewMode("list")}
+                className={`view-toggle-btn ${effectiveViewMode === "list" ? "active" : ""}`}
+                onClick={() => handleViewModeChange("list")}
               >
                 <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
                   <path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z" />
@@ -466,14 +634,25 @@ export function TasksScreen({
                 List
               </button>
               <button
-                className={`view-toggle-btn ${viewMode === "kanban" ? "active" : ""}`}
-                onClick={() => setViewMode("kanban")}
+                className={`view-toggle-btn ${effectiveViewMode === "kanban" ? "active" : ""}`}
+                onClick={() => handleViewModeChange("kanban")}
               >
                 <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
                   <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-7 14H5V5h7v12zm7 0h-5V5h5v12z" />
                 </svg>
-                Kanban
+                {selectedProject ? "Board" : "Kanban"}
               </button>
+              {currentView === "project" && (
+                <button
+                  className={`view-toggle-btn ${effectiveViewMode === "dependencies" ? "active" : ""}`}
+                  onClick={() => handleViewModeChange("dependencies")}
+                >
+                  <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                    <path d="M22 11V3h-7v3H9V3H2v8h7V8h2v10h4v3h7v-8h-7v3h-2V8h2v3z" />
+                  </svg>
+                  Dependencies
+                </button>
+              )}
             </div>
 
             {/* Templates Button */}
@@ -501,10 +680,22 @@ export function TasksScreen({
           </div>
         </div>
 
-        {/* Task list or Kanban */}
-        {viewMode === "list" ? (
+        {/* Task list, dependency graph, project board, or Kanban */}
+        {effectiveViewMode === "dependencies" && currentView === "project" ? (
+          <DependencyGraph tasks={filteredTasks} onSelectTask={setEditingTask} />
+        ) : effectiveViewMode === "kanban" && selectedProject && onReorderTasks && onDeleteSection ? (
+          <ProjectBoard
+            project={selectedProject}
+            tasks={filteredTasks}
+            onUpdateProject={onUpdateProject}
+            onMoveTasks={onReorderTasks}
+            onDeleteSection={onDeleteSection}
+            onSelectTask={setEditingTask}
+          />
+        ) : effectiveViewMode !== "kanban" ? (
         <TaskList
           tasks={filteredTasks}
+          allTasks={tasks}
           projects={projects}
           labels={labels}
           groupBy={groupBy}
@@ -514,6 +705,9 @@ export function TasksScreen({
           onDeleteTask={onDeleteTask}
           onAddTask={onAddTask}
           onAddSubtask={(parentId) => handleAddSubtask(parentId)}
+          onBulkUpdate={onBulkUpdateTasks}
+          onBulkComplete={onBulkCompleteTasks}
+          onBulkDelete={onBulkDeleteTasks}
           showAddInput={true}
           showGroupHeaders={groupBy !== "none"}
           emptyMessage={
@@ -632,6 +826,7 @@ export function TasksScreen({
           onClose={() => setEditingTask(null)}
           onAddSubtask={(parentId, title) => handleAddSubtask(parentId, title)}
           onToggleSubtask={handleToggleComplete}
+          allTasks={tasks}
         />
       )}
 
@@ -676,6 +871,17 @@ export function TasksScreen({
         </div>
       )}
 
+      {/* Saved Filter Modal */}
+      {filterModal && (
+        <SavedFilterModal
+          filter={filterModal.filter}
+          tasks={tasks}
+          context={filterContext}
+          onSave={handleSaveFilter}
+          onClose={() => setFilterModal(null)}
+        />
+      )}
+
       {/* Quick Add Modal */}
       {showQuickAddModal && (
         <div className="modal-overlay" onClick={() => setShowQuickAddModal(false)}>
@@ -1,10 +1,22 @@
-// Templates Modal - Browse, use, create, and edit task templates
-import React, { useState } from 'react';
+// Templates Modal - Browse, use, create, edit, and share task templates
+import React, { useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useApp } from '../../context/AppContext';
 import { BUILT_IN_TEMPLATES, getTemplateCategories } from '../../data/taskTemplates';
-import { TaskTemplate, TaskTemplateItem, getTemplateEstimate } from '../../types/taskTemplates';
-import { LoopId, ALL_LOOPS } from '../../types';
+import { TaskTemplate, TaskTemplateItem, TemplateVariable, getTemplateEstimate } from '../../types/taskTemplates';
+import { LoopId, ALL_LOOPS, getLocalDateKey } from '../../types';
+import {
+  downloadTemplate,
+  fillTemplateText,
+  formatDueOffset,
+  getTemplateItemKey,
+  getTemplateVariables,
+  getVariableLabel,
+  parseDueOffset,
+  parseTemplateFile,
+  usesAnchorDate,
+  validateTemplate,
+} from '../../engines/templateEngine';
 
 interface TemplatesModalProps {
   onClose: () => void;
@@ -12,12 +24,36 @@ interface TemplatesModalProps {
 
 type ViewMode = 'list' | 'detail' | 'create' | 'edit';
 
+// Form rows always carry an id so other rows can nest under or wait for them
+type FormTaskItem = TaskTemplateItem & { id: string; dueOffsetText: string };
+
+function nextItemId(items: FormTaskItem[]): string {
+  let n = items.length + 1;
+  while (items.some(t => t.id === `item-${n}`)) n++;
+  return `item-${n}`;
+}
+
+function toFormItems(template: TaskTemplate): FormTaskItem[] {
+  return template.tasks.map((t, i) => ({
+    ...t,
+    id: getTemplateItemKey(t, i),
+    dueOffsetText: formatDueOffset(t.dueOffsetDays),
+  }));
+}
+
 export function TemplatesModal({ onClose }: TemplatesModalProps) {
   const { state, dispatch } = useApp();
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | null>(null);
   const [customName, setCustomName] = useState('');
   const [expandedTemplateId, setExpandedTemplateId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Use template state
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [anchorDate, setAnchorDate] = useState('');
+  const [useProjectId, setUseProjectId] = useState('');
+  const [useSectionId, setUseSectionId] = useState('');
 
   // Create/Edit template form state
   const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
@@ -26,9 +62,12 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
   const [formTemplateLoop, setFormTemplateLoop] = useState<LoopId>('Maintenance');
   const [formTemplateCategory, setFormTemplateCategory] = useState('Custom');
   const [formTemplateIcon, setFormTemplateIcon] = useState('📋');
-  const [formTemplateTasks, setFormTemplateTasks] = useState<TaskTemplateItem[]>([
-    { title: '', order: 1 }
+  const [formTemplateTasks, setFormTemplateTasks] = useState<FormTaskItem[]>([
+    { id: 'item-1', title: '', order: 1, dueOffsetText: '' }
   ]);
+  const [formTemplateVariables, setFormTemplateVariables] = useState<TemplateVariable[]>([]);
+  const [formProjectId, setFormProjectId] = useState('');
+  const [formSectionId, setFormSectionId] = useState('');
 
   // Combine built-in and custom templates
   const allTemplates = [...BUILT_IN_TEMPLATES, ...state.customTemplates];
@@ -38,17 +77,50 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
   const customCategories = [...new Set(state.customTemplates.map(t => t.category))];
   const allCategories = [...new Set([...builtInCategories, ...customCategories])];
 
+  const activeProjects = state.projects.filter(p => !p.archived);
+  const getSections = (projectId: string) =>
+    state.projects.find(p => p.id === projectId)?.sections ?? [];
+
+  const openTemplate = (template: TaskTemplate) => {
+    setSelectedTemplate(template);
+    setVariableValues(Object.fromEntries(
+      getTemplateVariables(template).map(v => [v.key, v.defaultValue ?? ''])
+    ));
+    setAnchorDate(usesAnchorDate(template) ? getLocalDateKey() : '');
+    setUseProjectId(template.projectId ?? '');
+    setUseSectionId(template.sectionId ?? '');
+    setViewMode('detail');
+  };
+
   const handleUseTemplate = (template: TaskTemplate) => {
     dispatch({
       type: 'CREATE_FROM_TEMPLATE',
       payload: {
         templateId: template.id,
         projectName: customName || undefined,
+        variables: variableValues,
+        anchorDate: anchorDate || undefined,
+        projectId: useProjectId || undefined,
+        sectionId: useSectionId || undefined,
       },
     });
     onClose();
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseTemplateFile(await file.text());
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+    dispatch({ type: 'ADD_CUSTOM_TEMPLATE', payload: result.template });
+    openTemplate(result.template);
+  };
+
   const handleDeleteTemplate = (templateId: string) => {
     if (confirm('Are you sure you want to delete this template?')) {
       dispatch({ type: 'DELETE_CUSTOM_TEMPLATE', payload: templateId });
@@ -65,39 +137,66 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
     setFormTemplateLoop(template.loop);
     setFormTemplateCategory(template.category);
     setFormTemplateIcon(template.icon || '📋');
-    setFormTemplateTasks(template.tasks.map(t => ({
-      title: t.title,
-      order: t.order,
-      estimatedMinutes: t.estimatedMinutes,
-    })));
+    setFormTemplateTasks(toFormItems(template));
+    setFormTemplateVariables(template.variables ?? []);
+    setFormProjectId(template.projectId ?? '');
+    setFormSectionId(template.sectionId ?? '');
     setViewMode('edit');
   };
 
   const handleAddTask = () => {
     setFormTemplateTasks([
       ...formTemplateTasks,
-      { title: '', order: formTemplateTasks.length + 1 }
+      { id: nextItemId(formTemplateTasks), title: '', order: formTemplateTasks.length + 1, dueOffsetText: '' }
     ]);
   };
 
   const handleRemoveTask = (index: number) => {
     if (formTemplateTasks.length > 1) {
+      const removedId = formTemplateTasks[index].id;
       const updated = formTemplateTasks.filter((_, i) => i !== index);
-      // Re-order remaining tasks
-      setFormTemplateTasks(updated.map((t, i) => ({ ...t, order: i + 1 })));
+      // Re-order remaining tasks and drop links to the removed one
+      setFormTemplateTasks(updated.map((t, i) => ({
+        ...t,
+        order: i + 1,
+        parentId: t.parentId === removedId ? undefined : t.parentId,
+        dependsOn: t.dependsOn?.filter(id => id !== removedId),
+      })));
     }
   };
 
-  const handleTaskChange = (index: number, field: keyof TaskTemplateItem, value: string | number) => {
+  const handleTaskChange = (index: number, changes: Partial<FormTaskItem>) => {
     const updated = [...formTemplateTasks];
-    if (field === 'title') {
-      updated[index] = { ...updated[index], title: value as string };
-    } else if (field === 'estimatedMinutes') {
-      updated[index] = { ...updated[index], estimatedMinutes: value as number };
-    }
+    updated[index] = { ...updated[index], ...changes };
     setFormTemplateTasks(updated);
   };
 
+  const handleToggleDependency = (index: number, dependencyId: string) => {
+    const current = formTemplateTasks[index].dependsOn ?? [];
+    handleTaskChange(index, {
+      dependsOn: current.includes(dependencyId)
+        ? current.filter(id => id !== dependencyId)
+        : [...current, dependencyId],
+    });
+  };
+
+  const handleVariableChange = (key: string, changes: Partial<TemplateVariable>) => {
+    const existing = formTemplateVariables.find(v => v.key === key);
+    setFormTemplateVariables(existing
+      ? formTemplateVariables.map(v => (v.key === key ? { ...v, ...changes } : v))
+      : [...formTemplateVariables, { key, ...changes }]);
+  };
+
+  // Placeholders currently typed into the form, in order of appearance
+  const getFormPlaceholders = () => getTemplateVariables({
+    id: '',
+    name: formTemplateName,
+    description: formTemplateDescription,
+    loop: formTemplateLoop,
+    category: formTemplateCategory,
+    tasks: formTemplateTasks,
+  });
+
   const handleSaveTemplate = () => {
     // Validate
     if (!formTemplateName.trim()) {
@@ -111,6 +210,23 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
       return;
     }
 
+    const unreadableOffset = validTasks.find(t => parseDueOffset(t.dueOffsetText) === null);
+    if (unreadableOffset) {
+      alert(`Couldn't read the due offset for "${unreadableOffset.title.trim()}". Try something like "T-3 days".`);
+      return;
+    }
+
+    const keptIds = new Set(validTasks.map(t => t.id));
+    // Only keep labels and defaults for placeholders that are still used
+    const variables = getFormPlaceholders()
+      .map(({ key }) => formTemplateVariables.find(v => v.key === key))
+      .filter((v): v is TemplateVariable => !!v && !!(v.label?.trim() || v.defaultValue?.trim()))
+      .map(v => ({
+        key: v.key,
+        label: v.label?.trim() || undefined,
+        defaultValue: v.defaultValue?.trim() || undefined,
+      }));
+
     const templateData: TaskTemplate = {
       id: editingTemplateId || `custom-${Date.now()}`,
       name: formTemplateName.trim(),
@@ -118,13 +234,30 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
       loop: formTemplateLoop,
       category: formTemplateCategory.trim() || 'Custom',
       icon: formTemplateIcon || '📋',
-      tasks: validTasks.map((t, i) => ({
-        title: t.title.trim(),
-        order: i + 1,
-        estimatedMinutes: t.estimatedMinutes,
-      })),
+      tasks: validTasks.map((t, i) => {
+        const dependsOn = t.dependsOn?.filter(id => keptIds.has(id));
+        return {
+          id: t.id,
+          title: t.title.trim(),
+          description: t.description,
+          order: i + 1,
+          estimatedMinutes: t.estimatedMinutes,
+          parentId: t.parentId && keptIds.has(t.parentId) ? t.parentId : undefined,
+          dependsOn: dependsOn?.length ? dependsOn : undefined,
+          dueOffsetDays: parseDueOffset(t.dueOffsetText) ?? undefined,
+        };
+      }),
+      variables: variables.length > 0 ? variables : undefined,
+      projectId: formProjectId || undefined,
+      sectionId: (formProjectId && formSectionId) || undefined,
     };
 
+    const problem = validateTemplate(templateData);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
     if (editingTemplateId) {
       // Update existing template
       dispatch({ type: 'UPDATE_CUSTOM_TEMPLATE', payload: templateData });
@@ -135,6 +268,7 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
 
     // Reset form and go back to list
     resetForm();
+    setSelectedTemplate(null);
     setViewMode('list');
   };
 
@@ -145,7 +279,10 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
     setFormTemplateLoop('Maintenance');
     setFormTemplateCategory('Custom');
     setFormTemplateIcon('📋');
-    setFormTemplateTasks([{ title: '', order: 1 }]);
+    setFormTemplateTasks([{ id: 'item-1', title: '', order: 1, dueOffsetText: '' }]);
+    setFormTemplateVariables([]);
+    setFormProjectId('');
+    setFormSectionId('');
   };
 
   const formatTime = (minutes: number): string => {
@@ -170,6 +307,19 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
       >
         + Create Custom Template
       </button>
+      <button
+        className="import-template-btn"
+        onClick={() => importInputRef.current?.click()}
+      >
+        Import template file
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImportFile}
+        hidden
+      />
 
       {allCategories.map((category) => {
         const categoryTemplates = allTemplates.filter((t) => t.category === category);
@@ -183,10 +333,7 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
                 <div
                   key={template.id}
                   className={`template-card ${isCustomTemplate(template) ? 'custom' : ''}`}
-                  onClick={() => {
-                    setSelectedTemplate(template);
-                    setViewMode('detail');
-                  }}
+                  onClick={() => openTemplate(template)}
                 >
                   <div className="template-card-header">
                     <span className="template-icon">{template.icon}</span>
@@ -234,6 +381,39 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
   const renderDetailView = () => {
     if (!selectedTemplate) return null;
 
+    const variables = getTemplateVariables(selectedTemplate);
+    const needsAnchor = usesAnchorDate(selectedTemplate);
+    const missingValues = variables.some(v => !variableValues[v.key]?.trim());
+    const fill = (text: string) => fillTemplateText(text, variableValues, anchorDate || undefined);
+    const items = selectedTemplate.tasks.map((task, index) => ({
+      task,
+      key: getTemplateItemKey(task, index),
+    }));
+    const titleFor = (key: string) => {
+      const match = items.find(item => item.key === key);
+      return match ? fill(match.task.title) : key;
+    };
+
+    // Items nested under `parentKey` (top level when undefined), each followed by its own children
+    const renderPreviewItems = (parentKey: string | undefined, depth: number): React.ReactNode[] =>
+      items
+        .filter(({ task }) => task.parentId === parentKey)
+        .flatMap(({ task, key }) => [
+          <li key={key} style={{ marginLeft: depth * 16 }}>
+            <span className="task-title">{fill(task.title)}</span>
+            {task.dependsOn && task.dependsOn.length > 0 && (
+              <span className="task-deps">after {task.dependsOn.map(titleFor).join(', ')}</span>
+            )}
+            {task.dueOffsetDays !== undefined && (
+              <span className="task-offset">{formatDueOffset(task.dueOffsetDays)}</span>
+            )}
+            {task.estimatedMinutes && (
+              <span className="task-time">{task.estimatedMinutes}m</span>
+            )}
+          </li>,
+          ...renderPreviewItems(key, depth + 1),
+        ]);
+
     return (
       <div className="template-detail">
         <button
@@ -270,34 +450,84 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
         <div className="template-tasks-preview">
           <h4>Tasks included:</h4>
           <ul>
-            {selectedTemplate.tasks.map((task, index) => (
-              <li key={index}>
-                <span className="task-title">{task.title}</span>
-                {task.estimatedMinutes && (
-                  <span className="task-time">{task.estimatedMinutes}m</span>
-                )}
-              </li>
-            ))}
+            {renderPreviewItems(undefined, 0)}
           </ul>
         </div>
 
         <div className="template-use-form">
+          {variables.map((variable) => (
+            <label key={variable.key}>
+              {getVariableLabel(variable)}:
+              <input
+                type="text"
+                value={variableValues[variable.key] ?? ''}
+                onChange={(e) => setVariableValues({ ...variableValues, [variable.key]: e.target.value })}
+                placeholder={`{{${variable.key}}}`}
+              />
+            </label>
+          ))}
+          <label>
+            {needsAnchor ? 'Date (T):' : 'Due date (optional):'}
+            <input
+              type="date"
+              value={anchorDate}
+              onChange={(e) => setAnchorDate(e.target.value)}
+            />
+          </label>
           <label>
             Task name (optional):
             <input
               type="text"
               value={customName}
               onChange={(e) => setCustomName(e.target.value)}
-              placeholder={selectedTemplate.name}
+              placeholder={fill(selectedTemplate.name)}
             />
           </label>
+          {activeProjects.length > 0 && (
+            <div className="template-target-row">
+              <label>
+                Project:
+                <select
+                  value={useProjectId}
+                  onChange={(e) => {
+                    setUseProjectId(e.target.value);
+                    setUseSectionId('');
+                  }}
+                >
+                  <option value="">No project</option>
+                  {activeProjects.map((project) => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </label>
+              {getSections(useProjectId).length > 0 && (
+                <label>
+                  Section:
+                  <select value={useSectionId} onChange={(e) => setUseSectionId(e.target.value)}>
+                    <option value="">No section</option>
+                    {getSections(useProjectId).map((section) => (
+                      <option key={section.id} value={section.id}>{section.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
           <div className="template-actions">
             <button
               className="template-use-btn"
               onClick={() => handleUseTemplate(selectedTemplate)}
+              disabled={missingValues || (needsAnchor && !anchorDate)}
             >
               Create Task with Subtasks
             </button>
+            <button
+              className="template-edit-btn"
+              onClick={() => downloadTemplate(selectedTemplate)}
+              title="Save this template as a file you can share"
+            >
+              Export
+            </button>
             {isCustomTemplate(selectedTemplate) && (
               <>
                 <button
@@ -405,37 +635,125 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
           </div>
         </div>
 
+        {activeProjects.length > 0 && (
+          <div className="form-row-group template-target-group">
+            <div className="form-row">
+              <label>
+                Project
+                <select
+                  value={formProjectId}
+                  onChange={(e) => {
+                    setFormProjectId(e.target.value);
+                    setFormSectionId('');
+                  }}
+                >
+                  <option value="">No project</option>
+                  {activeProjects.map((project) => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {getSections(formProjectId).length > 0 && (
+              <div className="form-row">
+                <label>
+                  Section
+                  <select value={formSectionId} onChange={(e) => setFormSectionId(e.target.value)}>
+                    <option value="">No section</option>
+                    {getSections(formProjectId).map((section) => (
+                      <option key={section.id} value={section.id}>{section.name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="template-tasks-section">
           <h4>Tasks *</h4>
+          <p className="template-hint">
+            Write {'{{placeholders}}'} like {'{{trip_destination}}'} to be asked for a value when the
+            template is used. {'{{date}}'} is the date you pick, and due offsets such as "T-3 days" count from it.
+          </p>
           <div className="template-tasks-list">
-            {formTemplateTasks.map((task, index) => (
-              <div key={index} className="template-task-row">
-                <span className="task-number">{index + 1}.</span>
-                <input
-                  type="text"
-                  value={task.title}
-                  onChange={(e) => handleTaskChange(index, 'title', e.target.value)}
-                  placeholder="Task title"
-                  className="task-title-input"
-                />
-                <input
-                  type="number"
-                  value={task.estimatedMinutes || ''}
-                  onChange={(e) => handleTaskChange(index, 'estimatedMinutes', parseInt(e.target.value) || 0)}
-                  placeholder="min"
-                  className="task-time-input"
-                  min="0"
-                />
-                <button
-                  type="button"
-                  className="task-remove-btn"
-                  onClick={() => handleRemoveTask(index)}
-                  disabled={formTemplateTasks.length === 1}
-                >
-                  &times;
-                </button>
-              </div>
-            ))}
+            {formTemplateTasks.map((task, index) => {
+              const others = formTemplateTasks.filter(t => t.id !== task.id);
+              return (
+                <div key={task.id} className="template-task-item">
+                  <div className="template-task-row">
+                    <span className="task-number">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={task.title}
+                      onChange={(e) => handleTaskChange(index, { title: e.target.value })}
+                      placeholder="Task title"
+                      className="task-title-input"
+                    />
+                    <input
+                      type="number"
+                      value={task.estimatedMinutes || ''}
+                      onChange={(e) => handleTaskChange(index, { estimatedMinutes: parseInt(e.target.value) || 0 })}
+                      placeholder="min"
+                      className="task-time-input"
+                      min="0"
+                    />
+                    <input
+                      type="text"
+                      value={task.dueOffsetText}
+                      onChange={(e) => handleTaskChange(index, { dueOffsetText: e.target.value })}
+                      onBlur={() => {
+                        const days = parseDueOffset(task.dueOffsetText);
+                        if (days !== null) handleTaskChange(index, { dueOffsetText: formatDueOffset(days) });
+                      }}
+                      placeholder="T-3 days"
+                      title="Due relative to the date picked when the template is used"
+                      className={`task-offset-input ${parseDueOffset(task.dueOffsetText) === null ? 'invalid' : ''}`}
+                    />
+                    <button
+                      type="button"
+                      className="task-remove-btn"
+                      onClick={() => handleRemoveTask(index)}
+                      disabled={formTemplateTasks.length === 1}
+                    >
+                      &times;
+                    </button>
+                  </div>
+                  {others.length > 0 && (
+                    <div className="template-task-links">
+                      <label>
+                        Under
+                        <select
+                          value={task.parentId ?? ''}
+                          onChange={(e) => handleTaskChange(index, { parentId: e.target.value || undefined })}
+                        >
+                          <option value="">Top task</option>
+                          {others.map((other) => (
+                            <option key={other.id} value={other.id}>
+                              {formTemplateTasks.indexOf(other) + 1}. {other.title || 'Untitled'}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <span className="template-task-deps">
+                        After
+                        {others.map((other) => (
+                          <button
+                            key={other.id}
+                            type="button"
+                            className={`template-dep-chip ${task.dependsOn?.includes(other.id) ? 'active' : ''}`}
+                            onClick={() => handleToggleDependency(index, other.id)}
+                            title={other.title || 'Untitled'}
+                          >
+                            {formTemplateTasks.indexOf(other) + 1}
+                          </button>
+                        ))}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
           <button
             type="button"
@@ -446,6 +764,36 @@ export function TemplatesModal({ onClose }: TemplatesModalProps) {
           </button>
         </div>
 
+        {getFormPlaceholders().length > 0 && (
+          <div className="template-tasks-section">
+            <h4>Placeholders</h4>
+            <div className="template-tasks-list">
+              {getFormPlaceholders().map(({ key }) => {
+                const variable = formTemplateVariables.find(v => v.key === key);
+                return (
+                  <div key={key} className="template-variable-row">
+                    <code>{`{{${key}}}`}</code>
+                    <input
+                      type="text"
+                      value={variable?.label ?? ''}
+                      onChange={(e) => handleVariableChange(key, { label: e.target.value })}
+                      placeholder={getVariableLabel({ key })}
+                      className="task-title-input"
+                    />
+                    <input
+                      type="text"
+                      value={variable?.defaultValue ?? ''}
+                      onChange={(e) => handleVariableChange(key, { defaultValue: e.target.value })}
+                      placeholder="Default"
+                      className="task-title-input"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <button
           className="template-save-btn"
           onClick={handleSaveTemplate}
@@ -1,7 +1,14 @@
 // Re-export all task components
 
 export * from "./TaskInput";
+export * from "./QuickAddPreview";
 export * from "./TaskItem";
 export * from "./TaskList";
+export * from "./TaskBulkBar";
 export * from "./TaskDetailModal";
+export * from "./TaskComments";
+export * from "./TaskReminders";
 export * from "./TasksScreen";
+export * from "./DependencyGraph";
+export * from "./SavedFilterModal";
+export * from "./ProjectBoard";
@@ -1,22 +1,56 @@
 // Quick Add Modal - Fast task creation from Today/Calendar view
 
-import React, { useState } from "react";
-import { LoopId, ALL_LOOPS, LOOP_DEFINITIONS, LOOP_COLORS } from "../../types";
+import React, { useState, useMemo } from "react";
+import {
+  LoopId,
+  Task,
+  Project,
+  ParsedTaskInput,
+  ALL_LOOPS,
+  LOOP_DEFINITIONS,
+  LOOP_COLORS,
+} from "../../types";
+import { parseQuickAdd, predictLoop } from "../../engines";
+import { useApp, useLoopModel } from "../../context/AppContext";
+import { QuickAddPreview } from "../tasks/QuickAddPreview";
 
 type QuickAddModalProps = {
-  date: string;
-  onSubmit: (title: string, loopId: LoopId) => void;
+  date: string; // Used when the text doesn't give a date
+  projects?: Project[]; // For +Project
+  taskHistory?: Task[]; // For loop prediction
+  onSubmit: (parsed: ParsedTaskInput, loopId: LoopId) => void;
   onClose: () => void;
 };
 
-export function QuickAddModal({ date, onSubmit, onClose }: QuickAddModalProps) {
+export function QuickAddModal({ date, projects = [], taskHistory = [], onSubmit, onClose }: QuickAddModalProps) {
   const [title, setTitle] = useState("");
-  const [selectedLoop, setSelectedLoop] = useState<LoopId>("Work");
+  const [pickedLoop, setPickedLoop] = useState<LoopId | null>(null);
+  const { dispatch } = useApp();
+  const loopModel = useLoopModel();
+
+  const { parsed, tokens } = useMemo(() => parseQuickAdd(title, { projects }), [title, projects]);
+
+  // #Loop in the text wins, then a loop picked by hand, then the prediction
+  const prediction = useMemo(
+    () => (parsed.title.trim() ? predictLoop(parsed.title, taskHistory, undefined, loopModel).topPrediction : null),
+    [parsed.title, taskHistory, loopModel]
+  );
+  const predictedLoop = prediction?.loop ?? null;
+  const selectedLoop: LoopId = parsed.loop || pickedLoop || predictedLoop || "Work";
+  const isPredicted = !parsed.loop && !pickedLoop && !!predictedLoop;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (title.trim()) {
-      onSubmit(title, selectedLoop);
+      const taskTitle = parsed.title || title.trim();
+      onSubmit(
+        { ...parsed, title: taskTitle, subLoop: parsed.subLoop || (isPredicted ? prediction?.subLoop : undefined) },
+        selectedLoop
+      );
+      // Picked a different loop than the one suggested
+      if (!parsed.loop && pickedLoop && predictedLoop && pickedLoop !== predictedLoop) {
+        dispatch({ type: "LEARN_LOOP_CORRECTION", payload: { title: taskTitle, loop: pickedLoop, subLoop: parsed.subLoop } });
+      }
     }
   };
 
@@ -49,10 +83,11 @@ export function QuickAddModal({ date, onSubmit, onClose }: QuickAddModalProps) {
               type="text"
               value={title}
               onChange={(e) => setTitle(e.target.value)}
-              placeholder="What needs to be done?"
+              placeholder="What needs to be done? (try: 'Call mom 2pm ~15m #Family')"
               autoFocus
               className="quick-add-input"
             />
+            <QuickAddPreview input={title} tokens={tokens} />
           </div>
 
           <div className="quick-add-field">
@@ -73,7 +108,7 @@ export function QuickAddModal({ date, onSubmit, onClose }: QuickAddModalProps) {
                       borderColor: colors.border,
                       color: isSelected ? colors.text : "var(--color-text-secondary)",
                     }}
-                    onClick={() => setSelectedLoop(loopId)}
+                    onClick={() => setPickedLoop(loopId)}
                   >
                     {loop.icon}
                   </button>
@@ -82,6 +117,7 @@ export function QuickAddModal({ date, onSubmit, onClose }: QuickAddModalProps) {
             </div>
             <span className="quick-add-loop-name">
               {LOOP_DEFINITIONS[selectedLoop].name}
+              {isPredicted && <span className="loop-auto-badge">auto</span>}
             </span>
           </div>
 
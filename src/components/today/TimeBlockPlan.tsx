@@ -0,0 +1,318 @@
+// Today's time-blocked plan - the stack laid out between calendar events, rebuilt as the day moves
+
+import { useEffect, useMemo, useState } from "react";
+import { useApp } from "../../context/AppContext";
+import {
+  Task,
+  LoopId,
+  LOOP_DEFINITIONS,
+  LOOP_COLORS,
+  ENERGY_PEAK_LABELS,
+  EnergyPeak,
+  getLocalDateKey,
+} from "../../types";
+import { planTimeBlocks, formatBlockTime, minutesToTime } from "../../engines/timeBlockEngine";
+import { getSchedulingProfile } from "../../engines/schedulingEngine";
+import { getRemovedTaskIds } from "../../engines/calendarSyncEngine";
+import { getCalendarAuthUrl } from "../../services/integrations";
+
+type TimeBlockPlanProps = {
+  tasks: Task[]; // The whole stack, not the filtered view
+  capacityAdjustments: Partial<Record<LoopId, number>>;
+  onSelectTask: (taskId: string) => void;
+};
+
+const MINUTE_MS = 60 * 1000;
+const EVENT_REFRESH_MS = 5 * MINUTE_MS; // Pick up events added elsewhere
+
+function getCalendarTokens(): { access_token: string } | null {
+  try {
+    const stored = localStorage.getItem("looops_google_calendar_tokens");
+    if (stored) return JSON.parse(stored);
+  } catch {}
+  return null;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+export function TimeBlockPlan({ tasks, capacityAdjustments, onSelectTask }: TimeBlockPlanProps) {
+  const { state, dispatch } = useApp();
+  const [now, setNow] = useState(() => new Date());
+  const [showSettings, setShowSettings] = useState(false);
+  const settings = state.timeBlockSettings;
+  const calendarSync = state.calendarSync;
+
+  // Re-plan every minute so an overrunning timer pushes the rest of the day along
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), MINUTE_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const refresh = async () => {
+      const tokens = getCalendarTokens();
+      if (!tokens?.access_token) return;
+      try {
+        const res = await fetch("/api/calendar?action=week", {
+          headers: { Authorization: `Bearer ${tokens.access_token}` },
+        });
+        const data = await res.json();
+        if (data.source === "google" && data.data) {
+          dispatch({ type: "SET_CALENDAR_EVENTS", payload: data.data });
+        }
+      } catch {
+        // Keep planning around the events we already have
+      }
+    };
+    refresh();
+    const interval = setInterval(refresh, EVENT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [dispatch]);
+
+  const profile = useMemo(
+    () => (state.user.prototype ? getSchedulingProfile(state.user.prototype) : null),
+    [state.user.prototype]
+  );
+
+  const today = getLocalDateKey(now);
+  const plan = useMemo(
+    () =>
+      planTimeBlocks({
+        date: today,
+        now,
+        tasks,
+        events: state.calendar.events,
+        activeTimer: state.activeTimer,
+        loopStates: state.loops.states,
+        capacityAdjustments,
+        smartSchedule: state.smartSchedule,
+        profile,
+        settings,
+        excludedTaskIds: calendarSync.enabled ? getRemovedTaskIds(calendarSync.removed, today) : [],
+        ownCalendarId: calendarSync.calendarId,
+      }),
+    [now, today, tasks, state.calendar.events, state.activeTimer, state.loops.states, capacityAdjustments, state.smartSchedule, profile, settings, calendarSync.enabled, calendarSync.removed, calendarSync.calendarId]
+  );
+
+  // Blocks currently written to the Looops calendar
+  const onCalendar = useMemo(
+    () => new Set(calendarSync.links.filter((link) => link.kind === "task" && link.date === today).map((link) => link.sourceId)),
+    [calendarSync.links, today]
+  );
+
+  const running = plan.blocks.find((block) => block.running);
+
+  // Blocks with the free stretches between them, from where planning starts
+  const rows: ({ kind: "free"; start: number; end: number } | (typeof plan.blocks)[number])[] = [];
+  let cursor = plan.windowStart;
+  for (const block of plan.blocks) {
+    if (block.start - cursor >= 15 && block.start > plan.windowStart) {
+      rows.push({ kind: "free", start: cursor, end: block.start });
+    }
+    rows.push(block);
+    cursor = Math.max(cursor, block.end);
+  }
+  if (plan.windowEnd - cursor >= 15) rows.push({ kind: "free", start: cursor, end: plan.windowEnd });
+
+  return (
+    <div className="time-block-plan">
+      <div className="time-block-plan__header">
+        <div>
+          <h3>Plan</h3>
+          <span className="time-block-plan__summary">
+            {formatDuration(plan.plannedMinutes)} planned · {formatDuration(plan.freeMinutes)} free
+            {plan.unscheduled.length > 0 && ` · ${plan.unscheduled.length} not scheduled`}
+          </span>
+        </div>
+        <button
+          className="time-block-plan__settings-toggle"
+          onClick={() => setShowSettings(!showSettings)}
+        >
+          {showSettings ? "Done" : "Settings"}
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="time-block-plan__settings">
+          <label>
+            Day starts
+            <input
+              type="time"
+              value={settings.dayStart}
+              onChange={(e) => e.target.value && dispatch({ type: "UPDATE_TIME_BLOCK_SETTINGS", payload: { dayStart: e.target.value } })}
+            />
+          </label>
+          <label>
+            Day ends
+            <input
+              type="time"
+              value={settings.dayEnd}
+              onChange={(e) => e.target.value && dispatch({ type: "UPDATE_TIME_BLOCK_SETTINGS", payload: { dayEnd: e.target.value } })}
+            />
+          </label>
+          <label>
+            Energy peaks in the
+            <select
+              value={settings.energyPeak}
+              onChange={(e) => dispatch({ type: "UPDATE_TIME_BLOCK_SETTINGS", payload: { energyPeak: e.target.value as EnergyPeak } })}
+            >
+              {(Object.keys(ENERGY_PEAK_LABELS) as EnergyPeak[]).map((peak) => (
+                <option key={peak} value={peak}>
+                  {ENERGY_PEAK_LABELS[peak]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Tasks without an estimate take
+            <input
+              type="number"
+              min={5}
+              step={5}
+              value={settings.defaultEstimateMinutes}
+              onChange={(e) => {
+                const minutes = parseInt(e.target.value, 10);
+                if (minutes > 0) dispatch({ type: "UPDATE_TIME_BLOCK_SETTINGS", payload: { defaultEstimateMinutes: minutes } });
+              }}
+            />
+            min
+          </label>
+          <div className="time-block-plan__sync">
+            <label>
+              <input
+                type="checkbox"
+                checked={calendarSync.enabled}
+                onChange={(e) => dispatch({ type: "UPDATE_CALENDAR_SYNC_SETTINGS", payload: { enabled: e.target.checked } })}
+              />
+              Write the plan to a "Looops" Google calendar
+            </label>
+            {calendarSync.enabled && (
+              <>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={calendarSync.includeRoutines}
+                    onChange={(e) => dispatch({ type: "UPDATE_CALENDAR_SYNC_SETTINGS", payload: { includeRoutines: e.target.checked } })}
+                  />
+                  Include routines with a set time
+                </label>
+                <p className="time-block-plan__sync-status">
+                  {calendarSync.lastError ? (
+                    <>
+                      {calendarSync.lastError} · <a href={getCalendarAuthUrl()}>Reconnect</a>
+                    </>
+                  ) : calendarSync.lastSyncedAt ? (
+                    `Synced ${new Date(calendarSync.lastSyncedAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}. Move or delete events there to reschedule.`
+                  ) : (
+                    "Waiting for the first sync…"
+                  )}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {running?.overrun && (
+        <p className="time-block-plan__notice">
+          "{running.title}" is past its estimate - the rest of the day has moved back.
+        </p>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="time-block-plan__empty">
+          {plan.windowStart >= plan.windowEnd
+            ? `Your day ended at ${formatBlockTime(plan.windowEnd)}.`
+            : "Nothing to plan - your stack is clear."}
+        </p>
+      ) : (
+        <ol className="time-block-plan__timeline">
+          {rows.map((row) => {
+            if (row.kind === "free") {
+              return (
+                <li key={`free:${row.start}`} className="time-block-plan__row time-block-plan__row--free">
+                  <span className="time-block-plan__time">{formatBlockTime(row.start)}</span>
+                  <span className="time-block-plan__title">Free · {formatDuration(row.end - row.start)}</span>
+                </li>
+              );
+            }
+
+            const past = row.end <= plan.windowStart && !row.running;
+            const classes = [
+              "time-block-plan__row",
+              `time-block-plan__row--${row.kind}`,
+              row.running ? "time-block-plan__row--running" : "",
+              past ? "time-block-plan__row--past" : "",
+            ].join(" ");
+
+            return (
+              <li
+                key={row.id}
+                className={classes}
+                style={row.loop ? { borderLeftColor: LOOP_COLORS[row.loop]?.border } : undefined}
+              >
+                <span className="time-block-plan__time" title={`${minutesToTime(row.start)}–${minutesToTime(row.end)}`}>
+                  {formatBlockTime(row.start)}
+                  <span className="time-block-plan__end">{formatBlockTime(row.end)}</span>
+                </span>
+                {row.kind === "task" && row.taskId ? (
+                  <button className="time-block-plan__title" onClick={() => onSelectTask(row.taskId!)}>
+                    {row.loop && LOOP_DEFINITIONS[row.loop]?.icon} {row.title}
+                  </button>
+                ) : (
+                  <span className="time-block-plan__title">
+                    {row.kind === "event" ? "📅" : "☕"} {row.title}
+                  </span>
+                )}
+                <span className="time-block-plan__badges">
+                  {row.running && <span className="time-block-plan__badge time-block-plan__badge--now">Now</span>}
+                  {row.overrun && <span className="time-block-plan__badge time-block-plan__badge--over">Over estimate</span>}
+                  {row.fixed && <span className="time-block-plan__badge">Due {formatBlockTime(row.start)}</span>}
+                  {row.taskId && onCalendar.has(row.taskId) && (
+                    <span className="time-block-plan__badge" title="On your Looops calendar">📅</span>
+                  )}
+                  {row.missedDueTime && <span className="time-block-plan__badge time-block-plan__badge--over">Missed its time</span>}
+                  {row.energy && row.kind === "task" && !row.running && (
+                    <span className={`time-block-plan__energy time-block-plan__energy--${row.energy}`} title={`${row.energy} energy time`} />
+                  )}
+                </span>
+                {row.kind === "task" && row.taskId && !row.running && !past && (
+                  <button
+                    className="time-block-plan__start"
+                    onClick={() => dispatch({ type: "START_TASK_TIMER", payload: row.taskId! })}
+                    title="Start timer"
+                  >
+                    ▶
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {plan.unscheduled.length > 0 && (
+        <div className="time-block-plan__unscheduled">
+          <h4>Not scheduled today</h4>
+          <ul>
+            {plan.unscheduled.map((item) => (
+              <li key={item.taskId}>
+                <button className="time-block-plan__title" onClick={() => onSelectTask(item.taskId)}>
+                  {LOOP_DEFINITIONS[item.loop]?.icon} {item.title}
+                </button>
+                <span className="time-block-plan__reason">{item.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimeBlockPlan;
@@ -0,0 +1,84 @@
+// Today's capacity - energy the stack needs, loops over their max, and what to defer
+
+import { useMemo } from "react";
+import { Task, LoopId, LoopState, LOOP_DEFINITIONS, ALL_LOOPS } from "../../types";
+import { getCapacityReport, getDeferralSuggestions } from "../../engines/capacityEngine";
+
+type TodayCapacityProps = {
+  tasks: Task[]; // The whole stack, not the filtered view
+  loopStates: Record<LoopId, LoopState>;
+  capacityAdjustments: Partial<Record<LoopId, number>>;
+  onDefer: (taskIds: string[]) => void;
+};
+
+export function TodayCapacity({ tasks, loopStates, capacityAdjustments, onDefer }: TodayCapacityProps) {
+  const report = useMemo(
+    () => getCapacityReport(tasks, loopStates, capacityAdjustments),
+    [tasks, loopStates, capacityAdjustments]
+  );
+  const deferrals = useMemo(
+    () => (report.warnings.length > 0 ? getDeferralSuggestions(tasks, loopStates, capacityAdjustments) : []),
+    [report, tasks, loopStates, capacityAdjustments]
+  );
+
+  const energyPercent = Math.round(report.energyUsed * 100);
+  const isOver = report.energyUsed > 1;
+
+  return (
+    <div className="today-capacity">
+      <div className="today-capacity__header">
+        <h3>Capacity</h3>
+        <span className={`today-capacity__energy ${isOver ? "today-capacity__energy--over" : ""}`}>
+          {energyPercent}% energy
+        </span>
+      </div>
+      <div className="today-capacity__bar">
+        <div
+          className={`today-capacity__fill ${isOver ? "today-capacity__fill--over" : ""}`}
+          style={{ width: `${Math.min(100, energyPercent)}%` }}
+        />
+      </div>
+
+      <div className="today-capacity__loops">
+        {ALL_LOOPS.filter((loopId) => report.loops[loopId].load > 0).map((loopId) => {
+          const { load, maxTasks } = report.loops[loopId];
+          return (
+            <span
+              key={loopId}
+              className={`today-capacity__loop ${load > maxTasks ? "today-capacity__loop--over" : ""}`}
+              title={`${LOOP_DEFINITIONS[loopId].name}: ${load} of ${maxTasks} tasks`}
+            >
+              {LOOP_DEFINITIONS[loopId].icon} {load}/{maxTasks}
+            </span>
+          );
+        })}
+      </div>
+
+      {report.warnings.length > 0 && (
+        <ul className="today-capacity__warnings">
+          {report.warnings.map((warning) => (
+            <li key={`${warning.kind}_${warning.loopId ?? "all"}`}>{warning.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {deferrals.length > 0 && (
+        <div className="today-capacity__defer">
+          <ul className="today-capacity__defer-list">
+            {deferrals.map((task) => (
+              <li key={task.id}>{task.title}</li>
+            ))}
+          </ul>
+          <button
+            className="today-capacity__defer-btn"
+            onClick={() => onDefer(deferrals.map((task) => task.id))}
+          >
+            Defer {deferrals.length} to tomorrow
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TodayCapacity;
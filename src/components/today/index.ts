@@ -3,3 +3,5 @@
 export { TodaysStack } from "./TodaysStack";
 export { CalendarView } from "./CalendarView";
 export { QuickAddModal } from "./QuickAddModal";
+export { TodayCapacity } from "./TodayCapacity";
+export { TimeBlockPlan } from "./TimeBlockPlan";
@@ -6,9 +6,9 @@ import React, {
   useReducer,
   useEffect,
   useCallback,
+  useMemo,
   ReactNode,
 } from "react";
-import { markUserChange } from "../hooks/useFirebaseSync";
 import {
   LoopId,
   LoopStateType,
@@ -17,15 +17,21 @@ import {
   Challenge,
   UserPrototype,
   LoopState,
+  StateTransitionTrigger,
   Goal,
   GoalHierarchy,
   CascadeRule,
   ALL_LOOPS,
+  getLocalDateKey,
   createDefaultLoopState,
   createEmptyGoalHierarchy,
   DEFAULT_CASCADE_RULES,
   Project,
   Label,
+  SavedFilter,
+  TaskComment,
+  TaskActivity,
+  TaskReminder,
   createNextRecurrence,
   Routine,
   RoutineCompletion,
@@ -65,6 +71,8 @@ import {
   CalendarEvent,
   CalendarInfo,
   defaultCalendarState,
+  CalendarSyncState,
+  defaultCalendarSyncState,
   // Media
   MediaState,
   MediaEntry,
@@ -74,7 +82,7 @@ import {
   CoreDirections,
   LoopDirections,
 } from "../types";
-import { STORAGE_KEYS } from "../storage";
+import { STORAGE_KEYS, CURRENT_SCHEMA_VERSION, migratePersistedState } from "../storage";
 import { findTemplateById, BUILT_IN_TEMPLATES } from "../data/taskTemplates";
 import { TaskTemplate } from "../types/taskTemplates";
 import { createTask, ActiveTimer, TimeEntry } from "../types/tasks";
@@ -136,7 +144,34 @@ import {
   QuickDecision,
   INITIAL_DECISIONS_STATE,
 } from "../types/decisions";
+import {
+  RemindersState,
+  ReminderSettings,
+  INITIAL_REMINDERS_STATE,
+} from "../types/reminders";
+import { LoopModel, INITIAL_LOOP_MODEL } from "../types/loopModel";
+import { TimeBlockSettings, DEFAULT_TIME_BLOCK_SETTINGS } from "../types/timeBlocking";
 import { SEED_RECIPES, SEED_TECHNIQUES } from "../data/mealPrepSeedData";
+import { applyRecordChanges, SyncCollectionId, SyncRecord } from "../services/entitySync";
+import { queueOutboxMutationsForAction, queueOutboxMutationsForTaskChange } from "../services/outbox";
+import { createStateHistoryEntry } from "../engines/stateEngine";
+import type { TriggerFiring } from "../engines/triggerEngine";
+import { getCascadeResult } from "../engines/cascadeEngine";
+import { PlannedStateChange, setPlannedState } from "../engines/weeklyPlanEngine";
+import { getLoopLoads, getTodayStackTasks } from "../engines/capacityEngine";
+import { diffTaskActivity, appendTaskActivity } from "../engines/taskActivityEngine";
+import { buildLoopModel, recordLoopCorrection, updateLoopModelFromTasks } from "../engines/loopClassifier";
+import { BulkTaskChanges, applyBulkTaskChanges } from "../engines/bulkTaskEngine";
+import { instantiateTemplate } from "../engines/templateEngine";
+import { TaskScheduleChange, applyTaskScheduleChanges } from "../engines/calendarSyncEngine";
+import {
+  AdvisorProposal,
+  AdvisorState,
+  DEFAULT_ADVISOR_STATE,
+  applyAdvisorFeedback,
+  describeProposal,
+} from "../engines/stateAdvisorEngine";
+import type { ConditionContext } from "../engines/conditionEngine";
 
 // User profile type
 export type UserProfile = {
@@ -154,6 +189,9 @@ export type UserProfile = {
 
 // App state shape
 export type AppState = {
+  // Persisted data shape version (see storage/migrations)
+  schemaVersion: number;
+
   // User
   user: {
     profile: UserProfile | null;
@@ -165,6 +203,9 @@ export type AppState = {
   loops: {
     states: Record<LoopId, LoopState>;
     cascadeRules: CascadeRule[];
+    dismissedSuggestions: string[]; // CascadeSuggestion IDs the user dismissed
+    planAppliedOn: string | null; // Last date (YYYY-MM-DD) the weekly plan was applied
+    advisor: AdvisorState; // State advisor weights, learned from accepted/rejected proposals
   };
 
   // Tasks
@@ -179,6 +220,13 @@ export type AppState = {
   // Labels
   labels: Label[];
 
+  // Saved filters (queries - see engines/filterQueryEngine)
+  savedFilters: SavedFilter[];
+
+  // Task comments and the automatic change log (see engines/taskActivityEngine)
+  taskComments: TaskComment[];
+  taskActivity: TaskActivity[];
+
   // Goals
   goals: GoalHierarchy;
 
@@ -261,6 +309,18 @@ export type AppState = {
   // Decisions (cross-loop decision tracking)
   decisions: DecisionsState;
 
+  // Reminders (local notifications - see engines/reminderEngine)
+  reminders: RemindersState;
+
+  // Loop prediction model, learned from task titles and corrections (see engines/loopClassifier)
+  loopModel: LoopModel;
+
+  // Time blocking - how today's plan is laid out (the plan itself comes from engines/timeBlockEngine)
+  timeBlockSettings: TimeBlockSettings;
+
+  // Calendar write-back - planned blocks and routines written to the Looops Google calendar
+  calendarSync: CalendarSyncState;
+
   // Active task timer (only one can run at a time)
   activeTimer: ActiveTimer | null;
 
@@ -298,6 +358,7 @@ function createDefaultDashboards(): Record<LoopId, LoopDashboard> {
 
 // Default state
 const defaultState: AppState = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   user: {
     profile: null,
     prototype: null,
@@ -306,6 +367,9 @@ const defaultState: AppState = {
   loops: {
     states: createDefaultLoopStates(),
     cascadeRules: DEFAULT_CASCADE_RULES,
+    dismissedSuggestions: [],
+    planAppliedOn: null,
+    advisor: DEFAULT_ADVISOR_STATE,
   },
   tasks: {
     items: [],
@@ -313,6 +377,9 @@ const defaultState: AppState = {
   },
   projects: [],
   labels: [],
+  savedFilters: [],
+  taskComments: [],
+  taskActivity: [],
   goals: createEmptyGoalHierarchy(),
   routines: {
     items: [],
@@ -379,6 +446,14 @@ const defaultState: AppState = {
   specialDates: INITIAL_SPECIAL_DATES_STATE,
   // Decisions
   decisions: INITIAL_DECISIONS_STATE,
+  // Reminders
+  reminders: INITIAL_REMINDERS_STATE,
+  // Loop model
+  loopModel: INITIAL_LOOP_MODEL,
+  // Time blocking
+  timeBlockSettings: DEFAULT_TIME_BLOCK_SETTINGS,
+  // Calendar write-back
+  calendarSync: defaultCalendarSyncState,
   // Active Timer
   activeTimer: null,
   ui: {
@@ -407,16 +482,37 @@ export type AppAction =
   | { type: "SET_ALL_LOOP_STATES"; payload: Record<LoopId, LoopStateType> }
   | { type: "UPDATE_LOOP_FLOOR"; payload: { loopId: LoopId; floor: LoopStateType } }
   | { type: "UPDATE_LOOP_CEILING"; payload: { loopId: LoopId; ceiling: LoopStateType } }
+  | { type: "ADD_LOOP_TRIGGER"; payload: { loopId: LoopId; trigger: StateTransitionTrigger } }
+  | { type: "UPDATE_LOOP_TRIGGER"; payload: { loopId: LoopId; trigger: StateTransitionTrigger } }
+  | { type: "DELETE_LOOP_TRIGGER"; payload: { loopId: LoopId; triggerId: string } }
+  | { type: "APPLY_LOOP_TRIGGERS"; payload: TriggerFiring[] } // Fired automatically by the trigger engine
+  | { type: "RUN_LOOP_TRIGGER"; payload: TriggerFiring } // Run by hand from the trigger editor
+  | { type: "ADD_CASCADE_RULE"; payload: CascadeRule }
+  | { type: "UPDATE_CASCADE_RULE"; payload: CascadeRule }
+  | { type: "DELETE_CASCADE_RULE"; payload: string }
+  | { type: "RESET_CASCADE_RULES" }
+  | { type: "DISMISS_CASCADE_SUGGESTION"; payload: string }
+  | { type: "SET_PLANNED_LOOP_STATE"; payload: { loopId: LoopId; date: string; state: LoopStateType | null } }
+  | { type: "APPLY_WEEKLY_PLAN"; payload: { date: string; changes: PlannedStateChange[] } } // Applied at the start of a planned day
+  | { type: "ACCEPT_STATE_ADVICE"; payload: AdvisorProposal }
+  | { type: "REJECT_STATE_ADVICE"; payload: AdvisorProposal }
 
   // Task actions
   | { type: "SET_TASKS"; payload: Task[] }
+  | { type: "SYNC_TODOIST_TASKS"; payload: Task[] } // Fresh Todoist tasks - replace every Todoist-sourced task
   | { type: "ADD_TASK"; payload: Task }
   | { type: "UPDATE_TASK"; payload: Task }
+  | { type: "SET_TASK_EXTERNAL_ID"; payload: { taskId: string; externalId: string; externalUrl?: string } } // Todoist created it (from the outbox)
   | { type: "DELETE_TASK"; payload: string }
   | { type: "COMPLETE_TASK"; payload: string }
   | { type: "UNCOMPLETE_TASK"; payload: string }
   | { type: "SET_TODAY_STACK"; payload: string[] }
-  | { type: "REORDER_TASKS"; payload: { taskIds: string[]; projectId?: string; sectionId?: string } }
+  | { type: "ADD_TO_TODAY_STACK"; payload: string }
+  | { type: "DEFER_TASKS"; payload: { taskIds: string[]; date: string } } // Move off today's stack to a later day
+  | { type: "BULK_UPDATE_TASKS"; payload: { taskIds: string[]; changes: BulkTaskChanges } }
+  | { type: "BULK_COMPLETE_TASKS"; payload: string[] }
+  | { type: "BULK_DELETE_TASKS"; payload: string[] }
+  | { type: "REORDER_TASKS"; payload: { taskIds: string[]; projectId?: string; sectionId?: string | null } } // sectionId null = out of any section
 
   // Project actions
   | { type: "SET_PROJECTS"; payload: Project[] }
@@ -424,12 +520,22 @@ export type AppAction =
   | { type: "UPDATE_PROJECT"; payload: Project }
   | { type: "DELETE_PROJECT"; payload: string }
   | { type: "ARCHIVE_PROJECT"; payload: string }
+  | { type: "DELETE_PROJECT_SECTION"; payload: { projectId: string; sectionId: string } }
 
   // Label actions
   | { type: "SET_LABELS"; payload: Label[] }
   | { type: "ADD_LABEL"; payload: Label }
   | { type: "UPDATE_LABEL"; payload: Label }
   | { type: "DELETE_LABEL"; payload: string }
+  // Saved filters
+  | { type: "SET_SAVED_FILTERS"; payload: SavedFilter[] }
+  | { type: "ADD_SAVED_FILTER"; payload: SavedFilter }
+  | { type: "UPDATE_SAVED_FILTER"; payload: SavedFilter }
+  | { type: "DELETE_SAVED_FILTER"; payload: string }
+  // Task comments
+  | { type: "ADD_TASK_COMMENT"; payload: TaskComment }
+  | { type: "UPDATE_TASK_COMMENT"; payload: TaskComment }
+  | { type: "DELETE_TASK_COMMENT"; payload: string }
 
   // Goal actions
   | { type: "SET_GOALS"; payload: GoalHierarchy }
@@ -561,7 +667,17 @@ export type AppAction =
   | { type: "UPDATE_LOOP_DIRECTIONS"; payload: { loopId: LoopId; directions: Partial<LoopDirections> } }
 
   // Template actions
-  | { type: "CREATE_FROM_TEMPLATE"; payload: { templateId: string; projectName?: string } }
+  | {
+      type: "CREATE_FROM_TEMPLATE";
+      payload: {
+        templateId: string;
+        projectName?: string;
+        variables?: Record<string, string>;
+        anchorDate?: string;
+        projectId?: string;
+        sectionId?: string;
+      };
+    }
   | { type: "ADD_CUSTOM_TEMPLATE"; payload: TaskTemplate }
   | { type: "UPDATE_CUSTOM_TEMPLATE"; payload: TaskTemplate }
   | { type: "DELETE_CUSTOM_TEMPLATE"; payload: string }
@@ -661,6 +777,22 @@ export type AppAction =
   | { type: "UPDATE_SPECIAL_DATE"; payload: SpecialDate }
   | { type: "DELETE_SPECIAL_DATE"; payload: string }
 
+  // Reminder actions
+  | { type: "ADD_TASK_REMINDER"; payload: TaskReminder }
+  | { type: "DELETE_TASK_REMINDER"; payload: string }
+  | { type: "UPDATE_REMINDER_SETTINGS"; payload: Partial<ReminderSettings> }
+
+  // Loop model actions
+  | { type: "LEARN_LOOP_CORRECTION"; payload: { title: string; loop: LoopId; subLoop?: string } }
+  | { type: "REBUILD_LOOP_MODEL" }
+
+  // Time blocking actions
+  | { type: "UPDATE_TIME_BLOCK_SETTINGS"; payload: Partial<TimeBlockSettings> }
+
+  // Calendar write-back actions
+  | { type: "UPDATE_CALENDAR_SYNC_SETTINGS"; payload: Partial<Pick<CalendarSyncState, "enabled" | "includeRoutines">> }
+  | { type: "APPLY_CALENDAR_SYNC"; payload: { sync: Partial<CalendarSyncState>; taskChanges: TaskScheduleChange[] } } // Result of a sync run
+
   // Decision actions
   | { type: "ADD_DECISION"; payload: Decision }
   | { type: "UPDATE_DECISION"; payload: Decision }
@@ -678,12 +810,86 @@ export type AppAction =
 
   // Hydration
   | { type: "HYDRATE"; payload: Partial<AppState> }
+  | { type: "APPLY_REMOTE_RECORDS"; payload: { collection: SyncCollectionId; upserts: SyncRecord[]; deletedIds: string[] } }
+
+  // Restore chosen slices from a backup file (undoable, unlike HYDRATE)
+  | { type: "RESTORE_BACKUP"; payload: Partial<AppState> }
 
   // Reset state (for user switching)
-  | { type: "RESET_STATE" };
+  | { type: "RESET_STATE" }
+
+  // Undo/redo (handled by historyReducer, never reaches appReducer)
+  | { type: "UNDO" }
+  | { type: "REDO" };
+
+// Data the condition language (triggers, cascade rule conditions) evaluates against
+export function getConditionContext(state: AppState, now: Date = new Date()): ConditionContext {
+  return {
+    now,
+    loopStates: state.loops.states,
+    tasks: state.tasks.items,
+    health: state.health.summary,
+    smartSchedule: state.smartSchedule,
+  };
+}
+
+// Keep each loop's currentLoad matching its open tasks on today's stack
+function syncLoopLoads(state: AppState): AppState {
+  const today = getLocalDateKey(new Date());
+  const loads = getLoopLoads(getTodayStackTasks(state.tasks.items, state.tasks.todayStack, today));
+  if (ALL_LOOPS.every((loopId) => !state.loops.states[loopId] || state.loops.states[loopId].currentLoad === loads[loopId])) {
+    return state;
+  }
+
+  const states = { ...state.loops.states };
+  for (const loopId of ALL_LOOPS) {
+    if (states[loopId] && states[loopId].currentLoad !== loads[loopId]) {
+      states[loopId] = { ...states[loopId], currentLoad: loads[loopId] };
+    }
+  }
+  return { ...state, loops: { ...state.loops, states } };
+}
+
+// Task list replaced wholesale rather than edited - nothing to record in the activity log
+const UNLOGGED_TASK_ACTIONS = new Set<string>([
+  "HYDRATE", "APPLY_REMOTE_RECORDS", "RESTORE_BACKUP", "RESET_STATE", "SET_TASKS",
+]);
+
+// Record status, due date, loop and priority changes made by the action
+function logTaskActivity(state: AppState, next: AppState, action: AppAction): AppState {
+  if (UNLOGGED_TASK_ACTIONS.has(action.type)) return next;
+  const origin = action.type === "SYNC_TODOIST_TASKS" ? "todoist" : "local";
+  const entries = diffTaskActivity(state.tasks.items, next.tasks.items, origin);
+  return entries.length > 0
+    ? { ...next, taskActivity: appendTaskActivity(next.taskActivity, entries) }
+    : next;
+}
+
+// Train the loop model on what the action did - a loaded task list only seeds an empty model
+function learnLoopModel(state: AppState, next: AppState, action: AppAction): AppState {
+  if (UNLOGGED_TASK_ACTIONS.has(action.type)) {
+    return next.loopModel.documents === 0 && next.tasks.items.length > 0
+      ? { ...next, loopModel: buildLoopModel(next.tasks.items, next.loopModel) }
+      : next;
+  }
+  const loopModel = updateLoopModelFromTasks(
+    next.loopModel,
+    state.tasks.items,
+    next.tasks.items,
+    action.type !== "SYNC_TODOIST_TASKS"
+  );
+  return loopModel !== next.loopModel ? { ...next, loopModel } : next;
+}
 
 // Reducer
 function appReducer(state: AppState, action: AppAction): AppState {
+  const next = reduceAppState(state, action);
+  return next.tasks !== state.tasks
+    ? syncLoopLoads(learnLoopModel(state, logTaskActivity(state, next, action), action))
+    : next;
+}
+
+function reduceAppState(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     // User
     case "SET_USER_PROFILE":
@@ -715,6 +921,12 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case "SET_LOOP_STATE": {
       const { loopId, state: newState } = action.payload;
       const currentLoopState = state.loops.states[loopId];
+      const cascade = getCascadeResult(state.loops.cascadeRules, getConditionContext(state), loopId);
+      const block = cascade.blockedStates.find((b) => b.state === newState);
+      if (block) {
+        console.warn(`[AppContext] ${loopId} can't enter ${newState}: ${block.reason}`);
+        return state;
+      }
       return {
         ...state,
         loops: {
@@ -785,6 +997,177 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
     }
 
+    case "ADD_LOOP_TRIGGER":
+    case "UPDATE_LOOP_TRIGGER":
+    case "DELETE_LOOP_TRIGGER": {
+      const { loopId } = action.payload;
+      const loopState = state.loops.states[loopId];
+      const existing = loopState.triggers || [];
+      const triggers =
+        action.type === "ADD_LOOP_TRIGGER"
+          ? [...existing, action.payload.trigger]
+          : action.type === "UPDATE_LOOP_TRIGGER"
+          ? existing.map((t) => (t.id === action.payload.trigger.id ? action.payload.trigger : t))
+          : existing.filter((t) => t.id !== action.payload.triggerId);
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          states: {
+            ...state.loops.states,
+            [loopId]: { ...loopState, triggers },
+          },
+        },
+      };
+    }
+
+    case "ADD_CASCADE_RULE":
+      return {
+        ...state,
+        loops: { ...state.loops, cascadeRules: [...state.loops.cascadeRules, action.payload] },
+      };
+
+    case "UPDATE_CASCADE_RULE":
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          cascadeRules: state.loops.cascadeRules.map((r) => (r.id === action.payload.id ? action.payload : r)),
+        },
+      };
+
+    case "DELETE_CASCADE_RULE":
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          cascadeRules: state.loops.cascadeRules.filter((r) => r.id !== action.payload),
+        },
+      };
+
+    case "RESET_CASCADE_RULES":
+      return {
+        ...state,
+        loops: { ...state.loops, cascadeRules: DEFAULT_CASCADE_RULES },
+      };
+
+    case "DISMISS_CASCADE_SUGGESTION":
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          // Keep the list short - old IDs can never match again once the source loop moves
+          dismissedSuggestions: [...state.loops.dismissedSuggestions, action.payload].slice(-50),
+        },
+      };
+
+    case "SET_PLANNED_LOOP_STATE": {
+      const { loopId, date, state: plannedState } = action.payload;
+      const loopState = state.loops.states[loopId];
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          states: {
+            ...state.loops.states,
+            [loopId]: { ...loopState, weeklyStates: setPlannedState(loopState.weeklyStates, date, plannedState) },
+          },
+        },
+      };
+    }
+
+    case "APPLY_WEEKLY_PLAN": {
+      const now = new Date().toISOString();
+      const newStates = { ...state.loops.states };
+      for (const change of action.payload.changes) {
+        const current = newStates[change.loopId];
+        // Skip changes computed against a state that has since changed
+        if (!current || current.currentState !== change.fromState) continue;
+        newStates[change.loopId] = {
+          ...current,
+          currentState: change.toState,
+          lastStateChange: now,
+          stateHistory: [
+            ...current.stateHistory,
+            createStateHistoryEntry(change.fromState, change.toState, change.reason, change.triggeredBy),
+          ],
+        };
+      }
+      return {
+        ...state,
+        loops: { ...state.loops, states: newStates, planAppliedOn: action.payload.date },
+      };
+    }
+
+    case "ACCEPT_STATE_ADVICE": {
+      const proposal = action.payload;
+      const current = state.loops.states[proposal.loopId];
+      const advisor = applyAdvisorFeedback(state.loops.advisor, proposal, true);
+      // Still learn from it, but don't move a loop that's changed since the proposal
+      if (!current || current.currentState !== proposal.fromState) {
+        return { ...state, loops: { ...state.loops, advisor } };
+      }
+      const reason = `Advisor: ${describeProposal(proposal)} (${proposal.contributions.map((c) => c.explanation).join("; ")})`;
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          advisor,
+          states: {
+            ...state.loops.states,
+            [proposal.loopId]: {
+              ...current,
+              currentState: proposal.toState,
+              lastStateChange: new Date().toISOString(),
+              stateHistory: [
+                ...current.stateHistory,
+                createStateHistoryEntry(proposal.fromState, proposal.toState, reason, "user"),
+              ],
+            },
+          },
+        },
+      };
+    }
+
+    case "REJECT_STATE_ADVICE":
+      return {
+        ...state,
+        loops: {
+          ...state.loops,
+          advisor: applyAdvisorFeedback(state.loops.advisor, action.payload, false),
+        },
+      };
+
+    case "APPLY_LOOP_TRIGGERS":
+    case "RUN_LOOP_TRIGGER": {
+      const firings = action.type === "APPLY_LOOP_TRIGGERS" ? action.payload : [action.payload];
+      const newStates = { ...state.loops.states };
+      for (const firing of firings) {
+        const current = newStates[firing.loopId];
+        // Skip firings computed against a state that has since changed
+        if (!current || current.currentState !== firing.fromState) continue;
+        newStates[firing.loopId] = {
+          ...current,
+          currentState: firing.toState,
+          lastStateChange: firing.firedAt,
+          triggers: (current.triggers || []).map((t) =>
+            t.id === firing.triggerId ? { ...t, lastFiredAt: firing.firedAt } : t
+          ),
+          stateHistory: [
+            ...current.stateHistory,
+            {
+              ...createStateHistoryEntry(firing.fromState, firing.toState, firing.reason, firing.triggeredBy),
+              timestamp: firing.firedAt,
+            },
+          ],
+        };
+      }
+      return {
+        ...state,
+        loops: { ...state.loops, states: newStates },
+      };
+    }
+
     // Tasks
     case "SET_TASKS":
       return {
@@ -792,6 +1175,15 @@ function appReducer(state: AppState, action: AppAction): AppState {
         tasks: { ...state.tasks, items: action.payload },
       };
 
+    case "SYNC_TODOIST_TASKS":
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          items: [...state.tasks.items.filter((t) => t.source !== "todoist"), ...action.payload],
+        },
+      };
+
     case "ADD_TASK":
       return {
         ...state,
@@ -809,14 +1201,39 @@ function appReducer(state: AppState, action: AppAction): AppState {
         },
       };
 
+    case "SET_TASK_EXTERNAL_ID": {
+      const { taskId, externalId, externalUrl } = action.payload;
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          items: state.tasks.items.map((t) =>
+            t.id === taskId ? { ...t, externalId, externalUrl: externalUrl ?? t.externalUrl } : t
+          ),
+        },
+      };
+    }
+
     case "DELETE_TASK":
       return {
         ...state,
         tasks: {
           ...state.tasks,
-          items: state.tasks.items.filter((t) => t.id !== action.payload),
+          items: state.tasks.items
+            .filter((t) => t.id !== action.payload)
+            .map((t) =>
+              t.dependencies?.includes(action.payload)
+                ? { ...t, dependencies: t.dependencies.filter((id) => id !== action.payload) }
+                : t
+            ),
           todayStack: state.tasks.todayStack.filter((id) => id !== action.payload),
         },
+        taskComments: state.taskComments.filter((c) => c.taskId !== action.payload),
+        taskActivity: state.taskActivity.filter((a) => a.taskId !== action.payload),
+        reminders: {
+          ...state.reminders,
+          items: state.reminders.items.filter((r) => r.taskId !== action.payload),
+        },
       };
 
     case "COMPLETE_TASK": {
@@ -851,6 +1268,84 @@ function appReducer(state: AppState, action: AppAction): AppState {
         tasks: { ...state.tasks, todayStack: action.payload },
       };
 
+    case "ADD_TO_TODAY_STACK":
+      if (state.tasks.todayStack.includes(action.payload)) return state;
+      return {
+        ...state,
+        tasks: { ...state.tasks, todayStack: [...state.tasks.todayStack, action.payload] },
+      };
+
+    case "DEFER_TASKS": {
+      const { taskIds, date } = action.payload;
+      const deferIds = new Set(taskIds);
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          items: state.tasks.items.map((t) =>
+            deferIds.has(t.id) ? { ...t, dueDate: date, updatedAt: new Date().toISOString() } : t
+          ),
+          todayStack: state.tasks.todayStack.filter((id) => !deferIds.has(id)),
+        },
+      };
+    }
+
+    case "BULK_UPDATE_TASKS": {
+      const ids = new Set(action.payload.taskIds);
+      const now = new Date().toISOString();
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          items: state.tasks.items.map((t) =>
+            ids.has(t.id) ? applyBulkTaskChanges(t, action.payload.changes, now) : t
+          ),
+        },
+      };
+    }
+
+    case "BULK_COMPLETE_TASKS": {
+      const ids = new Set(action.payload);
+      const completedAt = new Date().toISOString();
+      const nextOccurrences: Task[] = [];
+      const items = state.tasks.items.map((t) => {
+        if (!ids.has(t.id) || t.status === "done") return t;
+        if (t.recurrence) {
+          const nextTask = createNextRecurrence(t);
+          if (nextTask) nextOccurrences.push(nextTask);
+        }
+        return { ...t, status: "done" as const, completedAt };
+      });
+      return {
+        ...state,
+        tasks: { ...state.tasks, items: [...items, ...nextOccurrences] },
+      };
+    }
+
+    case "BULK_DELETE_TASKS": {
+      const ids = new Set(action.payload);
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          items: state.tasks.items
+            .filter((t) => !ids.has(t.id))
+            .map((t) =>
+              t.dependencies?.some((id) => ids.has(id))
+                ? { ...t, dependencies: t.dependencies.filter((id) => !ids.has(id)) }
+                : t
+            ),
+          todayStack: state.tasks.todayStack.filter((id) => !ids.has(id)),
+        },
+        taskComments: state.taskComments.filter((c) => !ids.has(c.taskId)),
+        taskActivity: state.taskActivity.filter((a) => !ids.has(a.taskId)),
+        reminders: {
+          ...state.reminders,
+          items: state.reminders.items.filter((r) => !ids.has(r.taskId)),
+        },
+      };
+    }
+
     case "UNCOMPLETE_TASK":
       return {
         ...state,
@@ -865,10 +1360,15 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
 
     case "REORDER_TASKS": {
-      const { taskIds } = action.payload;
+      const { taskIds, sectionId } = action.payload;
+      const now = new Date().toISOString();
       const reorderedItems = state.tasks.items.map((task) => {
         const newOrder = taskIds.indexOf(task.id);
         if (newOrder !== -1) {
+          // Moving between board columns also changes the section
+          if (sectionId !== undefined && (task.sectionId ?? null) !== sectionId) {
+            return { ...task, order: newOrder, sectionId: sectionId ?? undefined, updatedAt: now };
+          }
           return { ...task, order: newOrder };
         }
         return task;
@@ -915,6 +1415,25 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ),
       };
 
+    case "DELETE_PROJECT_SECTION": {
+      const { projectId, sectionId } = action.payload;
+      return {
+        ...state,
+        projects: state.projects.map((p) =>
+          p.id === projectId
+            ? { ...p, sections: p.sections.filter((s) => s.id !== sectionId), updatedAt: new Date().toISOString() }
+            : p
+        ),
+        // Tasks in the section stay in the project, just without a section
+        tasks: {
+          ...state.tasks,
+          items: state.tasks.items.map((t) =>
+            t.sectionId === sectionId ? { ...t, sectionId: undefined } : t
+          ),
+        },
+      };
+    }
+
     // Labels
     case "SET_LABELS":
       return { ...state, labels: action.payload };
@@ -944,6 +1463,58 @@ function appReducer(state: AppState, action: AppAction): AppState {
         },
       };
 
+    // Saved filters
+    case "SET_SAVED_FILTERS":
+      return { ...state, savedFilters: action.payload };
+
+    case "ADD_SAVED_FILTER":
+      return { ...state, savedFilters: [...state.savedFilters, action.payload] };
+
+    case "UPDATE_SAVED_FILTER":
+      return {
+        ...state,
+        savedFilters: state.savedFilters.map((f) =>
+          f.id === action.payload.id ? action.payload : f
+        ),
+      };
+
+    case "DELETE_SAVED_FILTER":
+      return {
+        ...state,
+        savedFilters: state.savedFilters.filter((f) => f.id !== action.payload),
+      };
+
+    // Task comments
+    case "ADD_TASK_COMMENT":
+      return { ...state, taskComments: [...state.taskComments, action.payload] };
+
+    case "UPDATE_TASK_COMMENT":
+      return {
+        ...state,
+        taskComments: state.taskComments.map((c) =>
+          c.id === action.payload.id ? action.payload : c
+        ),
+      };
+
+    case "DELETE_TASK_COMMENT": {
+      // Replies go with the comment they answer
+      const removed = new Set([action.payload]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        for (const c of state.taskComments) {
+          if (c.parentId && removed.has(c.parentId) && !removed.has(c.id)) {
+            removed.add(c.id);
+            grew = true;
+          }
+        }
+      }
+      return {
+        ...state,
+        taskComments: state.taskComments.filter((c) => !removed.has(c.id)),
+      };
+    }
+
     // Goals
     case "SET_GOALS":
       return { ...state, goals: action.payload };
@@ -2107,6 +2678,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
     }
 
     // Hydration - merge remote state but preserve seed data if remote is empty
+    // Payloads are already migrated to the current schema (see storage/migrations)
     case "HYDRATE": {
       const payload = action.payload;
       // Special handling for mealPrep - don't overwrite seed data with empty arrays from cloud
@@ -2122,84 +2694,18 @@ function appReducer(state: AppState, action: AppAction): AppState {
           techniqueLibrary: hasRemoteTechniques ? payload.mealPrep.techniqueLibrary! : state.mealPrep.techniqueLibrary,
         };
       }
-      // Special handling for finance - ensure all required arrays exist
+      // Special handling for finance - keep seed categories/rules if remote has none
       let financeMerged = payload.finance;
       if (payload.finance) {
         financeMerged = {
           ...state.finance,
           ...payload.finance,
-          // Ensure arrays are never undefined
-          connections: payload.finance.connections ?? state.finance.connections ?? [],
-          accounts: payload.finance.accounts ?? state.finance.accounts ?? [],
-          transactions: payload.finance.transactions ?? state.finance.transactions ?? [],
-          categories: (payload.finance.categories?.length ?? 0) > 0
-            ? payload.finance.categories!
-            : state.finance.categories ?? [],
-          rules: (payload.finance.rules?.length ?? 0) > 0
-            ? payload.finance.rules!
-            : state.finance.rules ?? [],
-          expenses: payload.finance.expenses ?? state.finance.expenses ?? [],
-          loopBudgets: payload.finance.loopBudgets ?? state.finance.loopBudgets ?? [],
-          monthlyIncome: payload.finance.monthlyIncome ?? state.finance.monthlyIncome ?? 0,
-        };
-      }
-      // Special handling for routines - deduplicate by ID
-      let routinesMerged = payload.routines;
-      if (payload.routines?.items) {
-        const seenIds = new Set<string>();
-        const deduplicatedItems = payload.routines.items.filter((r: Routine) => {
-          if (seenIds.has(r.id)) {
-            console.log('[HYDRATE] Removing duplicate routine:', r.id, r.title);
-            return false;
-          }
-          seenIds.add(r.id);
-          return true;
-        });
-        routinesMerged = {
-          ...state.routines,
-          ...payload.routines,
-          items: deduplicatedItems,
-        };
-      }
-      // Special handling for systems - ensure arrays are never undefined
-      let systemsMerged = payload.systems;
-      if (payload.systems) {
-        systemsMerged = {
-          ...state.systems,
-          ...payload.systems,
-          items: payload.systems.items ?? state.systems.items ?? [],
-          completions: payload.systems.completions ?? state.systems.completions ?? [],
-        };
-      }
-      // Special handling for habits - ensure arrays are never undefined
-      let habitsMerged = payload.habits;
-      if (payload.habits) {
-        habitsMerged = {
-          ...state.habits,
-          ...payload.habits,
-          items: payload.habits.items ?? state.habits.items ?? [],
-          completions: payload.habits.completions ?? state.habits.completions ?? [],
-        };
-      }
-      // Special handling for goals - ensure all timeframes have arrays
-      let goalsMerged = payload.goals;
-      if (payload.goals) {
-        goalsMerged = {
-          annual: payload.goals.annual ?? state.goals.annual ?? [],
-          quarterly: payload.goals.quarterly ?? state.goals.quarterly ?? [],
-          monthly: payload.goals.monthly ?? state.goals.monthly ?? [],
-          weekly: payload.goals.weekly ?? state.goals.weekly ?? [],
-          daily: payload.goals.daily ?? state.goals.daily ?? [],
-        };
-      }
-      // Special handling for specialDates - ensure arrays are never undefined
-      let specialDatesMerged = payload.specialDates;
-      if (payload.specialDates) {
-        specialDatesMerged = {
-          ...state.specialDates,
-          ...payload.specialDates,
-          people: payload.specialDates.people ?? state.specialDates.people ?? [],
-          dates: payload.specialDates.dates ?? state.specialDates.dates ?? [],
+          categories: payload.finance.categories.length > 0
+            ? payload.finance.categories
+            : state.finance.categories,
+          rules: payload.finance.rules.length > 0
+            ? payload.finance.rules
+            : state.finance.rules,
         };
       }
       return {
@@ -2207,14 +2713,23 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...payload,
         mealPrep: mealPrepMerged ?? state.mealPrep,
         finance: financeMerged ?? state.finance,
-        routines: routinesMerged ?? state.routines,
-        systems: systemsMerged ?? state.systems,
-        habits: habitsMerged ?? state.habits,
-        goals: goalsMerged ?? state.goals,
-        specialDates: specialDatesMerged ?? state.specialDates,
       };
     }
 
+    // Per-record changes pulled from a Firestore entity collection
+    case "APPLY_REMOTE_RECORDS": {
+      const { collection, upserts, deletedIds } = action.payload;
+      if (upserts.length === 0 && deletedIds.length === 0) return state;
+      return {
+        ...state,
+        ...applyRecordChanges(state, collection, upserts, deletedIds),
+      };
+    }
+
+    // Backup restore - same merge rules as hydration
+    case "RESTORE_BACKUP":
+      return appReducer(state, { type: "HYDRATE", payload: action.payload });
+
     // Reset state to defaults (for user switching)
     case "RESET_STATE": {
       console.log('[AppContext] Resetting state to defaults');
@@ -2227,7 +2742,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
 
     // Template actions
     case "CREATE_FROM_TEMPLATE": {
-      const { templateId, projectName } = action.payload;
+      const { templateId, projectName, variables, anchorDate, projectId, sectionId } = action.payload;
       // Check built-in templates first, then custom templates
       const template = findTemplateById(templateId) ||
         state.customTemplates.find(t => t.id === templateId);
@@ -2236,37 +2751,20 @@ function appReducer(state: AppState, action: AppAction): AppState {
         return state;
       }
 
-      // Calculate total estimated time from all subtasks
-      const totalEstimate = template.tasks.reduce(
-        (sum, t) => sum + (t.estimatedMinutes || 0),
-        0
-      );
-
-      // Create the parent task from the template (this becomes one "loop dot")
-      const parentTask = createTask(projectName || template.name, template.loop, {
-        description: template.description,
-        estimateMinutes: totalEstimate > 0 ? totalEstimate : undefined,
-        status: "todo",
-        source: "generated",
+      // The top task (one "loop dot") followed by its nested subtasks
+      const created = instantiateTemplate(template, {
+        name: projectName,
+        values: variables,
+        anchorDate,
+        projectId,
+        sectionId,
       });
 
-      // Create subtasks linked to the parent task
-      const subtasks = template.tasks.map((templateTask, index) =>
-        createTask(templateTask.title, template.loop, {
-          description: templateTask.description,
-          estimateMinutes: templateTask.estimatedMinutes,
-          parentId: parentTask.id, // Link to parent task
-          order: templateTask.order || index,
-          status: "todo",
-          source: "generated",
-        })
-      );
-
       return {
         ...state,
         tasks: {
           ...state.tasks,
-          items: [...state.tasks.items, parentTask, ...subtasks],
+          items: [...state.tasks.items, ...created],
         },
       };
     }
@@ -3147,6 +3645,71 @@ function appReducer(state: AppState, action: AppAction): AppState {
         },
       };
 
+    // Reminder actions
+    case "ADD_TASK_REMINDER":
+      return {
+        ...state,
+        reminders: { ...state.reminders, items: [...state.reminders.items, action.payload] },
+      };
+
+    case "DELETE_TASK_REMINDER":
+      return {
+        ...state,
+        reminders: {
+          ...state.reminders,
+          items: state.reminders.items.filter((r) => r.id !== action.payload),
+        },
+      };
+
+    case "UPDATE_REMINDER_SETTINGS":
+      return {
+        ...state,
+        reminders: {
+          ...state.reminders,
+          settings: { ...state.reminders.settings, ...action.payload },
+        },
+      };
+
+    // Loop model actions
+    case "LEARN_LOOP_CORRECTION": {
+      const { title, loop, subLoop } = action.payload;
+      // Dispatched right after the task is added - the newest match is the one corrected
+      const task = state.tasks.items
+        .filter((t) => t.title === title && t.loop === loop)
+        .reduce<Task | undefined>((latest, t) => (!latest || t.createdAt > latest.createdAt ? t : latest), undefined);
+      return {
+        ...state,
+        loopModel: recordLoopCorrection(state.loopModel, title, loop, subLoop, task?.id),
+      };
+    }
+
+    case "REBUILD_LOOP_MODEL":
+      return { ...state, loopModel: buildLoopModel(state.tasks.items, state.loopModel) };
+
+    // Time blocking actions
+    case "UPDATE_TIME_BLOCK_SETTINGS":
+      return {
+        ...state,
+        timeBlockSettings: { ...state.timeBlockSettings, ...action.payload },
+      };
+
+    // Calendar write-back actions
+    case "UPDATE_CALENDAR_SYNC_SETTINGS":
+      return {
+        ...state,
+        calendarSync: { ...state.calendarSync, ...action.payload },
+      };
+
+    case "APPLY_CALENDAR_SYNC":
+      return {
+        ...state,
+        calendarSync: { ...state.calendarSync, ...action.payload.sync },
+        tasks: {
+          ...state.tasks,
+          items: applyTaskScheduleChanges(state.tasks.items, action.payload.taskChanges),
+        },
+      };
+
     // Decision actions
     case "ADD_DECISION":
       return {
@@ -3211,10 +3774,127 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// Undo/redo history
+const MAX_UNDO_HISTORY = 50;
+
+// Actions that permanently remove data - these surface an "Undo" toast
+const DESTRUCTIVE_ACTION_PATTERN = /^(DELETE|RESET|BULK|ARCHIVE|DEACTIVATE|RESTORE)_/;
+
+// Slices that always keep their current value when a snapshot is restored
+// (UI state, data fetched fresh from APIs and links to written calendar events aren't the user's edits)
+const NON_UNDOABLE_SLICES = ["ui", "health", "calendar", "calendarSync"] as const;
+
+type HistoryEntry = {
+  state: AppState;
+  actionType: AppAction["type"];
+};
+
+type AppHistoryState = {
+  present: AppState;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  lastChange: UndoChange | null;
+};
+
+export type UndoChange = {
+  id: number;
+  label: string;
+  destructive: boolean;
+  kind: "action" | "undo" | "redo";
+};
+
+export type UndoHistory = {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  lastChange: UndoChange | null;
+};
+
+// "DELETE_FINANCE_TRANSACTION" -> "Delete finance transaction"
+export function getActionLabel(actionType: string): string {
+  const words = actionType.toLowerCase().split("_");
+  return [words[0].charAt(0).toUpperCase() + words[0].slice(1), ...words.slice(1)].join(" ");
+}
+
+function restoreSnapshot(snapshot: AppState, present: AppState): AppState {
+  const restored = { ...snapshot };
+  for (const slice of NON_UNDOABLE_SLICES) {
+    (restored as Record<string, unknown>)[slice] = present[slice];
+  }
+  return restored;
+}
+
+// Wraps appReducer with a capped undo/redo stack of state snapshots.
+// Snapshots share structure with the live state, so each one costs only what changed.
+function historyReducer(history: AppHistoryState, action: AppAction): AppHistoryState {
+  const { present, past, future } = history;
+  const nextChangeId = (history.lastChange?.id ?? 0) + 1;
+
+  switch (action.type) {
+    case "UNDO": {
+      const entry = past[past.length - 1];
+      if (!entry) return history;
+      return {
+        present: restoreSnapshot(entry.state, present),
+        past: past.slice(0, -1),
+        future: [...future, { state: present, actionType: entry.actionType }],
+        lastChange: { id: nextChangeId, label: getActionLabel(entry.actionType), destructive: false, kind: "undo" },
+      };
+    }
+
+    case "REDO": {
+      const entry = future[future.length - 1];
+      if (!entry) return history;
+      return {
+        present: restoreSnapshot(entry.state, present),
+        past: [...past, { state: present, actionType: entry.actionType }],
+        future: future.slice(0, -1),
+        lastChange: { id: nextChangeId, label: getActionLabel(entry.actionType), destructive: false, kind: "redo" },
+      };
+    }
+
+    case "RESET_STATE":
+      return { present: appReducer(present, action), past: [], future: [], lastChange: null };
+
+    case "HYDRATE":
+    case "APPLY_REMOTE_RECORDS":
+    case "SYNC_TODOIST_TASKS":
+    case "SET_TASK_EXTERNAL_ID": {
+      // Remote changes aren't undoable - rebase every snapshot onto them so
+      // undoing a local edit never reverts another device's work, or Todoist's
+      const next = appReducer(present, action);
+      if (next === present) return history;
+      const rebase = (entry: HistoryEntry) => ({ ...entry, state: appReducer(entry.state, action) });
+      return { ...history, present: next, past: past.map(rebase), future: future.map(rebase) };
+    }
+  }
+
+  const next = appReducer(present, action);
+  if (next === present) return history;
+
+  if (SYSTEM_ACTIONS.has(action.type)) {
+    return { ...history, present: next };
+  }
+
+  return {
+    present: next,
+    past: [...past, { state: present, actionType: action.type }].slice(-MAX_UNDO_HISTORY),
+    future: [],
+    lastChange: {
+      id: nextChangeId,
+      label: getActionLabel(action.type),
+      destructive: DESTRUCTIVE_ACTION_PATTERN.test(action.type),
+      kind: "action",
+    },
+  };
+}
+
 // Context
 type AppContextType = {
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
+  history: UndoHistory;
 };
 
 const AppContext = createContext<AppContextType | null>(null);
@@ -3222,6 +3902,7 @@ const AppContext = createContext<AppContextType | null>(null);
 // Deep merge helper for state restoration
 function deepMergeState(defaultState: AppState, savedState: Partial<AppState>): AppState {
   return {
+    schemaVersion: savedState.schemaVersion ?? defaultState.schemaVersion,
     user: savedState.user ? {
       profile: savedState.user.profile ?? defaultState.user.profile,
       prototype: savedState.user.prototype ?? defaultState.user.prototype,
@@ -3240,27 +3921,18 @@ function deepMergeState(defaultState: AppState, savedState: Partial<AppState>):
     },
     projects: savedState.projects ?? defaultState.projects,
     labels: savedState.labels ?? defaultState.labels,
+    savedFilters: savedState.savedFilters ?? defaultState.savedFilters,
+    taskComments: savedState.taskComments ?? defaultState.taskComments,
+    taskActivity: savedState.taskActivity ?? defaultState.taskActivity,
     goals: savedState.goals ?? defaultState.goals,
     routines: {
       ...defaultState.routines,
       ...savedState.routines,
-      // Deduplicate routines by ID
-      items: (() => {
-        const items = savedState.routines?.items ?? defaultState.routines.items;
-        const seenIds = new Set<string>();
-        return items.filter((r: Routine) => {
-          if (seenIds.has(r.id)) return false;
-          seenIds.add(r.id);
-          return true;
-        });
-      })(),
     },
     // Systems & Habits (habits deprecated, being migrated to system.components)
     systems: {
       ...defaultState.systems,
       ...savedState.systems,
-      // Ensure completions array exists
-      completions: savedState.systems?.completions ?? defaultState.systems.completions ?? [],
     },
     // @deprecated - Will be migrated to system.components
     habits: {
@@ -3318,7 +3990,6 @@ function deepMergeState(defaultState: AppState, savedState: Partial<AppState>):
       ? {
           ...defaultState.smartSchedule,
           ...savedState.smartSchedule,
-          customDayTypes: savedState.smartSchedule.customDayTypes ?? [],
         }
       : defaultState.smartSchedule,
     // Meal Prep - persists, but use seed data if saved arrays are empty
@@ -3378,8 +4049,6 @@ function deepMergeState(defaultState: AppState, savedState: Partial<AppState>):
       ? {
           ...defaultState.specialDates,
           ...savedState.specialDates,
-          people: savedState.specialDates.people ?? defaultState.specialDates.people,
-          dates: savedState.specialDates.dates ?? defaultState.specialDates.dates,
         }
       : defaultState.specialDates,
     // Decisions - persists
@@ -3387,10 +4056,16 @@ function deepMergeState(defaultState: AppState, savedState: Partial<AppState>):
       ? {
           ...defaultState.decisions,
           ...savedState.decisions,
-          decisions: savedState.decisions.decisions ?? defaultState.decisions.decisions,
-          quickDecisions: savedState.decisions.quickDecisions ?? defaultState.decisions.quickDecisions,
         }
       : defaultState.decisions,
+    // Reminders - persists
+    reminders: savedState.reminders ?? defaultState.reminders,
+    // Loop model - persists
+    loopModel: savedState.loopModel ?? defaultState.loopModel,
+    // Time blocking settings - persist
+    timeBlockSettings: savedState.timeBlockSettings ?? defaultState.timeBlockSettings,
+    // Calendar write-back - persists (links are how moves and deletions in Google are recognised)
+    calendarSync: savedState.calendarSync ?? defaultState.calendarSync,
     // Active Timer - persists (allows resuming timer across sessions)
     activeTimer: savedState.activeTimer ?? defaultState.activeTimer,
     ui: defaultState.ui, // Always use fresh UI state
@@ -3398,47 +4073,72 @@ function deepMergeState(defaultState: AppState, savedState: Partial<AppState>):
 }
 
 // Actions that are NOT user-initiated (system/sync actions)
-// These don't count as "user made a change" for sync purposes
-const SYSTEM_ACTIONS = new Set([
-  'HYDRATE',
+const SYSTEM_ACTIONS = new Set<string>([
+  'HYDRATE', 'APPLY_REMOTE_RECORDS',
+  // Todoist pull and IDs of tasks created there (undoing either would write to Todoist again)
+  'SYNC_TODOIST_TASKS', 'SET_TASK_EXTERNAL_ID',
   // Health (fetched from API)
   'SET_HEALTH_SUMMARY', 'SET_HEALTH_LOADING', 'SET_HEALTH_ERROR',
   // Calendar (fetched from API)
   'SET_CALENDAR_EVENTS', 'SET_CALENDAR_CALENDARS', 'SET_CALENDAR_LOADING', 'SET_CALENDAR_ERROR',
+  // Finance sync progress
+  'SET_FINANCE_SYNC_STATUS',
+  // Loop triggers fired by the engine (undoing one would only make it fire again)
+  'APPLY_LOOP_TRIGGERS',
+  // Weekly plan applied at midnight (same reasoning)
+  'APPLY_WEEKLY_PLAN',
+  // Calendar write-back results (undoing would only be synced back again)
+  'APPLY_CALENDAR_SYNC',
   // UI state (not persisted to cloud)
   'SET_ACTIVE_TAB', 'SELECT_LOOP', 'SET_VIEW_MODE', 'OPEN_MODAL', 'CLOSE_MODAL',
 ]);
 
+// Restore persisted state from localStorage (migrated to the current schema)
+function restoreSavedState(initial: AppState): AppState {
+  console.log('[AppContext] Init - defaultState recipes:', initial.mealPrep.recipes.length, 'techniques:', initial.mealPrep.techniqueLibrary.length);
+  try {
+    const savedStateRaw = localStorage.getItem(STORAGE_KEYS.APP_STATE);
+    if (savedStateRaw) {
+      const savedState = migratePersistedState(JSON.parse(savedStateRaw), "localStorage");
+      console.log('[AppContext] Saved state found - mealPrep.recipes:', savedState.mealPrep?.recipes?.length ?? 'N/A');
+      const merged = deepMergeState(initial, savedState);
+      console.log('[AppContext] After merge - recipes:', merged.mealPrep.recipes.length);
+      return merged;
+    }
+  } catch (error) {
+    console.error("Error restoring state from localStorage:", error);
+  }
+  console.log('[AppContext] No saved state - using default with', initial.mealPrep.recipes.length, 'recipes');
+  return initial;
+}
+
 // Provider
 export function AppProvider({ children }: { children: ReactNode }) {
   // Track if this is the initial mount
   const isInitialMount = React.useRef(true);
 
   // Initialize state from localStorage synchronously
-  const [state, baseDispatch] = useReducer(appReducer, defaultState, (initial) => {
-    console.log('[AppContext] Init - defaultState recipes:', initial.mealPrep.recipes.length, 'techniques:', initial.mealPrep.techniqueLibrary.length);
-    try {
-      const savedStateRaw = localStorage.getItem(STORAGE_KEYS.APP_STATE);
-      if (savedStateRaw) {
-        const savedState = JSON.parse(savedStateRaw) as Partial<AppState>;
-        console.log('[AppContext] Saved state found - mealPrep.recipes:', savedState.mealPrep?.recipes?.length ?? 'N/A');
-        const merged = deepMergeState(initial, savedState);
-        console.log('[AppContext] After merge - recipes:', merged.mealPrep.recipes.length);
-        return merged;
-      }
-    } catch (error) {
-      console.error("Error restoring state from localStorage:", error);
-    }
-    console.log('[AppContext] No saved state - using default with', initial.mealPrep.recipes.length, 'recipes');
-    return initial;
+  const [history, baseDispatch] = useReducer(historyReducer, defaultState, (initial): AppHistoryState => {
+    const restored = restoreSavedState(initial);
+    return { present: restored, past: [], future: [], lastChange: null };
   });
+  const state = history.present;
+  const stateRef = React.useRef(state);
+  stateRef.current = state;
+  const historyRef = React.useRef(history);
+  historyRef.current = history;
 
-  // Wrap dispatch to mark user changes for non-system actions
+  // Wrap dispatch to log user vs system actions, and queue any Todoist write-backs
   const dispatch = useCallback((action: AppAction) => {
     console.log('[AppContext] Dispatch:', action.type, SYSTEM_ACTIONS.has(action.type) ? '(system)' : '(USER)');
-    // If this is a user action (not HYDRATE or system sync), mark it
-    if (!SYSTEM_ACTIONS.has(action.type)) {
-      markUserChange();
+    if (action.type === "UNDO" || action.type === "REDO") {
+      // Todoist follows the snapshot being restored, so an undone complete or delete isn't
+      // undone again by the next Todoist sync
+      const stack = action.type === "UNDO" ? historyRef.current.past : historyRef.current.future;
+      const entry = stack[stack.length - 1];
+      if (entry) queueOutboxMutationsForTaskChange(stateRef.current.tasks.items, entry.state.tasks.items);
+    } else {
+      queueOutboxMutationsForAction(action, stateRef.current);
     }
     baseDispatch(action);
   }, []);
@@ -3460,8 +4160,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [state]);
 
+  // Undo/redo summary for the UI (snapshots stay private to the reducer)
+  const undoHistory = useMemo<UndoHistory>(() => {
+    const lastPast = history.past[history.past.length - 1];
+    const lastFuture = history.future[history.future.length - 1];
+    return {
+      canUndo: !!lastPast,
+      canRedo: !!lastFuture,
+      undoLabel: lastPast ? getActionLabel(lastPast.actionType) : null,
+      redoLabel: lastFuture ? getActionLabel(lastFuture.actionType) : null,
+      lastChange: history.lastChange,
+    };
+  }, [history.past, history.future, history.lastChange]);
+
   return (
-    <AppContext.Provider value={{ state, dispatch }}>
+    <AppContext.Provider value={{ state, dispatch, history: undoHistory }}>
       {children}
     </AppContext.Provider>
   );
@@ -3517,6 +4230,21 @@ export function useLabels() {
   return state.labels;
 }
 
+export function useSavedFilters() {
+  const { state } = useApp();
+  return state.savedFilters;
+}
+
+export function useTaskComments() {
+  const { state } = useApp();
+  return state.taskComments;
+}
+
+export function useTaskActivity() {
+  const { state } = useApp();
+  return state.taskActivity;
+}
+
 export function useUI() {
   const { state } = useApp();
   return state.ui;
@@ -3538,6 +4266,13 @@ export function useComponentCompletions() {
   return state.systems.completions;
 }
 
+export function useUndoHistory() {
+  const { dispatch, history } = useApp();
+  const undo = useCallback(() => dispatch({ type: "UNDO" }), [dispatch]);
+  const redo = useCallback(() => dispatch({ type: "REDO" }), [dispatch]);
+  return { ...history, undo, redo };
+}
+
 export function useIntentions() {
   const { state } = useApp();
   return state.intentions;
@@ -3696,3 +4431,27 @@ export function useQuickDecisions() {
   const { state } = useApp();
   return state.decisions.quickDecisions;
 }
+
+// Reminder hooks
+export function useReminders() {
+  const { state } = useApp();
+  return state.reminders;
+}
+
+// Loop model hooks
+export function useLoopModel() {
+  const { state } = useApp();
+  return state.loopModel;
+}
+
+// Time blocking hooks
+export function useTimeBlockSettings() {
+  const { state } = useApp();
+  return state.timeBlockSettings;
+}
+
+// Calendar write-back hooks
+export function useCalendarSync() {
+  const { state } = useApp();
+  return state.calendarSync;
+}
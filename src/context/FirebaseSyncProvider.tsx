@@ -3,13 +3,22 @@ import React, { useCallback, useEffect, useRef } from 'react';
 import { useApp, AppState } from './AppContext';
 import { useFirebaseSync } from '../hooks/useFirebaseSync';
 import { isFirebaseConfigured } from '../services/firebase';
+import { SyncCollectionId, SyncConflict, SyncRecord } from '../services/entitySync';
 
 interface SyncContextValue {
   isInitialLoadComplete: boolean;
+  conflicts: SyncConflict[];
+  clearConflicts: () => void;
+  forceResync: () => void;
+  userId: string | null;
 }
 
 const SyncContext = React.createContext<SyncContextValue>({
   isInitialLoadComplete: false,
+  conflicts: [],
+  clearConflicts: () => {},
+  forceResync: () => {},
+  userId: null,
 });
 
 export function useSyncStatus() {
@@ -47,11 +56,16 @@ function FirebaseSyncInner({ children, userId }: FirebaseSyncProviderProps) {
     dispatch({ type: 'HYDRATE', payload: remoteState });
   }, [dispatch]);
 
+  // Handle remote record changes from entity collections
+  const handleRemoteRecords = useCallback((collection: SyncCollectionId, upserts: SyncRecord[], deletedIds: string[]) => {
+    dispatch({ type: 'APPLY_REMOTE_RECORDS', payload: { collection, upserts, deletedIds } });
+  }, [dispatch]);
+
   // Use Firebase sync with user-specific document ID
-  const syncStatus = useFirebaseSync(persistableState, handleRemoteUpdate, userId);
+  const syncStatus = useFirebaseSync(persistableState, handleRemoteUpdate, handleRemoteRecords, userId);
 
   return (
-    <SyncContext.Provider value={syncStatus}>
+    <SyncContext.Provider value={{ ...syncStatus, userId }}>
       {children}
     </SyncContext.Provider>
   );
@@ -65,7 +79,7 @@ export function FirebaseSyncProvider({ children, userId }: FirebaseSyncProviderP
   if (!configured) {
     console.log('[SyncProvider] Skipping sync - Firebase not configured');
     return (
-      <SyncContext.Provider value={{ isInitialLoadComplete: true }}>
+      <SyncContext.Provider value={{ isInitialLoadComplete: true, conflicts: [], clearConflicts: () => {}, forceResync: () => {}, userId: null }}>
         {children}
       </SyncContext.Provider>
     );
@@ -8,10 +8,14 @@ export {
   useTasks,
   useProjects,
   useLabels,
+  useSavedFilters,
+  useTaskComments,
+  useTaskActivity,
   useGoals,
   useRoutines,
   useChallenges,
   useUI,
+  useUndoHistory,
   useSystems,
   useHabits,
   useIntentions,
@@ -44,9 +48,19 @@ export {
   useDecisions,
   useDecisionsList,
   useQuickDecisions,
+  // Reminders
+  useReminders,
+  // Loop model
+  useLoopModel,
+  // Time blocking
+  useTimeBlockSettings,
+  // Calendar write-back
+  useCalendarSync,
+  // Condition language
+  getConditionContext,
 } from "./AppContext";
 
-export type { UserProfile, AppState, AppAction } from "./AppContext";
+export type { UserProfile, AppState, AppAction, UndoHistory, UndoChange } from "./AppContext";
 
 // Firebase sync
 export { FirebaseSyncProvider, useSyncStatus } from "./FirebaseSyncProvider";
@@ -0,0 +1,58 @@
+// Bulk Task Engine - one change applied to many selected tasks at once
+//
+// Every field is optional; only the ones set are applied. `null` clears a field. Moving tasks to
+// another project drops their section unless a section is given in the same change.
+
+import type { LoopId, Priority } from "../types/core";
+import type { Task } from "../types/tasks";
+
+export type BulkTaskChanges = {
+  loop?: LoopId;
+  projectId?: string | null;
+  sectionId?: string | null;
+  priority?: Priority;
+  dueDate?: string | null;
+  addLabels?: string[];
+  removeLabels?: string[];
+};
+
+export function applyBulkTaskChanges(task: Task, changes: BulkTaskChanges, now: string): Task {
+  const next: Task = { ...task };
+
+  if (changes.loop !== undefined) next.loop = changes.loop;
+  if (changes.priority !== undefined) next.priority = changes.priority;
+  if (changes.dueDate !== undefined) next.dueDate = changes.dueDate ?? undefined;
+
+  if (changes.projectId !== undefined && (changes.projectId ?? undefined) !== task.projectId) {
+    next.projectId = changes.projectId ?? undefined;
+    next.sectionId = undefined;
+  }
+  if (changes.sectionId !== undefined) next.sectionId = changes.sectionId ?? undefined;
+
+  if (changes.addLabels?.length || changes.removeLabels?.length) {
+    const removed = new Set(changes.removeLabels ?? []);
+    const labels = (task.labels ?? []).filter((id) => !removed.has(id));
+    for (const id of changes.addLabels ?? []) {
+      if (!labels.includes(id)) labels.push(id);
+    }
+    next.labels = labels;
+  }
+
+  const changed =
+    next.loop !== task.loop ||
+    next.priority !== task.priority ||
+    next.dueDate !== task.dueDate ||
+    next.projectId !== task.projectId ||
+    next.sectionId !== task.sectionId ||
+    JSON.stringify(next.labels ?? []) !== JSON.stringify(task.labels ?? []);
+
+  return changed ? { ...next, updatedAt: now } : task;
+}
+
+// IDs from the anchor to the target (either direction) in display order - for shift-click
+export function getSelectionRange(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const from = orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+  if (from === -1 || to === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { CalendarSyncLink } from "../types/calendar";
+import type { Task } from "../types/tasks";
+import { CalendarSyncBlock, planCalendarWrites, reconcileLooopsEvents } from "./calendarSyncEngine";
+
+const TODAY = "2026-10-19";
+const at = (time: string, date = TODAY) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes).toISOString();
+};
+
+function task(overrides: Partial<Task> = {}): Task {
+  return { id: "t1", title: "Write report", loop: "Work", status: "todo", priority: 2, dueDate: TODAY, createdAt: TODAY, ...overrides } as Task;
+}
+
+function block(start: string, end: string, date = TODAY): CalendarSyncBlock {
+  return {
+    key: `task:t1:${date}`,
+    kind: "task",
+    sourceId: "t1",
+    date,
+    title: "Write report",
+    description: "Planned in Looops",
+    startTime: at(start, date),
+    endTime: at(end, date),
+  };
+}
+
+function link(start: string, end: string, date = TODAY): CalendarSyncLink {
+  const { key, kind, sourceId, title, startTime, endTime } = block(start, end, date);
+  return { key, kind, sourceId, date, eventId: "ev1", title, startTime, endTime, plannedStart: startTime, plannedEnd: endTime };
+}
+
+const now = new Date(at("09:00"));
+
+describe("planCalendarWrites - task events follow the plan", () => {
+  it("moves an upcoming event when the plan re-flows it", () => {
+    const writes = planCalendarWrites([link("10:00", "11:00")], [block("13:00", "14:00")], [], [task()], now);
+    expect(writes.updates.map((u) => u.block.startTime)).toEqual([at("13:00")]);
+  });
+
+  it("leaves small shifts of an upcoming event alone", () => {
+    const writes = planCalendarWrites([link("10:00", "11:00")], [block("10:05", "11:05")], [], [task()], now);
+    expect(writes.updates).toEqual([]);
+    expect(writes.kept).toHaveLength(1);
+  });
+
+  it("leaves an event that has started where it is", () => {
+    const writes = planCalendarWrites([link("08:30", "09:30")], [block("09:00", "10:00")], [], [task()], now);
+    expect(writes.kept).toHaveLength(1);
+  });
+
+  it("moves a passed event to wherever the plan puts the open task next", () => {
+    const writes = planCalendarWrites([link("07:00", "08:00")], [block("09:05", "10:05")], [], [task()], now);
+    expect(writes.updates.map((u) => u.block.startTime)).toEqual([at("09:05")]);
+  });
+
+  it("follows a time given in Looops straight away", () => {
+    const writes = planCalendarWrites([link("10:00", "11:00")], [block("10:10", "11:10")], [], [task({ dueTime: "10:10" })], now);
+    expect(writes.updates.map((u) => u.block.startTime)).toEqual([at("10:10")]);
+  });
+
+  it("deletes the event once the task is off today's plan, and keeps it once done", () => {
+    expect(planCalendarWrites([link("10:00", "11:00")], [], [], [task({ dueDate: "2026-10-20" })], now).deletes).toHaveLength(1);
+    const done = planCalendarWrites([link("10:00", "11:00")], [], [], [task({ status: "done" })], now);
+    expect(done).toEqual({ creates: [], updates: [], deletes: [], kept: [] });
+  });
+
+  it("keeps an event moved to a later day in Google", () => {
+    const later = link("10:00", "11:00", "2026-10-21");
+    const writes = planCalendarWrites([later], [], [], [task({ dueDate: "2026-10-21", dueTime: "10:00" })], now);
+    expect(writes.kept).toEqual([later]);
+  });
+});
+
+describe("reconcileLooopsEvents", () => {
+  it("gives a task a due time only when its event was moved in Google", () => {
+    const written = link("10:00", "11:00");
+    const unmoved = reconcileLooopsEvents([written], [{ id: "ev1", title: "Write report", startTime: written.startTime, endTime: written.endTime, status: "confirmed" }], [task()]);
+    expect(unmoved.taskChanges).toEqual([]);
+
+    const moved = reconcileLooopsEvents([written], [{ id: "ev1", title: "Write report", startTime: at("15:00"), endTime: at("16:00"), status: "confirmed" }], [task()]);
+    expect(moved.taskChanges).toEqual([{ taskId: "t1", dueDate: TODAY, dueTime: "15:00" }]);
+  });
+});
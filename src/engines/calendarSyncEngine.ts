@@ -0,0 +1,375 @@
+// Calendar Sync Engine - keeps the Looops Google calendar and the plan in step
+//
+// A sync reads the Looops calendar back first. Each event is linked to the block it was written
+// for; one moved in Google moves its task (due date and time), one deleted unschedules the task
+// for the day. Then what should be on the calendar - today's planned task blocks plus the week's
+// timed routines - is diffed against the links to get the writes. Writing a block never changes
+// the task: only a move made in Google gives it a due time, so the rest keep re-flowing with the plan.
+//
+// Nothing here talks to Google - useCalendarWriteBack runs the writes and applies the results.
+
+import { getLocalDateKey, LOOP_DEFINITIONS } from "../types/core";
+import type { Task } from "../types/tasks";
+import type { Routine } from "../types/routines";
+import { getRoutineDuration, getRoutinesDueTodayWithDayType, getEffectiveSchedule } from "../types/routines";
+import type { SmartScheduleState } from "../types/dayTypes";
+import type {
+  CalendarSyncKind,
+  CalendarSyncLink,
+  CalendarSyncRemoval,
+  LooopsCalendarEvent,
+} from "../types/calendar";
+import type { TimeBlockPlan } from "../types/timeBlocking";
+import { getDayTypes, getDayTypeConfig, getActiveRoutines } from "./smartSchedulerEngine";
+import { parseTimeOfDay } from "./reminderEngine";
+import { minutesToTime } from "./timeBlockEngine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROUTINE_DAYS = 7; // Routines are written a week ahead
+const WINDOW_DAYS = 30; // How far ahead events are read back - moving one further counts as deleting it
+const DEFAULT_ROUTINE_MINUTES = 15; // Routines whose steps carry no estimates
+const REFLOW_MIN_MS = 15 * 60 * 1000; // Smaller shifts of an upcoming floating block aren't written
+
+// What should be on the Looops calendar
+export type CalendarSyncBlock = {
+  key: string;
+  kind: CalendarSyncKind;
+  sourceId: string;
+  date: string; // YYYY-MM-DD
+  title: string;
+  description: string;
+  startTime: string; // ISO
+  endTime: string;
+};
+
+// A task's schedule after a sync - replaces both fields
+export type TaskScheduleChange = {
+  taskId: string;
+  dueDate?: string;
+  dueTime?: string;
+};
+
+export type CalendarReconcileResult = {
+  links: CalendarSyncLink[];
+  removals: CalendarSyncRemoval[];
+  taskChanges: TaskScheduleChange[];
+  strays: string[]; // Event IDs duplicating a linked block
+};
+
+export type CalendarWritePlan = {
+  creates: CalendarSyncBlock[];
+  updates: { link: CalendarSyncLink; block: CalendarSyncBlock }[];
+  deletes: CalendarSyncLink[];
+  kept: CalendarSyncLink[];
+};
+
+export type CalendarSyncSources = {
+  now: Date;
+  plan: TimeBlockPlan; // Today's plan
+  routines: Routine[];
+  smartSchedule: SmartScheduleState;
+  includeRoutines: boolean;
+};
+
+export function getCalendarSyncKey(kind: CalendarSyncKind, sourceId: string, date: string): string {
+  return `${kind}:${sourceId}:${date}`;
+}
+
+function parseCalendarSyncKey(key: string): { kind: CalendarSyncKind; sourceId: string; date: string } | null {
+  const match = /^(task|routine):(.+):(\d{4}-\d{2}-\d{2})$/.exec(key);
+  if (!match) return null;
+  return { kind: match[1] as CalendarSyncKind, sourceId: match[2], date: match[3] };
+}
+
+// ISO time of a local time on a date - minutes past midnight roll into the next day
+function toIso(date: string, minutes: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60).toISOString();
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+// Local date and "HH:MM" an event starts at
+export function getLocalStart(iso: string): { date: string; time: string } {
+  const start = new Date(iso);
+  return { date: getLocalDateKey(start), time: minutesToTime(start.getHours() * 60 + start.getMinutes()) };
+}
+
+// Range events are read back over - from the start of today
+export function getCalendarSyncWindow(now: Date): { timeMin: string; timeMax: string } {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return {
+    timeMin: start.toISOString(),
+    timeMax: new Date(start.getTime() + WINDOW_DAYS * DAY_MS).toISOString(),
+  };
+}
+
+// Links and removals from earlier days are let go - their events stay as a record of the day
+export function pruneCalendarSync(
+  links: CalendarSyncLink[],
+  removed: CalendarSyncRemoval[],
+  today: string
+): { links: CalendarSyncLink[]; removed: CalendarSyncRemoval[] } {
+  return {
+    links: links.filter((link) => link.date >= today),
+    removed: removed.filter((removal) => removal.date >= today),
+  };
+}
+
+// Task IDs deleted from the calendar today - the planner leaves them out
+export function getRemovedTaskIds(removed: CalendarSyncRemoval[], date: string): string[] {
+  return removed
+    .map((removal) => parseCalendarSyncKey(removal.key))
+    .filter((parsed) => parsed?.kind === "task" && parsed.date === date)
+    .map((parsed) => parsed!.sourceId);
+}
+
+/**
+ * Read the Looops calendar back against the links from the last sync.
+ * Moved task events carry their task with them; deleted ones unschedule it.
+ */
+export function reconcileLooopsEvents(
+  links: CalendarSyncLink[],
+  events: LooopsCalendarEvent[],
+  tasks: Task[]
+): CalendarReconcileResult {
+  const eventsById = new Map(events.map((event) => [event.id, event]));
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const kept: CalendarSyncLink[] = [];
+  const removals: CalendarSyncRemoval[] = [];
+  const taskChanges: TaskScheduleChange[] = [];
+
+  for (const link of links) {
+    const event = eventsById.get(link.eventId);
+    const task = link.kind === "task" ? tasksById.get(link.sourceId) : undefined;
+
+    if (!event || event.status === "cancelled") {
+      removals.push({ key: link.key, date: link.date });
+      if (task && task.dueDate === link.date && task.dueTime) {
+        taskChanges.push({ taskId: task.id, dueDate: task.dueDate, dueTime: undefined });
+      }
+      continue;
+    }
+
+    if (sameInstant(event.startTime, link.startTime) && sameInstant(event.endTime, link.endTime)) {
+      kept.push(link);
+      continue;
+    }
+
+    // Moved in Google - routines keep their key so the move isn't written over
+    const moved: CalendarSyncLink = { ...link, startTime: event.startTime, endTime: event.endTime };
+    if (link.kind === "task") {
+      const { date, time } = getLocalStart(event.startTime);
+      moved.date = date;
+      moved.key = getCalendarSyncKey("task", link.sourceId, date);
+      if (task && (task.dueDate !== date || task.dueTime !== time)) {
+        taskChanges.push({ taskId: task.id, dueDate: date, dueTime: time });
+      }
+    }
+    kept.push(moved);
+  }
+
+  // Events written for a block whose link never got saved are picked back up, once
+  const linkedEvents = new Set(links.map((link) => link.eventId));
+  const linkedKeys = new Set(kept.map((link) => (link.kind === "task" ? `task:${link.sourceId}` : link.key)));
+  const strays: string[] = [];
+  for (const event of events) {
+    if (event.status === "cancelled" || !event.looopsKey || linkedEvents.has(event.id)) continue;
+    const parsed = parseCalendarSyncKey(event.looopsKey);
+    if (!parsed) continue;
+    const identity = parsed.kind === "task" ? `task:${parsed.sourceId}` : event.looopsKey;
+    if (linkedKeys.has(identity)) {
+      strays.push(event.id);
+      continue;
+    }
+    linkedKeys.add(identity);
+    kept.push({
+      key: event.looopsKey,
+      ...parsed,
+      eventId: event.id,
+      title: event.title,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      plannedStart: event.startTime,
+      plannedEnd: event.endTime,
+    });
+  }
+
+  return { links: kept, removals, taskChanges, strays };
+}
+
+/**
+ * Blocks that belong on the Looops calendar: today's planned tasks, and routines with a set
+ * time for the coming week (active ones for the day type, when the smart schedule is on).
+ */
+export function getDesiredCalendarBlocks(sources: CalendarSyncSources): CalendarSyncBlock[] {
+  const { now, plan, routines, smartSchedule } = sources;
+  const blocks: CalendarSyncBlock[] = [];
+
+  for (const block of plan.blocks) {
+    if (block.kind !== "task" || !block.taskId) continue;
+    const loopName = block.loop ? LOOP_DEFINITIONS[block.loop]?.name : undefined;
+    blocks.push({
+      key: getCalendarSyncKey("task", block.taskId, plan.date),
+      kind: "task",
+      sourceId: block.taskId,
+      date: plan.date,
+      title: block.title,
+      description: `Planned in Looops${loopName ? ` · ${loopName}` : ""}`,
+      startTime: toIso(plan.date, block.start),
+      endTime: toIso(plan.date, block.end),
+    });
+  }
+
+  if (!sources.includeRoutines) return blocks;
+
+  for (let offset = 0; offset < ROUTINE_DAYS; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, 12);
+    const date = getLocalDateKey(day);
+    const dayTypes = getDayTypes(day, smartSchedule);
+    let due = getRoutinesDueTodayWithDayType(routines, dayTypes, day);
+    if (smartSchedule.enabled) {
+      due = getActiveRoutines(due, getDayTypeConfig(dayTypes[0], smartSchedule));
+    }
+
+    for (const routine of due) {
+      const start = parseTimeOfDay(getEffectiveSchedule(routine, dayTypes[0]).specificTime);
+      if (start === null) continue;
+      const minutes = getRoutineDuration(routine) || DEFAULT_ROUTINE_MINUTES;
+      blocks.push({
+        key: getCalendarSyncKey("routine", routine.id, date),
+        kind: "routine",
+        sourceId: routine.id,
+        date,
+        title: `${routine.icon ? `${routine.icon} ` : ""}${routine.title}`,
+        description: "Routine from Looops",
+        startTime: toIso(date, start),
+        endTime: toIso(date, start + minutes),
+      });
+    }
+  }
+
+  return blocks;
+}
+
+function retitled(link: CalendarSyncLink, task: Task, block: CalendarSyncBlock | undefined): CalendarSyncBlock {
+  return {
+    key: link.key,
+    kind: "task",
+    sourceId: task.id,
+    date: link.date,
+    title: task.title,
+    description: block?.description ?? "Planned in Looops",
+    startTime: link.startTime,
+    endTime: link.endTime,
+  };
+}
+
+/**
+ * Diff what should be on the calendar against what was written.
+ *
+ * Task events follow today's plan: done keeps the event as a record, dropped or gone from the
+ * plan deletes it, and a block the plan moved is rewritten - at once for a task given a time
+ * or one whose block has passed, otherwise only when it shifts by REFLOW_MIN_MS and hasn't
+ * started, so re-planning as the day goes on doesn't rewrite every event. A task moved to a later
+ * day in Google keeps its event until that day. Routine events are only rewritten when the
+ * routine's own schedule changes, so one moved in Google stays where it was put.
+ */
+export function planCalendarWrites(
+  links: CalendarSyncLink[],
+  desired: CalendarSyncBlock[],
+  removed: CalendarSyncRemoval[],
+  tasks: Task[],
+  now: Date
+): CalendarWritePlan {
+  const today = getLocalDateKey(now);
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const desiredByKey = new Map(desired.map((block) => [block.key, block]));
+  const taskBlocks = new Map(desired.filter((block) => block.kind === "task").map((block) => [block.sourceId, block]));
+  const removedKeys = new Set(removed.map((removal) => removal.key));
+  const handled = new Set<string>();
+  const plan: CalendarWritePlan = { creates: [], updates: [], deletes: [], kept: [] };
+
+  for (const link of links) {
+    if (link.kind === "routine") {
+      const block = desiredByKey.get(link.key);
+      handled.add(link.key);
+      if (!block) {
+        plan.deletes.push(link);
+      } else if (
+        sameInstant(block.startTime, link.plannedStart) &&
+        sameInstant(block.endTime, link.plannedEnd) &&
+        block.title === link.title
+      ) {
+        plan.kept.push(link);
+      } else {
+        plan.updates.push({ link, block });
+      }
+      continue;
+    }
+
+    const task = tasksById.get(link.sourceId);
+    const block = taskBlocks.get(link.sourceId);
+    if (block) handled.add(block.key);
+
+    // Done - the link goes, the event stays as a record
+    if (task?.status === "done") continue;
+    if (!task || task.status === "dropped") {
+      plan.deletes.push(link);
+      continue;
+    }
+
+    // Moved to a later day in Google - left there unless the task has been rescheduled since
+    if (link.date !== today) {
+      if (task.dueDate !== link.date) plan.deletes.push(link);
+      else if (task.title !== link.title) plan.updates.push({ link, block: retitled(link, task, block) });
+      else plan.kept.push(link);
+      continue;
+    }
+
+    if (!block) {
+      plan.deletes.push(link);
+      continue;
+    }
+
+    const start = new Date(link.startTime).getTime();
+    const end = new Date(link.endTime).getTime();
+    const replanned = !sameInstant(block.startTime, link.startTime) || !sameInstant(block.endTime, link.endTime);
+    // Given a time in Looops - the plan puts it there, and the event follows at once
+    const atSetTime = task.dueDate === today && getLocalStart(block.startTime).time === task.dueTime;
+    const passed = end <= now.getTime();
+    const upcomingShift = start > now.getTime() &&
+      Math.abs(new Date(block.startTime).getTime() - start) >= REFLOW_MIN_MS;
+
+    if (replanned && (atSetTime || passed || upcomingShift)) {
+      plan.updates.push({ link, block });
+    } else if (task.title !== link.title) {
+      plan.updates.push({ link, block: retitled(link, task, block) });
+    } else {
+      plan.kept.push(link);
+    }
+  }
+
+  for (const block of desired) {
+    if (handled.has(block.key)) continue;
+    if (removedKeys.has(block.key)) {
+      // Deleted in Google today - only written again if the task was given a time since
+      const task = block.kind === "task" ? tasksById.get(block.sourceId) : undefined;
+      if (!task || task.dueDate !== block.date || !task.dueTime) continue;
+    }
+    plan.creates.push(block);
+  }
+
+  return plan;
+}
+
+export function applyTaskScheduleChanges(tasks: Task[], changes: TaskScheduleChange[]): Task[] {
+  if (changes.length === 0) return tasks;
+  const byId = new Map(changes.map((change) => [change.taskId, change]));
+  return tasks.map((task) => {
+    const change = byId.get(task.id);
+    return change ? { ...task, dueDate: change.dueDate, dueTime: change.dueTime } : task;
+  });
+}
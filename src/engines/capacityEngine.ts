@@ -0,0 +1,198 @@
+// Capacity Engine - keeps the daily stack inside each loop's capacity and the overall energy budget
+//
+// A loop's state sets how many tasks it can take on in a day (calculateCapacity), scaled by
+// any adjust_capacity cascade effects. Each task spends a share of the loop's energy
+// allocation, so a loop at its max uses its whole allocation.
+
+import {
+  LoopId,
+  LoopState,
+  LoopStateType,
+  CascadeRule,
+  Task,
+  ALL_LOOPS,
+  LOOP_DEFINITIONS,
+  calculateStatePriority,
+} from "../types";
+import { ConditionContext } from "./conditionEngine";
+import { getCascadeResult } from "./cascadeEngine";
+import { calculateCapacity } from "./stateEngine";
+import { indexTasks, isTaskBlocked } from "./dependencyEngine";
+
+// Energy a task costs in a loop with no capacity at all (HIBERNATE)
+const NO_CAPACITY_TASK_ENERGY = 0.05;
+
+export type LoopCapacity = {
+  loopId: LoopId;
+  state: LoopStateType;
+  load: number;
+  maxTasks: number; // After cascade capacity adjustments
+  energyUsed: number;
+};
+
+export type CapacityWarning = {
+  kind: "loop_over_max" | "energy_over_budget";
+  loopId?: LoopId;
+  message: string;
+};
+
+export type CapacityReport = {
+  loops: Record<LoopId, LoopCapacity>;
+  energyUsed: number; // 1 = 100% of the day's energy
+  warnings: CapacityWarning[];
+};
+
+// Tasks that belong on today's stack: due today or overdue (recurring tasks also
+// the day before), plus anything explicitly added to the stack. Blocked tasks wait
+// until their prerequisites are done.
+export function getTodayStackTasks(tasks: Task[], todayStack: string[], today: string): Task[] {
+  const tasksById = indexTasks(tasks);
+  const tomorrow = new Date(`${today}T00:00:00Z`);
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+  const tomorrowStr = tomorrow.toISOString().split("T")[0];
+  const stacked = new Set(todayStack);
+
+  return tasks.filter((t) => {
+    if (t.status === "done" || t.status === "dropped") return false;
+    if (isTaskBlocked(t, tasksById)) return false;
+    if (stacked.has(t.id)) return true;
+
+    // Someday tasks only show up when added explicitly
+    if (t.priority === 0) return false;
+
+    // For recurring tasks, only show if due today or tomorrow (day before)
+    if (t.recurrence && t.dueDate) {
+      return t.dueDate === today || t.dueDate === tomorrowStr;
+    }
+
+    // For non-recurring tasks, show if due today or overdue
+    return !!t.dueDate && t.dueDate <= today;
+  });
+}
+
+// Open tasks per loop on today's stack - what LoopState.currentLoad tracks
+export function getLoopLoads(stackTasks: Task[]): Record<LoopId, number> {
+  const loads = Object.fromEntries(ALL_LOOPS.map((loopId) => [loopId, 0])) as Record<LoopId, number>;
+  for (const task of stackTasks) {
+    if (task.loop in loads) loads[task.loop]++;
+  }
+  return loads;
+}
+
+// Cascade capacity adjustments (percent) for every loop right now
+export function getCapacityAdjustments(rules: CascadeRule[], context: ConditionContext): Record<LoopId, number> {
+  return Object.fromEntries(
+    ALL_LOOPS.map((loopId) => [loopId, getCascadeResult(rules, context, loopId).capacityAdjustment])
+  ) as Record<LoopId, number>;
+}
+
+export function getEffectiveMaxTasks(state: LoopStateType, capacityAdjustment = 0): number {
+  const { maxTasks } = calculateCapacity(state);
+  return Math.max(0, Math.round(maxTasks * (1 + capacityAdjustment / 100)));
+}
+
+export function getTaskEnergy(state: LoopStateType): number {
+  const { maxTasks, energyAllocation } = calculateCapacity(state);
+  return maxTasks > 0 ? energyAllocation / maxTasks : NO_CAPACITY_TASK_ENERGY;
+}
+
+function formatPercent(energy: number): string {
+  return `${Math.round(energy * 100)}%`;
+}
+
+export function getCapacityReport(
+  stackTasks: Task[],
+  loopStates: Record<LoopId, LoopState>,
+  capacityAdjustments: Partial<Record<LoopId, number>> = {}
+): CapacityReport {
+  const loads = getLoopLoads(stackTasks);
+  const loops = {} as Record<LoopId, LoopCapacity>;
+  const warnings: CapacityWarning[] = [];
+  let energyUsed = 0;
+
+  for (const loopId of ALL_LOOPS) {
+    const state = loopStates[loopId]?.currentState ?? "MAINTAIN";
+    const maxTasks = getEffectiveMaxTasks(state, capacityAdjustments[loopId]);
+    const loopEnergy = loads[loopId] * getTaskEnergy(state);
+    loops[loopId] = { loopId, state, load: loads[loopId], maxTasks, energyUsed: loopEnergy };
+    energyUsed += loopEnergy;
+
+    if (loads[loopId] > maxTasks) {
+      warnings.push({
+        kind: "loop_over_max",
+        loopId,
+        message: `${LOOP_DEFINITIONS[loopId].name} has ${loads[loopId]} tasks today, over its ${maxTasks} max`,
+      });
+    }
+  }
+
+  if (energyUsed > 1) {
+    warnings.push({
+      kind: "energy_over_budget",
+      message: `Today's tasks need ${formatPercent(energyUsed)} of your energy`,
+    });
+  }
+
+  return { loops, energyUsed, warnings };
+}
+
+// Warnings that adding a task to today's stack would cause (existing ones aren't repeated)
+export function checkStackAddition(
+  stackTasks: Task[],
+  task: Task,
+  loopStates: Record<LoopId, LoopState>,
+  capacityAdjustments: Partial<Record<LoopId, number>> = {}
+): CapacityWarning[] {
+  if (stackTasks.some((t) => t.id === task.id)) return [];
+
+  const before = getCapacityReport(stackTasks, loopStates, capacityAdjustments);
+  const after = getCapacityReport([...stackTasks, task], loopStates, capacityAdjustments);
+  const isNew = (warning: CapacityWarning) =>
+    !before.warnings.some((w) => w.kind === warning.kind && w.loopId === warning.loopId);
+
+  return after.warnings.filter(isNew);
+}
+
+// Lowest-priority tasks to move to tomorrow until every loop is within its max
+// and the day fits the energy budget. Tasks already in progress stay, and so do
+// recurring tasks - the day-before preview would put them straight back on the stack.
+export function getDeferralSuggestions(
+  stackTasks: Task[],
+  loopStates: Record<LoopId, LoopState>,
+  capacityAdjustments: Partial<Record<LoopId, number>> = {}
+): Task[] {
+  const report = getCapacityReport(stackTasks, loopStates, capacityAdjustments);
+  const byLowestPriority = (a: Task, b: Task) =>
+    calculateStatePriority(b, loopStates) - calculateStatePriority(a, loopStates);
+  const candidates = stackTasks.filter((t) => t.status !== "doing" && !t.recurrence).sort(byLowestPriority);
+
+  const deferred: Task[] = [];
+  const deferredIds = new Set<string>();
+  const defer = (task: Task) => {
+    deferred.push(task);
+    deferredIds.add(task.id);
+  };
+
+  for (const loopId of ALL_LOOPS) {
+    let overBy = report.loops[loopId].load - report.loops[loopId].maxTasks;
+    for (const task of candidates) {
+      if (overBy <= 0) break;
+      if (task.loop !== loopId) continue;
+      defer(task);
+      overBy--;
+    }
+  }
+
+  let energyUsed = report.energyUsed - deferred.reduce(
+    (sum, task) => sum + getTaskEnergy(report.loops[task.loop].state),
+    0
+  );
+  for (const task of candidates) {
+    if (energyUsed <= 1) break;
+    if (deferredIds.has(task.id)) continue;
+    defer(task);
+    energyUsed -= getTaskEnergy(report.loops[task.loop].state);
+  }
+
+  return deferred;
+}
@@ -0,0 +1,102 @@
+// Cascade Engine - applies cascade rules against live app data
+//
+// applyCascadeRules (types/cascade) does the rule math; this module supplies the
+// current loop states and evaluates each rule's triggerCondition with the shared
+// condition language (day types, dates, metrics...).
+
+import {
+  LoopId,
+  LoopStateType,
+  CascadeRule,
+  CascadeResult,
+  ALL_LOOPS,
+  applyCascadeRules,
+} from "../types";
+import { ConditionContext, evaluateCondition } from "./conditionEngine";
+
+// A recommend_state effect surfaced to the user
+export type CascadeSuggestion = {
+  id: string; // Stable key, used to remember dismissals
+  loopId: LoopId;
+  state: LoopStateType;
+  reason: string;
+  ruleId: string;
+  ruleName: string;
+};
+
+export function getCurrentStates(context: ConditionContext): Record<LoopId, LoopStateType> {
+  const states = {} as Record<LoopId, LoopStateType>;
+  for (const loopId of ALL_LOOPS) {
+    states[loopId] = context.loopStates[loopId]?.currentState ?? "MAINTAIN";
+  }
+  return states;
+}
+
+export function isCascadeConditionMet(rule: CascadeRule, context: ConditionContext): boolean {
+  if (!rule.triggerCondition?.trim()) return true;
+  return evaluateCondition(rule.triggerCondition, context).matched;
+}
+
+// Net cascade effect on one loop, given the current states
+export function getCascadeResult(
+  rules: CascadeRule[],
+  context: ConditionContext,
+  loopId: LoopId,
+  states: Record<LoopId, LoopStateType> = getCurrentStates(context)
+): CascadeResult {
+  return applyCascadeRules(rules, states, loopId, (rule) => isCascadeConditionMet(rule, context));
+}
+
+// Blocked states for every loop, with the reason - for state pickers
+export function getBlockedStates(
+  rules: CascadeRule[],
+  context: ConditionContext
+): Record<LoopId, Partial<Record<LoopStateType, string>>> {
+  const blocked = {} as Record<LoopId, Partial<Record<LoopStateType, string>>>;
+  const states = getCurrentStates(context);
+  for (const loopId of ALL_LOOPS) {
+    blocked[loopId] = {};
+    for (const block of getCascadeResult(rules, context, loopId, states).blockedStates) {
+      blocked[loopId][block.state] = block.reason;
+    }
+  }
+  return blocked;
+}
+
+// Recommendations worth showing: not already in effect, not blocked, not dismissed.
+// A dismissal lasts until the rule's source loop changes state again.
+export function getCascadeSuggestions(
+  rules: CascadeRule[],
+  context: ConditionContext,
+  dismissed: string[]
+): CascadeSuggestion[] {
+  const suggestions: CascadeSuggestion[] = [];
+  const states = getCurrentStates(context);
+
+  for (const loopId of ALL_LOOPS) {
+    const result = getCascadeResult(rules, context, loopId, states);
+
+    // Highest priority recommendation wins for each loop
+    for (const recommendation of result.recommendations) {
+      const rule = result.appliedRules.find((r) => r.id === recommendation.ruleId)!;
+      const source = context.loopStates[rule.sourceLoop];
+      const id = `${rule.id}:${loopId}:${recommendation.state}@${source?.lastStateChange ?? ""}`;
+
+      if (states[loopId] === recommendation.state) break;
+      if (result.blockedStates.some((b) => b.state === recommendation.state)) continue;
+      if (dismissed.includes(id)) break;
+
+      suggestions.push({
+        id,
+        loopId,
+        state: recommendation.state,
+        reason: recommendation.reason,
+        ruleId: rule.id,
+        ruleName: rule.name,
+      });
+      break;
+    }
+  }
+
+  return suggestions;
+}
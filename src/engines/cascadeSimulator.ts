@@ -0,0 +1,347 @@
+// Cascade Simulator - "what happens if…" for a loop state change
+//
+// Treats cascade rules as a graph between loops. A proposed change is pinned and
+// every other loop is pushed back inside the limits the rules give it, round after
+// round, until nothing moves (a fixed point). Along the way it flags rule cycles,
+// min/max contradictions and loops that can't settle.
+
+import {
+  LoopId,
+  LoopStateType,
+  CascadeRule,
+  CascadeResult,
+  ALL_LOOPS,
+  CASCADE_STATE_ORDER,
+} from "../types";
+import { ConditionContext } from "./conditionEngine";
+import { getCascadeResult, getCurrentStates } from "./cascadeEngine";
+import { getStateDisplayName } from "./stateEngine";
+
+// Limits the rules put on one loop
+export type CascadeLimits = {
+  maxState: LoopStateType;
+  minState: LoopStateType;
+  capacityAdjustment: number;
+  blockedStates: LoopStateType[];
+  ruleIds: string[];
+};
+
+export type SimulatedLoop = {
+  loopId: LoopId;
+  fromState: LoopStateType;
+  toState: LoopStateType;
+  before: CascadeLimits;
+  after: CascadeLimits;
+  reason?: string; // Why the simulation moved this loop
+};
+
+export type CascadeIssueKind = "cycle" | "contradiction" | "blocked" | "conflict" | "oscillation";
+
+export type CascadeIssue = {
+  kind: CascadeIssueKind;
+  loops: LoopId[];
+  ruleIds: string[];
+  message: string;
+};
+
+export type CascadeSimulation = {
+  loopId: LoopId;
+  proposedState: LoopStateType;
+  loops: Record<LoopId, SimulatedLoop>;
+  iterations: number;
+  converged: boolean;
+  issues: CascadeIssue[];
+};
+
+export type CascadePropagation = {
+  states: Record<LoopId, LoopStateType>;
+  reasons: Partial<Record<LoopId, string>>; // Why each moved loop moved
+  stuck: LoopId[]; // Loops the rules leave no allowed state for
+  iterations: number;
+  converged: boolean;
+  oscillating: boolean;
+};
+
+export type CascadeCycle = {
+  loops: LoopId[]; // In order; the last loop feeds back into the first
+  ruleIds: string[];
+};
+
+const rank = (state: LoopStateType) => CASCADE_STATE_ORDER.indexOf(state);
+
+function toLimits(result: CascadeResult): CascadeLimits {
+  return {
+    maxState: result.maxState,
+    minState: result.minState,
+    capacityAdjustment: result.capacityAdjustment,
+    blockedStates: result.blockedStates.map((b) => b.state),
+    ruleIds: result.appliedRules.map((r) => r.id),
+  };
+}
+
+function ruleNames(rules: CascadeRule[], ruleIds: string[]): string {
+  return ruleIds.map((id) => rules.find((r) => r.id === id)?.name ?? id).join(", ");
+}
+
+// Rule that set a loop's max (or min) state, for explaining a clamp
+function findLimitRule(result: CascadeResult, type: "set_max_state" | "set_min_state", state: LoopStateType) {
+  for (const rule of result.appliedRules) {
+    const effect = rule.effects.find((e) => e.type === type && e.targetState === state);
+    if (effect) return { rule, effect };
+  }
+  return null;
+}
+
+// Nearest state the rules allow, or null if the limits leave nothing.
+// Ties go to the less demanding state.
+function settleState(
+  current: LoopStateType,
+  result: CascadeResult
+): { state: LoopStateType; reason?: string } | null {
+  const low = rank(result.minState);
+  const high = rank(result.maxState);
+  const blocked = new Set(result.blockedStates.map((b) => b.state));
+
+  const allowed = CASCADE_STATE_ORDER.filter((s, i) => i >= low && i <= high && !blocked.has(s));
+  if (allowed.length === 0) return null;
+  if (allowed.includes(current)) return { state: current };
+
+  const target = [...allowed].sort(
+    (a, b) => Math.abs(rank(a) - rank(current)) - Math.abs(rank(b) - rank(current)) || rank(a) - rank(b)
+  )[0];
+
+  let reason: string | undefined;
+  if (rank(current) > high) {
+    reason = findLimitRule(result, "set_max_state", result.maxState)?.effect.reason;
+  } else if (rank(current) < low) {
+    reason = findLimitRule(result, "set_min_state", result.minState)?.effect.reason;
+  } else {
+    reason = result.blockedStates.find((b) => b.state === current)?.reason;
+  }
+  return { state: target, reason };
+}
+
+// Effects that can force another loop's state - recommendations and capacity can't
+const CONSTRAINING_EFFECTS = new Set(["set_max_state", "set_min_state", "block_state"]);
+
+// Simple cycles in the rule graph (source loop → target loop), each reported once.
+// Only rules that constrain their target's state count as edges.
+export function detectCascadeCycles(rules: CascadeRule[]): CascadeCycle[] {
+  const edges = new Map<LoopId, Map<LoopId, string[]>>();
+  for (const rule of rules) {
+    if (!rule.enabled || rule.sourceLoop === rule.targetLoop) continue;
+    if (!rule.effects.some((e) => CONSTRAINING_EFFECTS.has(e.type))) continue;
+    const targets = edges.get(rule.sourceLoop) ?? new Map<LoopId, string[]>();
+    targets.set(rule.targetLoop, [...(targets.get(rule.targetLoop) ?? []), rule.id]);
+    edges.set(rule.sourceLoop, targets);
+  }
+
+  const cycles: CascadeCycle[] = [];
+
+  // Only walk loops after the start, so each cycle is found from its first loop
+  ALL_LOOPS.forEach((start, startIndex) => {
+    const walk = (loopId: LoopId, path: LoopId[]) => {
+      for (const next of edges.get(loopId)?.keys() ?? []) {
+        if (next === start) {
+          const loops = [...path];
+          const ruleIds = loops.flatMap((from, i) =>
+            edges.get(from)!.get(loops[(i + 1) % loops.length])!
+          );
+          cycles.push({ loops, ruleIds });
+        } else if (ALL_LOOPS.indexOf(next) > startIndex && !path.includes(next)) {
+          walk(next, [...path, next]);
+        }
+      }
+    };
+    walk(start, [start]);
+  });
+
+  return cycles;
+}
+
+// Push every loop that isn't pinned back inside its cascade limits, round after
+// round, until nothing moves
+export function propagateCascade(
+  rules: CascadeRule[],
+  context: ConditionContext,
+  start: Record<LoopId, LoopStateType>,
+  pinned: LoopId[] = []
+): CascadePropagation {
+  let states = { ...start };
+  const reasons: Partial<Record<LoopId, string>> = {};
+  const stuck = new Set<LoopId>();
+
+  // Every loop can move at most across all states, so this is plenty
+  const maxIterations = ALL_LOOPS.length * CASCADE_STATE_ORDER.length;
+  const seen = new Set<string>([JSON.stringify(states)]);
+  let iterations = 0;
+  let converged = false;
+  let oscillating = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const next = { ...states };
+    let changed = false;
+
+    for (const id of ALL_LOOPS) {
+      if (pinned.includes(id)) continue;
+      const result = getCascadeResult(rules, context, id, states);
+      const settled = settleState(states[id], result);
+      if (!settled) {
+        stuck.add(id);
+        continue;
+      }
+      if (settled.state !== states[id]) {
+        next[id] = settled.state;
+        if (settled.reason) reasons[id] = settled.reason;
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      converged = true;
+      break;
+    }
+
+    states = next;
+    const key = JSON.stringify(states);
+    if (seen.has(key)) {
+      oscillating = true;
+      break;
+    }
+    seen.add(key);
+  }
+
+  return { states, reasons, stuck: [...stuck], iterations, converged, oscillating };
+}
+
+// Propagate a proposed state change through the cascade rules to a fixed point
+export function simulateCascade(
+  rules: CascadeRule[],
+  context: ConditionContext,
+  loopId: LoopId,
+  proposedState: LoopStateType
+): CascadeSimulation {
+  const initial = getCurrentStates(context);
+  // The proposed change is what we're testing, so it's pinned
+  const { states, reasons, stuck, iterations, converged, oscillating } = propagateCascade(
+    rules,
+    context,
+    { ...initial, [loopId]: proposedState },
+    [loopId]
+  );
+  const issues: CascadeIssue[] = [];
+
+  if (!converged) {
+    const moving = ALL_LOOPS.filter((id) => reasons[id]);
+    issues.push({
+      kind: "oscillation",
+      loops: moving,
+      ruleIds: [],
+      message: oscillating
+        ? `Rules keep flipping ${moving.join(", ")} back and forth - there's no stable outcome.`
+        : `Rules were still changing loops after ${iterations} rounds - the outcome may not be stable.`,
+    });
+  }
+
+  const loops = {} as Record<LoopId, SimulatedLoop>;
+
+  for (const id of ALL_LOOPS) {
+    const before = getCascadeResult(rules, context, id, initial);
+    const after = getCascadeResult(rules, context, id, states);
+    loops[id] = {
+      loopId: id,
+      fromState: initial[id],
+      toState: states[id],
+      before: toLimits(before),
+      after: toLimits(after),
+      reason: reasons[id],
+    };
+
+    const afterRuleIds = after.appliedRules.map((r) => r.id);
+
+    if (rank(after.minState) > rank(after.maxState)) {
+      const maxRule = findLimitRule(after, "set_max_state", after.maxState)?.rule;
+      const minRule = findLimitRule(after, "set_min_state", after.minState)?.rule;
+      const ruleIds = [minRule?.id, maxRule?.id].filter((r): r is string => !!r);
+      issues.push({
+        kind: "contradiction",
+        loops: [id],
+        ruleIds,
+        message: `${id} must be at least ${getStateDisplayName(after.minState)} but at most ${getStateDisplayName(after.maxState)} (${ruleNames(rules, ruleIds)}).`,
+      });
+    } else if (stuck.includes(id)) {
+      issues.push({
+        kind: "contradiction",
+        loops: [id],
+        ruleIds: afterRuleIds,
+        message: `Every state ${id} could take is blocked (${ruleNames(rules, afterRuleIds)}).`,
+      });
+    }
+
+    if (id !== loopId) continue;
+
+    // The changed loop isn't moved - but say so if the result fights it
+    const block = after.blockedStates.find((b) => b.state === proposedState);
+    if (block) {
+      issues.push({
+        kind: "blocked",
+        loops: [id],
+        ruleIds: [block.ruleId],
+        message: `${getStateDisplayName(proposedState)} is blocked for ${id}: ${block.reason}`,
+      });
+    } else if (rank(proposedState) > rank(after.maxState)) {
+      const rule = findLimitRule(after, "set_max_state", after.maxState)?.rule;
+      issues.push({
+        kind: "conflict",
+        loops: [id],
+        ruleIds: rule ? [rule.id] : [],
+        message: `${rule?.name ?? "A rule"} caps ${id} at ${getStateDisplayName(after.maxState)}.`,
+      });
+    } else if (rank(proposedState) < rank(after.minState)) {
+      const rule = findLimitRule(after, "set_min_state", after.minState)?.rule;
+      issues.push({
+        kind: "conflict",
+        loops: [id],
+        ruleIds: rule ? [rule.id] : [],
+        message: `${rule?.name ?? "A rule"} keeps ${id} at ${getStateDisplayName(after.minState)} or above.`,
+      });
+    }
+  }
+
+  // Only cycles this change feeds into
+  const touched = (id: LoopId) => id === loopId || states[id] !== initial[id];
+  for (const cycle of detectCascadeCycles(rules).filter((c) => c.loops.some(touched))) {
+    issues.push({
+      kind: "cycle",
+      loops: cycle.loops,
+      ruleIds: cycle.ruleIds,
+      message: `Rules form a cycle: ${[...cycle.loops, cycle.loops[0]].join(" → ")}.`,
+    });
+  }
+
+  return { loopId, proposedState, loops, iterations, converged, issues };
+}
+
+function sameLimits(a: CascadeLimits, b: CascadeLimits): boolean {
+  return a.maxState === b.maxState
+    && a.minState === b.minState
+    && a.capacityAdjustment === b.capacityAdjustment
+    && a.blockedStates.join() === b.blockedStates.join();
+}
+
+// Loops whose state or limits the change would touch (excluding the changed loop's own state)
+export function getAffectedLoops(simulation: CascadeSimulation): SimulatedLoop[] {
+  return ALL_LOOPS
+    .map((id) => simulation.loops[id])
+    .filter((loop) =>
+      (loop.loopId !== simulation.loopId && loop.toState !== loop.fromState) || !sameLimits(loop.before, loop.after)
+    );
+}
+
+// Worth showing a preview? Cycles alone don't count - they're a standing property
+// of the rules, also shown in the rule editor.
+export function hasCascadeImpact(simulation: CascadeSimulation): boolean {
+  return getAffectedLoops(simulation).length > 0
+    || simulation.issues.some((issue) => issue.kind !== "cycle");
+}
@@ -0,0 +1,350 @@
+// Condition Engine - parses and evaluates the condition language shared by
+// loop state triggers and cascade rules
+//
+// A condition is one or more clauses joined with "and", for example:
+//   "sleepScore < 60 for 2 days"      (health summary metrics)
+//   "overdue Health tasks > 5"        (task counts)
+//   "every Friday 17:00"              (schedules)
+//   "Family is BUILD"                 (another loop's state)
+//   "day type is custody"             (the smart schedule's day types)
+//   "date 2026-06-01 to 2026-08-31"   (a single date or an inclusive range)
+
+import {
+  LoopId,
+  LoopStateType,
+  LoopState,
+  Task,
+  HealthSummary,
+  HealthData,
+  ALL_LOOPS,
+  getLocalDateKey,
+  parseLocalDate,
+} from "../types";
+import { SmartScheduleState } from "../types/dayTypes";
+import { getDayTypes, getDayTypeConfig } from "./smartSchedulerEngine";
+
+// ==================== Types ====================
+
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type HealthMetric =
+  | "sleepScore"
+  | "sleepHours"
+  | "steps"
+  | "activeMinutes"
+  | "restingHeartRate"
+  | "mindfulnessMinutes"
+  | "weightKg"
+  | "readiness";
+
+export type TaskCountKind = "overdue" | "open" | "dueToday" | "completedToday";
+
+export type ConditionClause =
+  | { kind: "metric"; metric: HealthMetric; operator: ComparisonOperator; value: number; days: number }
+  | { kind: "tasks"; count: TaskCountKind; loopId: LoopId | null; operator: ComparisonOperator; value: number }
+  | { kind: "schedule"; days: number[]; hour: number; minute: number } // days: 0 = Sunday
+  | { kind: "loopState"; loopId: LoopId; negate: boolean; state: LoopStateType }
+  | { kind: "dayType"; dayType: string; negate: boolean } // Day type ID or label
+  | { kind: "date"; from: string; to: string }; // YYYY-MM-DD, inclusive
+
+export type ParsedCondition = {
+  clauses: ConditionClause[];
+};
+
+// Everything a condition can look at
+export type ConditionContext = {
+  now: Date;
+  loopStates: Record<LoopId, LoopState>;
+  tasks: Task[];
+  health: HealthSummary | null;
+  smartSchedule?: SmartScheduleState;
+};
+
+export type ConditionEvaluation = {
+  matched: boolean;
+  reason: string; // Why it matched, or why not
+};
+
+// ==================== Parsing ====================
+
+const METRIC_ALIASES: Record<string, HealthMetric> = {
+  sleepscore: "sleepScore",
+  sleep: "sleepScore",
+  sleephours: "sleepHours",
+  steps: "steps",
+  activeminutes: "activeMinutes",
+  activity: "activeMinutes",
+  restingheartrate: "restingHeartRate",
+  rhr: "restingHeartRate",
+  mindfulnessminutes: "mindfulnessMinutes",
+  mindfulness: "mindfulnessMinutes",
+  weight: "weightKg",
+  weightkg: "weightKg",
+  readiness: "readiness",
+};
+
+const TASK_COUNT_ALIASES: Record<string, TaskCountKind> = {
+  overdue: "overdue",
+  open: "open",
+  "due today": "dueToday",
+  "completed today": "completedToday",
+  "done today": "completedToday",
+};
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const OPERATOR_PATTERN = "(<=|>=|!=|==|=|<|>)";
+const NUMBER_PATTERN = "(-?\\d+(?:\\.\\d+)?)";
+
+const METRIC_REGEX = new RegExp(`^([a-z]+)\\s*${OPERATOR_PATTERN}\\s*${NUMBER_PATTERN}(?:\\s+for\\s+(\\d+)\\s+days?)?$`, "i");
+const TASKS_REGEX = new RegExp(`^(overdue|open|due today|completed today|done today)\\s+(?:([a-z]+)\\s+)?tasks\\s*${OPERATOR_PATTERN}\\s*${NUMBER_PATTERN}$`, "i");
+const SCHEDULE_REGEX = /^(?:every\s+([a-z]+)|daily)(?:\s+(?:at\s+)?(\d{1,2}):(\d{2}))?$/i;
+const LOOP_STATE_REGEX = /^([a-z]+)\s+is\s+(not\s+)?(build|maintain|recover|hibernate)$/i;
+const DAY_TYPE_REGEX = /^day\s*type\s+is\s+(not\s+)?(.+)$/i;
+const DATE_REGEX = /^date\s+(?:is\s+)?(\d{4}-\d{2}-\d{2})(?:\s+to\s+(\d{4}-\d{2}-\d{2}))?$/i;
+
+function findLoop(name: string): LoopId | null {
+  return ALL_LOOPS.find((loop) => loop.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+function normalizeOperator(operator: string): ComparisonOperator {
+  return operator === "==" ? "=" : (operator as ComparisonOperator);
+}
+
+function parseScheduleDays(word: string): number[] | null {
+  const lower = word.toLowerCase();
+  if (lower === "day") return [0, 1, 2, 3, 4, 5, 6];
+  if (lower === "weekday") return [1, 2, 3, 4, 5];
+  if (lower === "weekend") return [0, 6];
+  const index = DAY_NAMES.findIndex((day) => day === lower || day.slice(0, 3) === lower);
+  return index >= 0 ? [index] : null;
+}
+
+function parseClause(text: string): ConditionClause | string {
+  const clause = text.trim().replace(/\s+/g, " ");
+
+  const schedule = clause.match(SCHEDULE_REGEX);
+  if (schedule) {
+    const days = schedule[1] ? parseScheduleDays(schedule[1]) : parseScheduleDays("day");
+    if (!days) return `Unknown day "${schedule[1]}"`;
+    const hour = schedule[2] ? Number(schedule[2]) : 0;
+    const minute = schedule[3] ? Number(schedule[3]) : 0;
+    if (hour > 23 || minute > 59) return `Invalid time "${schedule[2]}:${schedule[3]}"`;
+    return { kind: "schedule", days, hour, minute };
+  }
+
+  const dayType = clause.match(DAY_TYPE_REGEX);
+  if (dayType) {
+    return { kind: "dayType", dayType: dayType[2], negate: !!dayType[1] };
+  }
+
+  const date = clause.match(DATE_REGEX);
+  if (date) {
+    const from = date[1];
+    const to = date[2] ?? date[1];
+    if (!parseLocalDate(from) || !parseLocalDate(to)) return "Dates must be YYYY-MM-DD";
+    if (to < from) return `${to} is before ${from}`;
+    return { kind: "date", from, to };
+  }
+
+  const tasks = clause.match(TASKS_REGEX);
+  if (tasks) {
+    const loopId = tasks[2] ? findLoop(tasks[2]) : null;
+    if (tasks[2] && !loopId) return `Unknown loop "${tasks[2]}"`;
+    return {
+      kind: "tasks",
+      count: TASK_COUNT_ALIASES[tasks[1].toLowerCase()],
+      loopId,
+      operator: normalizeOperator(tasks[3]),
+      value: Number(tasks[4]),
+    };
+  }
+
+  const loopState = clause.match(LOOP_STATE_REGEX);
+  if (loopState) {
+    const loopId = findLoop(loopState[1]);
+    if (!loopId) return `Unknown loop "${loopState[1]}"`;
+    return {
+      kind: "loopState",
+      loopId,
+      negate: !!loopState[2],
+      state: loopState[3].toUpperCase() as LoopStateType,
+    };
+  }
+
+  const metric = clause.match(METRIC_REGEX);
+  if (metric) {
+    const name = METRIC_ALIASES[metric[1].toLowerCase()];
+    if (!name) return `Unknown metric "${metric[1]}"`;
+    const days = metric[4] ? Number(metric[4]) : 1;
+    if (days < 1 || days > 7) return "Use between 1 and 7 days (only a week of health data is kept)";
+    return { kind: "metric", metric: name, operator: normalizeOperator(metric[2]), value: Number(metric[3]), days };
+  }
+
+  return `Couldn't understand "${clause}"`;
+}
+
+// Parse a condition string. Returns an error message if any clause is invalid.
+export function parseCondition(condition: string): ParsedCondition | { error: string } {
+  const parts = condition.split(/\s+and\s+/i).filter((part) => part.trim());
+  if (parts.length === 0) return { error: "Condition is empty" };
+
+  const clauses: ConditionClause[] = [];
+  for (const part of parts) {
+    const clause = parseClause(part);
+    if (typeof clause === "string") return { error: clause };
+    clauses.push(clause);
+  }
+  return { clauses };
+}
+
+// ==================== Evaluation ====================
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case "<": return actual < expected;
+    case "<=": return actual <= expected;
+    case ">": return actual > expected;
+    case ">=": return actual >= expected;
+    case "=": return actual === expected;
+    case "!=": return actual !== expected;
+  }
+}
+
+function getDailyMetric(day: HealthData, metric: HealthMetric): number | null {
+  switch (metric) {
+    case "sleepScore": return day.sleepScore;
+    case "sleepHours": return day.sleepDurationHours;
+    case "steps": return day.steps;
+    case "activeMinutes": return day.activeMinutes;
+    case "restingHeartRate": return day.restingHeartRate;
+    case "mindfulnessMinutes": return day.mindfulnessMinutes;
+    case "weightKg": return day.weightKg;
+    case "readiness": return null; // Only calculated for today
+  }
+}
+
+// Most recent N days of a metric, newest first (null if there isn't enough data)
+function getMetricValues(health: HealthSummary | null, metric: HealthMetric, days: number): number[] | null {
+  if (!health) return null;
+
+  if (metric === "readiness") {
+    const readiness = health.today?.scores.readiness;
+    return days === 1 && readiness != null ? [readiness] : null;
+  }
+
+  const byDate = new Map<string, HealthData>();
+  for (const day of health.weeklyData) byDate.set(day.date, day);
+  if (health.today) byDate.set(health.today.date, health.today);
+
+  const values = [...byDate.values()]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, days)
+    .map((day) => getDailyMetric(day, metric));
+
+  if (values.length < days || values.some((v) => v === null)) return null;
+  return values as number[];
+}
+
+function countTasks(tasks: Task[], kind: TaskCountKind, loopId: LoopId | null, today: string): number {
+  return tasks.filter((task) => {
+    if (loopId && task.loop !== loopId) return false;
+    const isOpen = task.status !== "done" && task.status !== "dropped";
+    switch (kind) {
+      case "overdue": return isOpen && !!task.dueDate && task.dueDate < today;
+      case "open": return isOpen;
+      case "dueToday": return isOpen && task.dueDate === today;
+      case "completedToday": return task.status === "done" && !!task.completedAt && getLocalDateKey(new Date(task.completedAt)) === today;
+    }
+  }).length;
+}
+
+// Most recent scheduled time at or before now (looks back a week)
+export function getLastOccurrence(clause: Extract<ConditionClause, { kind: "schedule" }>, now: Date): Date | null {
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset, clause.hour, clause.minute);
+    if (clause.days.includes(candidate.getDay()) && candidate <= now) return candidate;
+  }
+  return null;
+}
+
+const TASK_COUNT_LABELS: Record<TaskCountKind, string> = {
+  overdue: "overdue",
+  open: "open",
+  dueToday: "due today",
+  completedToday: "completed today",
+};
+
+function normalizeDayType(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+// scheduleSince: a schedule clause matches if an occurrence falls after this time (trigger
+// semantics - fire once per occurrence). Without it, it matches once today's time has passed.
+function evaluateClause(clause: ConditionClause, context: ConditionContext, scheduleSince?: number): ConditionEvaluation {
+  const today = getLocalDateKey(context.now);
+
+  switch (clause.kind) {
+    case "metric": {
+      const values = getMetricValues(context.health, clause.metric, clause.days);
+      if (!values) return { matched: false, reason: `Not enough ${clause.metric} data` };
+      const matched = values.every((v) => compare(v, clause.operator, clause.value));
+      const span = clause.days > 1 ? ` for ${clause.days} days` : "";
+      return { matched, reason: `${clause.metric} ${values.join(", ")}${span} (${clause.operator} ${clause.value})` };
+    }
+
+    case "tasks": {
+      const count = countTasks(context.tasks, clause.count, clause.loopId, today);
+      const label = `${TASK_COUNT_LABELS[clause.count]}${clause.loopId ? ` ${clause.loopId}` : ""} tasks`;
+      return { matched: compare(count, clause.operator, clause.value), reason: `${count} ${label} (${clause.operator} ${clause.value})` };
+    }
+
+    case "schedule": {
+      const occurrence = getLastOccurrence(clause, context.now);
+      if (!occurrence) return { matched: false, reason: "Not scheduled this week" };
+      const sinceTime = scheduleSince ?? parseLocalDate(today)!.getTime() - 1;
+      const label = occurrence.toLocaleString(undefined, { weekday: "long", hour: "numeric", minute: "2-digit" });
+      return { matched: occurrence.getTime() > sinceTime, reason: `Scheduled ${label}` };
+    }
+
+    case "dayType": {
+      if (!context.smartSchedule) return { matched: false, reason: "No day types set up" };
+      const schedule = context.smartSchedule;
+      const wanted = normalizeDayType(clause.dayType);
+      const dayTypes = getDayTypes(context.now, schedule);
+      const isMatch = dayTypes.some((type) =>
+        normalizeDayType(type) === wanted || normalizeDayType(getDayTypeConfig(type, schedule)?.label ?? "") === wanted
+      );
+      const labels = dayTypes.map((type) => getDayTypeConfig(type, schedule)?.label ?? type).join(", ");
+      return { matched: clause.negate ? !isMatch : isMatch, reason: `Today is ${labels}` };
+    }
+
+    case "date": {
+      const matched = today >= clause.from && today <= clause.to;
+      const range = clause.from === clause.to ? clause.from : `${clause.from} to ${clause.to}`;
+      return { matched, reason: `Today is ${today} (${range})` };
+    }
+
+    case "loopState": {
+      const current = context.loopStates[clause.loopId]?.currentState;
+      const matched = clause.negate ? current !== clause.state : current === clause.state;
+      return { matched, reason: `${clause.loopId} is ${current}` };
+    }
+  }
+}
+
+// Check whether a condition holds right now
+export function evaluateCondition(
+  condition: string,
+  context: ConditionContext,
+  scheduleSince?: number
+): ConditionEvaluation {
+  const parsed = parseCondition(condition);
+  if ("error" in parsed) return { matched: false, reason: parsed.error };
+
+  const results = parsed.clauses.map((clause) => evaluateClause(clause, context, scheduleSince));
+  return {
+    matched: results.every((r) => r.matched),
+    reason: results.map((r) => r.reason).join("; "),
+  };
+}
@@ -0,0 +1,187 @@
+// Dependency Engine - task prerequisites (Task.dependencies), blocking and critical path
+//
+// A task is blocked while any task it depends on is still open. Blocking is derived, never
+// stored, so completing the last blocker unblocks its dependents without touching them.
+
+import { Task } from "../types";
+
+// Duration assumed for tasks without an estimate when working out the critical path
+export const DEFAULT_ESTIMATE_MINUTES = 30;
+
+export type CriticalPathNode = {
+  task: Task;
+  minutes: number; // Remaining work - 0 once the task is done
+  estimated: boolean; // True when minutes came from DEFAULT_ESTIMATE_MINUTES
+  depth: number; // Longest chain of prerequisites before this task
+  earliestStart: number;
+  earliestFinish: number;
+  slack: number; // Minutes the task can slip without delaying the whole set
+  critical: boolean;
+};
+
+export type CriticalPath = {
+  nodes: CriticalPathNode[]; // Topological order
+  path: Task[]; // Critical chain, first to last
+  totalMinutes: number;
+  cycle: string[] | null; // Task IDs forming a cycle - nothing else is computed when set
+};
+
+export function isTaskOpen(task: Task): boolean {
+  return task.status !== "done" && task.status !== "dropped";
+}
+
+export function indexTasks(tasks: Task[]): Map<string, Task> {
+  return new Map(tasks.map((t) => [t.id, t]));
+}
+
+// Open prerequisites of a task. Dependencies on deleted tasks are ignored.
+export function getOpenBlockers(task: Task, tasksById: Map<string, Task>): Task[] {
+  return (task.dependencies || [])
+    .map((id) => tasksById.get(id))
+    .filter((dep): dep is Task => !!dep && isTaskOpen(dep));
+}
+
+export function isTaskBlocked(task: Task, tasksById: Map<string, Task>): boolean {
+  return getOpenBlockers(task, tasksById).length > 0;
+}
+
+export function getDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter((t) => t.dependencies?.includes(taskId));
+}
+
+// Dependents that completing this task would leave with no open blockers
+export function getTasksUnblockedBy(taskId: string, tasks: Task[]): Task[] {
+  const tasksById = indexTasks(tasks);
+  return getDependents(taskId, tasks).filter((t) => {
+    const blockers = getOpenBlockers(t, tasksById);
+    return isTaskOpen(t) && blockers.length === 1 && blockers[0].id === taskId;
+  });
+}
+
+// Would making taskId depend on dependencyId close a loop?
+export function wouldCreateCycle(tasks: Task[], taskId: string, dependencyId: string): boolean {
+  if (taskId === dependencyId) return true;
+
+  const tasksById = indexTasks(tasks);
+  const seen = new Set<string>();
+  const stack = [dependencyId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(tasksById.get(id)?.dependencies || []));
+  }
+  return false;
+}
+
+// First dependency cycle found among the tasks, as the IDs around it
+export function findDependencyCycle(tasks: Task[]): string[] | null {
+  const tasksById = indexTasks(tasks);
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (done.has(id)) return null;
+    if (visiting.has(id)) return trail.slice(trail.indexOf(id));
+
+    visiting.add(id);
+    trail.push(id);
+    for (const depId of tasksById.get(id)?.dependencies || []) {
+      if (!tasksById.has(depId)) continue;
+      const cycle = visit(depId);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    visiting.delete(id);
+    done.add(id);
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Longest chain of remaining work through the tasks, using estimateMinutes.
+// Only dependencies inside the set count, so pass a whole project's tasks.
+export function getCriticalPath(tasks: Task[]): CriticalPath {
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) return { nodes: [], path: [], totalMinutes: 0, cycle };
+
+  const tasksById = indexTasks(tasks);
+  const depsOf = (task: Task) => (task.dependencies || []).filter((id) => tasksById.has(id));
+
+  // Topological order (Kahn), keeping the original order among ready tasks
+  const remaining = new Map(tasks.map((t) => [t.id, depsOf(t).length]));
+  const order: Task[] = [];
+  let ready = tasks.filter((t) => remaining.get(t.id) === 0);
+  while (ready.length > 0) {
+    order.push(...ready);
+    const next: Task[] = [];
+    for (const task of ready) {
+      for (const dependent of getDependents(task.id, tasks)) {
+        const left = remaining.get(dependent.id)! - 1;
+        remaining.set(dependent.id, left);
+        if (left === 0) next.push(dependent);
+      }
+    }
+    ready = next;
+  }
+
+  // Forward pass
+  const nodes = new Map<string, CriticalPathNode>();
+  for (const task of order) {
+    const estimated = isTaskOpen(task) && !task.estimateMinutes;
+    const minutes = isTaskOpen(task) ? task.estimateMinutes || DEFAULT_ESTIMATE_MINUTES : 0;
+    const deps = depsOf(task).map((id) => nodes.get(id)!);
+    const earliestStart = Math.max(0, ...deps.map((d) => d.earliestFinish));
+    nodes.set(task.id, {
+      task,
+      minutes,
+      estimated,
+      depth: deps.length > 0 ? Math.max(...deps.map((d) => d.depth)) + 1 : 0,
+      earliestStart,
+      earliestFinish: earliestStart + minutes,
+      slack: 0,
+      critical: false,
+    });
+  }
+  const totalMinutes = Math.max(0, ...[...nodes.values()].map((n) => n.earliestFinish));
+
+  // Backward pass
+  const latestFinish = new Map<string, number>();
+  for (const task of [...order].reverse()) {
+    const node = nodes.get(task.id)!;
+    const successors = getDependents(task.id, tasks).map((t) => nodes.get(t.id)!);
+    const finish = successors.length > 0
+      ? Math.min(...successors.map((s) => latestFinish.get(s.task.id)! - s.minutes))
+      : totalMinutes;
+    latestFinish.set(task.id, finish);
+    node.slack = finish - node.earliestFinish;
+    node.critical = node.slack === 0 && totalMinutes > 0;
+  }
+
+  // Walk the zero-slack chain from the start
+  const path: Task[] = [];
+  let current = order
+    .map((t) => nodes.get(t.id)!)
+    .find((n) => n.critical && n.earliestStart === 0);
+  while (current) {
+    path.push(current.task);
+    const from: CriticalPathNode = current;
+    current = getDependents(from.task.id, tasks)
+      .map((t) => nodes.get(t.id)!)
+      .find((n) => n.critical && n.earliestStart === from.earliestFinish);
+  }
+
+  return {
+    nodes: order.map((t) => nodes.get(t.id)!),
+    path: path.filter(isTaskOpen),
+    totalMinutes,
+    cycle: null,
+  };
+}
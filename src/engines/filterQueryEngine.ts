@@ -0,0 +1,465 @@
+// Filter Query Engine - saved filter queries over tasks
+//
+// Syntax: field:value terms combined with & (and), | (or), ! (not) and parentheses.
+// Terms next to each other are and-ed, and bare words search the title and description:
+//
+//   loop:Health & due:<=7d & !label:waiting & energy:low & state:RECOVER
+//   (p:1 | p:2) & focus:deep & due:<=7d
+//
+// Completed and dropped tasks are left out unless the query mentions status.
+
+import { ALL_LOOPS, LoopId, LoopStateType, TaskStatus } from "../types/core";
+import type { LoopState } from "../types/loops";
+import type { Label, Project } from "../types/projects";
+import type { Task } from "../types/tasks";
+import { indexTasks, isTaskBlocked } from "./dependencyEngine";
+
+export type FilterField =
+  | "loop"
+  | "subloop"
+  | "due"
+  | "label"
+  | "project"
+  | "priority"
+  | "status"
+  | "energy"
+  | "location"
+  | "focus"
+  | "state"
+  | "requires"
+  | "estimate"
+  | "is"
+  | "has"
+  | "source";
+
+export type FilterComparison = "=" | "<" | "<=" | ">" | ">=";
+
+export type FilterNode =
+  | { type: "and"; children: FilterNode[] }
+  | { type: "or"; children: FilterNode[] }
+  | { type: "not"; child: FilterNode }
+  | { type: "term"; field: FilterField; op: FilterComparison; value: string }
+  | { type: "text"; value: string };
+
+export type FilterQueryResult =
+  | { node: FilterNode; error: null }
+  | { node: null; error: string };
+
+export type FilterContext = {
+  today?: string; // YYYY-MM-DD - defaults to the current UTC date
+  labels?: Label[];
+  projects?: Project[];
+  loopStates?: Partial<Record<LoopId, LoopState>>;
+  tasks?: Task[]; // For is:blocked - defaults to the tasks being filtered
+};
+
+// Starting points offered when creating a filter
+export const FILTER_QUERY_EXAMPLES: { name: string; query: string }[] = [
+  { name: "Deep-work candidates this week", query: "focus:deep & due:<=7d & !is:blocked & (p:1 | p:2)" },
+  { name: "Gentle health tasks", query: "loop:Health & energy:low & state:RECOVER" },
+  { name: "Overdue, not waiting", query: "due:overdue & !label:waiting" },
+  { name: "Quick wins", query: "estimate:<=15 & !is:blocked" },
+];
+
+// ==================== Vocabulary ====================
+
+const FIELD_ALIASES: Record<string, FilterField> = {
+  loop: "loop",
+  subloop: "subloop",
+  due: "due",
+  label: "label",
+  project: "project",
+  priority: "priority",
+  p: "priority",
+  status: "status",
+  energy: "energy",
+  location: "location",
+  at: "location",
+  focus: "focus",
+  state: "state",
+  requires: "requires",
+  estimate: "estimate",
+  is: "is",
+  has: "has",
+  source: "source",
+};
+
+const STATUSES: TaskStatus[] = ["inbox", "todo", "doing", "waiting", "done", "dropped"];
+const LOOP_STATES: LoopStateType[] = ["BUILD", "MAINTAIN", "RECOVER", "HIBERNATE"];
+
+// Fields whose values come from a fixed list, checked when the query is parsed
+const ENUM_VALUES: Partial<Record<FilterField, readonly string[]>> = {
+  loop: ALL_LOOPS,
+  status: STATUSES,
+  energy: ["low", "medium", "high"],
+  location: ["home", "office", "gym", "outdoors", "anywhere"],
+  focus: ["shallow", "medium", "deep"],
+  state: LOOP_STATES,
+  requires: LOOP_STATES,
+  is: ["recurring", "blocked", "subtask", "overdue"],
+  has: ["due", "estimate", "project", "labels", "dependencies", "description"],
+};
+
+const DUE_KEYWORDS = ["today", "tomorrow", "overdue", "none", "any"];
+
+// Fields that can take <, <=, >, >=
+const ORDERED_FIELDS: FilterField[] = ["due", "priority", "estimate"];
+
+// ==================== Tokenizing ====================
+
+type QueryToken =
+  | { kind: "and" | "or" | "not" | "open" | "close"; position: number }
+  | { kind: "word"; value: string; position: number }
+  | { kind: "text"; value: string; position: number };
+
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close", position });
+      i++;
+    } else if (char === "&" || char === "|") {
+      tokens.push({ kind: char === "&" ? "and" : "or", position });
+      i += query[i + 1] === char ? 2 : 1; // && and || work too
+    } else if (char === "!") {
+      tokens.push({ kind: "not", position });
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) throw new Error(`Unclosed quote at ${position + 1}`);
+      tokens.push({ kind: "text", value: query.slice(i + 1, end), position });
+      i = end + 1;
+    } else {
+      // A word runs to the next space or operator; quotes inside keep spaces (project:"Home Reno")
+      let value = "";
+      while (i < query.length && !/[\s()&|]/.test(query[i])) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          if (end === -1) throw new Error(`Unclosed quote at ${i + 1}`);
+          value += query.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          value += query[i++];
+        }
+      }
+      const keyword = value.toUpperCase();
+      if (keyword === "AND" || keyword === "OR" || keyword === "NOT") {
+        tokens.push({ kind: keyword === "AND" ? "and" : keyword === "OR" ? "or" : "not", position });
+      } else {
+        tokens.push({ kind: "word", value, position });
+      }
+    }
+  }
+  return tokens;
+}
+
+// ==================== Parsing ====================
+
+function parseTerm(word: string, position: number): FilterNode {
+  const colon = word.indexOf(":");
+  if (colon === -1) return { type: "text", value: word };
+
+  const name = word.slice(0, colon).toLowerCase();
+  const field = FIELD_ALIASES[name];
+  if (!field) throw new Error(`Unknown field "${name}" at ${position + 1}`);
+
+  const raw = word.slice(colon + 1);
+  const opMatch = raw.match(/^(<=|>=|<|>|=)/);
+  const op = (opMatch?.[1] as FilterComparison | undefined) ?? "=";
+  let value = raw.slice(opMatch ? opMatch[1].length : 0).trim();
+  if (!value) throw new Error(`Missing value for ${name}: at ${position + 1}`);
+  if (op !== "=" && !ORDERED_FIELDS.includes(field)) {
+    throw new Error(`${name}: can't be compared with ${op}`);
+  }
+
+  const allowed = ENUM_VALUES[field];
+  if (allowed) {
+    const match = allowed.find((v) => v.toLowerCase() === value.toLowerCase());
+    if (!match) throw new Error(`${name}: must be one of ${allowed.join(", ")}`);
+    value = match;
+  }
+
+  if (field === "due") {
+    const isKeyword = DUE_KEYWORDS.includes(value.toLowerCase());
+    if (isKeyword && op !== "=" && value.toLowerCase() !== "today" && value.toLowerCase() !== "tomorrow") {
+      throw new Error(`due:${value} can't be compared with ${op}`);
+    }
+    if (!isKeyword && !/^\d+[dw]$/i.test(value) && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new Error(`due: takes today, tomorrow, overdue, none, any, 7d, 2w or a YYYY-MM-DD date`);
+    }
+    // due:7d on its own means within the next 7 days
+    if (op === "=" && /^\d+[dw]$/i.test(value)) {
+      return { type: "term", field, op: "<=", value: value.toLowerCase() };
+    }
+    value = value.toLowerCase();
+  }
+
+  if (field === "priority") {
+    const priority = value.toLowerCase() === "someday" ? "0" : value.replace(/^p/i, "");
+    if (!/^[0-4]$/.test(priority)) throw new Error(`priority: takes 1-4 or someday`);
+    value = priority;
+  }
+
+  if (field === "estimate") {
+    const minutes = parseEstimate(value);
+    if (minutes === null) throw new Error(`estimate: takes minutes, e.g. 30, 30m or 1h`);
+    value = String(minutes);
+  }
+
+  return { type: "term", field, op, value };
+}
+
+function parseEstimate(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(m|min|h|hr)?$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return Math.round(match[2] && /^h/i.test(match[2]) ? amount * 60 : amount);
+}
+
+export function parseFilterQuery(query: string): FilterQueryResult {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return { node: null, error: "The query is empty" };
+
+    let index = 0;
+    const peek = () => tokens[index];
+
+    const parseOr = (): FilterNode => {
+      const children = [parseAnd()];
+      while (peek()?.kind === "or") {
+        index++;
+        children.push(parseAnd());
+      }
+      return children.length === 1 ? children[0] : { type: "or", children };
+    };
+
+    const parseAnd = (): FilterNode => {
+      const children = [parseUnary()];
+      for (;;) {
+        const next = peek();
+        if (next?.kind === "and") {
+          index++;
+          children.push(parseUnary());
+        } else if (next && next.kind !== "or" && next.kind !== "close") {
+          children.push(parseUnary()); // Side by side means and
+        } else {
+          break;
+        }
+      }
+      return children.length === 1 ? children[0] : { type: "and", children };
+    };
+
+    const parseUnary = (): FilterNode => {
+      const token = peek();
+      if (!token) throw new Error("The query ends too early");
+      index++;
+
+      switch (token.kind) {
+        case "not":
+          return { type: "not", child: parseUnary() };
+        case "open": {
+          const inner = parseOr();
+          if (peek()?.kind !== "close") throw new Error(`Missing ) for ( at ${token.position + 1}`);
+          index++;
+          return inner;
+        }
+        case "word":
+          return parseTerm(token.value, token.position);
+        case "text":
+          return { type: "text", value: token.value };
+        default:
+          throw new Error(`Unexpected "${query[token.position]}" at ${token.position + 1}`);
+      }
+    };
+
+    const node = parseOr();
+    const leftover = peek();
+    if (leftover) throw new Error(`Unexpected "${query[leftover.position]}" at ${leftover.position + 1}`);
+    return { node, error: null };
+  } catch (error) {
+    return { node: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// ==================== Evaluating ====================
+
+type EvaluationContext = {
+  today: string;
+  labels: Label[];
+  projects: Project[];
+  loopStates: Partial<Record<LoopId, LoopState>>;
+  tasksById: Map<string, Task>;
+};
+
+function addDays(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function compare(actual: number | string, op: FilterComparison, expected: number | string): boolean {
+  switch (op) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function resolveDueValue(value: string, today: string): string {
+  if (value === "today") return today;
+  if (value === "tomorrow") return addDays(today, 1);
+  const relative = value.match(/^(\d+)([dw])$/);
+  if (relative) return addDays(today, parseInt(relative[1], 10) * (relative[2] === "w" ? 7 : 1));
+  return value;
+}
+
+function matchesDue(task: Task, op: FilterComparison, value: string, today: string): boolean {
+  switch (value) {
+    case "none":
+      return !task.dueDate;
+    case "any":
+      return !!task.dueDate;
+    case "overdue":
+      return !!task.dueDate && task.dueDate < today;
+    default:
+      return !!task.dueDate && compare(task.dueDate, op, resolveDueValue(value, today));
+  }
+}
+
+function matchesTerm(task: Task, node: Extract<FilterNode, { type: "term" }>, context: EvaluationContext): boolean {
+  const { field, op, value } = node;
+
+  switch (field) {
+    case "loop":
+      return task.loop === value;
+    case "subloop":
+      return !!task.subLoop && normalize(task.subLoop) === normalize(value);
+    case "due":
+      return matchesDue(task, op, value, context.today);
+    case "label":
+      // Tasks store label IDs; match those or the label's name
+      return (task.labels || []).some((id) => {
+        const label = context.labels.find((l) => l.id === id);
+        return id === value || normalize(label?.name ?? id) === normalize(value);
+      });
+    case "project": {
+      if (!task.projectId) return false;
+      const project = context.projects.find((p) => p.id === task.projectId);
+      return task.projectId === value || (!!project && normalize(project.name) === normalize(value));
+    }
+    case "priority":
+      // Lower number = more important, so p:<=2 means P1 or P2
+      return compare(task.priority, op, parseInt(value, 10));
+    case "status":
+      return task.status === value;
+    case "energy":
+      return task.constraints?.energyLevel === value;
+    case "location":
+      return task.constraints?.location === value;
+    case "focus":
+      return task.constraints?.focusLevel === value;
+    case "state":
+      return context.loopStates[task.loop]?.currentState === value;
+    case "requires":
+      return task.requiredState === value;
+    case "estimate":
+      return task.estimateMinutes !== undefined && compare(task.estimateMinutes, op, parseInt(value, 10));
+    case "source":
+      return (task.source ?? "manual") === value.toLowerCase();
+    case "is":
+      switch (value) {
+        case "recurring":
+          return !!task.recurrence;
+        case "blocked":
+          return isTaskBlocked(task, context.tasksById);
+        case "subtask":
+          return !!task.parentId;
+        default:
+          return !!task.dueDate && task.dueDate < context.today;
+      }
+    case "has":
+      switch (value) {
+        case "due":
+          return !!task.dueDate;
+        case "estimate":
+          return !!task.estimateMinutes;
+        case "project":
+          return !!task.projectId;
+        case "labels":
+          return (task.labels || []).length > 0;
+        case "dependencies":
+          return (task.dependencies || []).length > 0;
+        default:
+          return !!task.description?.trim();
+      }
+  }
+}
+
+function evaluate(node: FilterNode, task: Task, context: EvaluationContext): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => evaluate(child, task, context));
+    case "or":
+      return node.children.some((child) => evaluate(child, task, context));
+    case "not":
+      return !evaluate(node.child, task, context);
+    case "text": {
+      const needle = node.value.toLowerCase();
+      return task.title.toLowerCase().includes(needle) || !!task.description?.toLowerCase().includes(needle);
+    }
+    case "term":
+      return matchesTerm(task, node, context);
+  }
+}
+
+function mentionsStatus(node: FilterNode): boolean {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.some(mentionsStatus);
+    case "not":
+      return mentionsStatus(node.child);
+    case "text":
+      return false;
+    case "term":
+      return node.field === "status";
+  }
+}
+
+// Tasks matching a query (or an already parsed one). An invalid query matches nothing.
+export function filterTasks(tasks: Task[], query: string | FilterNode, context: FilterContext = {}): Task[] {
+  const node = typeof query === "string" ? parseFilterQuery(query).node : query;
+  if (!node) return [];
+
+  const evaluationContext: EvaluationContext = {
+    today: context.today ?? new Date().toISOString().split("T")[0],
+    labels: context.labels ?? [],
+    projects: context.projects ?? [],
+    loopStates: context.loopStates ?? {},
+    tasksById: indexTasks(context.tasks ?? tasks),
+  };
+  const includeClosed = mentionsStatus(node);
+
+  return tasks.filter((task) => {
+    if (!includeClosed && (task.status === "done" || task.status === "dropped")) return false;
+    return evaluate(node, task, evaluationContext);
+  });
+}
@@ -2,8 +2,27 @@
 
 export * from "./identityEngine";
 export * from "./stateEngine";
+export * from "./conditionEngine";
+export * from "./triggerEngine";
+export * from "./cascadeEngine";
+export * from "./cascadeSimulator";
+export * from "./weeklyPlanEngine";
+export * from "./stateAdvisorEngine";
+export * from "./capacityEngine";
+export * from "./dependencyEngine";
+export * from "./bulkTaskEngine";
+export * from "./templateEngine";
+export * from "./recurrenceEngine";
+export * from "./quickAddEngine";
+export * from "./filterQueryEngine";
+export * from "./taskActivityEngine";
+export * from "./reminderEngine";
+export * from "./timeBlockEngine";
+export * from "./calendarSyncEngine";
+export * from "./timeReportEngine";
 export * from "./goalEngine";
 export * from "./loopPrediction";
+export * from "./loopClassifier";
 export * from "./breakdownEngine";
 export * from "./routineEngine";
 export * from "./voiceEngine";
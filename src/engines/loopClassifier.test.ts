@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { INITIAL_LOOP_MODEL } from "../types/loopModel";
+import type { Task } from "../types/tasks";
+import { CORRECTION_WEIGHT, recordLoopCorrection, updateLoopModelFromTasks } from "./loopClassifier";
+
+function task(id: string, title: string, loop: Task["loop"]): Task {
+  return { id, title, loop, status: "todo", priority: 2, createdAt: "2026-10-19T09:00:00.000Z" } as Task;
+}
+
+describe("untraining corrected titles", () => {
+  it("takes a hand correction's full weight back out when the task is edited again", () => {
+    const added = task("t1", "Book flights", "Fun");
+    let model = updateLoopModelFromTasks(INITIAL_LOOP_MODEL, [], [added], true);
+    model = recordLoopCorrection(model, added.title, added.loop, undefined, added.id);
+    expect(model.loops.Fun?.counts.flights).toBe(CORRECTION_WEIGHT);
+
+    const moved = { ...added, loop: "Work" as const };
+    model = updateLoopModelFromTasks(model, [added], [moved], true);
+    expect(model.loops.Fun?.counts.flights).toBeUndefined();
+    expect(model.loops.Work?.counts.flights).toBe(CORRECTION_WEIGHT);
+
+    const renamed = { ...moved, title: "Book hotel" };
+    model = updateLoopModelFromTasks(model, [moved], [renamed], true);
+    expect(model.loops.Work?.counts).toEqual({ book: CORRECTION_WEIGHT, hotel: CORRECTION_WEIGHT });
+    expect(model.documents).toBe(1);
+  });
+
+  it("untrains an ordinary title with weight 1", () => {
+    const added = task("t1", "Book flights", "Fun");
+    let model = updateLoopModelFromTasks(INITIAL_LOOP_MODEL, [], [added], false);
+    model = updateLoopModelFromTasks(model, [added], [{ ...added, title: "Book trains" }], false);
+
+    expect(model.loops.Fun?.counts).toEqual({ book: 1, trains: 1 });
+    expect(model.taskWeights ?? {}).toEqual({});
+  });
+
+  it("stops tracking a corrected task's weight once it's deleted", () => {
+    const added = task("t1", "Book flights", "Fun");
+    let model = updateLoopModelFromTasks(INITIAL_LOOP_MODEL, [], [added], true);
+    model = recordLoopCorrection(model, added.title, added.loop, undefined, added.id);
+    model = updateLoopModelFromTasks(model, [added], [], true);
+
+    expect(model.taskWeights).toEqual({});
+    expect(model.loops.Fun?.counts.flights).toBe(CORRECTION_WEIGHT);
+  });
+});
@@ -0,0 +1,295 @@
+// Loop Classifier - naive Bayes over title tokens, trained on-device from the user's own tasks
+//
+// Every task title adds its tokens to its loop (and "Loop/SubLoop" when set). Changing a task's
+// loop moves the title to the new loop with extra weight, so corrections outweigh a single
+// original assignment. Corrected tasks remember their weight so a later edit takes all of it
+// back out. The model is plain JSON and lives in app state.
+
+import { ALL_LOOPS } from "../types/core";
+import type { LoopId } from "../types/core";
+import type { Task } from "../types/tasks";
+import type { LoopModel, LoopModelClass } from "../types/loopModel";
+
+// How much a hand correction counts compared to an ordinary title
+export const CORRECTION_WEIGHT = 3;
+// Below this many titles the model is too thin to lean on
+export const MIN_TRAINING_DOCUMENTS = 10;
+// Laplace smoothing
+const ALPHA = 1;
+// Trust approaches MAX_TRUST as the model grows; it's halfway there at TRUST_HALF_DOCUMENTS
+const TRUST_HALF_DOCUMENTS = 30;
+const MAX_TRUST = 0.85;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "get", "go", "has", "have", "i",
+  "in", "into", "is", "it", "its", "me", "my", "of", "on", "or", "our", "so", "the", "then", "this",
+  "to", "up", "us", "we", "with", "your",
+]);
+
+export type LoopFeature = {
+  token: string;
+  weight: number; // Log-likelihood ratio against the other loops
+};
+
+export type LoopClassification = {
+  loop: LoopId;
+  confidence: number; // Posterior probability of the top loop, 0-1
+  probabilities: Record<LoopId, number>;
+  topFeatures: LoopFeature[]; // Tokens that pushed hardest toward the top loop
+};
+
+export type SubLoopClassification = {
+  subLoop: string;
+  confidence: number;
+};
+
+// Distinct, lowercased word tokens worth learning from
+export function tokenizeTitle(text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .map((t) => t.replace(/^'+|'+$/g, ""))
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t) && !/^\d+$/.test(t));
+  return [...new Set(tokens)];
+}
+
+function subLoopKey(loop: LoopId, subLoop: string): string {
+  return `${loop}/${subLoop}`;
+}
+
+function tokenTotal(model: LoopModel, token: string): number {
+  return ALL_LOOPS.reduce((sum, loop) => sum + (model.loops[loop]?.counts[token] ?? 0), 0);
+}
+
+function adjustClass(cls: LoopModelClass | undefined, tokens: string[], delta: number): LoopModelClass {
+  const counts = { ...(cls?.counts ?? {}) };
+  let tokenCount = cls?.tokens ?? 0;
+  for (const token of tokens) {
+    const before = counts[token] ?? 0;
+    const after = Math.max(0, before + delta);
+    tokenCount += after - before;
+    if (after === 0) delete counts[token];
+    else counts[token] = after;
+  }
+  return {
+    docs: Math.max(0, (cls?.docs ?? 0) + delta),
+    tokens: Math.max(0, tokenCount),
+    counts,
+  };
+}
+
+// Add (positive delta) or remove (negative) a title's weight from its loop and sub-loop
+function adjustModel(model: LoopModel, text: string, loop: LoopId, subLoop: string | undefined, delta: number): LoopModel {
+  const tokens = tokenizeTitle(text);
+  if (tokens.length === 0) return model;
+
+  const wasKnown = new Map(tokens.map((t) => [t, tokenTotal(model, t) > 0]));
+  const next: LoopModel = {
+    ...model,
+    loops: { ...model.loops, [loop]: adjustClass(model.loops[loop], tokens, delta) },
+    updatedAt: new Date().toISOString(),
+  };
+  if (subLoop) {
+    const key = subLoopKey(loop, subLoop);
+    next.subLoops = { ...model.subLoops, [key]: adjustClass(model.subLoops[key], tokens, delta) };
+  }
+
+  let vocabulary = model.vocabulary;
+  for (const token of tokens) {
+    const isKnown = tokenTotal(next, token) > 0;
+    if (isKnown && !wasKnown.get(token)) vocabulary++;
+    if (!isKnown && wasKnown.get(token)) vocabulary--;
+  }
+  return { ...next, vocabulary: Math.max(0, vocabulary) };
+}
+
+export function trainLoopModel(
+  model: LoopModel,
+  text: string,
+  loop: LoopId,
+  subLoop?: string,
+  weight = 1
+): LoopModel {
+  if (tokenizeTitle(text).length === 0) return model;
+  const next = adjustModel(model, text, loop, subLoop, weight);
+  return { ...next, documents: model.documents + 1 };
+}
+
+// `weight` must match what the title was trained with
+export function untrainLoopModel(
+  model: LoopModel,
+  text: string,
+  loop: LoopId,
+  subLoop?: string,
+  weight = 1
+): LoopModel {
+  if (tokenizeTitle(text).length === 0) return model;
+  const next = adjustModel(model, text, loop, subLoop, -weight);
+  return { ...next, documents: Math.max(0, model.documents - 1) };
+}
+
+// Weight a task's title was trained with
+function getTaskWeight(model: LoopModel, taskId: string): number {
+  return model.taskWeights?.[taskId] ?? 1;
+}
+
+function setTaskWeight(model: LoopModel, taskId: string, weight: number): LoopModel {
+  const taskWeights = { ...model.taskWeights };
+  if (weight === 1) delete taskWeights[taskId];
+  else taskWeights[taskId] = weight;
+  return { ...model, taskWeights };
+}
+
+// The loop was picked by hand over a suggestion - the title itself is trained when the task is added
+export function recordLoopCorrection(
+  model: LoopModel,
+  text: string,
+  loop: LoopId,
+  subLoop?: string,
+  taskId?: string
+): LoopModel {
+  if (tokenizeTitle(text).length === 0) return model;
+  const next = adjustModel(model, text, loop, subLoop, CORRECTION_WEIGHT - 1);
+  const corrected = { ...next, corrections: model.corrections + 1 };
+  return taskId ? setTaskWeight(corrected, taskId, CORRECTION_WEIGHT) : corrected;
+}
+
+// Fresh model from a task list - corrections made so far are not kept
+export function buildLoopModel(tasks: Task[], base: LoopModel): LoopModel {
+  let model: LoopModel = {
+    ...base,
+    loops: {},
+    subLoops: {},
+    vocabulary: 0,
+    documents: 0,
+    corrections: 0,
+    taskWeights: {},
+  };
+  const ordered = [...tasks].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const task of ordered) {
+    model = trainLoopModel(model, task.title, task.loop, task.subLoop);
+  }
+  return model;
+}
+
+// Learn from what an action did to the task list - new titles train, edited ones move.
+// With `learnCorrections`, a changed loop or sub-loop counts as a correction.
+export function updateLoopModelFromTasks(
+  model: LoopModel,
+  before: Task[],
+  after: Task[],
+  learnCorrections: boolean
+): LoopModel {
+  const beforeById = new Map(before.map((t) => [t.id, t]));
+  let next = model;
+
+  for (const task of after) {
+    const previous = beforeById.get(task.id);
+    if (!previous) {
+      next = trainLoopModel(next, task.title, task.loop, task.subLoop);
+      continue;
+    }
+    if (previous === task) continue;
+    if (previous.title === task.title && previous.loop === task.loop && previous.subLoop === task.subLoop) continue;
+
+    // A title edit keeps an earlier correction's weight
+    const corrected = learnCorrections && (previous.loop !== task.loop || previous.subLoop !== task.subLoop);
+    const previousWeight = getTaskWeight(next, task.id);
+    const weight = corrected ? CORRECTION_WEIGHT : previousWeight;
+    next = untrainLoopModel(next, previous.title, previous.loop, previous.subLoop, previousWeight);
+    next = trainLoopModel(next, task.title, task.loop, task.subLoop, weight);
+    if (weight !== previousWeight) next = setTaskWeight(next, task.id, weight);
+    if (corrected) next = { ...next, corrections: next.corrections + 1 };
+  }
+
+  // Deleted tasks stay learned, but their weights no longer need tracking
+  const afterIds = new Set(after.map((t) => t.id));
+  for (const task of before) {
+    if (!afterIds.has(task.id) && next.taskWeights?.[task.id] !== undefined) next = setTaskWeight(next, task.id, 1);
+  }
+
+  return next;
+}
+
+// How much predictions should lean on the model rather than the keyword lists, 0 to MAX_TRUST
+export function getModelTrust(model: LoopModel): number {
+  if (model.documents < MIN_TRAINING_DOCUMENTS) return 0;
+  return MAX_TRUST * (model.documents / (model.documents + TRUST_HALF_DOCUMENTS));
+}
+
+function logLikelihood(cls: LoopModelClass | undefined, token: string, vocabulary: number): number {
+  const count = cls?.counts[token] ?? 0;
+  const total = cls?.tokens ?? 0;
+  return Math.log((count + ALPHA) / (total + ALPHA * vocabulary));
+}
+
+// Softmax over log scores
+function normalize(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map((s) => Math.exp(s - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((e) => e / sum);
+}
+
+// Most likely loop for a title, or null when none of its words have been seen
+export function classifyLoop(model: LoopModel, text: string): LoopClassification | null {
+  if (model.documents === 0) return null;
+  const tokens = tokenizeTitle(text).filter((t) => tokenTotal(model, t) > 0);
+  if (tokens.length === 0) return null;
+
+  const vocabulary = Math.max(model.vocabulary, 1);
+  const totalDocs = ALL_LOOPS.reduce((sum, loop) => sum + (model.loops[loop]?.docs ?? 0), 0);
+
+  const scores = ALL_LOOPS.map((loop) => {
+    const cls = model.loops[loop];
+    const prior = Math.log(((cls?.docs ?? 0) + ALPHA) / (totalDocs + ALPHA * ALL_LOOPS.length));
+    return tokens.reduce((sum, token) => sum + logLikelihood(cls, token, vocabulary), prior);
+  });
+  const posterior = normalize(scores);
+
+  let best = 0;
+  posterior.forEach((p, i) => {
+    if (p > posterior[best]) best = i;
+  });
+  const loop = ALL_LOOPS[best];
+
+  const topFeatures = tokens
+    .map((token) => {
+      const own = logLikelihood(model.loops[loop], token, vocabulary);
+      const others = ALL_LOOPS.filter((l) => l !== loop);
+      const otherMean = others.reduce((sum, l) => sum + Math.exp(logLikelihood(model.loops[l], token, vocabulary)), 0) / others.length;
+      return { token, weight: own - Math.log(otherMean) };
+    })
+    .filter((f) => f.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3);
+
+  return {
+    loop,
+    confidence: posterior[best],
+    probabilities: Object.fromEntries(ALL_LOOPS.map((l, i) => [l, posterior[i]])) as Record<LoopId, number>,
+    topFeatures,
+  };
+}
+
+// Most likely sub-loop within a loop, or null when the loop has no learned sub-loops
+export function classifySubLoop(model: LoopModel, text: string, loop: LoopId): SubLoopClassification | null {
+  const prefix = `${loop}/`;
+  const classes = Object.entries(model.subLoops).filter(([key, cls]) => key.startsWith(prefix) && cls.docs > 0);
+  const tokens = tokenizeTitle(text).filter((t) => classes.some(([, cls]) => cls.counts[t]));
+  if (classes.length === 0 || tokens.length === 0) return null;
+
+  const vocabulary = Math.max(model.vocabulary, 1);
+  const totalDocs = classes.reduce((sum, [, cls]) => sum + cls.docs, 0);
+  const scores = classes.map(([, cls]) => {
+    const prior = Math.log((cls.docs + ALPHA) / (totalDocs + ALPHA * classes.length));
+    return tokens.reduce((sum, token) => sum + logLikelihood(cls, token, vocabulary), prior);
+  });
+  const posterior = normalize(scores);
+
+  let best = 0;
+  posterior.forEach((p, i) => {
+    if (p > posterior[best]) best = i;
+  });
+  return { subLoop: classes[best][0].slice(prefix.length), confidence: posterior[best] };
+}
@@ -1,7 +1,10 @@
 // Smart Loop Prediction Engine
-// Predicts which loop a task belongs to based on keywords, patterns, and history
+// Predicts which loop a task belongs to based on keywords, patterns, and history.
+// Once the on-device model (engines/loopClassifier) has seen enough titles it takes over from
+// the keyword lists and the simple history match, in proportion to how much it has learned.
 
-import { LoopId, Task, ALL_LOOPS, LOOP_DEFINITIONS } from "../types";
+import { LoopId, Task, LoopModel, ALL_LOOPS, LOOP_DEFINITIONS, INITIAL_LOOP_MODEL } from "../types";
+import { classifyLoop, classifySubLoop, getModelTrust, trainLoopModel } from "./loopClassifier";
 
 // Keyword patterns for each loop with weights
 const LOOP_KEYWORDS: Record<LoopId, { keywords: string[]; weight: number }[]> = {
@@ -85,8 +88,13 @@ export type LoopPrediction = {
   loop: LoopId;
   confidence: number; // 0-1
   matchedKeywords: string[];
+  learnedFeatures: string[]; // Words the model has learned point to this loop
+  subLoop?: string; // Learned sub-loop, when the model is fairly sure
 };
 
+// Sub-loops are only suggested above this confidence
+const SUB_LOOP_MIN_CONFIDENCE = 0.6;
+
 export type PredictionResult = {
   predictions: LoopPrediction[];
   topPrediction: LoopPrediction | null;
@@ -198,30 +206,39 @@ function getTimeScore(loopId: LoopId): number {
 export function predictLoop(
   taskText: string,
   taskHistory: Task[] = [],
-  _currentLoop?: LoopId
+  _currentLoop?: LoopId,
+  model?: LoopModel
 ): PredictionResult {
   if (!taskText.trim()) {
     return { predictions: [], topPrediction: null };
   }
 
   const predictions: LoopPrediction[] = [];
+  const classification = model ? classifyLoop(model, taskText) : null;
+  const trust = classification && model ? getModelTrust(model) : 0;
 
   for (const loopId of ALL_LOOPS) {
     const { score: keywordScore, matchedKeywords } = calculateKeywordScore(
       taskText,
       loopId
     );
-    const historyScore = calculateHistoryScore(taskText, loopId, taskHistory);
     const timeScore = getTimeScore(loopId);
 
-    // Combine scores with weights
-    const totalScore = keywordScore * 0.7 + historyScore * 0.2 + timeScore * 0.1;
+    // Combine scores with weights - a trusted model replaces the history match and
+    // takes its share from the keywords
+    const totalScore = classification && trust > 0
+      ? keywordScore * 0.7 * (1 - trust) + classification.probabilities[loopId] * trust + timeScore * 0.1
+      : keywordScore * 0.7 + calculateHistoryScore(taskText, loopId, taskHistory) * 0.2 + timeScore * 0.1;
 
     if (totalScore > 0) {
+      const isModelPick = classification?.loop === loopId && trust > 0;
+      const subLoop = isModelPick && model ? classifySubLoop(model, taskText, loopId) : null;
       predictions.push({
         loop: loopId,
         confidence: Math.min(totalScore, 1), // Cap at 1
         matchedKeywords,
+        learnedFeatures: isModelPick ? classification.topFeatures.map((f) => f.token) : [],
+        subLoop: subLoop && subLoop.confidence >= SUB_LOOP_MIN_CONFIDENCE ? subLoop.subLoop : undefined,
       });
     }
   }
@@ -255,7 +272,9 @@ export function getLoopSuggestion(
   const loopDef = LOOP_DEFINITIONS[loop];
 
   let reason = "";
-  if (matchedKeywords.length > 0) {
+  if (result.topPrediction.learnedFeatures.length > 0) {
+    reason = `Learned: ${result.topPrediction.learnedFeatures.join(", ")}`;
+  } else if (matchedKeywords.length > 0) {
     reason = `Detected: ${matchedKeywords.slice(0, 3).join(", ")}`;
   } else {
     reason = loopDef.description;
@@ -277,3 +296,63 @@ export function quickCategorize(
   const result = predictLoop(taskText, taskHistory);
   return result.topPrediction?.loop || defaultLoop;
 }
+
+export type LoopEvaluationRow = {
+  loop: LoopId;
+  tasks: number; // Tasks actually in this loop
+  predicted: number; // Times the combined prediction picked this loop
+  correct: number;
+};
+
+export type LoopPredictionEvaluation = {
+  tasks: number;
+  keywordAccuracy: number; // 0-1, keyword lists alone
+  modelAccuracy: number; // 0-1, the learned model alone
+  combinedAccuracy: number; // 0-1, what quick add actually suggests
+  rows: LoopEvaluationRow[];
+  confusion: Record<LoopId, Partial<Record<LoopId, number>>>; // Actual loop → predicted loop
+};
+
+// Replay the task history oldest first: predict each title from what came before, then learn it.
+// No prediction counts as a miss. Corrections aren't replayed - this is how a fresh model would fare.
+export function evaluateLoopPrediction(tasks: Task[]): LoopPredictionEvaluation {
+  const ordered = tasks.filter((t) => t.title.trim()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const rows = Object.fromEntries(
+    ALL_LOOPS.map((loop) => [loop, { loop, tasks: 0, predicted: 0, correct: 0 }])
+  ) as Record<LoopId, LoopEvaluationRow>;
+  const confusion = Object.fromEntries(ALL_LOOPS.map((loop) => [loop, {}])) as LoopPredictionEvaluation["confusion"];
+
+  let model = INITIAL_LOOP_MODEL;
+  let keywordHits = 0;
+  let modelHits = 0;
+  let combinedHits = 0;
+
+  for (const task of ordered) {
+    const keyword = predictLoop(task.title).topPrediction?.loop;
+    const learned = classifyLoop(model, task.title)?.loop;
+    const combined = predictLoop(task.title, [], undefined, model).topPrediction?.loop;
+
+    if (keyword === task.loop) keywordHits++;
+    if (learned === task.loop) modelHits++;
+    if (combined === task.loop) combinedHits++;
+
+    rows[task.loop].tasks++;
+    if (combined) {
+      rows[combined].predicted++;
+      confusion[task.loop][combined] = (confusion[task.loop][combined] ?? 0) + 1;
+    }
+    if (combined === task.loop) rows[task.loop].correct++;
+
+    model = trainLoopModel(model, task.title, task.loop, task.subLoop);
+  }
+
+  const total = ordered.length;
+  return {
+    tasks: total,
+    keywordAccuracy: total > 0 ? keywordHits / total : 0,
+    modelAccuracy: total > 0 ? modelHits / total : 0,
+    combinedAccuracy: total > 0 ? combinedHits / total : 0,
+    rows: ALL_LOOPS.map((loop) => rows[loop]),
+    confusion,
+  };
+}
@@ -0,0 +1,496 @@
+// Quick Add Engine - natural language task entry ("Call mom fri 2pm ~30m #Family +Birthday")
+//
+// The input is scanned by an ordered list of rules. Each rule claims the span of text it
+// understood, which becomes a token for the live preview; whatever is left over is the
+// title. Specific rules run first, so "every mon" is read as a recurrence before the
+// date rule can take "mon". Dates are UTC date keys like the rest of the app.
+
+import { LoopId, Priority, ALL_LOOPS, LOOP_DEFINITIONS } from "../types/core";
+import type { ParsedTaskInput, Project } from "../types/projects";
+import type { EnergyLevel, LocationType, RecurrencePattern } from "../types/tasks";
+import { describeRecurrence, getNextOccurrence } from "./recurrenceEngine";
+
+export type QuickAddTokenKind =
+  | "date"
+  | "time"
+  | "recurrence"
+  | "duration"
+  | "priority"
+  | "loop"
+  | "project"
+  | "label"
+  | "energy"
+  | "location";
+
+export type QuickAddToken = {
+  kind: QuickAddTokenKind;
+  start: number; // Span in the input
+  end: number;
+  text: string;
+  label: string; // What the text was read as, e.g. "Fri, Dec 4"
+  unresolved?: boolean; // Recognised syntax that matched nothing, e.g. an unknown +Project
+};
+
+export type QuickAddContext = {
+  today?: string; // YYYY-MM-DD - defaults to the current UTC date
+  projects?: Project[];
+};
+
+export type QuickAddResult = {
+  parsed: ParsedTaskInput;
+  tokens: QuickAddToken[];
+};
+
+// ==================== Vocabulary ====================
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4, last: -1,
+};
+
+// Also ordinary words - only read as dates after on/by/due/this/next
+const AMBIGUOUS_DAYS = new Set(["sun", "sat", "wed"]);
+
+const ENERGY_LEVELS: Record<string, EnergyLevel> = { low: "low", med: "medium", medium: "medium", high: "high" };
+
+const LOCATIONS: Record<string, LocationType> = {
+  home: "home", office: "office", work: "office", gym: "gym", outdoors: "outdoors", outside: "outdoors", anywhere: "anywhere",
+};
+
+const LOCATION_LABELS: Record<LocationType, string> = {
+  home: "At home", office: "At the office", gym: "At the gym", outdoors: "Outdoors", anywhere: "Anywhere",
+};
+
+// Longest first, so "thursday" wins over "thu"
+const alternation = (words: Record<string, unknown>) =>
+  Object.keys(words).sort((a, b) => b.length - a.length).join("|");
+
+const DAY = alternation(WEEKDAYS);
+const MONTH = alternation(MONTHS);
+const COUNT = `\\d+|${alternation(NUMBER_WORDS)}`;
+const ORDINAL = alternation(ORDINALS);
+
+// ==================== Dates ====================
+
+function toDate(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+function toKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(key: string, days: number): string {
+  const date = toDate(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toKey(date);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMonths(key: string, months: number): string {
+  const date = toDate(key);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const day = Math.min(date.getUTCDate(), daysInMonth(target.getUTCFullYear(), target.getUTCMonth() + 1));
+  target.setUTCDate(day);
+  return toKey(target);
+}
+
+// Nearest given weekday on or after today
+function upcomingWeekday(today: string, day: number): string {
+  return addDays(today, (day - toDate(today).getUTCDay() + 7) % 7);
+}
+
+function makeDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// A month and day without a year means the next time that date comes round
+function upcomingMonthDay(today: string, month: number, day: number, year?: number): string | null {
+  if (year !== undefined) return makeDate(year < 100 ? 2000 + year : year, month, day);
+  const thisYear = toDate(today).getUTCFullYear();
+  const date = makeDate(thisYear, month, day);
+  if (date && date >= today) return date;
+  return makeDate(thisYear + 1, month, day);
+}
+
+function parseCount(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+}
+
+export function formatDueDateLabel(date: string, today: string): string {
+  if (date === today) return "Today";
+  if (date === addDays(today, 1)) return "Tomorrow";
+  const sameYear = date.slice(0, 4) === today.slice(0, 4);
+  return toDate(date).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatTimeLabel(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+function formatMinutesLabel(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+function toTime(hours: number, minutes: number): string {
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// ==================== Rules ====================
+
+type ParseState = {
+  parsed: ParsedTaskInput;
+  today: string;
+  projects: Project[];
+};
+
+// Returns the token's label, or null to leave the text alone
+type RuleResult = string | { label: string; unresolved: true } | null;
+
+type Rule = {
+  kind: QuickAddTokenKind;
+  pattern: RegExp;
+  repeatable?: boolean; // Labels - every match counts, not just the first
+  apply: (match: RegExpExecArray, state: ParseState) => RuleResult;
+};
+
+// Tokens are whole words: they start after whitespace (or an opening bracket/comma)
+// and end before whitespace or punctuation
+function rule(
+  kind: QuickAddTokenKind,
+  source: string,
+  apply: Rule["apply"],
+  repeatable = false
+): Rule {
+  return {
+    kind,
+    pattern: new RegExp(`(?<=^|[\\s,(])(?:${source})(?=$|[\\s,.;!?)])`, "gi"),
+    repeatable,
+    apply,
+  };
+}
+
+function setRecurrence(match: RegExpExecArray, state: ParseState, pattern: RecurrencePattern): RuleResult {
+  const afterCompletion = match[0].toLowerCase().startsWith("every!") || /(after|from) (completion|completed|done)$/i.test(match[0]);
+  const recurrence: RecurrencePattern = afterCompletion ? { ...pattern, anchor: "completion" } : pattern;
+  state.parsed.recurrence = recurrence;
+  return describeRecurrence(recurrence);
+}
+
+const EVERY = "every!?|each";
+const COMPLETION = "(?:\\s+(?:after|from)\\s+(?:completion|completed|done))?";
+const DATE_PREFIX = "(?:(?:on|by|due)\\s+)?";
+
+const RULES: Rule[] = [
+  // ---- Recurrence ----
+  rule("recurrence", `(?:${EVERY})\\s+(weekday|workday|weekend)s?${COMPLETION}`, (m, s) =>
+    setRecurrence(m, s, {
+      frequency: "weekly",
+      interval: 1,
+      daysOfWeek: /weekend/i.test(m[1]) ? [0, 6] : [1, 2, 3, 4, 5],
+    })
+  ),
+  rule("recurrence", `(?:${EVERY})\\s+(${ORDINAL})\\s+(${DAY}|weekday|day)(?:\\s+of\\s+(?:the\\s+)?month)?${COMPLETION}`, (m, s) => {
+    const ordinal = ORDINALS[m[1].toLowerCase()];
+    const target = m[2].toLowerCase();
+    if (target === "day") {
+      return setRecurrence(m, s, { frequency: "monthly", interval: 1, monthDays: [ordinal] });
+    }
+    if (target === "weekday") {
+      return setRecurrence(m, s, { frequency: "monthly", interval: 1, daysOfWeek: [1, 2, 3, 4, 5], setPositions: [ordinal] });
+    }
+    return setRecurrence(m, s, { frequency: "monthly", interval: 1, nthWeekdays: [{ day: WEEKDAYS[target], ordinal }] });
+  }),
+  rule("recurrence", `(?:${EVERY})\\s+(?:(other)\\s+)?(${DAY})(?:\\s*(?:,|and|&)\\s*(?:${DAY}))*${COMPLETION}`, (m, s) => {
+    const days = m[0].match(new RegExp(`(?<![a-z])(${DAY})(?![a-z])`, "gi")) || [];
+    return setRecurrence(m, s, {
+      frequency: "weekly",
+      interval: m[1] ? 2 : 1,
+      daysOfWeek: [...new Set(days.map((day) => WEEKDAYS[day.toLowerCase()]))].sort(),
+    });
+  }),
+  rule("recurrence", `(?:${EVERY})\\s+(?:month\\s+on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)${COMPLETION}`, (m, s) => {
+    const day = parseInt(m[1], 10);
+    if (day < 1 || day > 31) return null;
+    return setRecurrence(m, s, { frequency: "monthly", interval: 1, dayOfMonth: day });
+  }),
+  rule("recurrence", `(?:${EVERY})\\s+(?:(other)\\s+|(${COUNT})\\s+)?(day|week|month|year)s?${COMPLETION}`, (m, s) => {
+    const interval = m[1] ? 2 : m[2] ? parseCount(m[2]) : 1;
+    if (!interval) return null;
+    const frequency = ({ day: "daily", week: "weekly", month: "monthly", year: "yearly" } as const)[
+      m[3].toLowerCase() as "day" | "week" | "month" | "year"
+    ];
+    return setRecurrence(m, s, { frequency, interval });
+  }),
+
+  // ---- Duration ----
+  rule("duration", `~\\s*(\\d+(?:\\.\\d+)?)\\s*(h|hrs?|hours?|m|mins?|minutes?)(?:\\s*(\\d+)\\s*(?:m|mins?|minutes?))?`, (m, s) => {
+    const amount = parseFloat(m[1]);
+    const minutes = Math.round(/^h/i.test(m[2]) ? amount * 60 + (m[3] ? parseInt(m[3], 10) : 0) : amount);
+    if (minutes <= 0) return null;
+    s.parsed.estimateMinutes = minutes;
+    return `~${formatMinutesLabel(minutes)}`;
+  }),
+
+  // ---- Time ----
+  rule("time", `(?:at\\s+)?(\\d{1,2})(?::([0-5]\\d))?\\s*(am|pm)`, (m, s) => {
+    const hours = parseInt(m[1], 10);
+    if (hours < 1 || hours > 12) return null;
+    const isPm = m[3].toLowerCase() === "pm";
+    s.parsed.dueTime = toTime((hours % 12) + (isPm ? 12 : 0), m[2] ? parseInt(m[2], 10) : 0);
+    return formatTimeLabel(s.parsed.dueTime);
+  }),
+  rule("time", `(?:at\\s+)?([01]?\\d|2[0-3]):([0-5]\\d)`, (m, s) => {
+    s.parsed.dueTime = toTime(parseInt(m[1], 10), parseInt(m[2], 10));
+    return formatTimeLabel(s.parsed.dueTime);
+  }),
+  rule("time", `(?:at\\s+)?(noon|midnight)`, (m, s) => {
+    s.parsed.dueTime = m[1].toLowerCase() === "noon" ? "12:00" : "00:00";
+    return formatTimeLabel(s.parsed.dueTime);
+  }),
+
+  // ---- Dates ----
+  rule("date", `${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})`, (m, s) =>
+    setDueDate(s, makeDate(parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)))
+  ),
+  rule("date", `${DATE_PREFIX}(today|tod|tonight)`, (_m, s) => setDueDate(s, s.today)),
+  rule("date", `${DATE_PREFIX}(tomorrow|tmrw?)`, (_m, s) => setDueDate(s, addDays(s.today, 1))),
+  rule("date", `in\\s+(${COUNT})\\s+(day|week|month|year)s?`, (m, s) => {
+    const amount = parseCount(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === "day") return setDueDate(s, addDays(s.today, amount));
+    if (unit === "week") return setDueDate(s, addDays(s.today, amount * 7));
+    return setDueDate(s, addMonths(s.today, unit === "month" ? amount : amount * 12));
+  }),
+  rule("date", `next\\s+(week|month|year)`, (m, s) => {
+    const unit = m[1].toLowerCase();
+    if (unit === "week") return setDueDate(s, addDays(s.today, 7));
+    return setDueDate(s, addMonths(s.today, unit === "month" ? 1 : 12));
+  }),
+  rule("date", `${DATE_PREFIX}(?:(this|next)\\s+)?(${DAY})`, (m, s) => {
+    const day = m[2].toLowerCase();
+    if (AMBIGUOUS_DAYS.has(day) && m[0].toLowerCase() === day) return null;
+    const date = upcomingWeekday(s.today, WEEKDAYS[day]);
+    return setDueDate(s, m[1]?.toLowerCase() === "next" ? addDays(date, 7) : date);
+  }),
+  rule("date", `${DATE_PREFIX}(?:this\\s+)?weekend`, (_m, s) => {
+    // Sunday is still "the weekend"
+    const today = toDate(s.today).getUTCDay();
+    return setDueDate(s, today === 0 ? s.today : upcomingWeekday(s.today, 6));
+  }),
+  rule("date", `${DATE_PREFIX}(?:end\\s+of\\s+(?:the\\s+)?month|eom)`, (_m, s) => {
+    const date = toDate(s.today);
+    return setDueDate(s, makeDate(date.getUTCFullYear(), date.getUTCMonth() + 1, daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1)));
+  }),
+  rule("date", `${DATE_PREFIX}(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`, (m, s) =>
+    setDueDate(s, upcomingMonthDay(s.today, MONTHS[m[1].toLowerCase()], parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined))
+  ),
+  rule("date", `${DATE_PREFIX}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})\\.?(?:,?\\s+(\\d{4}))?`, (m, s) =>
+    setDueDate(s, upcomingMonthDay(s.today, MONTHS[m[2].toLowerCase()], parseInt(m[1], 10), m[3] ? parseInt(m[3], 10) : undefined))
+  ),
+  rule("date", `${DATE_PREFIX}(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2}|\\d{4}))?`, (m, s) =>
+    setDueDate(s, upcomingMonthDay(s.today, parseInt(m[1], 10), parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined))
+  ),
+  rule("date", `${DATE_PREFIX}the\\s+(\\d{1,2})(?:st|nd|rd|th)`, (m, s) => {
+    const date = toDate(s.today);
+    const day = parseInt(m[1], 10);
+    let year = date.getUTCFullYear();
+    let month = date.getUTCMonth() + 1;
+    // The next month that has this day, starting with this one
+    for (let i = 0; i < 12; i++) {
+      const candidate = makeDate(year, month, day);
+      if (candidate && candidate >= s.today) return setDueDate(s, candidate);
+      month = month === 12 ? 1 : month + 1;
+      if (month === 1) year++;
+    }
+    return null;
+  }),
+
+  // ---- Priority ----
+  rule("priority", `[pP]([1-4])`, (m, s) => {
+    s.parsed.priority = parseInt(m[1], 10) as Priority;
+    return `P${s.parsed.priority}`;
+  }),
+  rule("priority", `(!!!?)`, (m, s) => {
+    s.parsed.priority = m[1] === "!!" ? 1 : 2;
+    return `P${s.parsed.priority}`;
+  }),
+
+  // ---- Loop and sub-loop ----
+  rule("loop", `#([a-z][\\w-]*)(?:\\/([\\w-]+))?`, (m, s) => {
+    const name = normalizeName(m[1]);
+    const loop = ALL_LOOPS.find((id) => normalizeName(id) === name);
+
+    if (loop) {
+      s.parsed.loop = loop;
+      if (!m[2]) return loopLabel(loop);
+      const subLoop = findSubLoop(loop, m[2]);
+      if (!subLoop) return { label: `${loopLabel(loop)} (no sub-loop "${m[2]}")`, unresolved: true };
+      s.parsed.subLoop = subLoop;
+      return loopLabel(loop, subLoop);
+    }
+
+    // A sub-loop on its own (#Exercise) - only when it belongs to exactly one loop
+    if (m[2]) return null;
+    const owners = ALL_LOOPS.filter((id) => findSubLoop(id, m[1]));
+    if (owners.length !== 1) return null;
+    s.parsed.loop = owners[0];
+    s.parsed.subLoop = findSubLoop(owners[0], m[1])!;
+    return loopLabel(owners[0], s.parsed.subLoop);
+  }),
+
+  // ---- Project ----
+  rule("project", `\\+(?:"([^"]+)"|([a-z0-9][\\w-]*))`, (m, s) => {
+    const name = (m[1] || m[2]).trim();
+    const project = findProject(s.projects, name);
+    if (!project) {
+      s.parsed.projectName = name;
+      return { label: `No project named "${name}"`, unresolved: true };
+    }
+    s.parsed.projectId = project.id;
+    return project.name;
+  }),
+
+  // ---- Energy and location constraints ----
+  rule("energy", `(?:energy|e):(${alternation(ENERGY_LEVELS)})|(low|medium|high)[\\s-]energy`, (m, s) => {
+    const energyLevel = ENERGY_LEVELS[(m[1] || m[2]).toLowerCase()];
+    s.parsed.constraints = { ...s.parsed.constraints, energyLevel };
+    return `${energyLevel[0].toUpperCase()}${energyLevel.slice(1)} energy`;
+  }),
+  rule("location", `(?:at|loc):(${alternation(LOCATIONS)})`, (m, s) => {
+    const location = LOCATIONS[m[1].toLowerCase()];
+    s.parsed.constraints = { ...s.parsed.constraints, location };
+    return LOCATION_LABELS[location];
+  }),
+
+  // ---- Labels ----
+  rule(
+    "label",
+    `@([\\w-]+)`,
+    (m, s) => {
+      s.parsed.labels = [...(s.parsed.labels || []), m[1]];
+      return `@${m[1]}`;
+    },
+    true
+  ),
+];
+
+function setDueDate(state: ParseState, date: string | null): RuleResult {
+  if (!date) return null;
+  state.parsed.dueDate = date;
+  return formatDueDateLabel(date, state.today);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function findSubLoop(loop: LoopId, name: string): string | undefined {
+  return LOOP_DEFINITIONS[loop].subLoops.find((sub) => normalizeName(sub) === normalizeName(name));
+}
+
+function loopLabel(loop: LoopId, subLoop?: string): string {
+  const base = `${LOOP_DEFINITIONS[loop].icon} ${LOOP_DEFINITIONS[loop].name}`;
+  return subLoop ? `${base} / ${subLoop}` : base;
+}
+
+// Exact name first, then a unique prefix ("+kitchen" for "Kitchen Remodel")
+function findProject(projects: Project[], name: string): Project | undefined {
+  const active = projects.filter((p) => !p.archived);
+  const target = normalizeName(name);
+  const exact = active.find((p) => normalizeName(p.name) === target);
+  if (exact) return exact;
+  const prefixed = active.filter((p) => normalizeName(p.name).startsWith(target));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+// ==================== Parsing ====================
+
+export function parseQuickAdd(input: string, context: QuickAddContext = {}): QuickAddResult {
+  const state: ParseState = {
+    parsed: { title: input },
+    today: context.today ?? new Date().toISOString().split("T")[0],
+    projects: context.projects ?? [],
+  };
+  const tokens: QuickAddToken[] = [];
+  const overlaps = (start: number, end: number) => tokens.some((t) => start < t.end && end > t.start);
+
+  for (const { kind, pattern, repeatable, apply } of RULES) {
+    if (!repeatable && tokens.some((t) => t.kind === kind)) continue;
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(input))) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (overlaps(start, end)) continue;
+
+      const result = apply(match, state);
+      if (!result) continue;
+      tokens.push({
+        kind,
+        start,
+        end,
+        text: match[0],
+        ...(typeof result === "string" ? { label: result } : result),
+      });
+      if (!repeatable) break;
+    }
+  }
+  tokens.sort((a, b) => a.start - b.start);
+
+  // A recurrence with no date starts at its first occurrence from today
+  const { parsed, today } = state;
+  if (parsed.recurrence && !parsed.dueDate) {
+    parsed.dueDate = getNextOccurrence(parsed.recurrence, today, addDays(today, -1)) ?? today;
+  }
+  // A time on its own means today
+  if (parsed.dueTime && !parsed.dueDate) {
+    parsed.dueDate = today;
+  }
+
+  let title = "";
+  let position = 0;
+  for (const token of tokens) {
+    title += `${input.slice(position, token.start)} `;
+    position = token.end;
+  }
+  title += input.slice(position);
+  parsed.title = title.replace(/\s+/g, " ").replace(/\s+([,.;!?])/g, "$1").replace(/^[\s,;]+|[\s,;]+$/g, "");
+
+  return { parsed, tokens };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { RecurrencePattern } from "../types/tasks";
+import {
+  findNextOccurrence,
+  formatRRule,
+  getNextOccurrence,
+  getNextRecurrence,
+  getUpcomingOccurrences,
+  parseRRule,
+} from "./recurrenceEngine";
+
+const rule = (text: string): RecurrencePattern => {
+  const pattern = parseRRule(text);
+  if (!pattern) throw new Error(`Didn't parse: ${text}`);
+  return pattern;
+};
+
+describe("ordinal weekdays", () => {
+  it("repeats on the 2nd Tuesday of each month", () => {
+    const pattern = rule("RRULE:FREQ=MONTHLY;BYDAY=2TU");
+    expect(pattern.nthWeekdays).toEqual([{ day: 2, ordinal: 2 }]);
+    expect(getUpcomingOccurrences(pattern, "2026-10-13", 3)).toEqual(["2026-11-10", "2026-12-08", "2027-01-12"]);
+  });
+
+  it("counts negative ordinals from the end of the month", () => {
+    const pattern = rule("RRULE:FREQ=MONTHLY;BYDAY=-1FR");
+    expect(getUpcomingOccurrences(pattern, "2026-10-30", 3)).toEqual(["2026-11-27", "2026-12-25", "2027-01-29"]);
+  });
+
+  it("picks the last weekday of the month with BYSETPOS", () => {
+    const pattern = rule("RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1");
+    // Oct 31 2026 is a Saturday, Jan 31 2027 a Sunday
+    expect(getUpcomingOccurrences(pattern, "2026-10-01", 4)).toEqual([
+      "2026-10-30",
+      "2026-11-30",
+      "2026-12-31",
+      "2027-01-29",
+    ]);
+  });
+});
+
+describe("completion anchoring", () => {
+  it("counts the next date from the day the task was done", () => {
+    const pattern = rule("RRULE:FREQ=DAILY;INTERVAL=3;X-LOOOPS-ANCHOR=COMPLETION");
+    expect(pattern.anchor).toBe("completion");
+    expect(getNextRecurrence(pattern, "2026-10-10", "2026-10-15")).toEqual({ dueDate: "2026-10-18", occurrence: 2 });
+  });
+
+  it("keeps a fixed schedule, passing over dates missed while overdue", () => {
+    const pattern = rule("RRULE:FREQ=DAILY;INTERVAL=3");
+    expect(getNextRecurrence(pattern, "2026-10-10", "2026-10-15")).toEqual({ dueDate: "2026-10-16", occurrence: 3 });
+  });
+
+  it("keeps an occurrence that falls on the completion day", () => {
+    const pattern = rule("RRULE:FREQ=WEEKLY;BYDAY=MO,TH");
+    // Due Monday the 12th, done Thursday the 15th - Thursday's occurrence still stands
+    expect(getNextRecurrence(pattern, "2026-10-12", "2026-10-15")).toEqual({ dueDate: "2026-10-15", occurrence: 2 });
+  });
+});
+
+describe("exception dates", () => {
+  it("skips EXDATEs and reports how many were passed over", () => {
+    const pattern = rule("RRULE:FREQ=DAILY\nEXDATE;VALUE=DATE:20261011,20261012");
+    expect(pattern.exceptions).toEqual(["2026-10-11", "2026-10-12"]);
+    expect(findNextOccurrence(pattern, "2026-10-10")).toEqual({ date: "2026-10-13", skipped: 2 });
+  });
+
+  it("counts skipped dates towards COUNT", () => {
+    const pattern: RecurrencePattern = { ...rule("RRULE:FREQ=DAILY;COUNT=3\nEXDATE:20261011"), occurrence: 2 };
+    expect(getNextRecurrence(pattern, "2026-10-10", "2026-10-10")).toBeNull();
+  });
+});
+
+describe("COUNT and UNTIL", () => {
+  it("ends the series after COUNT occurrences", () => {
+    const pattern = rule("RRULE:FREQ=WEEKLY;COUNT=3");
+    expect(getNextRecurrence(pattern, "2026-10-05", "2026-10-05")).toEqual({ dueDate: "2026-10-12", occurrence: 2 });
+    expect(getNextRecurrence({ ...pattern, occurrence: 3 }, "2026-10-19", "2026-10-19")).toBeNull();
+    expect(getUpcomingOccurrences(pattern, "2026-10-05", 5)).toEqual(["2026-10-12", "2026-10-19"]);
+  });
+
+  it("ends the series on the UNTIL date, inclusive", () => {
+    const pattern = rule("RRULE:FREQ=DAILY;UNTIL=20261012");
+    expect(pattern.endDate).toBe("2026-10-12");
+    expect(getUpcomingOccurrences(pattern, "2026-10-10", 5)).toEqual(["2026-10-11", "2026-10-12"]);
+    expect(getNextOccurrence(pattern, "2026-10-12")).toBeNull();
+  });
+
+  it("reads the date from an UNTIL with a time", () => {
+    const pattern = rule("RRULE:FREQ=DAILY;UNTIL=20261012T235959Z");
+    expect(pattern.endDate).toBe("2026-10-12");
+    expect(getNextOccurrence(pattern, "2026-10-12")).toBeNull();
+  });
+});
+
+describe("parse/format round-trip", () => {
+  it.each([
+    "RRULE:FREQ=DAILY",
+    "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR",
+    "RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=6",
+    "RRULE:FREQ=MONTHLY;BYMONTHDAY=-1",
+    "RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+    "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+    "RRULE:FREQ=DAILY;UNTIL=20261231",
+    "RRULE:FREQ=DAILY;UNTIL=20261231T235959Z",
+    "RRULE:FREQ=WEEKLY;UNTIL=20261231T170000;WKST=MO",
+    "RRULE:FREQ=DAILY;INTERVAL=3;X-LOOOPS-ANCHOR=COMPLETION",
+    "RRULE:FREQ=DAILY\nEXDATE;VALUE=DATE:20261011,20261012",
+  ])("formats %s back as written", (text) => {
+    expect(formatRRule(rule(text))).toBe(text);
+  });
+
+  it("parses a formatted pattern back to the same pattern", () => {
+    const pattern = rule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,1MO;COUNT=4;UNTIL=20270630T120000Z;WKST=SU\nEXDATE:20261102");
+    expect(rule(formatRRule(pattern))).toEqual(pattern);
+  });
+
+  it("writes a plain date once the end date is changed", () => {
+    const pattern = rule("RRULE:FREQ=DAILY;UNTIL=20261231T235959Z");
+    expect(formatRRule({ ...pattern, endDate: "2027-01-15" })).toBe("RRULE:FREQ=DAILY;UNTIL=20270115");
+  });
+
+  it("rejects rules the engine can't schedule", () => {
+    expect(parseRRule("RRULE:FREQ=HOURLY")).toBeNull();
+    expect(parseRRule("RRULE:FREQ=DAILY;INTERVAL=0")).toBeNull();
+    expect(parseRRule("RRULE:FREQ=MONTHLY;BYDAY=9XX")).toBeNull();
+  });
+});
@@ -0,0 +1,462 @@
+// Recurrence Engine - iCalendar (RFC 5545) RRULE recurrence for tasks
+//
+// Dates are plain calendar days (YYYY-MM-DD) worked out in UTC, so DST changes never
+// shift an occurrence. Periods (day/week/month/year) are counted from the anchor date:
+// the current due date on a fixed schedule, or the completion date for "after completion".
+
+import type { RecurrencePattern, RecurrenceWeekday } from "../types/tasks";
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const LONG_DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const FREQUENCIES: Record<string, RecurrencePattern["frequency"]> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+  YEARLY: "yearly",
+};
+
+// Rules that can never match (e.g. every Feb 30th) stop after this many periods
+const MAX_PERIODS = 1000;
+
+// ==================== Dates ====================
+
+function toDate(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function daysBetween(start: Date, end: Date): Date[] {
+  const days: Date[] = [];
+  for (let d = start; d < end; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+// Pick the nth item (1-based, negative from the end) - BYSETPOS and BYDAY ordinals
+function pickPositions<T>(items: T[], positions: number[]): T[] {
+  return positions
+    .map((pos) => (pos > 0 ? items[pos - 1] : items[items.length + pos]))
+    .filter((item): item is T => item !== undefined);
+}
+
+// ==================== Expansion ====================
+
+function getByDay(pattern: RecurrencePattern): RecurrenceWeekday[] {
+  return [
+    ...(pattern.daysOfWeek || []).map((day) => ({ day, ordinal: 0 })),
+    ...(pattern.nthWeekdays || []),
+  ];
+}
+
+function getMonthDays(pattern: RecurrencePattern): number[] | undefined {
+  if (pattern.monthDays && pattern.monthDays.length > 0) return pattern.monthDays;
+  return pattern.dayOfMonth ? [pattern.dayOfMonth] : undefined;
+}
+
+function matchesMonthDay(date: Date, monthDays: number[]): boolean {
+  const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  const day = date.getUTCDate();
+  return monthDays.some((md) => (md > 0 ? md === day : length + md + 1 === day));
+}
+
+// BYDAY match; ordinals ("2TU", "-1FR") count within scope (the month or year)
+function matchesByDay(date: Date, byDay: RecurrenceWeekday[], scope: Date[]): boolean {
+  return byDay.some(({ day, ordinal }) => {
+    if (date.getUTCDay() !== day) return false;
+    if (!ordinal) return true;
+    const sameWeekday = scope.filter((d) => d.getUTCDay() === day);
+    return pickPositions(sameWeekday, [ordinal]).some((d) => d.getTime() === date.getTime());
+  });
+}
+
+function getPeriodStart(pattern: RecurrencePattern, anchor: Date, offset: number): Date {
+  switch (pattern.frequency) {
+    case "weekly": {
+      // Weeks start on Monday (RRULE's default WKST)
+      const weekStart = addDays(anchor, -((anchor.getUTCDay() + 6) % 7));
+      return addDays(weekStart, offset * 7);
+    }
+    case "monthly":
+      return new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + offset, 1));
+    case "yearly":
+      return new Date(Date.UTC(anchor.getUTCFullYear() + offset, 0, 1));
+    default:
+      return addDays(anchor, offset);
+  }
+}
+
+// Every occurrence inside one period, in date order
+function expandPeriod(pattern: RecurrencePattern, start: Date, anchor: Date): Date[] {
+  const byDay = getByDay(pattern);
+  const monthDays = getMonthDays(pattern);
+  const months = pattern.months && pattern.months.length > 0 ? pattern.months : undefined;
+  const inMonths = (d: Date) => !months || months.includes(d.getUTCMonth() + 1);
+  let days: Date[];
+
+  switch (pattern.frequency) {
+    case "weekly":
+      days = daysBetween(start, addDays(start, 7))
+        .filter((d) => (byDay.length > 0
+          ? byDay.some((b) => b.day === d.getUTCDay())
+          : d.getUTCDay() === anchor.getUTCDay()))
+        .filter(inMonths);
+      break;
+
+    case "monthly": {
+      const month = daysBetween(start, new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)));
+      days = month.filter(inMonths);
+      if (monthDays) days = days.filter((d) => matchesMonthDay(d, monthDays));
+      if (byDay.length > 0) days = days.filter((d) => matchesByDay(d, byDay, month));
+      if (!monthDays && byDay.length === 0) days = days.filter((d) => d.getUTCDate() === anchor.getUTCDate());
+      break;
+    }
+
+    case "yearly": {
+      const year = daysBetween(start, new Date(Date.UTC(start.getUTCFullYear() + 1, 0, 1)));
+      days = year.filter(inMonths);
+      if (monthDays) days = days.filter((d) => matchesMonthDay(d, monthDays));
+      if (byDay.length > 0) {
+        // Ordinals count within the month when BYMONTH is set, otherwise within the year
+        const scopeOf = (d: Date) => (months ? year.filter((y) => y.getUTCMonth() === d.getUTCMonth()) : year);
+        days = days.filter((d) => matchesByDay(d, byDay, scopeOf(d)));
+      }
+      if (!monthDays && byDay.length === 0) {
+        days = days.filter((d) =>
+          d.getUTCDate() === anchor.getUTCDate() && (months || d.getUTCMonth() === anchor.getUTCMonth())
+        );
+      }
+      break;
+    }
+
+    default:
+      // daily (and legacy "custom", which was always every N days)
+      days = [start]
+        .filter(inMonths)
+        .filter((d) => !monthDays || matchesMonthDay(d, monthDays))
+        .filter((d) => byDay.length === 0 || byDay.some((b) => b.day === d.getUTCDay()));
+  }
+
+  return pattern.setPositions && pattern.setPositions.length > 0
+    ? pickPositions(days, pattern.setPositions).sort((a, b) => a.getTime() - b.getTime())
+    : days;
+}
+
+// ==================== Occurrences ====================
+
+export type OccurrenceStep = {
+  date: string | null; // null once the rule is exhausted (endDate) or can't match
+  skipped: number; // Occurrences passed over as exceptions - they still count towards count
+};
+
+// First occurrence strictly after `after`, with periods counted from `anchor`
+export function findNextOccurrence(
+  pattern: RecurrencePattern,
+  anchor: string,
+  after: string = anchor
+): OccurrenceStep {
+  const interval = Math.max(1, Math.floor(pattern.interval || 1));
+  const anchorDate = toDate(anchor);
+  const exceptions = new Set(pattern.exceptions || []);
+  let skipped = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const start = getPeriodStart(pattern, anchorDate, period * interval);
+    for (const candidate of expandPeriod(pattern, start, anchorDate)) {
+      const key = toKey(candidate);
+      if (key <= after) continue;
+      if (pattern.endDate && key > pattern.endDate) return { date: null, skipped };
+      if (exceptions.has(key)) {
+        skipped++;
+        continue;
+      }
+      return { date: key, skipped };
+    }
+  }
+  return { date: null, skipped };
+}
+
+export function getNextOccurrence(pattern: RecurrencePattern, anchor: string, after?: string): string | null {
+  return findNextOccurrence(pattern, anchor, after).date;
+}
+
+// The next few dates on a fixed schedule from `from` - for previews
+export function getUpcomingOccurrences(pattern: RecurrencePattern, from: string, limit: number): string[] {
+  const dates: string[] = [];
+  let occurrence = pattern.occurrence ?? 1;
+  let after = from;
+  while (dates.length < limit) {
+    const { date, skipped } = findNextOccurrence(pattern, from, after);
+    occurrence += 1 + skipped;
+    if (!date || (pattern.count && occurrence > pattern.count)) break;
+    dates.push(date);
+    after = date;
+  }
+  return dates;
+}
+
+export type NextRecurrence = {
+  dueDate: string;
+  occurrence: number;
+};
+
+// Where a recurring task goes next once completed on `completedOn`, or null when the
+// series is exhausted. Fixed schedules skip occurrences that have already passed
+// (those still count towards count) but keep one that falls on the completion day.
+export function getNextRecurrence(
+  pattern: RecurrencePattern,
+  dueDate: string | undefined,
+  completedOn: string
+): NextRecurrence | null {
+  let occurrence = pattern.occurrence ?? 1;
+  const isExhausted = () => !!pattern.count && occurrence > pattern.count;
+
+  if (pattern.anchor === "completion" || !dueDate) {
+    const { date, skipped } = findNextOccurrence(pattern, completedOn);
+    occurrence += 1 + skipped;
+    return date && !isExhausted() ? { dueDate: date, occurrence } : null;
+  }
+
+  let after = dueDate;
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    const { date, skipped } = findNextOccurrence(pattern, dueDate, after);
+    occurrence += 1 + skipped;
+    if (!date || isExhausted()) return null;
+    if (date >= completedOn) return { dueDate: date, occurrence };
+    after = date;
+  }
+  return null;
+}
+
+// ==================== RRULE strings ====================
+
+function formatDayCode({ day, ordinal }: RecurrenceWeekday): string {
+  return `${ordinal || ""}${DAY_CODES[day]}`;
+}
+
+function parseDateValue(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parseNumberList(value: string): number[] | null {
+  const numbers = value.split(",").map((v) => parseInt(v, 10));
+  return numbers.every((n) => Number.isFinite(n) && n !== 0) ? numbers : null;
+}
+
+// Parse "RRULE:..." (optionally with EXDATE lines) into a pattern.
+// Returns null for anything this engine can't schedule - sub-daily rules or bad syntax.
+export function parseRRule(text: string): RecurrencePattern | null {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  let pattern: RecurrencePattern | null = null;
+  const exceptions: string[] = [];
+
+  for (const line of lines) {
+    const [name, ...rest] = line.split(":");
+    const value = rest.join(":");
+    const property = rest.length > 0 ? name.split(";")[0].toUpperCase() : "RRULE";
+    const body = rest.length > 0 ? value : line;
+
+    if (property === "EXDATE") {
+      for (const date of body.split(",")) {
+        const key = parseDateValue(date);
+        if (key) exceptions.push(key);
+      }
+      continue;
+    }
+    if (property !== "RRULE") continue; // DTSTART etc. - the task's due date is the start
+
+    const parts = Object.fromEntries(
+      body.split(";").filter(Boolean).map((part) => {
+        const [key, ...v] = part.split("=");
+        return [key.toUpperCase(), v.join("=")];
+      })
+    );
+    const frequency = FREQUENCIES[(parts.FREQ || "").toUpperCase()];
+    if (!frequency) return null;
+
+    const next: RecurrencePattern = { frequency, interval: 1 };
+    const extraRules: Record<string, string> = {};
+
+    for (const [key, raw] of Object.entries(parts)) {
+      const upper = raw.toUpperCase();
+      switch (key) {
+        case "FREQ":
+          break;
+        case "INTERVAL": {
+          const interval = parseInt(raw, 10);
+          if (!(interval > 0)) return null;
+          next.interval = interval;
+          break;
+        }
+        case "COUNT": {
+          const count = parseInt(raw, 10);
+          if (!(count > 0)) return null;
+          next.count = count;
+          break;
+        }
+        case "UNTIL": {
+          const until = parseDateValue(raw);
+          if (!until) return null;
+          next.endDate = until;
+          next.until = raw;
+          break;
+        }
+        case "BYDAY": {
+          const days: number[] = [];
+          const nth: RecurrenceWeekday[] = [];
+          for (const code of upper.split(",")) {
+            const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+            if (!match) return null;
+            const day = DAY_CODES.indexOf(match[2]);
+            const ordinal = match[1] ? parseInt(match[1], 10) : 0;
+            if (ordinal) nth.push({ day, ordinal });
+            else days.push(day);
+          }
+          if (days.length > 0) next.daysOfWeek = days;
+          if (nth.length > 0) next.nthWeekdays = nth;
+          break;
+        }
+        case "BYMONTHDAY": {
+          const monthDays = parseNumberList(raw);
+          if (!monthDays) return null;
+          next.monthDays = monthDays;
+          break;
+        }
+        case "BYMONTH": {
+          const months = parseNumberList(raw);
+          if (!months) return null;
+          next.months = months;
+          break;
+        }
+        case "BYSETPOS": {
+          const positions = parseNumberList(raw);
+          if (!positions) return null;
+          next.setPositions = positions;
+          break;
+        }
+        case "X-LOOOPS-ANCHOR":
+          if (upper === "COMPLETION") next.anchor = "completion";
+          break;
+        default:
+          // Parts this engine doesn't interpret (WKST, BYWEEKNO, BYHOUR...) are
+          // kept as-is so the rule round-trips
+          extraRules[key] = raw;
+      }
+    }
+    if (Object.keys(extraRules).length > 0) next.extraRules = extraRules;
+    pattern = next;
+  }
+
+  if (pattern && exceptions.length > 0) pattern.exceptions = exceptions;
+  return pattern;
+}
+
+// Format a pattern as an RRULE line, plus an EXDATE line when there are exceptions
+export function formatRRule(pattern: RecurrencePattern): string {
+  const parts: string[] = [];
+  const frequency = pattern.frequency === "custom" ? "daily" : pattern.frequency;
+  parts.push(`FREQ=${frequency.toUpperCase()}`);
+  if (pattern.interval > 1) parts.push(`INTERVAL=${pattern.interval}`);
+  if (pattern.months?.length) parts.push(`BYMONTH=${pattern.months.join(",")}`);
+
+  const monthDays = getMonthDays(pattern);
+  if (monthDays) parts.push(`BYMONTHDAY=${monthDays.join(",")}`);
+
+  const byDay = getByDay(pattern).sort((a, b) => a.ordinal - b.ordinal || ((a.day + 6) % 7) - ((b.day + 6) % 7));
+  if (byDay.length > 0) parts.push(`BYDAY=${byDay.map(formatDayCode).join(",")}`);
+
+  if (pattern.setPositions?.length) parts.push(`BYSETPOS=${pattern.setPositions.join(",")}`);
+  if (pattern.count) parts.push(`COUNT=${pattern.count}`);
+  if (pattern.endDate) {
+    const keepsUntil = pattern.until && parseDateValue(pattern.until) === pattern.endDate;
+    parts.push(`UNTIL=${keepsUntil ? pattern.until : pattern.endDate.replace(/-/g, "")}`);
+  }
+  for (const [key, value] of Object.entries(pattern.extraRules || {})) {
+    parts.push(`${key}=${value}`);
+  }
+  if (pattern.anchor === "completion") parts.push("X-LOOOPS-ANCHOR=COMPLETION");
+
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (pattern.exceptions?.length) {
+    lines.push(`EXDATE;VALUE=DATE:${pattern.exceptions.map((d) => d.replace(/-/g, "")).join(",")}`);
+  }
+  return lines.join("\n");
+}
+
+// ==================== Labels ====================
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return "last";
+  if (n < -1) return `${ordinalLabel(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+function describeDays(pattern: RecurrencePattern): string | null {
+  const days = pattern.daysOfWeek || [];
+  const nth = pattern.nthWeekdays || [];
+  const isWeekdays = days.length === 5 && [1, 2, 3, 4, 5].every((d) => days.includes(d));
+  const positions = pattern.setPositions || [];
+
+  if (positions.length === 1 && nth.length === 0 && days.length > 0) {
+    const what = isWeekdays ? "weekday" : days.length === 1 ? LONG_DAY_NAMES[days[0]] : days.map((d) => DAY_NAMES[d]).join("/");
+    return `the ${ordinalLabel(positions[0])} ${what}`;
+  }
+  if (nth.length > 0 && days.length === 0 && positions.length === 0) {
+    return nth.map((n) => `the ${ordinalLabel(n.ordinal)} ${LONG_DAY_NAMES[n.day]}`).join(" and ");
+  }
+  if (days.length > 0 && nth.length === 0 && positions.length === 0) {
+    return isWeekdays ? "weekdays" : days.map((d) => DAY_NAMES[d]).join(", ");
+  }
+  return null;
+}
+
+function describeMonthDays(monthDays: number[]): string {
+  return monthDays.map((d) => (d === -1 ? "the last day" : `the ${ordinalLabel(d)}`)).join(" and ");
+}
+
+export function describeRecurrence(pattern: RecurrencePattern): string {
+  const { frequency, interval } = pattern;
+  const every = (unit: string, plural: string) => (interval === 1 ? unit : `Every ${interval} ${plural}`);
+  const days = describeDays(pattern);
+  const monthDays = getMonthDays(pattern);
+  let label: string;
+
+  switch (frequency) {
+    case "weekly":
+      if (days === "weekdays" && interval === 1) label = "Weekdays";
+      else label = days ? `${every("Weekly", "weeks")} on ${days}` : every("Weekly", "weeks");
+      break;
+    case "monthly":
+    case "yearly": {
+      label = frequency === "monthly" ? every("Monthly", "months") : every("Yearly", "years");
+      if (pattern.months?.length) label += ` in ${pattern.months.map((m) => MONTH_NAMES[m - 1]).join(", ")}`;
+      const on = [days, monthDays && describeMonthDays(monthDays)].filter(Boolean);
+      if (on.length > 0) label += ` on ${on.join(", ")}`;
+      break;
+    }
+    default:
+      label = interval === 1 ? "Daily" : `Every ${interval} days`;
+      if (days) label += ` (${days})`;
+  }
+
+  if (pattern.anchor === "completion") label += " after completion";
+  if (pattern.count) label += `, ${pattern.count} times`;
+  if (pattern.endDate) {
+    label += `, until ${toDate(pattern.endDate).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })}`;
+  }
+  return label;
+}
@@ -0,0 +1,244 @@
+// Reminder Engine - works out which local notifications are due and when
+//
+// Sources are task due times, explicit task reminders, routine start times, special dates with a
+// reminder action and babysitter bookings. Every candidate then passes through the day type
+// (muted days drop it) and quiet hours (held until the window ends). All times are local.
+
+import { getLocalDateKey } from "../types/core";
+import type { Task, TaskReminder } from "../types";
+import type { Routine } from "../types/routines";
+import type { SpecialDate } from "../types/specialDates";
+import type { ScheduleEntry } from "../types/babysitter";
+import type { DayType, SmartScheduleState } from "../types/dayTypes";
+import type { NotificationTarget, QuietHours, ReminderKind, ReminderSettings } from "../types/reminders";
+import { getRoutinesDueTodayWithDayType, getEffectiveSchedule } from "../types/routines";
+import { getReminderActionLabel } from "../types/specialDates";
+import { getDayTypes, getDayTypeConfig, getActiveRoutines } from "./smartSchedulerEngine";
+import { isTaskOpen } from "./dependencyEngine";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type ReminderSources = {
+  tasks: Task[];
+  reminders: TaskReminder[];
+  routines: Routine[];
+  specialDates: SpecialDate[];
+  babysitterSchedule: ScheduleEntry[];
+  smartSchedule: SmartScheduleState;
+  settings: ReminderSettings;
+};
+
+export type ScheduledNotification = {
+  key: string; // Stable per occurrence - changes when the item is rescheduled
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  fireAt: number; // Epoch ms, after quiet hours
+  deferred: boolean; // Held back by quiet hours
+  target: NotificationTarget;
+};
+
+type Candidate = Omit<ScheduledNotification, "deferred">;
+
+// "14:00", "6:00 PM", "6pm" → minutes after midnight
+export function parseTimeOfDay(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?$/i);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (!meridiem && !match[2]) return null; // A bare number isn't a time
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Local epoch ms for a date key and minutes after midnight
+function atLocal(dateKey: string, minutes: number): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60).getTime();
+}
+
+// Date at local noon - safe to hand to helpers that read either local or UTC parts
+function noonOf(dateKey: string): Date {
+  return new Date(`${dateKey}T12:00:00`);
+}
+
+function dayTypesFor(dateKey: string, smartSchedule: SmartScheduleState): DayType[] {
+  return getDayTypes(noonOf(dateKey), smartSchedule);
+}
+
+// Quiet hours in effect on a day - a day type's own window wins over the default
+export function getQuietHours(dayTypes: DayType[], settings: ReminderSettings): QuietHours | null {
+  for (const dayType of dayTypes) {
+    const override = settings.dayTypeQuietHours[dayType];
+    if (override) return override;
+  }
+  return settings.quietHours;
+}
+
+// When a notification at `time` may actually be shown - `time` itself, or the end of quiet hours
+export function applyQuietHours(time: number, settings: ReminderSettings, smartSchedule: SmartScheduleState): number {
+  const date = new Date(time);
+  const dateKey = getLocalDateKey(date);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  // A window that wraps past midnight belongs to the evening it started on
+  const check = (dayKey: string, offsetMinutes: number): number | null => {
+    const quiet = getQuietHours(dayTypesFor(dayKey, smartSchedule), settings);
+    const start = parseTimeOfDay(quiet?.start);
+    const end = parseTimeOfDay(quiet?.end);
+    if (start === null || end === null || start === end) return null;
+    const at = minutes + offsetMinutes;
+    const windowEnd = start < end ? end : end + 24 * 60;
+    if (at >= start && at < windowEnd) {
+      return atLocal(dayKey, windowEnd);
+    }
+    return null;
+  };
+
+  const previousKey = getLocalDateKey(new Date(atLocal(dateKey, 12 * 60) - DAY_MS));
+  return check(dateKey, 0) ?? check(previousKey, 24 * 60) ?? time;
+}
+
+function taskCandidates(sources: ReminderSources, dateKeys: Set<string>): Candidate[] {
+  const { tasks, reminders, settings } = sources;
+  const candidates: Candidate[] = [];
+
+  if (settings.kinds.task) {
+    for (const task of tasks) {
+      if (!isTaskOpen(task) || !task.dueDate || !dateKeys.has(task.dueDate)) continue;
+      const minutes = parseTimeOfDay(task.dueTime);
+      if (minutes === null) continue;
+      candidates.push({
+        key: `task:${task.id}:${task.dueDate}T${task.dueTime}`,
+        kind: "task",
+        title: task.title,
+        body: `Due at ${task.dueTime}`,
+        fireAt: atLocal(task.dueDate, minutes) - settings.taskLeadMinutes * MINUTE_MS,
+        target: { kind: "task", id: task.id },
+      });
+    }
+  }
+
+  // Location reminders need geofencing, which a PWA can't do in the background - time only
+  if (settings.kinds.reminder) {
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    for (const reminder of reminders) {
+      const task = byId.get(reminder.taskId);
+      if (reminder.type !== "time" || !reminder.datetime || !task || !isTaskOpen(task)) continue;
+      const fireAt = new Date(reminder.datetime).getTime();
+      if (isNaN(fireAt)) continue;
+      candidates.push({
+        key: `reminder:${reminder.id}:${reminder.datetime}`,
+        kind: "reminder",
+        title: task.title,
+        body: task.dueDate ? `Reminder - due ${task.dueDate}${task.dueTime ? ` at ${task.dueTime}` : ""}` : "Reminder",
+        fireAt,
+        target: { kind: "task", id: task.id },
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function routineCandidates(sources: ReminderSources, dateKey: string): Candidate[] {
+  const { routines, smartSchedule, settings } = sources;
+  if (!settings.kinds.routine) return [];
+
+  const dayTypes = dayTypesFor(dateKey, smartSchedule);
+  let due = getRoutinesDueTodayWithDayType(routines, dayTypes, noonOf(dateKey));
+  if (smartSchedule.enabled) {
+    due = getActiveRoutines(due, getDayTypeConfig(dayTypes[0], smartSchedule));
+  }
+
+  const candidates: Candidate[] = [];
+  for (const routine of due) {
+    const schedule = getEffectiveSchedule(routine, dayTypes[0]);
+    const minutes = parseTimeOfDay(schedule.specificTime);
+    if (minutes === null) continue;
+    candidates.push({
+      key: `routine:${routine.id}:${dateKey}`,
+      kind: "routine",
+      title: `${routine.icon ? `${routine.icon} ` : ""}${routine.title}`,
+      body: `Starts at ${schedule.specificTime}`,
+      fireAt: atLocal(dateKey, minutes) - settings.routineLeadMinutes * MINUTE_MS,
+      target: { kind: "routine", id: routine.id },
+    });
+  }
+  return candidates;
+}
+
+function specialDateCandidates(sources: ReminderSources, dateKey: string): Candidate[] {
+  const { specialDates, settings } = sources;
+  const minutes = parseTimeOfDay(settings.specialDateTime);
+  if (!settings.kinds.specialDate || minutes === null) return [];
+
+  return specialDates
+    .filter((d) => d.reminderAction)
+    .filter((d) => (d.recurring ? d.date.slice(5) === dateKey.slice(5) : d.date === dateKey))
+    .map((d) => ({
+      key: `specialDate:${d.id}:${dateKey}`,
+      kind: "specialDate" as const,
+      title: d.title,
+      body: d.reminderMessage || `${getReminderActionLabel(d.reminderAction)} ${d.personName}`,
+      fireAt: atLocal(dateKey, minutes),
+      target: { kind: "specialDate" as const, id: d.id },
+    }));
+}
+
+function babysitterCandidates(sources: ReminderSources, dateKeys: Set<string>): Candidate[] {
+  const { babysitterSchedule, settings } = sources;
+  if (!settings.kinds.babysitter) return [];
+
+  const candidates: Candidate[] = [];
+  for (const entry of babysitterSchedule) {
+    if (entry.status === "cancelled" || !dateKeys.has(entry.date)) continue;
+    const minutes = parseTimeOfDay(entry.startTime);
+    if (minutes === null) continue;
+    candidates.push({
+      key: `babysitter:${entry.id}:${entry.date}:${entry.startTime}`,
+      kind: "babysitter",
+      title: `${entry.caregiverName} at ${entry.startTime}`,
+      body: `${entry.status === "pending" ? "Unconfirmed booking" : "Babysitter"}, ${entry.startTime}-${entry.endTime}`,
+      fireAt: atLocal(entry.date, minutes) - settings.babysitterLeadMinutes * MINUTE_MS,
+      target: { kind: "babysitter", id: entry.id },
+    });
+  }
+  return candidates;
+}
+
+// Notifications that fall in [from, until], after day types and quiet hours, soonest first
+export function scheduleNotifications(sources: ReminderSources, from: Date, until: Date): ScheduledNotification[] {
+  const { settings, smartSchedule } = sources;
+  if (!settings.enabled) return [];
+
+  // Start a day early so items held overnight by quiet hours are still found
+  const dateKeys: string[] = [];
+  for (let time = from.getTime() - DAY_MS; time <= until.getTime() + DAY_MS; time += DAY_MS) {
+    dateKeys.push(getLocalDateKey(new Date(time)));
+  }
+  const dateKeySet = new Set(dateKeys);
+
+  const candidates = [
+    ...taskCandidates(sources, dateKeySet),
+    ...babysitterCandidates(sources, dateKeySet),
+    ...dateKeys.flatMap((key) => [...routineCandidates(sources, key), ...specialDateCandidates(sources, key)]),
+  ];
+
+  const muted = new Set(settings.mutedDayTypes);
+  const scheduled: ScheduledNotification[] = [];
+  for (const candidate of candidates) {
+    const fireAt = applyQuietHours(candidate.fireAt, settings, smartSchedule);
+    if (fireAt < from.getTime() || fireAt > until.getTime()) continue;
+    const fireDayTypes = dayTypesFor(getLocalDateKey(new Date(fireAt)), smartSchedule);
+    if (fireDayTypes.some((t) => muted.has(t))) continue;
+    scheduled.push({ ...candidate, fireAt, deferred: fireAt !== candidate.fireAt });
+  }
+
+  return scheduled.sort((a, b) => a.fireAt - b.fireAt);
+}
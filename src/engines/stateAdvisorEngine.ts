@@ -0,0 +1,353 @@
+// State Advisor Engine - scores each loop from real signals and proposes state changes
+//
+// Every signal is normalized to roughly -1..1 and multiplied by a weight. A positive
+// total says the loop has room to step up a state, a negative one that it should
+// step down. Weights start from sensible defaults and are nudged by each accepted
+// or rejected proposal, so the advisor learns which signals you actually act on.
+
+import {
+  LoopId,
+  LoopState,
+  LoopStateType,
+  CascadeRule,
+  Task,
+  System,
+  ComponentCompletion,
+  FinanceTransaction,
+  LoopBudget,
+  SpecialDate,
+  ALL_LOOPS,
+  STATE_PRIORITY,
+  getLocalDateKey,
+} from "../types";
+import { ConditionContext } from "./conditionEngine";
+import { getCascadeResult } from "./cascadeEngine";
+import { getStateDisplayName, transitionLoopState } from "./stateEngine";
+
+export type AdvisorSignal =
+  | "overdueLoad" // Overdue tasks vs the loop's maxTasks
+  | "componentCompletion" // System component completion rate, last 7 days
+  | "sleep" // Last night's sleep score
+  | "readiness" // Today's readiness score
+  | "budgetOverspend" // This month's spending vs the loop's budget
+  | "specialDate"; // A special date today or tomorrow
+
+// One signal's share of a loop's score
+export type AdvisorContribution = {
+  signal: AdvisorSignal;
+  value: number; // Normalized signal, roughly -1..1
+  weight: number;
+  explanation: string;
+};
+
+export type AdvisorProposal = {
+  id: string;
+  loopId: LoopId;
+  fromState: LoopStateType;
+  toState: LoopStateType;
+  score: number;
+  contributions: AdvisorContribution[]; // Strongest first
+  date: string; // YYYY-MM-DD the proposal was scored for
+};
+
+export type AdvisorFeedback = {
+  proposalId: string;
+  loopId: LoopId;
+  fromState: LoopStateType;
+  toState: LoopStateType;
+  accepted: boolean;
+  values: Partial<Record<AdvisorSignal, number>>;
+  date: string;
+  decidedAt: string;
+};
+
+// Learned weights, keyed "<loopId>:<signal>"
+export type AdvisorState = {
+  weights: Record<string, number>;
+  feedback: AdvisorFeedback[];
+};
+
+export type AdvisorInput = {
+  context: ConditionContext;
+  cascadeRules: CascadeRule[];
+  systems: System[];
+  completions: ComponentCompletion[];
+  transactions: FinanceTransaction[];
+  loopBudgets: LoopBudget[];
+  specialDates: SpecialDate[];
+  advisor: AdvisorState;
+};
+
+export const DEFAULT_ADVISOR_STATE: AdvisorState = { weights: {}, feedback: [] };
+
+// Score needed before the advisor proposes anything
+const PROPOSAL_THRESHOLD = 0.5;
+const LEARNING_RATE = 0.15;
+const MAX_WEIGHT = 3;
+const MAX_FEEDBACK = 200;
+
+// Starting weights - positive means "a high value is a reason to step up"
+function getDefaultWeight(loopId: LoopId, signal: AdvisorSignal): number {
+  switch (signal) {
+    case "overdueLoad":
+      return -1;
+    case "componentCompletion":
+      return 0.6;
+    case "sleep":
+    case "readiness":
+      return loopId === "Health" ? 1 : 0.3;
+    case "budgetOverspend":
+      return loopId === "Wealth" ? 0.5 : -1;
+    case "specialDate":
+      return loopId === "Family" ? 1 : 0;
+  }
+}
+
+function weightKey(loopId: LoopId, signal: AdvisorSignal): string {
+  return `${loopId}:${signal}`;
+}
+
+export function getAdvisorWeight(advisor: AdvisorState, loopId: LoopId, signal: AdvisorSignal): number {
+  return advisor.weights[weightKey(loopId, signal)] ?? getDefaultWeight(loopId, signal);
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Signals
+
+function getOverdueLoad(tasks: Task[], loopState: LoopState, today: string): AdvisorContribution | null {
+  const overdue = tasks.filter(
+    (t) => t.loop === loopState.loopId && t.status !== "done" && t.status !== "dropped" && !!t.dueDate && t.dueDate < today
+  ).length;
+  if (overdue === 0) return null;
+  const max = Math.max(loopState.maxTasks, 1);
+  return {
+    signal: "overdueLoad",
+    value: clamp(overdue / max, 0, 2) / 2,
+    weight: 0,
+    explanation: `${overdue} overdue task${overdue === 1 ? "" : "s"} against a limit of ${loopState.maxTasks} a day`,
+  };
+}
+
+function getComponentCompletion(
+  loopId: LoopId,
+  systems: System[],
+  completions: ComponentCompletion[],
+  now: Date
+): AdvisorContribution | null {
+  const components = systems
+    .filter((s) => s.loop === loopId && s.status === "active")
+    .flatMap((s) => (s.components || []).filter((c) => c.status === "active").map((c) => ({ systemId: s.id, component: c })));
+  if (components.length === 0) return null;
+
+  let expected = 0;
+  let done = 0;
+  for (let i = 0; i < 7; i++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - i);
+    const dateKey = getLocalDateKey(day);
+    const dayOfWeek = day.getDay();
+    for (const { systemId, component } of components) {
+      const due =
+        component.frequency === "daily" ||
+        (component.frequency === "weekdays" && dayOfWeek !== 0 && dayOfWeek !== 6) ||
+        (component.frequency === "weekends" && (dayOfWeek === 0 || dayOfWeek === 6)) ||
+        (component.frequency === "weekly" && dayOfWeek === 1) ||
+        (component.frequency === "custom" && !!component.customDays?.includes(dayOfWeek));
+      if (!due) continue;
+      expected++;
+      if (completions.some((c) => c.componentId === component.id && c.systemId === systemId && c.date === dateKey)) {
+        done++;
+      }
+    }
+  }
+  if (expected === 0) return null;
+
+  const rate = done / expected;
+  return {
+    signal: "componentCompletion",
+    value: (rate - 0.5) * 2,
+    weight: 0,
+    explanation: `${Math.round(rate * 100)}% of system habits done this week`,
+  };
+}
+
+function getHealthSignals(context: ConditionContext): AdvisorContribution[] {
+  const today = context.health?.today;
+  if (!today) return [];
+  const signals: AdvisorContribution[] = [];
+  if (today.sleepScore !== null) {
+    signals.push({
+      signal: "sleep",
+      value: clamp((today.sleepScore - 70) / 30, -1, 1),
+      weight: 0,
+      explanation: `Sleep score ${today.sleepScore}`,
+    });
+  }
+  if (today.scores.readiness !== null) {
+    signals.push({
+      signal: "readiness",
+      value: clamp((today.scores.readiness - 50) / 50, -1, 1),
+      weight: 0,
+      explanation: `Readiness ${today.scores.readiness}`,
+    });
+  }
+  return signals;
+}
+
+function getBudgetOverspend(
+  loopId: LoopId,
+  transactions: FinanceTransaction[],
+  loopBudgets: LoopBudget[],
+  now: Date
+): AdvisorContribution | null {
+  const budgeted = loopBudgets.find((b) => b.loop === loopId)?.budgeted ?? 0;
+  if (budgeted <= 0) return null;
+
+  const monthPrefix = getLocalDateKey(now).slice(0, 7);
+  let spentCents = 0;
+  for (const tx of transactions) {
+    if (!tx.date.startsWith(monthPrefix) || tx.parentTransactionId) continue;
+    if (tx.splits?.length) {
+      for (const split of tx.splits) {
+        if (split.loop === loopId && split.amount < 0) spentCents -= split.amount;
+      }
+    } else if (tx.loop === loopId && tx.amount < 0) {
+      spentCents -= tx.amount;
+    }
+  }
+
+  // Budgets are in dollars, transactions in cents
+  const ratio = spentCents / 100 / budgeted;
+  if (ratio <= 1) return null;
+  return {
+    signal: "budgetOverspend",
+    value: clamp(ratio - 1, 0, 1),
+    weight: 0,
+    explanation: `Spending is at ${Math.round(ratio * 100)}% of this month's budget`,
+  };
+}
+
+function getSpecialDateSignal(specialDates: SpecialDate[], now: Date): AdvisorContribution | null {
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const days = [getLocalDateKey(now), getLocalDateKey(tomorrow)];
+
+  const matches = (d: SpecialDate, day: string) => (d.recurring ? d.date.slice(5) === day.slice(5) : d.date === day);
+
+  for (const [index, day] of days.entries()) {
+    const upcoming = specialDates.find((d) => matches(d, day));
+    if (upcoming) {
+      return {
+        signal: "specialDate",
+        value: 1,
+        weight: 0,
+        explanation: `${upcoming.title} is ${index === 0 ? "today" : "tomorrow"}`,
+      };
+    }
+  }
+  return null;
+}
+
+// Score one loop - every signal that has data, with its current weight
+export function scoreLoop(input: AdvisorInput, loopId: LoopId): { score: number; contributions: AdvisorContribution[] } {
+  const { context } = input;
+  const loopState = context.loopStates[loopId];
+  if (!loopState) return { score: 0, contributions: [] };
+
+  const today = getLocalDateKey(context.now);
+  const raw = [
+    getOverdueLoad(context.tasks, loopState, today),
+    getComponentCompletion(loopId, input.systems, input.completions, context.now),
+    ...getHealthSignals(context),
+    getBudgetOverspend(loopId, input.transactions, input.loopBudgets, context.now),
+    getSpecialDateSignal(input.specialDates, context.now),
+  ].filter((c): c is AdvisorContribution => c !== null);
+
+  const contributions = raw
+    .map((c) => ({ ...c, weight: getAdvisorWeight(input.advisor, loopId, c.signal) }))
+    .filter((c) => c.weight !== 0 && c.value !== 0)
+    .sort((a, b) => Math.abs(b.value * b.weight) - Math.abs(a.value * a.weight));
+
+  const score = contributions.reduce((sum, c) => sum + c.value * c.weight, 0);
+  return { score, contributions };
+}
+
+// One step up or down from the current state, if the score is strong enough and
+// the move is allowed (floor, ceiling and cascade blocks)
+export function getStateAdvice(input: AdvisorInput): AdvisorProposal[] {
+  const { context } = input;
+  const today = getLocalDateKey(context.now);
+  const decidedToday = new Set(
+    input.advisor.feedback.filter((f) => f.date === today).map((f) => f.loopId)
+  );
+  const proposals: AdvisorProposal[] = [];
+
+  for (const loopId of ALL_LOOPS) {
+    const loopState = context.loopStates[loopId];
+    if (!loopState || decidedToday.has(loopId)) continue;
+
+    const { score, contributions } = scoreLoop(input, loopId);
+    if (Math.abs(score) < PROPOSAL_THRESHOLD) continue;
+
+    const order = (Object.keys(STATE_PRIORITY) as LoopStateType[]).sort((a, b) => STATE_PRIORITY[a] - STATE_PRIORITY[b]);
+    const toState = order[STATE_PRIORITY[loopState.currentState] + (score > 0 ? 1 : -1)];
+    if (!toState) continue;
+
+    const cascade = getCascadeResult(input.cascadeRules, context, loopId);
+    if (!transitionLoopState(loopState, toState, undefined, cascade).success) continue;
+
+    proposals.push({
+      id: `${loopId}:${toState}@${today}`,
+      loopId,
+      fromState: loopState.currentState,
+      toState,
+      score,
+      contributions,
+      date: today,
+    });
+  }
+
+  return proposals.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+}
+
+export function describeProposal(proposal: AdvisorProposal): string {
+  const direction = STATE_PRIORITY[proposal.toState] > STATE_PRIORITY[proposal.fromState] ? "Step up" : "Step back";
+  return `${direction} to ${getStateDisplayName(proposal.toState)}`;
+}
+
+// Learn from a decision: accepting strengthens the signals that pushed this way,
+// rejecting weakens them
+export function applyAdvisorFeedback(
+  advisor: AdvisorState,
+  proposal: AdvisorProposal,
+  accepted: boolean
+): AdvisorState {
+  const direction = STATE_PRIORITY[proposal.toState] > STATE_PRIORITY[proposal.fromState] ? 1 : -1;
+  const sign = accepted ? 1 : -1;
+  const weights = { ...advisor.weights };
+  const values: Partial<Record<AdvisorSignal, number>> = {};
+
+  for (const c of proposal.contributions) {
+    const key = weightKey(proposal.loopId, c.signal);
+    const current = weights[key] ?? getDefaultWeight(proposal.loopId, c.signal);
+    weights[key] = clamp(current + LEARNING_RATE * sign * direction * c.value, -MAX_WEIGHT, MAX_WEIGHT);
+    values[c.signal] = c.value;
+  }
+
+  const entry: AdvisorFeedback = {
+    proposalId: proposal.id,
+    loopId: proposal.loopId,
+    fromState: proposal.fromState,
+    toState: proposal.toState,
+    accepted,
+    values,
+    date: proposal.date,
+    decidedAt: new Date().toISOString(),
+  };
+
+  return {
+    weights,
+    feedback: [...advisor.feedback, entry].slice(-MAX_FEEDBACK),
+  };
+}
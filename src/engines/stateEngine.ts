@@ -5,6 +5,8 @@ import {
   LoopStateType,
   LoopState,
   StateHistoryEntry,
+  TriggerType,
+  CascadeResult,
   ALL_LOOPS,
   STATE_PRIORITY,
   isValidTransition,
@@ -28,10 +30,21 @@ export type TransitionResult = {
 export function transitionLoopState(
   loopState: LoopState,
   targetState: LoopStateType,
-  reason: string = "User requested"
+  reason: string = "User requested",
+  cascade?: Pick<CascadeResult, "blockedStates">
 ): TransitionResult {
   const currentState = loopState.currentState;
 
+  // Check cascade blocks (block_state effects from other loops)
+  const block = cascade?.blockedStates.find((b) => b.state === targetState);
+  if (block) {
+    return {
+      success: false,
+      newState: currentState,
+      reason: `${targetState} is blocked: ${block.reason}`,
+    };
+  }
+
   // Check if transition is valid
   if (!isValidTransition(currentState, targetState)) {
     return {
@@ -66,83 +79,6 @@ export function transitionLoopState(
   };
 }
 
-// Get recommended state based on current conditions
-export function getRecommendedState(
-  loopId: LoopId,
-  currentStates: Record<LoopId, LoopState>,
-  externalFactors: {
-    sleepScore?: number;
-    energyLevel?: number;
-    dayOfWeek?: number;
-    isCustodyWeek?: boolean;
-    isTravel?: boolean;
-    isSick?: boolean;
-  }
-): { state: LoopStateType; reason: string } {
-  const loop = currentStates[loopId];
-  let recommended: LoopStateType = "MAINTAIN";
-  let reason = "Default to maintain";
-
-  // Health-specific logic
-  if (loopId === "Health") {
-    if (externalFactors.isSick) {
-      return { state: "RECOVER", reason: "Illness detected - prioritize recovery" };
-    }
-    if (externalFactors.sleepScore !== undefined && externalFactors.sleepScore < 60) {
-      return { state: "RECOVER", reason: "Poor sleep - focus on recovery" };
-    }
-    if (externalFactors.energyLevel !== undefined && externalFactors.energyLevel < 30) {
-      return { state: "RECOVER", reason: "Low energy - rest needed" };
-    }
-  }
-
-  // Work-specific logic
-  if (loopId === "Work") {
-    if (externalFactors.dayOfWeek === 0 || externalFactors.dayOfWeek === 6) {
-      return { state: "HIBERNATE", reason: "Weekend - work hibernates" };
-    }
-    if (externalFactors.isCustodyWeek) {
-      return { state: "MAINTAIN", reason: "Custody week - maintain work baseline" };
-    }
-  }
-
-  // Family-specific logic
-  if (loopId === "Family") {
-    if (externalFactors.isCustodyWeek) {
-      return { state: "BUILD", reason: "Custody week - maximize family time" };
-    }
-  }
-
-  // Fun-specific logic
-  if (loopId === "Fun") {
-    if (currentStates["Health"].currentState === "RECOVER") {
-      return { state: "RECOVER", reason: "Health in recovery - limit high-energy fun" };
-    }
-    if (currentStates["Work"].currentState === "BUILD") {
-      return { state: "MAINTAIN", reason: "Work in build mode - moderate fun" };
-    }
-  }
-
-  // Maintenance-specific logic
-  if (loopId === "Maintenance") {
-    if (externalFactors.isTravel) {
-      return { state: "HIBERNATE", reason: "Travel mode - maintenance hibernates" };
-    }
-    // Weekend boost for maintenance
-    if (externalFactors.dayOfWeek === 0 || externalFactors.dayOfWeek === 6) {
-      return { state: "BUILD", reason: "Weekend - good time for maintenance tasks" };
-    }
-  }
-
-  // Meaning-specific logic
-  if (loopId === "Meaning") {
-    // Morning and evening are good for meaning work
-    return { state: "MAINTAIN", reason: "Maintain spiritual/reflective practices" };
-  }
-
-  return { state: recommended, reason };
-}
-
 // Calculate capacity based on state
 export function calculateCapacity(state: LoopStateType): {
   minTasks: number;
@@ -208,7 +144,7 @@ export function createStateHistoryEntry(
   fromState: LoopStateType,
   toState: LoopStateType,
   reason: string,
-  triggeredBy: "user" | "cascade" | "manual"
+  triggeredBy: TriggerType | "user"
 ): StateHistoryEntry {
   return {
     fromState,
@@ -0,0 +1,139 @@
+// Task Activity Engine - automatic change log for tasks, and threading for task comments
+//
+// Activity is derived by diffing the task list before and after a reducer action, so every
+// path that edits a task (detail modal, swipe, bulk defer, Todoist sync) is logged the same way.
+
+import type { Task, TaskActivity, TaskActivityField, TaskActivityOrigin, TaskComment } from "../types";
+
+// Oldest entries are dropped beyond this so the log can't grow without bound
+export const MAX_TASK_ACTIVITY = 2000;
+
+const TRACKED_FIELDS: TaskActivityField[] = ["status", "dueDate", "loop", "priority"];
+
+const FIELD_LABELS: Record<TaskActivityField, string> = {
+  status: "Status",
+  dueDate: "Due date",
+  loop: "Loop",
+  priority: "Priority",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  inbox: "Inbox",
+  todo: "To do",
+  doing: "In progress",
+  waiting: "Waiting",
+  done: "Done",
+  dropped: "Dropped",
+};
+
+export type CommentThread = {
+  comment: TaskComment;
+  replies: TaskComment[]; // Oldest first
+};
+
+function fieldValue(task: Task, field: TaskActivityField): string | number | null {
+  return task[field] ?? null;
+}
+
+// Changes to tracked fields between two versions of the task list.
+// Added and removed tasks are not logged - only edits to tasks present in both.
+export function diffTaskActivity(
+  before: Task[],
+  after: Task[],
+  origin: TaskActivityOrigin,
+  at: string = new Date().toISOString()
+): TaskActivity[] {
+  if (before === after) return [];
+  const previous = new Map(before.map((t) => [t.id, t]));
+  const entries: TaskActivity[] = [];
+
+  for (const task of after) {
+    const old = previous.get(task.id);
+    if (!old || old === task) continue;
+    for (const field of TRACKED_FIELDS) {
+      const from = fieldValue(old, field);
+      const to = fieldValue(task, field);
+      if (from === to) continue;
+      entries.push({
+        id: `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        taskId: task.id,
+        field,
+        from,
+        to,
+        origin,
+        at,
+      });
+    }
+  }
+  return entries;
+}
+
+// Append new entries, keeping the log within MAX_TASK_ACTIVITY
+export function appendTaskActivity(log: TaskActivity[], entries: TaskActivity[]): TaskActivity[] {
+  if (entries.length === 0) return log;
+  const next = [...log, ...entries];
+  return next.length > MAX_TASK_ACTIVITY ? next.slice(next.length - MAX_TASK_ACTIVITY) : next;
+}
+
+// Display value for one side of a change
+export function formatActivityValue(field: TaskActivityField, value: string | number | null): string {
+  if (value === null || value === "") return "none";
+  switch (field) {
+    case "status":
+      return STATUS_LABELS[value] ?? String(value);
+    case "priority":
+      return value === 0 ? "Someday" : `P${value}`;
+    case "dueDate":
+      return new Date(`${value}T12:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+    default:
+      return String(value);
+  }
+}
+
+// One-line description, e.g. "Due date: Mar 4, 2026 → Mar 6, 2026"
+export function describeActivity(entry: TaskActivity): string {
+  if (entry.field === "dueDate" && entry.from === null) {
+    return `Due date set to ${formatActivityValue("dueDate", entry.to)}`;
+  }
+  if (entry.field === "dueDate" && entry.to === null) {
+    return "Due date removed";
+  }
+  return `${FIELD_LABELS[entry.field]}: ${formatActivityValue(entry.field, entry.from)} → ${formatActivityValue(entry.field, entry.to)}`;
+}
+
+// A task's activity, newest first
+export function getTaskActivity(log: TaskActivity[], taskId: string): TaskActivity[] {
+  return log
+    .filter((a) => a.taskId === taskId)
+    .sort((a, b) => b.at.localeCompare(a.at));
+}
+
+// A task's comments grouped into threads, oldest thread first.
+// Replies to a reply join the top-level thread; replies whose parent was deleted become threads.
+export function getCommentThreads(comments: TaskComment[], taskId: string): CommentThread[] {
+  const forTask = comments
+    .filter((c) => c.taskId === taskId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const byId = new Map(forTask.map((c) => [c.id, c]));
+
+  const rootOf = (comment: TaskComment): TaskComment => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parentId && byId.has(current.parentId) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parentId)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, CommentThread>();
+  for (const comment of forTask) {
+    const root = rootOf(comment);
+    if (root.id === comment.id) {
+      threads.set(comment.id, { comment, replies: [] });
+    } else {
+      threads.get(root.id)?.replies.push(comment);
+    }
+  }
+  return [...threads.values()];
+}
@@ -0,0 +1,288 @@
+// Template Engine - placeholders, relative due dates and nesting for task templates
+//
+// Using a template creates one top task named after it, with every item beneath it. Items can
+// nest under other items (parentId), depend on each other (dependsOn) and fall due relative to
+// an anchor date ("T-3 days"). {{placeholders}} in any text are filled from the values given;
+// {{date}} is the anchor date. Templates travel as JSON files wrapped in TEMPLATE_FILE_FORMAT.
+
+import { ALL_LOOPS, getLocalDateKey } from "../types/core";
+import { createTask } from "../types/tasks";
+import type { Task } from "../types/tasks";
+import { getTemplateEstimate } from "../types/taskTemplates";
+import type { TaskTemplate, TaskTemplateItem, TemplateVariable } from "../types/taskTemplates";
+
+export const TEMPLATE_FILE_FORMAT = "looops-task-template";
+export const TEMPLATE_FILE_VERSION = 1;
+
+// Filled from the anchor date rather than asked for
+export const BUILT_IN_TEMPLATE_VARIABLES = ["date"];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][\w]*)\s*\}\}/g;
+
+export type TemplateFile = {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  template: TaskTemplate;
+};
+
+export type TemplateUseOptions = {
+  name?: string; // Top task title - the template name when empty
+  values?: Record<string, string>;
+  anchorDate?: string; // YYYY-MM-DD - T for relative due dates
+  projectId?: string;
+  sectionId?: string;
+};
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return getLocalDateKey(date);
+}
+
+// What parentId and dependsOn refer to - items without an id fall back to their position
+export function getTemplateItemKey(item: TaskTemplateItem, index: number): string {
+  return item.id || `item-${index}`;
+}
+
+function placeholdersIn(text: string | undefined): string[] {
+  if (!text) return [];
+  return [...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+}
+
+// Every placeholder the template uses, declared ones first, without the built-ins
+export function getTemplateVariables(template: TaskTemplate): TemplateVariable[] {
+  const variables = [...(template.variables ?? [])];
+  const known = new Set([...variables.map((v) => v.key), ...BUILT_IN_TEMPLATE_VARIABLES]);
+  const texts = [
+    template.name,
+    template.description,
+    ...template.tasks.flatMap((item) => [item.title, item.description]),
+  ];
+  for (const key of texts.flatMap(placeholdersIn)) {
+    if (known.has(key)) continue;
+    known.add(key);
+    variables.push({ key });
+  }
+  return variables.filter((v) => !BUILT_IN_TEMPLATE_VARIABLES.includes(v.key));
+}
+
+// "trip_destination" → "Trip destination"
+export function getVariableLabel(variable: TemplateVariable): string {
+  if (variable.label) return variable.label;
+  const words = variable.key.replace(/_/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function usesAnchorDate(template: TaskTemplate): boolean {
+  return (
+    template.tasks.some((item) => item.dueOffsetDays !== undefined) ||
+    [template.name, template.description, ...template.tasks.flatMap((i) => [i.title, i.description])]
+      .flatMap(placeholdersIn)
+      .includes("date")
+  );
+}
+
+// Unknown placeholders are left as they are so nothing silently disappears
+export function fillTemplateText(text: string, values: Record<string, string>, anchorDate?: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (whole, key: string) => {
+    if (key === "date") {
+      return anchorDate
+        ? new Date(`${anchorDate}T12:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+        : whole;
+    }
+    const value = values[key]?.trim();
+    return value ? value : whole;
+  });
+}
+
+// -3 → "T-3 days", 1 → "T+1 day", 0 → "T"
+export function formatDueOffset(days: number | undefined): string {
+  if (days === undefined) return "";
+  if (days === 0) return "T";
+  return `T${days > 0 ? "+" : "-"}${Math.abs(days)} day${Math.abs(days) === 1 ? "" : "s"}`;
+}
+
+// "T-3 days", "t+1", "-3", "T" → days from the anchor; "" → no offset; null when unreadable
+export function parseDueOffset(text: string): number | null | undefined {
+  const value = text.trim().toLowerCase();
+  if (!value) return undefined;
+  if (value === "t" || value === "0") return 0;
+  const match = value.match(/^t?\s*([+-])\s*(\d+)\s*(?:d|days?)?$/);
+  if (!match) return null;
+  const days = parseInt(match[2], 10);
+  return match[1] === "-" ? -days : days;
+}
+
+// Problems that would stop the template producing a sensible task tree, or null
+export function validateTemplate(template: TaskTemplate): string | null {
+  if (!template.name?.trim()) return "The template needs a name.";
+  if (!Array.isArray(template.tasks) || template.tasks.length === 0) return "The template has no tasks.";
+
+  const keys = template.tasks.map(getTemplateItemKey);
+  if (new Set(keys).size !== keys.length) return "Two template tasks share the same id.";
+  const byKey = new Map(template.tasks.map((item, i) => [keys[i], item]));
+
+  for (const [key, item] of byKey) {
+    if (!item.title?.trim()) return "Every template task needs a title.";
+    if (item.parentId && !byKey.has(item.parentId)) return `"${item.title}" is nested under a task that isn't in the template.`;
+    for (const dep of item.dependsOn ?? []) {
+      if (!byKey.has(dep)) return `"${item.title}" depends on a task that isn't in the template.`;
+      if (dep === key) return `"${item.title}" depends on itself.`;
+    }
+    // Walk up the parents - reaching this item again means a loop
+    const seen = new Set<string>([key]);
+    let parent = item.parentId;
+    while (parent) {
+      if (seen.has(parent)) return `"${item.title}" is nested inside itself.`;
+      seen.add(parent);
+      parent = byKey.get(parent)?.parentId;
+    }
+  }
+
+  // Dependency cycles
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (key: string): boolean => {
+    if (done.has(key)) return false;
+    if (visiting.has(key)) return true;
+    visiting.add(key);
+    const cyclic = (byKey.get(key)?.dependsOn ?? []).some(visit);
+    visiting.delete(key);
+    done.add(key);
+    return cyclic;
+  };
+  if (keys.some(visit)) return "Template tasks depend on each other in a circle.";
+
+  return null;
+}
+
+// The tasks a template creates: the top task first, then items in template order
+export function instantiateTemplate(template: TaskTemplate, options: TemplateUseOptions = {}): Task[] {
+  const values = options.values ?? {};
+  const { anchorDate } = options;
+  const fill = (text: string | undefined) => (text ? fillTemplateText(text, values, anchorDate) : undefined);
+  const projectId = options.projectId ?? template.projectId;
+  const sectionId = options.projectId !== undefined ? options.sectionId : options.sectionId ?? template.sectionId;
+
+  const totalEstimate = getTemplateEstimate(template);
+  const top = createTask(fill(options.name?.trim() || template.name)!, template.loop, {
+    description: fill(template.description),
+    estimateMinutes: totalEstimate > 0 ? totalEstimate : undefined,
+    dueDate: anchorDate,
+    projectId,
+    sectionId,
+    status: "todo",
+    source: "generated",
+  });
+
+  // IDs first, so parents and dependencies can point forward in the list
+  const keys = template.tasks.map(getTemplateItemKey);
+  const taskIds = new Map(keys.map((key, i) => [key, `${top.id}_${i}`]));
+
+  const items = template.tasks.map((item, index) => ({
+    ...createTask(fill(item.title)!, template.loop, {
+      description: fill(item.description),
+      estimateMinutes: item.estimatedMinutes,
+      parentId: (item.parentId && taskIds.get(item.parentId)) || top.id,
+      order: item.order || index,
+      dueDate: anchorDate && item.dueOffsetDays !== undefined ? addDays(anchorDate, item.dueOffsetDays) : undefined,
+      dependencies: item.dependsOn?.map((dep) => taskIds.get(dep)).filter((id): id is string => !!id),
+      projectId,
+      sectionId,
+      status: "todo",
+      source: "generated",
+    }),
+    id: taskIds.get(keys[index])!,
+  }));
+
+  return [top, ...items];
+}
+
+// ==================== Sharing ====================
+
+// Local project and section IDs mean nothing on someone else's device, so they're left out
+export function serializeTemplate(template: TaskTemplate): string {
+  const { projectId: _projectId, sectionId: _sectionId, ...shared } = template;
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: shared,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function downloadTemplate(template: TaskTemplate): void {
+  const blob = new Blob([serializeTemplate(template)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "template";
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slug}.looops-template.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+// Read a shared template file - the result gets a fresh custom ID and keeps only known fields
+export function parseTemplateFile(text: string): { template: TaskTemplate } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "This file isn't valid JSON." };
+  }
+
+  if (!isPlainObject(raw) || raw.format !== TEMPLATE_FILE_FORMAT || !isPlainObject(raw.template)) {
+    return { error: "This file isn't a Looops task template." };
+  }
+  if (typeof raw.version !== "number" || raw.version > TEMPLATE_FILE_VERSION) {
+    return { error: "This template was made by a newer version of Looops. Update the app and try again." };
+  }
+
+  const source = raw.template;
+  const template: TaskTemplate = {
+    id: `custom-${Date.now()}`,
+    name: typeof source.name === "string" ? source.name.trim() : "",
+    description: optionalString(source.description),
+    loop: source.loop as TaskTemplate["loop"],
+    category: optionalString(source.category) ?? "Imported",
+    icon: optionalString(source.icon),
+    tasks: (Array.isArray(source.tasks) ? source.tasks : []).filter(isPlainObject).map((item, index) => ({
+      id: optionalString(item.id),
+      title: typeof item.title === "string" ? item.title : "",
+      description: optionalString(item.description),
+      estimatedMinutes: optionalNumber(item.estimatedMinutes),
+      order: optionalNumber(item.order) ?? index + 1,
+      parentId: optionalString(item.parentId),
+      dependsOn: Array.isArray(item.dependsOn) ? item.dependsOn.filter((d): d is string => typeof d === "string") : undefined,
+      dueOffsetDays: optionalNumber(item.dueOffsetDays),
+    })),
+    variables: Array.isArray(source.variables)
+      ? source.variables
+          .filter(isPlainObject)
+          .filter((v) => typeof v.key === "string" && /^[a-zA-Z_]\w*$/.test(v.key))
+          .map((v) => ({ key: v.key as string, label: optionalString(v.label), defaultValue: optionalString(v.defaultValue) }))
+      : undefined,
+  };
+
+  if (!ALL_LOOPS.includes(template.loop)) {
+    return { error: "This template's loop isn't one Looops knows." };
+  }
+  const problem = validateTemplate(template);
+  return problem ? { error: problem } : { template };
+}
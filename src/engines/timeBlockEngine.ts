@@ -0,0 +1,410 @@
+// Time Block Engine - lays today's stack out in the free time between calendar events
+//
+// Timed calendar events, tasks pinned by a due time and the task whose timer is running are
+// fixed; everything else flows into the gaps in priority order, steered toward the time of day
+// whose energy matches the task. Loop capacity (state, cascade adjustments and the day type's
+// multipliers) decides how many tasks each loop gets. The scheduling profile sets the buffer
+// between blocks, how times snap, and how long a stretch runs before a break.
+//
+// Nothing is stored: the plan is rebuilt from `now`, so an overrunning timer or a new event
+// simply pushes the rest of the day along the next time it's built.
+
+import { LOOP_DEFINITIONS } from "../types/core";
+import type { LoopId } from "../types/core";
+import type { LoopState } from "../types/loops";
+import type { ActiveTimer, EnergyLevel, Task } from "../types/tasks";
+import { calculateStatePriority } from "../types/tasks";
+import type { CalendarEvent } from "../types/calendar";
+import type { SmartScheduleState } from "../types/dayTypes";
+import type { SchedulingProfile } from "../types/personalization";
+import type {
+  EnergyPeak,
+  TimeBlock,
+  TimeBlockPlan,
+  TimeBlockSettings,
+  UnscheduledTask,
+} from "../types/timeBlocking";
+import { getDayTypes, getDayTypeConfig } from "./smartSchedulerEngine";
+import { getEffectiveMaxTasks } from "./capacityEngine";
+import { parseTimeOfDay } from "./reminderEngine";
+
+const DAY_MINUTES = 24 * 60;
+const BREAK_MINUTES = 10;
+const OVERRUN_EXTENSION_MINUTES = 15; // Extra time given to a task already past its estimate
+
+const BUFFER_MINUTES: Record<SchedulingProfile["bufferPreference"], number> = {
+  minimal: 0,
+  moderate: 5,
+  generous: 10,
+};
+
+// Longest run of back-to-back task blocks before a break
+const FOCUS_STRETCH_MINUTES: Record<SchedulingProfile["pacePreference"], number> = {
+  sprint: 120,
+  steady: 90,
+  marathon: 60,
+};
+
+const PEAK_HOURS: Record<EnergyPeak, [number, number]> = {
+  morning: [6 * 60, 12 * 60],
+  afternoon: [13 * 60, 17 * 60],
+  evening: [17 * 60, 22 * 60],
+};
+
+// The slump outside the peak - early for afternoon and evening people, after lunch otherwise
+const DIP_HOURS: Record<EnergyPeak, [number, number]> = {
+  morning: [13 * 60, 15 * 60],
+  afternoon: [0, 9 * 60],
+  evening: [0, 10 * 60],
+};
+
+const ENERGY_RANK: Record<EnergyLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export type TimeBlockSources = {
+  date: string; // YYYY-MM-DD
+  now: Date;
+  tasks: Task[]; // Today's stack
+  events: CalendarEvent[];
+  activeTimer: ActiveTimer | null;
+  loopStates: Record<LoopId, LoopState>;
+  capacityAdjustments?: Partial<Record<LoopId, number>>;
+  smartSchedule: SmartScheduleState;
+  profile: SchedulingProfile | null;
+  settings: TimeBlockSettings;
+  excludedTaskIds?: string[]; // Deleted from the Looops calendar today
+  ownCalendarId?: string | null; // The Looops calendar - its events are the plan itself, not commitments
+};
+
+type Interval = { start: number; end: number };
+
+type PendingTask = {
+  task: Task;
+  duration: number;
+  overrun: boolean;
+  missedDueTime: boolean;
+  rank: number; // Position by state-adjusted priority - 0 is most important
+};
+
+// "HH:MM" for minutes after midnight
+export function minutesToTime(minutes: number): string {
+  const clamped = Math.max(0, Math.min(DAY_MINUTES - 1, Math.round(minutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+}
+
+// "9:30 AM"
+export function formatBlockTime(minutes: number): string {
+  const date = new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60);
+  return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+// Minutes after midnight on `date` for a timestamp - clamped to that day
+function minutesOnDate(iso: string, date: string): number {
+  const moment = new Date(iso);
+  const [year, month, day] = date.split("-").map(Number);
+  const midnight = new Date(year, month - 1, day).getTime();
+  const minutes = Math.round((moment.getTime() - midnight) / 60000);
+  return Math.max(0, Math.min(DAY_MINUTES, minutes));
+}
+
+function snapUp(minutes: number, step: number): number {
+  return Math.ceil(minutes / step) * step;
+}
+
+// Seconds on the running timer converted to minutes, including time before any pause
+export function getTimerElapsedMinutes(timer: ActiveTimer, now: Date): number {
+  const running = timer.pausedAt ? 0 : (now.getTime() - new Date(timer.startTime).getTime()) / 1000;
+  return Math.floor((timer.accumulatedSeconds + Math.max(0, running)) / 60);
+}
+
+export function getSlotEnergy(minutes: number, peak: EnergyPeak): EnergyLevel {
+  const [peakStart, peakEnd] = PEAK_HOURS[peak];
+  if (minutes >= peakStart && minutes < peakEnd) return "high";
+  const [dipStart, dipEnd] = DIP_HOURS[peak];
+  if (minutes >= dipStart && minutes < dipEnd) return "low";
+  if (peak !== "evening" && minutes >= 21 * 60) return "low";
+  return "medium";
+}
+
+// The energy a task asks for - deep focus counts as high energy
+function getTaskDemand(task: Task): EnergyLevel | undefined {
+  const { energyLevel, focusLevel } = task.constraints ?? {};
+  const focus: EnergyLevel | undefined =
+    focusLevel === "deep" ? "high" : focusLevel === "medium" ? "medium" : focusLevel === "shallow" ? "low" : undefined;
+  if (!energyLevel) return focus;
+  if (!focus) return energyLevel;
+  return ENERGY_RANK[focus] > ENERGY_RANK[energyLevel] ? focus : energyLevel;
+}
+
+// Minutes a task still needs - tasks past their estimate get a short extension
+function getRemainingMinutes(task: Task, loggedMinutes: number, settings: TimeBlockSettings): { duration: number; overrun: boolean } {
+  const estimate = task.estimateMinutes ?? task.constraints?.minTimeMinutes ?? settings.defaultEstimateMinutes;
+  const capped = task.constraints?.maxTimeMinutes ? Math.min(estimate, task.constraints.maxTimeMinutes) : estimate;
+  const remaining = capped - loggedMinutes;
+  if (loggedMinutes > 0 && remaining < 5) return { duration: OVERRUN_EXTENSION_MINUTES, overrun: true };
+  return { duration: snapUp(Math.max(5, remaining), 5), overrun: false };
+}
+
+// Day type multipliers for every day type on the date, multiplied together
+function getDayMultipliers(date: string, smartSchedule: SmartScheduleState): { multipliers: Partial<Record<LoopId, number>>; label: string } {
+  const dayTypes = getDayTypes(new Date(`${date}T12:00:00`), smartSchedule);
+  const multipliers: Partial<Record<LoopId, number>> = {};
+  const labels: string[] = [];
+  for (const dayType of dayTypes) {
+    const config = getDayTypeConfig(dayType, smartSchedule);
+    if (!config) continue;
+    labels.push(config.label);
+    for (const [loopId, value] of Object.entries(config.loopCapacityMultipliers ?? {})) {
+      const loop = loopId as LoopId;
+      multipliers[loop] = (multipliers[loop] ?? 1) * (value ?? 1);
+    }
+  }
+  return { multipliers, label: labels.join(" + ") || "today" };
+}
+
+// How well a task suits a slot - higher is better
+function scorePlacement(pending: PendingTask, slotEnergy: EnergyLevel, previousLocation: string | undefined): number {
+  let score = -pending.rank * 10;
+  const demand = getTaskDemand(pending.task);
+  if (demand) {
+    const gap = ENERGY_RANK[demand] - ENERGY_RANK[slotEnergy];
+    if (gap === 0) score += 15;
+    else if (gap >= 2) score -= 25; // Hard work in a slump
+    else if (gap <= -2) score -= 10; // Easy work spending peak energy
+  }
+  const location = pending.task.constraints?.location;
+  if (location && location !== "anywhere" && location === previousLocation) score += 8;
+  if (pending.missedDueTime) score += 20;
+  if (pending.overrun || pending.task.status === "doing") score += 10;
+  return score;
+}
+
+export function planTimeBlocks(sources: TimeBlockSources): TimeBlockPlan {
+  const { date, now, events, activeTimer, loopStates, settings, profile } = sources;
+  const buffer = profile ? BUFFER_MINUTES[profile.bufferPreference] : BUFFER_MINUTES.moderate;
+  const snap = profile?.structureLevel === "rigid" ? 15 : 5;
+  const stretch = profile ? FOCUS_STRETCH_MINUTES[profile.pacePreference] : FOCUS_STRETCH_MINUTES.steady;
+
+  const dayStart = parseTimeOfDay(settings.dayStart) ?? 8 * 60;
+  const dayEnd = parseTimeOfDay(settings.dayEnd) ?? 18 * 60;
+  const nowMinutes = minutesOnDate(now.toISOString(), date);
+  const windowStart = Math.max(dayStart, nowMinutes);
+  const windowEnd = Math.max(windowStart, dayEnd);
+
+  const blocks: TimeBlock[] = [];
+  const unscheduled: UnscheduledTask[] = [];
+  const busy: Interval[] = [];
+  const leave = (task: Task, reason: string) =>
+    unscheduled.push({ taskId: task.id, title: task.title, loop: task.loop, reason });
+
+  // Timed events - shown for the whole planning day, busy from now on
+  for (const event of events) {
+    if (event.allDay || event.status === "cancelled" || event.calendarId === sources.ownCalendarId) continue;
+    const start = minutesOnDate(event.startTime, date);
+    const end = minutesOnDate(event.endTime, date);
+    if (end <= start || end <= dayStart || start >= windowEnd) continue;
+    blocks.push({ id: `event:${event.id}`, kind: "event", start, end, title: event.title, loop: event.loop, eventId: event.id });
+    if (end > windowStart) busy.push({ start, end });
+  }
+
+  const open = sources.tasks.filter((t) => t.status !== "done" && t.status !== "dropped");
+  const byPriority = [...open].sort(
+    (a, b) => calculateStatePriority(a, loopStates) - calculateStatePriority(b, loopStates)
+  );
+  const rankOf = new Map(byPriority.map((task, index) => [task.id, index]));
+
+  // Per-loop task allowance for the day
+  const { multipliers, label: dayLabel } = getDayMultipliers(date, sources.smartSchedule);
+  const allowance = (loopId: LoopId) => {
+    const state = loopStates[loopId]?.currentState ?? "MAINTAIN";
+    const base = getEffectiveMaxTasks(state, sources.capacityAdjustments?.[loopId]);
+    return Math.round(base * (multipliers[loopId] ?? 1));
+  };
+  const placedPerLoop = new Map<LoopId, number>();
+  const countLoop = (loopId: LoopId) => placedPerLoop.set(loopId, (placedPerLoop.get(loopId) ?? 0) + 1);
+
+  const pending: PendingTask[] = [];
+  const isToday = nowMinutes > 0 && nowMinutes < DAY_MINUTES;
+
+  const excluded = new Set(sources.excludedTaskIds ?? []);
+
+  for (const task of byPriority) {
+    // Deleted from the calendar - stays off today's plan unless given a time or started again
+    if (excluded.has(task.id) && !(task.dueDate === date && task.dueTime) && activeTimer?.taskId !== task.id) {
+      leave(task, "Removed from your calendar");
+      continue;
+    }
+
+    const timerRunning = isToday && activeTimer?.taskId === task.id && !activeTimer.pausedAt;
+    const logged = (task.actualMinutes ?? 0) + (activeTimer?.taskId === task.id ? getTimerElapsedMinutes(activeTimer, now) : 0);
+    const { duration, overrun } = getRemainingMinutes(task, logged, settings);
+
+    // Whatever is being worked on right now holds the current slot
+    if (timerRunning) {
+      const start = nowMinutes;
+      const end = start + duration;
+      blocks.push({ id: `task:${task.id}`, kind: "task", start, end, title: task.title, loop: task.loop, taskId: task.id, running: true, overrun });
+      busy.push({ start, end });
+      countLoop(task.loop);
+      continue;
+    }
+
+    const dueTime = task.dueDate === date ? parseTimeOfDay(task.dueTime) : null;
+    if (dueTime !== null && dueTime >= windowStart) {
+      blocks.push({
+        id: `task:${task.id}`,
+        kind: "task",
+        start: dueTime,
+        end: dueTime + duration,
+        title: task.title,
+        loop: task.loop,
+        taskId: task.id,
+        energy: getSlotEnergy(dueTime, settings.energyPeak),
+        fixed: true,
+        overrun,
+      });
+      busy.push({ start: dueTime, end: dueTime + duration });
+      countLoop(task.loop);
+      continue;
+    }
+
+    pending.push({
+      task,
+      duration,
+      overrun,
+      missedDueTime: dueTime !== null || (!!task.dueTime && !!task.dueDate && task.dueDate < date),
+      rank: rankOf.get(task.id) ?? 0,
+    });
+  }
+
+  // Capacity - lowest priority tasks beyond a loop's allowance wait for another day
+  const flexible: PendingTask[] = [];
+  for (const item of pending) {
+    const loopId = item.task.loop;
+    const cap = allowance(loopId);
+    if ((placedPerLoop.get(loopId) ?? 0) >= cap) {
+      const name = LOOP_DEFINITIONS[loopId]?.name ?? loopId;
+      const multiplier = multipliers[loopId] ?? 1;
+      leave(
+        item.task,
+        cap === 0
+          ? `No ${name} capacity ${multiplier === 0 ? `on ${dayLabel} days` : "today"}`
+          : multiplier !== 1
+            ? `${name} is limited to ${cap} task${cap === 1 ? "" : "s"} on ${dayLabel} days`
+            : `${name} is at its ${cap}-task capacity`
+      );
+      continue;
+    }
+    countLoop(loopId);
+    flexible.push(item);
+  }
+
+  if (windowStart >= dayEnd) {
+    for (const item of flexible) leave(item.task, "Today's planning window is over");
+    return finishPlan(date, windowStart, windowEnd, blocks, unscheduled);
+  }
+
+  // Fill the gaps
+  busy.sort((a, b) => a.start - b.start);
+  let remaining = [...flexible];
+  let cursor = windowStart;
+  let streak = 0;
+  let previousLocation: string | undefined;
+  let longestGap = 0;
+
+  while (remaining.length > 0 && cursor < windowEnd) {
+    cursor = snapUp(cursor, snap);
+    const covering = busy.find((b) => b.start <= cursor && b.end > cursor);
+    if (covering) {
+      cursor = covering.end + buffer;
+      streak = 0;
+      continue;
+    }
+
+    const nextBusy = busy.find((b) => b.start > cursor)?.start ?? windowEnd;
+    const gapEnd = Math.min(nextBusy, windowEnd);
+    if (gapEnd <= cursor) {
+      cursor = nextBusy;
+      continue;
+    }
+
+    const room = gapEnd - cursor;
+    longestGap = Math.max(longestGap, room);
+    const fitting = remaining.filter((item) => item.duration <= room);
+    if (fitting.length === 0) {
+      cursor = gapEnd;
+      streak = 0;
+      continue;
+    }
+
+    // A break only when there's still something to come back to in this gap
+    if (streak >= stretch) {
+      streak = 0;
+      if (fitting.some((item) => item.duration <= room - BREAK_MINUTES)) {
+        blocks.push({ id: `break:${cursor}`, kind: "break", start: cursor, end: cursor + BREAK_MINUTES, title: "Break" });
+        cursor += BREAK_MINUTES;
+        continue;
+      }
+    }
+
+    const slotEnergy = getSlotEnergy(cursor, settings.energyPeak);
+    const best = fitting.reduce((a, b) =>
+      scorePlacement(b, slotEnergy, previousLocation) > scorePlacement(a, slotEnergy, previousLocation) ? b : a
+    );
+    const end = cursor + best.duration;
+    blocks.push({
+      id: `task:${best.task.id}`,
+      kind: "task",
+      start: cursor,
+      end,
+      title: best.task.title,
+      loop: best.task.loop,
+      taskId: best.task.id,
+      energy: slotEnergy,
+      overrun: best.overrun || undefined,
+      missedDueTime: best.missedDueTime || undefined,
+    });
+    remaining = remaining.filter((item) => item !== best);
+    previousLocation = best.task.constraints?.location;
+    streak = buffer >= BREAK_MINUTES ? 0 : streak + best.duration + buffer;
+    cursor = end + buffer;
+  }
+
+  for (const item of remaining) {
+    leave(
+      item.task,
+      item.duration > longestGap
+        ? `Needs ${item.duration} min - no free stretch that long today`
+        : "No free time left today"
+    );
+  }
+
+  return finishPlan(date, windowStart, windowEnd, blocks, unscheduled);
+}
+
+function finishPlan(
+  date: string,
+  windowStart: number,
+  windowEnd: number,
+  blocks: TimeBlock[],
+  unscheduled: UnscheduledTask[]
+): TimeBlockPlan {
+  const kindOrder = { event: 0, task: 1, break: 2 };
+  blocks.sort((a, b) => a.start - b.start || kindOrder[a.kind] - kindOrder[b.kind]);
+
+  const plannedMinutes = blocks
+    .filter((b) => b.kind === "task")
+    .reduce((sum, b) => sum + (b.end - b.start), 0);
+
+  // Free time - the window minus everything that overlaps it
+  let freeMinutes = 0;
+  let cursor = windowStart;
+  for (const block of blocks) {
+    if (block.end <= cursor) continue;
+    if (block.start >= windowEnd) break;
+    if (block.start > cursor) freeMinutes += block.start - cursor;
+    cursor = Math.max(cursor, block.end);
+  }
+  if (cursor < windowEnd) freeMinutes += windowEnd - cursor;
+
+  return { date, windowStart, windowEnd, blocks, unscheduled, plannedMinutes, freeMinutes };
+}
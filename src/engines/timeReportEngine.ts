@@ -0,0 +1,366 @@
+// Time Report Engine - where tracked time went, how good estimates were, and whether it fits loop states
+//
+// Time comes from task timer entries (Task.timeEntries, written by START/STOP_TASK_TIMER) and focus
+// sessions from the timer widget. Days are local. A loop's "expected" time is a rough weekly
+// baseline scaled by the state it was in each day - enough to spot Work in MAINTAIN with 50h logged.
+
+import { ALL_LOOPS, LOOP_DEFINITIONS, getLocalDateKey } from "../types/core";
+import type { LoopId, LoopStateType } from "../types/core";
+import type { Task } from "../types/tasks";
+import type { LoopState } from "../types/loops";
+import type { Project, Label } from "../types/projects";
+import type { TimerSession } from "../types/widgets";
+import { getActualStateOnDate } from "./weeklyPlanEngine";
+
+// Typical hours per week in MAINTAIN
+export const LOOP_WEEKLY_BASELINE_HOURS: Record<LoopId, number> = {
+  Health: 5,
+  Wealth: 3,
+  Family: 12,
+  Work: 40,
+  Fun: 6,
+  Maintenance: 4,
+  Meaning: 3,
+};
+
+// How much of the baseline each state calls for
+export const STATE_TIME_MULTIPLIERS: Record<LoopStateType, number> = {
+  BUILD: 1.5,
+  MAINTAIN: 1,
+  RECOVER: 0.5,
+  HIBERNATE: 0.15,
+};
+
+// Flag a loop when actual time is beyond these fractions of expected
+const OVER_FACTOR = 1.2;
+const UNDER_FACTOR = 0.5;
+// Below this much expected time there's too little to judge
+const MIN_EXPECTED_MINUTES = 60;
+
+// One stretch of tracked time
+export type TimeLog = {
+  id: string;
+  taskId?: string;
+  title: string;
+  loop: LoopId;
+  projectId?: string;
+  labels: string[];
+  date: string; // Local YYYY-MM-DD the time started on
+  minutes: number;
+  source: "timer" | "session";
+};
+
+export type TimeBucket = {
+  id: string | null; // null for "no project" / "no label"
+  name: string;
+  minutes: number;
+};
+
+export type DayTotal = {
+  date: string;
+  minutes: number;
+  byLoop: Partial<Record<LoopId, number>>;
+};
+
+export type EstimateAccuracy = {
+  loop: LoopId;
+  tasks: number; // Completed tasks with both an estimate and tracked time
+  estimatedMinutes: number;
+  actualMinutes: number;
+  ratio: number; // actual / estimated - above 1 means things take longer than planned
+  accuracy: number; // 0-100, from the mean per-task error
+};
+
+export type StateMismatch = {
+  loop: LoopId;
+  state: LoopStateType; // The state the loop was in most days of the range
+  actualMinutes: number;
+  expectedMinutes: number;
+  direction: "over" | "under";
+  message: string;
+};
+
+export type TimeReport = {
+  from: string;
+  to: string;
+  logs: TimeLog[];
+  totalMinutes: number;
+  byLoop: Record<LoopId, number>;
+  byProject: TimeBucket[];
+  byLabel: TimeBucket[]; // Time on multi-label tasks counts toward each label
+  byDay: DayTotal[];
+  accuracy: EstimateAccuracy[];
+  mismatches: StateMismatch[];
+};
+
+function addDays(key: string, days: number): string {
+  const date = new Date(`${key}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return getLocalDateKey(date);
+}
+
+export function getDateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let key = from; key <= to; key = addDays(key, 1)) {
+    dates.push(key);
+  }
+  return dates;
+}
+
+// Monday of the week containing dateKey
+export function getWeekStart(dateKey: string): string {
+  const day = new Date(`${dateKey}T12:00:00`).getDay();
+  return addDays(dateKey, day === 0 ? -6 : 1 - day);
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function emptyLoopRecord(): Record<LoopId, number> {
+  return Object.fromEntries(ALL_LOOPS.map((loop) => [loop, 0])) as Record<LoopId, number>;
+}
+
+// Every timer entry and focus session that started within [from, to]
+export function collectTimeLogs(
+  tasks: Task[],
+  sessions: TimerSession[],
+  from: string,
+  to: string
+): TimeLog[] {
+  const logs: TimeLog[] = [];
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+
+  for (const task of tasks) {
+    for (const entry of task.timeEntries ?? []) {
+      const minutes = entry.durationMinutes ?? 0;
+      if (minutes <= 0) continue;
+      const date = getLocalDateKey(new Date(entry.startTime));
+      if (date < from || date > to) continue;
+      logs.push({
+        id: entry.id,
+        taskId: task.id,
+        title: task.title,
+        loop: task.loop,
+        projectId: task.projectId,
+        labels: task.labels ?? [],
+        date,
+        minutes,
+        source: "timer",
+      });
+    }
+  }
+
+  // Focus sessions without a loop (or a task that has one) can't be attributed - left out
+  for (const session of sessions) {
+    if (session.type !== "focus" || session.duration <= 0) continue;
+    const task = session.taskId ? tasksById.get(session.taskId) : undefined;
+    const loop = session.loop ?? task?.loop;
+    if (!loop) continue;
+    const started = new Date(new Date(session.completedAt).getTime() - session.duration * 60 * 1000);
+    const date = getLocalDateKey(started);
+    if (date < from || date > to) continue;
+    logs.push({
+      id: session.id,
+      taskId: task?.id,
+      title: task?.title ?? `${LOOP_DEFINITIONS[loop].name} focus session`,
+      loop,
+      projectId: task?.projectId,
+      labels: task?.labels ?? [],
+      date,
+      minutes: session.duration,
+      source: "session",
+    });
+  }
+
+  return logs.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Estimate vs actual for tasks completed within [from, to]
+export function getEstimateAccuracy(tasks: Task[], from: string, to: string): EstimateAccuracy[] {
+  const byLoop = new Map<LoopId, { estimated: number; actual: number; errors: number[] }>();
+
+  for (const task of tasks) {
+    if (task.status !== "done" || !task.completedAt) continue;
+    if (!task.estimateMinutes || !task.actualMinutes) continue;
+    const completed = getLocalDateKey(new Date(task.completedAt));
+    if (completed < from || completed > to) continue;
+
+    const bucket = byLoop.get(task.loop) ?? { estimated: 0, actual: 0, errors: [] };
+    bucket.estimated += task.estimateMinutes;
+    bucket.actual += task.actualMinutes;
+    bucket.errors.push(Math.abs(task.actualMinutes - task.estimateMinutes) / task.estimateMinutes);
+    byLoop.set(task.loop, bucket);
+  }
+
+  return ALL_LOOPS.filter((loop) => byLoop.has(loop)).map((loop) => {
+    const { estimated, actual, errors } = byLoop.get(loop)!;
+    const meanError = errors.reduce((sum, e) => sum + e, 0) / errors.length;
+    return {
+      loop,
+      tasks: errors.length,
+      estimatedMinutes: estimated,
+      actualMinutes: actual,
+      ratio: actual / estimated,
+      accuracy: Math.max(0, Math.round((1 - meanError) * 100)),
+    };
+  });
+}
+
+// Loops whose tracked time doesn't fit the state they were in
+export function getStateMismatches(
+  byLoop: Record<LoopId, number>,
+  loopStates: Partial<Record<LoopId, LoopState>>,
+  dates: string[]
+): StateMismatch[] {
+  const mismatches: StateMismatch[] = [];
+
+  for (const loop of ALL_LOOPS) {
+    const loopState = loopStates[loop];
+    if (!loopState) continue;
+
+    let expected = 0;
+    const stateDays = new Map<LoopStateType, number>();
+    for (const date of dates) {
+      const state = getActualStateOnDate(loopState, date);
+      if (!state) continue; // Future days
+      expected += (LOOP_WEEKLY_BASELINE_HOURS[loop] * 60 * STATE_TIME_MULTIPLIERS[state]) / 7;
+      stateDays.set(state, (stateDays.get(state) ?? 0) + 1);
+    }
+    if (expected < MIN_EXPECTED_MINUTES) continue;
+
+    const state = [...stateDays.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const actual = byLoop[loop];
+    const name = LOOP_DEFINITIONS[loop].name;
+
+    if (actual > expected * OVER_FACTOR && state !== "BUILD") {
+      mismatches.push({
+        loop,
+        state,
+        actualMinutes: actual,
+        expectedMinutes: Math.round(expected),
+        direction: "over",
+        message: `${name} is in ${state} but ${formatMinutes(actual)} was logged - about ${formatMinutes(expected)} fits that state. Consider BUILD, or cutting back.`,
+      });
+    } else if (actual < expected * UNDER_FACTOR && state === "BUILD") {
+      mismatches.push({
+        loop,
+        state,
+        actualMinutes: actual,
+        expectedMinutes: Math.round(expected),
+        direction: "under",
+        message: `${name} is in BUILD but only ${formatMinutes(actual)} was logged against about ${formatMinutes(expected)}. MAINTAIN may be more honest.`,
+      });
+    }
+  }
+
+  return mismatches;
+}
+
+function bucketize(totals: Map<string | null, number>, nameOf: (id: string | null) => string): TimeBucket[] {
+  return [...totals.entries()]
+    .map(([id, minutes]) => ({ id, name: nameOf(id), minutes }))
+    .sort((a, b) => b.minutes - a.minutes);
+}
+
+export function buildTimeReport(input: {
+  tasks: Task[];
+  sessions: TimerSession[];
+  projects: Project[];
+  labels: Label[];
+  loopStates: Partial<Record<LoopId, LoopState>>;
+  from: string;
+  to: string;
+}): TimeReport {
+  const { tasks, sessions, projects, labels, loopStates, from, to } = input;
+  const logs = collectTimeLogs(tasks, sessions, from, to);
+  const dates = getDateRange(from, to);
+
+  const byLoop = emptyLoopRecord();
+  const projectTotals = new Map<string | null, number>();
+  const labelTotals = new Map<string | null, number>();
+  const dayTotals = new Map<string, DayTotal>(dates.map((date) => [date, { date, minutes: 0, byLoop: {} }]));
+
+  for (const log of logs) {
+    byLoop[log.loop] += log.minutes;
+    projectTotals.set(log.projectId ?? null, (projectTotals.get(log.projectId ?? null) ?? 0) + log.minutes);
+    for (const labelId of log.labels.length > 0 ? log.labels : [null]) {
+      labelTotals.set(labelId, (labelTotals.get(labelId) ?? 0) + log.minutes);
+    }
+    const day = dayTotals.get(log.date);
+    if (day) {
+      day.minutes += log.minutes;
+      day.byLoop[log.loop] = (day.byLoop[log.loop] ?? 0) + log.minutes;
+    }
+  }
+
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+  const labelNames = new Map(labels.map((l) => [l.id, l.name]));
+
+  return {
+    from,
+    to,
+    logs,
+    totalMinutes: logs.reduce((sum, log) => sum + log.minutes, 0),
+    byLoop,
+    byProject: bucketize(projectTotals, (id) => (id ? projectNames.get(id) ?? "Deleted project" : "No project")),
+    byLabel: bucketize(labelTotals, (id) => (id ? labelNames.get(id) ?? id : "No label")),
+    byDay: [...dayTotals.values()],
+    accuracy: getEstimateAccuracy(tasks, from, to),
+    mismatches: getStateMismatches(byLoop, loopStates, dates),
+  };
+}
+
+function csvCell(value: string): string {
+  const escaped = value.replace(/"/g, '""');
+  return /[",\n]/.test(escaped) ? `"${escaped}"` : escaped;
+}
+
+function hours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+// Weekly timesheet - one row per task (or loop, for untasked sessions), a column per day, hours
+export function buildTimesheetCsv(logs: TimeLog[], weekStart: string, projects: Project[]): string {
+  const dates = getDateRange(weekStart, addDays(weekStart, 6));
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+
+  const rows = new Map<string, { title: string; loop: LoopId; project: string; byDate: Map<string, number> }>();
+  for (const log of logs) {
+    if (!dates.includes(log.date)) continue;
+    const key = log.taskId ?? `loop:${log.loop}`;
+    const row = rows.get(key) ?? {
+      title: log.title,
+      loop: log.loop,
+      project: log.projectId ? projectNames.get(log.projectId) ?? "" : "",
+      byDate: new Map<string, number>(),
+    };
+    row.byDate.set(log.date, (row.byDate.get(log.date) ?? 0) + log.minutes);
+    rows.set(key, row);
+  }
+
+  const dayHeaders = dates.map((date) =>
+    new Date(`${date}T12:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "numeric", day: "numeric" })
+  );
+  const lines = [["Task", "Loop", "Project", ...dayHeaders, "Total"]];
+
+  const sorted = [...rows.values()].sort((a, b) => a.loop.localeCompare(b.loop) || a.title.localeCompare(b.title));
+  for (const row of sorted) {
+    const perDay = dates.map((date) => row.byDate.get(date) ?? 0);
+    lines.push([
+      row.title,
+      row.loop,
+      row.project,
+      ...perDay.map((m) => (m > 0 ? hours(m) : "")),
+      hours(perDay.reduce((sum, m) => sum + m, 0)),
+    ]);
+  }
+
+  const dayTotals = dates.map((date) => sorted.reduce((sum, row) => sum + (row.byDate.get(date) ?? 0), 0));
+  lines.push(["Total", "", "", ...dayTotals.map(hours), hours(dayTotals.reduce((sum, m) => sum + m, 0))]);
+
+  return lines.map((line) => line.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,143 @@
+// Trigger Engine - evaluates LoopState.triggers and turns them into state transitions
+//
+// Each trigger's condition uses the shared condition language (see conditionEngine),
+// e.g. "sleepScore < 60 for 2 days" or "every Friday 17:00". Manual triggers are
+// only run from the UI.
+
+import {
+  LoopId,
+  LoopStateType,
+  LoopState,
+  StateTransitionTrigger,
+  TriggerType,
+  CascadeRule,
+  ALL_LOOPS,
+  getLocalDateKey,
+} from "../types";
+import { transitionLoopState } from "./stateEngine";
+import {
+  ConditionContext,
+  ConditionEvaluation,
+  ParsedCondition,
+  evaluateCondition,
+  parseCondition,
+} from "./conditionEngine";
+import { getCascadeResult } from "./cascadeEngine";
+
+// Cascade rules are optional - when given, triggers can't move a loop into a blocked state
+export type TriggerContext = ConditionContext & {
+  cascadeRules?: CascadeRule[];
+};
+
+// A trigger that matched and can be applied as a transition
+export type TriggerFiring = {
+  loopId: LoopId;
+  triggerId: string;
+  fromState: LoopStateType;
+  toState: LoopStateType;
+  reason: string;
+  triggeredBy: TriggerType;
+  firedAt: string;
+};
+
+// Best trigger type for a condition: time beats biometric beats threshold beats cascade
+export function inferTriggerType(parsed: ParsedCondition): TriggerType {
+  const kinds = new Set(parsed.clauses.map((c) => c.kind));
+  if (kinds.has("schedule") || kinds.has("dayType") || kinds.has("date")) return "time";
+  if (kinds.has("metric")) return "biometric";
+  if (kinds.has("tasks")) return "threshold";
+  return "cascade";
+}
+
+// Check whether a trigger's condition holds right now (ignores enabled/manual).
+// Schedules only count occurrences since the trigger last fired (or was created).
+export function evaluateTriggerCondition(
+  trigger: StateTransitionTrigger,
+  context: TriggerContext
+): ConditionEvaluation {
+  const since = trigger.lastFiredAt ?? trigger.createdAt;
+  return evaluateCondition(trigger.condition, context, since ? new Date(since).getTime() : undefined);
+}
+
+// Triggers fire at most once a day, so a metric that stays low doesn't fight
+// the user after they've changed the state back by hand
+function firedToday(trigger: StateTransitionTrigger, now: Date): boolean {
+  return !!trigger.lastFiredAt && getLocalDateKey(new Date(trigger.lastFiredAt)) === getLocalDateKey(now);
+}
+
+// Work out whether a trigger should fire, and validate the transition it implies
+export function evaluateTrigger(
+  loopState: LoopState,
+  trigger: StateTransitionTrigger,
+  context: TriggerContext
+): { firing: TriggerFiring | null; reason: string } {
+  const evaluation = evaluateTriggerCondition(trigger, context);
+  if (!evaluation.matched) return { firing: null, reason: evaluation.reason };
+
+  if (firedToday(trigger, context.now)) {
+    return { firing: null, reason: `Already fired today (${evaluation.reason})` };
+  }
+  if (loopState.currentState === trigger.targetState) {
+    return { firing: null, reason: `Already in ${trigger.targetState} (${evaluation.reason})` };
+  }
+
+  const cascade = context.cascadeRules
+    ? getCascadeResult(context.cascadeRules, context, loopState.loopId)
+    : undefined;
+  const transition = transitionLoopState(loopState, trigger.targetState, evaluation.reason, cascade);
+  if (!transition.success) {
+    return { firing: null, reason: transition.reason };
+  }
+
+  return {
+    firing: {
+      loopId: loopState.loopId,
+      triggerId: trigger.id,
+      fromState: loopState.currentState,
+      toState: transition.newState,
+      reason: `Trigger "${trigger.condition}": ${evaluation.reason}`,
+      triggeredBy: trigger.type,
+      firedAt: context.now.toISOString(),
+    },
+    reason: evaluation.reason,
+  };
+}
+
+// Evaluate every enabled, non-manual trigger. At most one firing per loop - the first
+// matching trigger in the loop's list wins.
+export function evaluateLoopTriggers(context: TriggerContext): TriggerFiring[] {
+  const firings: TriggerFiring[] = [];
+
+  for (const loopId of ALL_LOOPS) {
+    const loopState = context.loopStates[loopId];
+    if (!loopState?.triggers?.length) continue;
+
+    for (const trigger of loopState.triggers) {
+      if (!trigger.enabled || trigger.type === "manual") continue;
+      const { firing } = evaluateTrigger(loopState, trigger, context);
+      if (firing) {
+        firings.push(firing);
+        break;
+      }
+    }
+  }
+
+  return firings;
+}
+
+// Create a new trigger, typed from its condition
+export function createTrigger(
+  condition: string,
+  targetState: LoopStateType,
+  manual: boolean = false
+): StateTransitionTrigger {
+  const parsed = parseCondition(condition);
+  return {
+    id: `trigger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: manual ? "manual" : "error" in parsed ? "threshold" : inferTriggerType(parsed),
+    condition,
+    targetState,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,131 @@
+// Weekly Plan Engine - loop states planned ahead per day (LoopState.weeklyStates)
+//
+// At the start of a planned day the planned states are applied, then cascade rules
+// settle every loop, so a plan can't put a loop somewhere its rules forbid.
+
+import {
+  LoopId,
+  LoopState,
+  LoopStateType,
+  CascadeRule,
+  ALL_LOOPS,
+  getLocalDateKey,
+} from "../types";
+import { ConditionContext } from "./conditionEngine";
+import { getCurrentStates } from "./cascadeEngine";
+import { propagateCascade } from "./cascadeSimulator";
+import { getStateDisplayName } from "./stateEngine";
+
+// How long planned days are kept once they're in the past
+const PLAN_RETENTION_DAYS = 90;
+
+// A state change made when a planned day starts
+export type PlannedStateChange = {
+  loopId: LoopId;
+  fromState: LoopStateType;
+  toState: LoopStateType;
+  reason: string;
+  triggeredBy: "time" | "cascade";
+};
+
+export type PlanComparison = {
+  date: string;
+  planned?: LoopStateType;
+  actual: LoopStateType | null; // null for days that haven't happened yet
+};
+
+export function getPlannedState(loopState: LoopState | undefined, dateKey: string): LoopStateType | undefined {
+  return loopState?.weeklyStates?.[dateKey];
+}
+
+export function hasPlanForDate(loopStates: Record<LoopId, LoopState>, dateKey: string): boolean {
+  return ALL_LOOPS.some((loopId) => !!getPlannedState(loopStates[loopId], dateKey));
+}
+
+function formatDay(dateKey: string): string {
+  return new Date(`${dateKey}T00:00:00`).toLocaleDateString("en-US", { weekday: "long" });
+}
+
+// Changes that bring every loop in line with the plan for a date
+export function getWeeklyPlanChanges(
+  rules: CascadeRule[],
+  context: ConditionContext,
+  dateKey: string
+): PlannedStateChange[] {
+  const current = getCurrentStates(context);
+  const start = { ...current };
+  for (const loopId of ALL_LOOPS) {
+    const planned = getPlannedState(context.loopStates[loopId], dateKey);
+    if (planned) start[loopId] = planned;
+  }
+
+  // Nothing is pinned - cascade rules get the last word over the plan
+  const { states, reasons } = propagateCascade(rules, context, start);
+  const day = formatDay(dateKey);
+
+  return ALL_LOOPS
+    .filter((loopId) => states[loopId] !== current[loopId])
+    .map((loopId) => {
+      const planned = getPlannedState(context.loopStates[loopId], dateKey);
+      let reason: string;
+      if (planned && planned === states[loopId]) {
+        reason = `Weekly plan for ${day}`;
+      } else if (planned) {
+        reason = `Weekly plan for ${day} was ${getStateDisplayName(planned)}, adjusted by cascade: ${reasons[loopId] ?? "rule limits"}`;
+      } else {
+        reason = `Cascade from ${day}'s plan: ${reasons[loopId] ?? "rule limits"}`;
+      }
+      return {
+        loopId,
+        fromState: current[loopId],
+        toState: states[loopId],
+        reason,
+        triggeredBy: planned ? "time" as const : "cascade" as const,
+      };
+    });
+}
+
+// The state a loop ended a day in, read back from its history
+export function getActualStateOnDate(loopState: LoopState, dateKey: string): LoopStateType | null {
+  if (dateKey > getLocalDateKey()) return null;
+
+  const endOfDay = new Date(`${dateKey}T23:59:59.999`).getTime();
+  const history = [...loopState.stateHistory].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  let lastBefore: LoopStateType | null = null;
+  for (const entry of history) {
+    if (new Date(entry.timestamp).getTime() <= endOfDay) {
+      lastBefore = entry.toState;
+    } else {
+      // First change after the day tells us what it was changing from
+      return lastBefore ?? entry.fromState;
+    }
+  }
+  return lastBefore ?? loopState.currentState;
+}
+
+export function comparePlanToActual(loopState: LoopState, dateKeys: string[]): PlanComparison[] {
+  return dateKeys.map((date) => ({
+    date,
+    planned: getPlannedState(loopState, date),
+    actual: getActualStateOnDate(loopState, date),
+  }));
+}
+
+// Set (or clear, with null) one planned day, dropping days past retention
+export function setPlannedState(
+  weeklyStates: Record<string, LoopStateType> | undefined,
+  dateKey: string,
+  state: LoopStateType | null
+): Record<string, LoopStateType> {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - PLAN_RETENTION_DAYS);
+  const cutoffKey = getLocalDateKey(cutoff);
+
+  const next: Record<string, LoopStateType> = {};
+  for (const [date, planned] of Object.entries(weeklyStates || {})) {
+    if (date >= cutoffKey && date !== dateKey) next[date] = planned;
+  }
+  if (state) next[dateKey] = state;
+  return next;
+}
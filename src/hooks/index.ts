@@ -2,3 +2,9 @@
 
 export { useLocalStorage } from "./useLocalStorage";
 export { useFirebaseAuth, type AuthMode, type UseFirebaseAuth } from "./useFirebaseAuth";
+export { useUndoShortcuts } from "./useUndoShortcuts";
+export { useOutbox } from "./useOutbox";
+export { useLoopTriggers } from "./useLoopTriggers";
+export { useWeeklyPlan } from "./useWeeklyPlan";
+export { useReminderScheduler } from "./useReminderScheduler";
+export { useCalendarWriteBack } from "./useCalendarWriteBack";
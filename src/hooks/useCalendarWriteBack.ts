@@ -0,0 +1,211 @@
+// Hook to write today's planned blocks and timed routines to the Looops Google calendar, and read
+// back what was moved or deleted there - runs shortly after changes, every 5 minutes, and when the
+// app comes back into view
+
+import { useEffect, useRef, type Dispatch } from 'react';
+import { useApp, AppState, AppAction } from '../context';
+import { CalendarSyncLink, CalendarSyncState, LoopId, LooopsCalendarEvent, getLocalDateKey } from '../types';
+import { planTimeBlocks } from '../engines/timeBlockEngine';
+import { getTodayStackTasks } from '../engines/capacityEngine';
+import { getSchedulingProfile } from '../engines/schedulingEngine';
+import {
+  CalendarSyncBlock,
+  TaskScheduleChange,
+  applyTaskScheduleChanges,
+  getCalendarSyncWindow,
+  getDesiredCalendarBlocks,
+  getRemovedTaskIds,
+  planCalendarWrites,
+  pruneCalendarSync,
+  reconcileLooopsEvents,
+} from '../engines/calendarSyncEngine';
+import {
+  CalendarResult,
+  createLooopsEvent,
+  deleteLooopsEvent,
+  ensureLooopsCalendar,
+  getCalendarWeekEvents,
+  getLooopsCalendarEvents,
+  updateLooopsEvent,
+} from '../services/integrations';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const SETTLE_MS = 15 * 1000; // Let a burst of edits settle before writing
+const REAUTH_MESSAGE = 'Reconnect Google Calendar to let Looops write to it';
+
+function describeFailure(result: CalendarResult<unknown>): string {
+  return result.needsReauth ? REAUTH_MESSAGE : result.error ?? 'Calendar sync failed';
+}
+
+function toLink(block: CalendarSyncBlock, event: LooopsCalendarEvent): CalendarSyncLink {
+  return {
+    key: block.key,
+    kind: block.kind,
+    sourceId: block.sourceId,
+    date: block.date,
+    eventId: event.id,
+    title: block.title,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    plannedStart: block.startTime,
+    plannedEnd: block.endTime,
+  };
+}
+
+async function runCalendarSync(
+  state: AppState,
+  capacityAdjustments: Partial<Record<LoopId, number>>,
+  dispatch: Dispatch<AppAction>
+): Promise<void> {
+  const now = new Date();
+  const today = getLocalDateKey(now);
+  const apply = (sync: Partial<CalendarSyncState>, taskChanges: TaskScheduleChange[] = []) =>
+    dispatch({ type: 'APPLY_CALENDAR_SYNC', payload: { sync, taskChanges } });
+
+  // Looops only writes to the calendar it created - its id is kept from here on, even when this run fails
+  let calendarId = state.calendarSync.calendarId;
+  if (!calendarId) {
+    const ensured = await ensureLooopsCalendar();
+    if (!ensured.data) return apply({ lastError: describeFailure(ensured) });
+    calendarId = ensured.data.id;
+  }
+
+  // Planning blind would write blocks over meetings, so nothing is written without the week's events
+  const week = await getCalendarWeekEvents();
+  if (!week.data) return apply({ calendarId, lastError: describeFailure(week) });
+  dispatch({ type: 'SET_CALENDAR_EVENTS', payload: week.data });
+
+  const window = getCalendarSyncWindow(now);
+  const fetched = await getLooopsCalendarEvents(calendarId, window.timeMin, window.timeMax);
+  if (fetched.missing) {
+    // The Looops calendar was deleted in Google - a new one is made next time
+    return apply({ calendarId: null, links: [], removed: [], lastError: null });
+  }
+  if (!fetched.data) return apply({ calendarId, lastError: describeFailure(fetched) });
+
+  // Moves and deletions made in Google come first
+  const pruned = pruneCalendarSync(state.calendarSync.links, state.calendarSync.removed, today);
+  const reconciled = reconcileLooopsEvents(pruned.links, fetched.data, state.tasks.items);
+  const taskChanges = [...reconciled.taskChanges];
+  const removed = [...pruned.removed, ...reconciled.removals];
+  const tasks = applyTaskScheduleChanges(state.tasks.items, taskChanges);
+
+  const plan = planTimeBlocks({
+    date: today,
+    now,
+    tasks: getTodayStackTasks(tasks, state.tasks.todayStack, today),
+    events: week.data,
+    activeTimer: state.activeTimer,
+    loopStates: state.loops.states,
+    capacityAdjustments,
+    smartSchedule: state.smartSchedule,
+    profile: state.user.prototype ? getSchedulingProfile(state.user.prototype) : null,
+    settings: state.timeBlockSettings,
+    excludedTaskIds: getRemovedTaskIds(removed, today),
+    ownCalendarId: calendarId,
+  });
+  const desired = getDesiredCalendarBlocks({
+    now,
+    plan,
+    routines: state.routines.items,
+    smartSchedule: state.smartSchedule,
+    includeRoutines: state.calendarSync.includeRoutines,
+  });
+  const writes = planCalendarWrites(reconciled.links, desired, removed, tasks, now);
+
+  // Writes stop at the first failure; whatever is left keeps its old link and is retried next time
+  const links = [...writes.kept];
+  let lastError: string | null = null;
+  const written = (block: CalendarSyncBlock, event: LooopsCalendarEvent) => {
+    links.push(toLink(block, event));
+  };
+
+  for (const { link, block } of writes.updates) {
+    if (lastError) {
+      links.push(link);
+      continue;
+    }
+    const result = await updateLooopsEvent(calendarId, link.eventId, block);
+    if (result.data) {
+      written(block, result.data);
+    } else if (result.missing) {
+      removed.push({ key: link.key, date: link.date });
+    } else {
+      lastError = describeFailure(result);
+      links.push(link);
+    }
+  }
+
+  for (const link of writes.deletes) {
+    if (lastError) {
+      links.push(link);
+      continue;
+    }
+    const result = await deleteLooopsEvent(calendarId, link.eventId);
+    if (result.error || result.needsReauth) {
+      lastError = describeFailure(result);
+      links.push(link);
+    }
+  }
+
+  for (const eventId of reconciled.strays) {
+    if (!lastError) await deleteLooopsEvent(calendarId, eventId);
+  }
+
+  for (const block of writes.creates) {
+    if (lastError) break;
+    const result = await createLooopsEvent(calendarId, block);
+    if (result.data) {
+      written(block, result.data);
+    } else {
+      lastError = describeFailure(result);
+    }
+  }
+
+  apply({ calendarId, links, removed, lastSyncedAt: new Date().toISOString(), lastError }, taskChanges);
+}
+
+/**
+ * @param enabled - Hold off until synced data has loaded, so nothing is written from stale state
+ * @param capacityAdjustments - Cascade adjustments per loop, as today's plan uses them
+ */
+export function useCalendarWriteBack(enabled: boolean, capacityAdjustments: Partial<Record<LoopId, number>>) {
+  const { state, dispatch } = useApp();
+  const { calendarSync, tasks, routines, timeBlockSettings } = state;
+  const active = enabled && calendarSync.enabled;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const adjustmentsRef = useRef(capacityAdjustments);
+  adjustmentsRef.current = capacityAdjustments;
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const sync = async () => {
+      if (syncingRef.current || !navigator.onLine) return;
+      syncingRef.current = true;
+      try {
+        await runCalendarSync(stateRef.current, adjustmentsRef.current, dispatch);
+      } catch (error) {
+        console.error('[CalendarWriteBack] Sync failed:', error);
+      } finally {
+        syncingRef.current = false;
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') sync();
+    };
+
+    const settle = setTimeout(sync, SETTLE_MS);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearTimeout(settle);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [active, dispatch, tasks.items, tasks.todayStack, routines.items, calendarSync.includeRoutines, timeBlockSettings]);
+}
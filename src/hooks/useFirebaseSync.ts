@@ -1,5 +1,11 @@
-// Firebase sync hook - simple bidirectional sync
-import { useEffect, useRef, useCallback } from 'react';
+// Firebase sync hook - per-record bidirectional sync with conflict resolution
+//
+// Entity collections (tasks, goals, systems...) sync record by record through their
+// own Firestore sub-collections. Everything else lives in the root user document.
+// A persisted "shadow" remembers the revision and content hash this device last
+// agreed with the cloud, so only real local edits are written and concurrent edits
+// from another device are merged field by field instead of overwritten.
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { User, Unsubscribe } from 'firebase/auth';
 import {
   isFirebaseConfigured,
@@ -8,45 +14,338 @@ import {
   loadState,
   subscribeToState,
   signInAnonymouslyIfNeeded,
+  loadCollection,
+  saveRecord,
+  subscribeToCollection,
 } from '../services/firebase';
+import {
+  PersistedState,
+  RemoteRecord,
+  SyncCollectionId,
+  SyncConflict,
+  SyncRecord,
+  SyncShadow,
+  SYNC_COLLECTIONS,
+  getSyncCollection,
+  hashRecord,
+  mergeRecordFields,
+  getRecordLabel,
+  getRecordUpdatedAt,
+  createSyncConflict,
+  hasLegacyEntityData,
+  toRootDocument,
+  normalizeRootDocument,
+  rootDocumentToState,
+} from '../services/entitySync';
+import {
+  ENCRYPTED_COLLECTIONS,
+  EncryptionStatus,
+  getEncryptionStatus,
+  onEncryptionStatusChange,
+  resetEncryptionState,
+} from '../services/encryption';
+import { STORAGE_KEYS, getStorageItem, setStorageItem, getDeviceId, migratePersistedState } from '../storage';
 import { AppState } from '../context/AppContext';
 
-// Track if user has made a change this session (prevents overwriting cloud on load)
-let userMadeChange = false;
+// Keep the conflict log short - it's a recent-activity view, not an audit trail
+const MAX_CONFLICT_LOG = 50;
+// Records written at once - each is its own transaction, so they don't wait on each other
+const SAVE_CONCURRENCY = 20;
+
+function shadowKey(userId: string): string {
+  return `${STORAGE_KEYS.SYNC_SHADOW}_${userId}`;
+}
 
-export function markUserChange() {
-  userMadeChange = true;
+function emptyShadow(): SyncShadow {
+  return { collections: {} };
 }
 
 export function useFirebaseSync(
-  state: Omit<AppState, 'ui'>,
+  state: PersistedState,
   onRemoteUpdate: (state: Partial<AppState>) => void,
+  onRemoteRecords: (collection: SyncCollectionId, upserts: SyncRecord[], deletedIds: string[]) => void,
   userId: string | null
 ) {
   const userRef = useRef<User | null>(null);
-  const versionRef = useRef(0);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const deviceIdRef = useRef(getDeviceId());
+
+  // Latest state, readable from async callbacks
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Sync bookkeeping
+  const shadowRef = useRef<SyncShadow>(emptyShadow());
+  const baseDataRef = useRef(new Map<string, SyncRecord | null>()); // Last synced content (this session only)
+  const rootBaseRef = useRef<Partial<PersistedState> | null>(null);
+  const readyRef = useRef(false);
+  // Records taken from the cloud that haven't reached rendered state yet - never tombstoned
+  const arrivingRef = useRef(new Set<string>());
+  // Bumped once the initial load has been dispatched (reset to 0 for each new session);
+  // saves start, and the app stops waiting on the load, after that render commits
+  const [hydratedSession, setHydratedSession] = useState(0);
+  const savingRef = useRef(false);
+  const pendingSaveRef = useRef(false);
 
-  // Stable reference to callback
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() =>
+    getStorageItem<SyncConflict[]>(STORAGE_KEYS.SYNC_CONFLICTS, [])
+  );
+
+  // Stable references to callbacks
   const onRemoteUpdateRef = useRef(onRemoteUpdate);
   onRemoteUpdateRef.current = onRemoteUpdate;
+  const onRemoteRecordsRef = useRef(onRemoteRecords);
+  onRemoteRecordsRef.current = onRemoteRecords;
 
   // Use the authenticated user's ID for per-user data isolation
   const syncId = userId;
 
-  // Save to cloud
+  const persistShadow = useCallback(() => {
+    if (syncId) {
+      setStorageItem(shadowKey(syncId), shadowRef.current);
+    }
+  }, [syncId]);
+
+  const logConflict = useCallback((conflict: SyncConflict) => {
+    console.log('[Sync] Conflict resolved:', conflict.collection, conflict.label, conflict.fields, '->', conflict.winner);
+    setConflicts((prev) => {
+      const next = [conflict, ...prev].slice(0, MAX_CONFLICT_LOG);
+      setStorageItem(STORAGE_KEYS.SYNC_CONFLICTS, next);
+      return next;
+    });
+  }, []);
+
+  const clearConflicts = useCallback(() => {
+    setConflicts([]);
+    setStorageItem(STORAGE_KEYS.SYNC_CONFLICTS, []);
+  }, []);
+
+  const collectionShadow = (collectionId: SyncCollectionId) => {
+    const collections = shadowRef.current.collections;
+    if (!collections[collectionId]) collections[collectionId] = {};
+    return collections[collectionId]!;
+  };
+
+  // Merge incoming remote records into local state
+  const reconcileRemoteRecords = useCallback((collectionId: SyncCollectionId, remotes: RemoteRecord[]) => {
+    const def = getSyncCollection(collectionId);
+    const localById = new Map((def.select(stateRef.current) ?? []).map((r) => [r.id, r]));
+    const shadow = collectionShadow(collectionId);
+    const upserts: SyncRecord[] = [];
+    const deletedIds: string[] = [];
+
+    for (const remote of remotes) {
+      const entry = shadow[remote.id];
+      // Already seen (usually the echo of our own write)
+      if (entry && entry.rev >= remote.rev) continue;
+
+      const key = `${collectionId}:${remote.id}`;
+      const local = localById.get(remote.id);
+      const localHash = local ? hashRecord(local) : null;
+      const localPending = entry
+        ? (entry.deleted ? !!local : localHash !== entry.hash)
+        : !!local;
+
+      if (!localPending || (local && remote.data && localHash === hashRecord(remote.data))) {
+        // No local edits - take the cloud version as is
+        if (remote.deleted) {
+          if (local) deletedIds.push(remote.id);
+        } else if (remote.data && localHash !== hashRecord(remote.data)) {
+          upserts.push(remote.data);
+        }
+      } else if (remote.deleted) {
+        // Edited here, deleted elsewhere - keep the edit, it will be written back
+        logConflict(createSyncConflict(collectionId, remote.id, getRecordLabel(local), ['deleted on another device'], 'local'));
+      } else if (!local) {
+        // Deleted here, edited elsewhere - keep the edit
+        if (remote.data) upserts.push(remote.data);
+        logConflict(createSyncConflict(collectionId, remote.id, getRecordLabel(remote.data), ['deleted on this device'], 'remote'));
+      } else if (remote.data) {
+        const { merged, conflicts: fields, winner } = mergeRecordFields<SyncRecord>(
+          baseDataRef.current.get(key),
+          local,
+          remote.data,
+          getRecordUpdatedAt(local),
+          remote.updatedAt
+        );
+        if (fields.length > 0) {
+          logConflict(createSyncConflict(collectionId, remote.id, getRecordLabel(merged), fields, winner));
+        }
+        if (hashRecord(merged) !== localHash) upserts.push(merged);
+      }
+
+      shadow[remote.id] = {
+        rev: remote.rev,
+        hash: remote.data ? hashRecord(remote.data) : '',
+        deleted: remote.deleted,
+      };
+      baseDataRef.current.set(key, remote.data);
+    }
+
+    for (const record of upserts) arrivingRef.current.add(`${collectionId}:${record.id}`);
+    for (const id of deletedIds) arrivingRef.current.delete(`${collectionId}:${id}`);
+
+    persistShadow();
+    if (upserts.length > 0 || deletedIds.length > 0) {
+      console.log('[Sync] Applying remote records:', collectionId, 'upserts:', upserts.length, 'deletes:', deletedIds.length);
+      onRemoteRecordsRef.current(collectionId, upserts, deletedIds);
+    }
+  }, [persistShadow, logConflict]);
+
+  // Merge an incoming root document into local state
+  const reconcileRemoteRoot = useCallback((remoteState: Record<string, unknown>) => {
+    const remoteDoc = normalizeRootDocument(remoteState);
+    const remoteHash = hashRecord(remoteDoc);
+    const shadowHash = shadowRef.current.rootHash;
+    if (remoteHash === shadowHash) return;
+
+    const localDoc = toRootDocument(stateRef.current);
+    const localHash = hashRecord(localDoc);
+    let payload = remoteDoc;
+
+    if (shadowHash && localHash !== shadowHash && localHash !== remoteHash) {
+      // Both sides changed since the last sync - merge slice by slice
+      const { merged, conflicts: fields, winner } = mergeRecordFields<Record<string, unknown>>(
+        rootBaseRef.current as Record<string, unknown> | null,
+        localDoc as Record<string, unknown>,
+        remoteDoc as Record<string, unknown>,
+        new Date().toISOString(),
+        (remoteState._updatedAt as string) || ''
+      );
+      if (fields.length > 0) {
+        logConflict(createSyncConflict('root', 'root', 'Settings & other data', fields, winner));
+      }
+      payload = merged as Partial<PersistedState>;
+    }
+
+    shadowRef.current.rootHash = remoteHash;
+    rootBaseRef.current = remoteDoc;
+    persistShadow();
+    onRemoteUpdateRef.current(rootDocumentToState(payload, stateRef.current) as Partial<AppState>);
+  }, [persistShadow, logConflict]);
+
+  // Write one record, merging with the cloud copy if it moved on
+  const pushRecord = useCallback(async (
+    collectionId: SyncCollectionId,
+    recordId: string,
+    data: SyncRecord | null
+  ) => {
+    if (!syncId) return;
+    const key = `${collectionId}:${recordId}`;
+    const shadow = collectionShadow(collectionId);
+    const entry = shadow[recordId];
+    let conflict: SyncConflict | null = null;
+
+    const result = await saveRecord(syncId, collectionId, recordId, data, entry?.rev ?? 0, deviceIdRef.current, (remote) => {
+      // Runs inside the transaction (may run more than once)
+      conflict = null;
+      if (remote.deleted || !remote.data) {
+        if (data) {
+          conflict = createSyncConflict(collectionId, recordId, getRecordLabel(data), ['deleted on another device'], 'local');
+        }
+        return data;
+      }
+      if (!data) {
+        conflict = createSyncConflict(collectionId, recordId, getRecordLabel(remote.data), ['deleted on this device'], 'remote');
+        return remote.data;
+      }
+      const { merged, conflicts: fields, winner } = mergeRecordFields<SyncRecord>(
+        baseDataRef.current.get(key),
+        data,
+        remote.data,
+        new Date().toISOString(),
+        remote.updatedAt
+      );
+      if (fields.length > 0) {
+        conflict = createSyncConflict(collectionId, recordId, getRecordLabel(merged), fields, winner);
+      }
+      return merged;
+    });
+
+    if (!result) return;
+
+    const { written } = result;
+    shadow[recordId] = {
+      rev: written.rev,
+      hash: written.data ? hashRecord(written.data) : '',
+      deleted: written.deleted,
+    };
+    baseDataRef.current.set(key, written.data);
+    if (conflict) logConflict(conflict);
+
+    // The merge produced something other than what we had - bring it back into state
+    if (written.data && hashRecord(written.data) !== (data ? hashRecord(data) : null)) {
+      arrivingRef.current.add(key);
+      onRemoteRecordsRef.current(collectionId, [written.data], []);
+    }
+  }, [syncId, logConflict]);
+
+  // Save to cloud - only records and root slices that changed since the last sync
   const save = useCallback(async () => {
     const user = userRef.current;
-    if (!user || !syncId) {
-      console.log('[Sync] No user or syncId, cannot save');
+    if (!user || !syncId || !readyRef.current) {
+      return;
+    }
+    if (savingRef.current) {
+      pendingSaveRef.current = true;
       return;
     }
 
-    versionRef.current += 1;
-    console.log('[Sync] Saving, version:', versionRef.current);
-    const success = await saveState(syncId, state, versionRef.current);
-    console.log('[Sync] Save result:', success);
-  }, [state, syncId]);
+    savingRef.current = true;
+    try {
+      const current = stateRef.current;
+      let written = 0;
+      const changes: Array<[SyncCollectionId, string, SyncRecord | null]> = [];
+
+      for (const def of SYNC_COLLECTIONS) {
+        const items = def.select(current) ?? [];
+        const shadow = collectionShadow(def.id);
+        const seen = new Set<string>();
+
+        for (const item of items) {
+          seen.add(item.id);
+          arrivingRef.current.delete(`${def.id}:${item.id}`);
+          const entry = shadow[item.id];
+          if (entry && !entry.deleted && entry.hash === hashRecord(item)) continue;
+          changes.push([def.id, item.id, item]);
+        }
+
+        for (const [recordId, entry] of Object.entries(shadow)) {
+          // Missing because it was just received and isn't in state yet - not a local delete
+          if (arrivingRef.current.has(`${def.id}:${recordId}`)) continue;
+          if (!seen.has(recordId) && !entry.deleted) {
+            changes.push([def.id, recordId, null]);
+          }
+        }
+      }
+
+      for (let i = 0; i < changes.length; i += SAVE_CONCURRENCY) {
+        const chunk = changes.slice(i, i + SAVE_CONCURRENCY);
+        await Promise.all(chunk.map(([collectionId, recordId, data]) => pushRecord(collectionId, recordId, data)));
+        written += chunk.length;
+      }
+
+      const rootDoc = toRootDocument(current);
+      const rootHash = hashRecord(rootDoc);
+      if (rootHash !== shadowRef.current.rootHash) {
+        const success = await saveState(syncId, rootDoc, deviceIdRef.current);
+        if (success) {
+          shadowRef.current.rootHash = rootHash;
+          rootBaseRef.current = rootDoc;
+          written++;
+        }
+      }
+
+      persistShadow();
+      console.log('[Sync] Save complete, documents written:', written);
+    } finally {
+      savingRef.current = false;
+      if (pendingSaveRef.current) {
+        pendingSaveRef.current = false;
+        save();
+      }
+    }
+  }, [syncId, pushRecord, persistShadow]);
 
   // Auth and initial load - re-run when userId changes
   useEffect(() => {
@@ -61,47 +360,78 @@ export function useFirebaseSync(
     }
 
     console.log('[Sync] Starting sync for user:', syncId);
-    let unsubscribeFirestore: Unsubscribe | null = null;
+    let unsubscribers: Unsubscribe[] = [];
 
     const setupSync = async (user: User) => {
       userRef.current = user;
       console.log('[Sync] Using sync ID:', syncId, '(auth uid:', user.uid, ')');
 
       // Reset on new session
-      userMadeChange = false;
-      versionRef.current = 0;
-      console.log('[Sync] Session started, saves disabled until user action');
+      readyRef.current = false;
+      resetEncryptionState();
+      shadowRef.current = getStorageItem<SyncShadow>(shadowKey(syncId), emptyShadow());
+      baseDataRef.current = new Map();
+      rootBaseRef.current = null;
+      arrivingRef.current = new Set();
+      setHydratedSession(0);
 
-      // Load initial state for this user
+      // Load root document and every entity collection for this user
       console.log('[Sync] Loading state for:', syncId);
       const result = await loadState(syncId);
+      const remoteCollections = await Promise.all(
+        SYNC_COLLECTIONS.map((def) => loadCollection(syncId, def.id))
+      );
+      const hasCollections = remoteCollections.some((records) => (records?.length ?? 0) > 0);
+
       if (result) {
-        versionRef.current = result.version;
-        console.log('[Sync] Loaded state, version:', result.version);
-        onRemoteUpdateRef.current(result.state as Partial<AppState>);
+        const rootState = migratePersistedState<Record<string, unknown>>(result.state, 'Firestore');
+        if (!hasCollections && hasLegacyEntityData(rootState as Partial<PersistedState>)) {
+          // Cloud data predates per-record sync: take it whole once, the next save
+          // moves every record into its own collection
+          console.log('[Sync] Legacy root document found, migrating to collections');
+          const { _deviceId, _updatedAt, _version, ...legacyState } = rootState;
+          onRemoteUpdateRef.current(legacyState as Partial<AppState>);
+        } else {
+          reconcileRemoteRoot(rootState);
+        }
       } else {
         console.log('[Sync] No existing state in cloud for this user');
       }
 
+      SYNC_COLLECTIONS.forEach((def, index) => {
+        const records = remoteCollections[index];
+        if (records && records.length > 0) {
+          reconcileRemoteRecords(def.id, records);
+        }
+      });
+
+      // Saves wait for the render that applies the load above - state read before
+      // then would be missing the records just received
+      setHydratedSession((session) => session + 1);
+
       // Subscribe to remote changes
       console.log('[Sync] Subscribing to remote changes');
-      unsubscribeFirestore = subscribeToState(syncId, (remoteState, remoteVersion) => {
-        console.log('[Sync] Remote update, version:', remoteVersion, 'local:', versionRef.current);
-        // Only apply if remote is newer
-        if (remoteVersion > versionRef.current) {
-          console.log('[Sync] Applying remote update');
-          versionRef.current = remoteVersion;
-          onRemoteUpdateRef.current(remoteState as Partial<AppState>);
-        }
+      const rootUnsubscribe = subscribeToState(syncId, (remoteState, remoteDeviceId) => {
+        if (remoteDeviceId === deviceIdRef.current) return;
+        console.log('[Sync] Remote root update from device:', remoteDeviceId);
+        reconcileRemoteRoot(migratePersistedState<Record<string, unknown>>(remoteState, 'Firestore'));
       });
+      if (rootUnsubscribe) unsubscribers.push(rootUnsubscribe);
+
+      for (const def of SYNC_COLLECTIONS) {
+        const unsubscribe = subscribeToCollection(syncId, def.id, (records) => {
+          reconcileRemoteRecords(def.id, records);
+        });
+        if (unsubscribe) unsubscribers.push(unsubscribe);
+      }
     };
 
     const unsubscribeAuth = onAuthChange(async (user) => {
       console.log('[Sync] Auth state:', user ? user.uid : 'null');
 
-      // Cleanup previous subscription
-      unsubscribeFirestore?.();
-      unsubscribeFirestore = null;
+      // Cleanup previous subscriptions
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribers = [];
 
       // If no Firebase auth user, try anonymous sign-in for Firestore access
       if (!user) {
@@ -118,17 +448,56 @@ export function useFirebaseSync(
 
     return () => {
       unsubscribeAuth?.();
-      unsubscribeFirestore?.();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      readyRef.current = false;
     };
   }, [syncId]);
 
-  // Save on state change (debounced)
+  // Initial load has committed - enable saves and push anything created or edited
+  // on this device while offline
   useEffect(() => {
-    if (!userRef.current) {
-      return;
+    if (hydratedSession === 0) return;
+    readyRef.current = true;
+    console.log('[Sync] Initial load complete, saves enabled');
+    save();
+  }, [hydratedSession]);
+
+  // Rewrite every record and the root document (after encryption is enabled,
+  // rotated or disabled, so nothing is left in the cloud under the old key)
+  const forceResync = useCallback(() => {
+    for (const shadow of Object.values(shadowRef.current.collections)) {
+      for (const entry of Object.values(shadow ?? {})) {
+        if (!entry.deleted) entry.hash = 'resync';
+      }
     }
+    shadowRef.current.rootHash = 'resync';
+    persistShadow();
+    save();
+  }, [persistShadow, save]);
 
-    if (!userMadeChange) {
+  // Once this device is unlocked, pull the encrypted data it had to skip while locked
+  const encryptionStatusRef = useRef<EncryptionStatus>(getEncryptionStatus());
+  useEffect(() => {
+    return onEncryptionStatusChange(async (status) => {
+      const previous = encryptionStatusRef.current;
+      encryptionStatusRef.current = status;
+      if (previous !== 'locked' || status !== 'unlocked' || !syncId || !readyRef.current) return;
+
+      console.log('[Sync] Unlocked, reloading encrypted data');
+      const result = await loadState(syncId);
+      if (result) {
+        reconcileRemoteRoot(migratePersistedState<Record<string, unknown>>(result.state, 'Firestore'));
+      }
+      for (const collectionId of ENCRYPTED_COLLECTIONS) {
+        const records = await loadCollection(syncId, collectionId);
+        if (records && records.length > 0) reconcileRemoteRecords(collectionId, records);
+      }
+    });
+  }, [syncId, reconcileRemoteRoot, reconcileRemoteRecords]);
+
+  // Save on state change (debounced)
+  useEffect(() => {
+    if (!userRef.current || !readyRef.current) {
       return;
     }
 
@@ -137,8 +506,6 @@ export function useFirebaseSync(
       clearTimeout(saveTimeoutRef.current);
     }
 
-    console.log('[Sync] Scheduling save');
-
     // Debounce save by 1 second
     saveTimeoutRef.current = setTimeout(() => {
       saveTimeoutRef.current = null;
@@ -152,7 +519,7 @@ export function useFirebaseSync(
     };
   }, [state, save]);
 
-  return { isInitialLoadComplete: true };
+  return { isInitialLoadComplete: hydratedSession > 0, conflicts, clearConflicts, forceResync };
 }
 
 export default useFirebaseSync;
@@ -0,0 +1,38 @@
+// Hook to run loop state triggers - on data changes and once a minute for time triggers
+
+import { useEffect, useRef } from 'react';
+import { useApp, getConditionContext } from '../context';
+import { evaluateLoopTriggers } from '../engines/triggerEngine';
+
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+
+/**
+ * @param enabled - Hold off until synced data has loaded, so triggers don't fire on stale state
+ */
+export function useLoopTriggers(enabled: boolean) {
+  const { state, dispatch } = useApp();
+  const { loops, tasks, health, smartSchedule } = state;
+
+  // The interval reads the latest state; the effect re-runs when trigger inputs change
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const evaluate = () => {
+      const firings = evaluateLoopTriggers({
+        ...getConditionContext(stateRef.current),
+        cascadeRules: stateRef.current.loops.cascadeRules,
+      });
+      if (firings.length > 0) {
+        console.log('[Triggers] Firing:', firings.map((f) => `${f.loopId} → ${f.toState}`).join(', '));
+        dispatch({ type: 'APPLY_LOOP_TRIGGERS', payload: firings });
+      }
+    };
+
+    evaluate();
+    const interval = setInterval(evaluate, EVALUATION_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, loops.states, loops.cascadeRules, tasks.items, health.summary, smartSchedule, dispatch]);
+}
@@ -0,0 +1,140 @@
+// Hook to replay the integration outbox - on load, on reconnect, and when backoff expires
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useApp } from '../context';
+import {
+  OutboxEntry,
+  OutboxExecutor,
+  OutboxCreateResult,
+  getOutbox,
+  onOutboxChange,
+  replayOutbox,
+  getNextOutboxAttempt,
+  retryOutboxNow,
+  discardFailedOutbox,
+} from '../services/outbox';
+import {
+  createTodoistTask,
+  updateTodoistTask,
+  completeTodoistTask,
+  reopenTodoistTask,
+  deleteTodoistTask,
+} from '../services/todoistSync';
+import { performFullSync } from '../lib/finance/service';
+
+export function useOutbox() {
+  const { state, dispatch } = useApp();
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutbox);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  // Executors read the latest state without re-subscribing on every change
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => onOutboxChange(setEntries), []);
+
+  const execute = useCallback<OutboxExecutor>(async (entry) => {
+    // The service helpers swallow errors - turn their null/false into a throw so the entry backs off
+    const check = <T>(result: T | null | false, what: string): T => {
+      if (!result) throw new Error(`Todoist ${what} failed`);
+      return result;
+    };
+
+    switch (entry.kind) {
+      case 'todoist.create': {
+        const created = check(await createTodoistTask(entry.payload), 'create');
+        return { externalId: created.id, externalUrl: created.url };
+      }
+      case 'todoist.update':
+        check(await updateTodoistTask(entry.externalId!, entry.payload), 'update');
+        return;
+      case 'todoist.complete':
+        check(await completeTodoistTask(entry.externalId!), 'complete');
+        return;
+      case 'todoist.reopen':
+        check(await reopenTodoistTask(entry.externalId!), 'reopen');
+        return;
+      case 'todoist.delete':
+        check(await deleteTodoistTask(entry.externalId!), 'delete');
+        return;
+      case 'simplefin.sync': {
+        const { finance } = stateRef.current;
+        const connection = finance.connections?.find((c) => c.id === entry.connectionId);
+        if (!connection || connection.status !== 'active') return; // Disconnected since - nothing to do
+        const result = await performFullSync(
+          connection,
+          finance.accounts ?? [],
+          finance.transactions ?? [],
+          finance.rules ?? [],
+          finance.categories ?? [],
+          dispatch
+        );
+        // Non-retryable failures (e.g. needs reauth) are already surfaced on the connection
+        if (!result.success && result.retryable) {
+          throw new Error(result.error || 'SimpleFIN sync failed');
+        }
+        return;
+      }
+    }
+  }, [dispatch]);
+
+  // Reconcile the new Todoist ID onto the local task
+  const handleCreated = useCallback((taskId: string, result: OutboxCreateResult) => {
+    dispatch({
+      type: 'SET_TASK_EXTERNAL_ID',
+      payload: { taskId, externalId: result.externalId, externalUrl: result.externalUrl },
+    });
+  }, [dispatch]);
+
+  const replay = useCallback(async () => {
+    if (!navigator.onLine) return;
+    setIsReplaying(true);
+    try {
+      await replayOutbox(execute, handleCreated);
+    } finally {
+      setIsReplaying(false);
+    }
+  }, [execute, handleCreated]);
+
+  // Track connectivity - coming back online replays the queue (below)
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Replay on load, on reconnect and whenever something is queued (a running replay picks new entries up itself)
+  useEffect(() => {
+    if (isOnline && entries.length > 0) replay();
+  }, [entries, isOnline, replay]);
+
+  // Wake up again when the earliest backoff expires
+  useEffect(() => {
+    if (!isOnline) return;
+    const next = getNextOutboxAttempt();
+    if (next === null) return;
+    const timer = setTimeout(replay, next - Date.now());
+    return () => clearTimeout(timer);
+  }, [entries, isOnline, replay]);
+
+  const retryNow = useCallback(() => {
+    retryOutboxNow();
+    replay();
+  }, [replay]);
+
+  return {
+    pending: entries.filter((e) => !e.failed),
+    failed: entries.filter((e) => e.failed),
+    isOnline,
+    isReplaying,
+    retryNow,
+    discardFailed: discardFailedOutbox,
+  };
+}
@@ -0,0 +1,79 @@
+// Hook to fire reminder notifications - checks every 30 seconds and when the app comes back into view
+
+import { useEffect, useRef } from 'react';
+import { useApp } from '../context';
+import { NotificationTarget, parseNotificationTarget } from '../types';
+import { scheduleNotifications } from '../engines/reminderEngine';
+import { showNotification, onNotificationClick, getNotificationPermission } from '../services/notifications';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Reminders missed by more than this (device asleep, app closed) are skipped rather than shown late
+const MISSED_GRACE_MS = 15 * 60 * 1000;
+
+/**
+ * @param enabled - Hold off until synced data has loaded, so nothing fires from stale state
+ * @param onOpen - Navigate to a notification's target (tap, or ?open= deep link on load)
+ */
+export function useReminderScheduler(enabled: boolean, onOpen: (target: NotificationTarget) => void) {
+  const { state } = useApp();
+  const { reminders, tasks, routines, specialDates, babysitterSchedule, smartSchedule } = state;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  // Deep link from a notification that opened a new window
+  useEffect(() => {
+    if (!enabled) return;
+    const params = new URLSearchParams(window.location.search);
+    const target = parseNotificationTarget(params.get('open'));
+    if (!target) return;
+    onOpenRef.current(target);
+    params.delete('open');
+    const query = params.toString();
+    window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [enabled]);
+
+  // Taps on notifications while a window is already open
+  useEffect(() => onNotificationClick((target) => onOpenRef.current(target)), []);
+
+  useEffect(() => {
+    if (!enabled || !reminders.settings.enabled) return;
+
+    const check = () => {
+      if (getNotificationPermission() !== 'granted') return;
+      const current = stateRef.current;
+      const now = new Date();
+      const due = scheduleNotifications(
+        {
+          tasks: current.tasks.items,
+          reminders: current.reminders.items,
+          routines: current.routines.items,
+          specialDates: current.specialDates.dates,
+          babysitterSchedule: current.babysitterSchedule,
+          smartSchedule: current.smartSchedule,
+          settings: current.reminders.settings,
+        },
+        new Date(now.getTime() - MISSED_GRACE_MS),
+        now
+      );
+      for (const notification of due) {
+        showNotification(notification, (target) => onOpenRef.current(target));
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled, reminders, tasks.items, routines.items, specialDates.dates, babysitterSchedule, smartSchedule]);
+}
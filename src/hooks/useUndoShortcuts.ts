@@ -0,0 +1,41 @@
+// Hook to bind Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to app-level undo/redo
+
+import { useEffect } from 'react';
+import { useUndoHistory } from '../context';
+
+/**
+ * Text fields keep their native undo - only handle the shortcut elsewhere
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable;
+}
+
+export function useUndoShortcuts() {
+  const { undo, redo } = useUndoHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && e.shiftKey) {
+        e.preventDefault();
+        redo();
+      } else if (key === 'z') {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
+
+export default useUndoShortcuts;
@@ -0,0 +1,43 @@
+// Hook to apply the weekly loop state plan - once a day, as soon as the day starts
+
+import { useEffect, useRef } from 'react';
+import { useApp, getConditionContext } from '../context';
+import { getWeeklyPlanChanges, hasPlanForDate } from '../engines/weeklyPlanEngine';
+import { getLocalDateKey } from '../types';
+
+// Checking once a minute also catches midnights missed while the device slept
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * @param enabled - Hold off until synced data has loaded, so another device's
+ *   planAppliedOn is seen before applying the plan again
+ */
+export function useWeeklyPlan(enabled: boolean) {
+  const { state, dispatch } = useApp();
+  const { loops } = state;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const check = () => {
+      const current = stateRef.current;
+      const today = getLocalDateKey();
+      // Applied once per day, so changing a state by hand afterwards sticks
+      if (current.loops.planAppliedOn === today) return;
+      if (!hasPlanForDate(current.loops.states, today)) return;
+
+      const changes = getWeeklyPlanChanges(current.loops.cascadeRules, getConditionContext(current), today);
+      if (changes.length > 0) {
+        console.log('[WeeklyPlan] Applying:', changes.map((c) => `${c.loopId} → ${c.toState}`).join(', '));
+      }
+      dispatch({ type: 'APPLY_WEEKLY_PLAN', payload: { date: today, changes } });
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, loops.states, loops.planAppliedOn, dispatch]);
+}
@@ -54,6 +54,7 @@ export async function syncSimplefin(
   error?: string;
   message?: string;
   needsReauth?: boolean;
+  retryable?: boolean; // Offline, timed out or a server error - worth trying again later
 }> {
   // Client-side timeout of 35 seconds (slightly longer than server's 25s + network latency)
   const controller = new AbortController();
@@ -82,6 +83,7 @@ export async function syncSimplefin(
         success: false,
         error: "Timeout",
         message: "Sync request timed out. Please try again.",
+        retryable: true,
       };
     }
 
@@ -89,6 +91,7 @@ export async function syncSimplefin(
       success: false,
       error: "Network error",
       message: error.message || "Failed to connect to server",
+      retryable: true,
     };
   }
 
@@ -101,6 +104,7 @@ export async function syncSimplefin(
       error: data.error,
       message: data.message,
       needsReauth: data.error === "NEEDS_REAUTH",
+      retryable: response.status >= 500,
     };
   }
 
@@ -291,7 +295,7 @@ export async function performFullSync(
   rules: CategoryRule[],
   categories: FinanceCategory[],
   dispatch: (action: any) => void
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
   // Set syncing status
   dispatch({
     type: "SET_FINANCE_SYNC_STATUS",
@@ -329,7 +333,7 @@ export async function performFullSync(
         payload: { isSyncing: false, error: syncResult.message || "Sync failed" },
       });
 
-      return { success: false, error: syncResult.message };
+      return { success: false, error: syncResult.message, retryable: syncResult.retryable };
     }
 
     // Merge accounts
@@ -0,0 +1,426 @@
+// Client-side encryption for sensitive data in the cloud copy
+//
+// When enabled, sensitive slices and fields are encrypted with AES-GCM before they're
+// written to Firestore. The key is derived from a passphrase (PBKDF2) that never leaves
+// the device. The root document carries the key's salt and a check value, so other
+// devices can verify a passphrase and unlock without the key ever being uploaded.
+// The unlocked key is kept in IndexedDB as a non-extractable CryptoKey - the browser can
+// use it, but nothing (including this app) can read its bytes back out.
+//
+// A device without the key ("locked") keeps syncing everything else. Sensitive fields
+// it can't decrypt are left out of remote updates, and the last ciphertext it saw is
+// written back unchanged so it never overwrites them with plaintext.
+
+import { STORAGE_KEYS, getStorageItem, removeStorageItem } from "../storage";
+import type { SyncCollectionId, SyncRecord } from "./entitySync";
+
+export type EncryptionStatus = "disabled" | "locked" | "unlocked";
+
+// Ciphertext as stored in Firestore
+export type EncryptedValue = {
+  __encrypted: 1;
+  keyId: string;
+  iv: string; // base64
+  data: string; // base64
+};
+
+// Stored in the root document as `_encryption`
+export type EncryptionConfig = {
+  version: 1;
+  keyId: string;
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedValue;
+  changedAt: string;
+};
+
+type StoredKey = {
+  keyId: string;
+  key: CryptoKey; // Non-extractable
+};
+
+// Raw key bytes as earlier versions kept them in localStorage - moved to IndexedDB on load
+type LegacyStoredKey = {
+  keyId: string;
+  key: string; // base64
+};
+
+const KEY_DB_NAME = "looops-keys";
+const KEY_STORE_NAME = "keys";
+
+const PBKDF2_ITERATIONS = 310000;
+const KEY_CHECK_TEXT = "looops-key-check";
+
+// Root document fields that are encrypted: a whole slice, or one field within it
+const SENSITIVE_ROOT_PATHS: Array<[string] | [string, string]> = [
+  ["householdInfo"], // Wi-Fi password, door codes, emergency contacts
+  ["babysitterPins"], // Portal passwords
+  ["finance", "connections"], // SimpleFIN access URLs (embedded credentials)
+  ["decisions", "quickDecisions"],
+];
+
+// Entity collections whose records are encrypted whole (see entitySync)
+export const ENCRYPTED_COLLECTIONS: SyncCollectionId[] = ["decisions"];
+
+// Module state - one signed-in user at a time
+let config: EncryptionConfig | null = null;
+let activeKey: CryptoKey | null = null;
+let lastCiphertext = new Map<string, EncryptedValue>(); // Last value seen per root path
+let localChangeAt = ""; // When this device last enabled, rotated or disabled encryption
+const listeners = new Set<(status: EncryptionStatus) => void>();
+
+// ==================== Status ====================
+
+export function getEncryptionStatus(): EncryptionStatus {
+  if (!config) return "disabled";
+  return activeKey ? "unlocked" : "locked";
+}
+
+export function onEncryptionStatusChange(callback: (status: EncryptionStatus) => void): () => void {
+  listeners.add(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+}
+
+function setEncryptionState(nextConfig: EncryptionConfig | null, nextKey: CryptoKey | null) {
+  const before = getEncryptionStatus();
+  const keyChanged = nextKey !== activeKey;
+  config = nextConfig;
+  activeKey = nextKey;
+  const after = getEncryptionStatus();
+  if (before !== after || keyChanged) {
+    console.log("[Encryption] Status:", after);
+    listeners.forEach((listener) => listener(after));
+  }
+}
+
+// Forget everything on sign-out or user switch
+export function resetEncryptionState() {
+  lastCiphertext = new Map();
+  localChangeAt = "";
+  setEncryptionState(null, null);
+}
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return typeof value === "object" && value !== null && (value as EncryptedValue).__encrypted === 1;
+}
+
+// ==================== Crypto helpers ====================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encryptWith(key: CryptoKey, keyId: string, value: unknown): Promise<EncryptedValue> {
+  const iv = randomBytes(12);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  return { __encrypted: 1, keyId, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptWith(key: CryptoKey, value: EncryptedValue): Promise<unknown> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// Derive the key for a config and confirm it opens the check value
+async function keyForConfig(passphrase: string, cfg: EncryptionConfig): Promise<CryptoKey | null> {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(cfg.salt), cfg.iterations);
+    const check = await decryptWith(key, cfg.check);
+    return check === KEY_CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+async function createConfig(passphrase: string): Promise<{ config: EncryptionConfig; key: CryptoKey }> {
+  const salt = randomBytes(16);
+  const keyId = `key_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    config: {
+      version: 1,
+      keyId,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptWith(key, keyId, KEY_CHECK_TEXT),
+      changedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// ==================== Key storage (this device only) ====================
+
+function keyStorageKey(userId: string): string {
+  return `${STORAGE_KEYS.ENCRYPTION_KEY}_${userId}`;
+}
+
+// Run one request against the key store
+function withKeyStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(KEY_DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(KEY_STORE_NAME);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const request = run(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+    };
+  });
+}
+
+async function rememberKey(userId: string, keyId: string, key: CryptoKey) {
+  removeStorageItem(keyStorageKey(userId));
+  try {
+    await withKeyStore("readwrite", (store) => store.put({ keyId, key } satisfies StoredKey, keyStorageKey(userId)));
+  } catch (error) {
+    // Unlocked for this session only - the passphrase is asked for again next time
+    console.warn("[Encryption] Couldn't keep the key on this device:", error);
+  }
+}
+
+async function loadRememberedKey(userId: string, keyId: string): Promise<CryptoKey | null> {
+  const legacy = getStorageItem<LegacyStoredKey | null>(keyStorageKey(userId), null);
+  if (legacy) {
+    removeStorageItem(keyStorageKey(userId));
+    if (legacy.keyId === keyId) {
+      try {
+        const key = await crypto.subtle.importKey("raw", fromBase64(legacy.key), "AES-GCM", false, ["encrypt", "decrypt"]);
+        await rememberKey(userId, keyId, key);
+        return key;
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  try {
+    const stored = await withKeyStore<StoredKey | undefined>("readonly", (store) => store.get(keyStorageKey(userId)));
+    return stored?.keyId === keyId ? stored.key : null;
+  } catch {
+    return null;
+  }
+}
+
+function deleteRememberedKey(userId: string) {
+  removeStorageItem(keyStorageKey(userId));
+  withKeyStore("readwrite", (store) => store.delete(keyStorageKey(userId))).catch((error) =>
+    console.warn("[Encryption] Couldn't remove the stored key:", error)
+  );
+}
+
+// Lock this device (the passphrase is needed again to unlock)
+export function forgetEncryptionKey(userId: string) {
+  deleteRememberedKey(userId);
+  setEncryptionState(config, null);
+}
+
+// ==================== Passphrase flows ====================
+
+// Apply the config found in the cloud root document, unlocking with a remembered key if possible
+export async function applyRemoteEncryptionConfig(
+  userId: string,
+  remoteConfig: EncryptionConfig | null,
+  remoteUpdatedAt: string
+): Promise<void> {
+  // Our own config change hasn't reached the cloud yet - don't let an older snapshot undo it
+  if (localChangeAt && remoteUpdatedAt && remoteUpdatedAt < localChangeAt) return;
+  if (!config && !remoteConfig) return;
+
+  if (!remoteConfig) {
+    console.log("[Encryption] Disabled on another device");
+    deleteRememberedKey(userId);
+    setEncryptionState(null, null);
+    return;
+  }
+
+  if (config?.keyId === remoteConfig.keyId && activeKey) {
+    config = remoteConfig;
+    return;
+  }
+
+  const key = await loadRememberedKey(userId, remoteConfig.keyId);
+  setEncryptionState(remoteConfig, key);
+}
+
+export async function unlockEncryption(userId: string, passphrase: string): Promise<boolean> {
+  if (!config) return false;
+  const key = await keyForConfig(passphrase, config);
+  if (!key) return false;
+  await rememberKey(userId, config.keyId, key);
+  setEncryptionState(config, key);
+  return true;
+}
+
+// Turn encryption on. The caller re-uploads everything afterwards.
+export async function enableEncryption(userId: string, passphrase: string): Promise<void> {
+  const created = await createConfig(passphrase);
+  await rememberKey(userId, created.config.keyId, created.key);
+  localChangeAt = created.config.changedAt;
+  setEncryptionState(created.config, created.key);
+}
+
+// Replace the passphrase and key. The caller re-uploads everything afterwards,
+// and other devices need the new passphrase to unlock.
+export async function rotateEncryptionKey(
+  userId: string,
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<boolean> {
+  if (!config || !(await keyForConfig(currentPassphrase, config))) return false;
+  const created = await createConfig(newPassphrase);
+  await rememberKey(userId, created.config.keyId, created.key);
+  localChangeAt = created.config.changedAt;
+  setEncryptionState(created.config, created.key);
+  return true;
+}
+
+// Turn encryption off. The caller re-uploads everything afterwards as plaintext.
+export async function disableEncryption(userId: string, passphrase: string): Promise<boolean> {
+  if (!config || !(await keyForConfig(passphrase, config))) return false;
+  deleteRememberedKey(userId);
+  lastCiphertext = new Map();
+  localChangeAt = new Date().toISOString();
+  setEncryptionState(null, null);
+  return true;
+}
+
+// ==================== Document encoding ====================
+
+function readPath(doc: Record<string, unknown>, path: string[]): unknown {
+  const [slice, field] = path;
+  if (!field) return doc[slice];
+  const parent = doc[slice];
+  return parent && typeof parent === "object" ? (parent as Record<string, unknown>)[field] : undefined;
+}
+
+function writePath(doc: Record<string, unknown>, path: string[], value: unknown) {
+  const [slice, field] = path;
+  if (!field) {
+    if (value === undefined) delete doc[slice];
+    else doc[slice] = value;
+    return;
+  }
+  const parent = doc[slice];
+  if (!parent || typeof parent !== "object") return;
+  const copy = { ...(parent as Record<string, unknown>) };
+  if (value === undefined) delete copy[field];
+  else copy[field] = value;
+  doc[slice] = copy;
+}
+
+// Prepare a root document for upload: encrypt sensitive fields and attach the config
+export async function encryptRootDocument(rootDoc: object): Promise<Record<string, unknown>> {
+  if (!config) return { ...rootDoc };
+
+  const result: Record<string, unknown> = { ...rootDoc, _encryption: config };
+  for (const path of SENSITIVE_ROOT_PATHS) {
+    const value = readPath(result, path);
+    if (value === undefined) continue;
+    if (activeKey) {
+      writePath(result, path, await encryptWith(activeKey, config.keyId, value));
+    } else {
+      // Locked: keep whatever is in the cloud rather than leak plaintext
+      writePath(result, path, lastCiphertext.get(path.join(".")));
+    }
+  }
+  return result;
+}
+
+// Decode a root document from the cloud: apply its config and decrypt sensitive fields.
+// Fields that can't be decrypted are dropped, so local values stay untouched.
+export async function decryptRootDocument(userId: string, raw: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const { _encryption, ...rest } = raw;
+  await applyRemoteEncryptionConfig(
+    userId,
+    (_encryption as EncryptionConfig | undefined) ?? null,
+    (raw._updatedAt as string) || ""
+  );
+
+  const result: Record<string, unknown> = rest;
+  for (const path of SENSITIVE_ROOT_PATHS) {
+    const value = readPath(result, path);
+    if (!isEncryptedValue(value)) continue;
+    lastCiphertext.set(path.join("."), value);
+    try {
+      if (!activeKey || value.keyId !== config?.keyId) throw new Error("No key");
+      writePath(result, path, await decryptWith(activeKey, value));
+    } catch {
+      writePath(result, path, undefined);
+    }
+  }
+  return result;
+}
+
+// A locked device can't write records in encrypted collections
+export function isCollectionLocked(collectionId: SyncCollectionId): boolean {
+  return ENCRYPTED_COLLECTIONS.includes(collectionId) && getEncryptionStatus() === "locked";
+}
+
+export async function encryptRecordData(
+  collectionId: SyncCollectionId,
+  data: SyncRecord | null
+): Promise<SyncRecord | EncryptedValue | null> {
+  if (!data || !config || !activeKey || !ENCRYPTED_COLLECTIONS.includes(collectionId)) return data;
+  return encryptWith(activeKey, config.keyId, data);
+}
+
+// Returns undefined when the record is encrypted and this device can't read it
+export async function decryptRecordData(data: unknown): Promise<SyncRecord | null | undefined> {
+  if (!isEncryptedValue(data)) return (data as SyncRecord | null) ?? null;
+  if (!activeKey || data.keyId !== config?.keyId) return undefined;
+  try {
+    return (await decryptWith(activeKey, data)) as SyncRecord;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,342 @@
+// Entity Sync - per-record collections and conflict resolution for Firestore sync
+// Large arrays (tasks, goals, systems...) live in their own sub-collections so that
+// two devices editing different records never overwrite each other.
+
+import type { AppState } from "../context/AppContext";
+import type { Goal, GoalHierarchy } from "../types";
+
+// Persisted state (everything except UI)
+export type PersistedState = Omit<AppState, "ui">;
+
+// Sub-collections under users/{uid}
+export type SyncCollectionId =
+  | "tasks"
+  | "projects"
+  | "goals"
+  | "systems"
+  | "routines"
+  | "financeTransactions"
+  | "notes"
+  | "decisions"
+  | "taskComments"
+  | "taskActivity";
+
+// Any record stored in a sync collection
+export type SyncRecord = { id: string } & Record<string, unknown>;
+
+// Record as stored in Firestore (data + sync metadata)
+export type RemoteRecord = {
+  id: string;
+  data: SyncRecord | null; // null when deleted (tombstone)
+  rev: number;
+  updatedAt: string;
+  deviceId: string;
+  deleted: boolean;
+};
+
+// What the device last agreed with the cloud for a single record
+export type ShadowEntry = {
+  rev: number;
+  hash: string;
+  deleted?: boolean;
+};
+
+// Per-user sync shadow, persisted between sessions
+export type SyncShadow = {
+  collections: Partial<Record<SyncCollectionId, Record<string, ShadowEntry>>>;
+  rootHash?: string;
+};
+
+// A conflict that was resolved automatically
+export type SyncConflict = {
+  id: string;
+  collection: SyncCollectionId | "root";
+  recordId: string;
+  label: string;
+  fields: string[];
+  winner: "local" | "remote" | "mixed";
+  resolvedAt: string;
+};
+
+// Collection definition - how to read and write a collection within app state
+type SyncCollectionDef = {
+  id: SyncCollectionId;
+  name: string;
+  select: (state: Partial<PersistedState>) => SyncRecord[] | undefined;
+  replace: (state: Partial<PersistedState>, items: SyncRecord[]) => Partial<PersistedState>;
+};
+
+const GOAL_TIMEFRAMES: Array<keyof GoalHierarchy> = ["annual", "quarterly", "monthly", "weekly", "daily"];
+
+function asRecords(items: unknown[] | undefined): SyncRecord[] | undefined {
+  return items as SyncRecord[] | undefined;
+}
+
+export const SYNC_COLLECTIONS: SyncCollectionDef[] = [
+  {
+    id: "tasks",
+    name: "Tasks",
+    select: (s) => asRecords(s.tasks?.items),
+    replace: (s, items) =>
+      s.tasks ? { ...s, tasks: { ...s.tasks, items: items as unknown as AppState["tasks"]["items"] } } : s,
+  },
+  {
+    id: "projects",
+    name: "Projects",
+    select: (s) => asRecords(s.projects),
+    replace: (s, items) =>
+      s.projects ? { ...s, projects: items as unknown as AppState["projects"] } : s,
+  },
+  {
+    id: "goals",
+    name: "Goals",
+    select: (s) => (s.goals ? asRecords(GOAL_TIMEFRAMES.flatMap((tf) => s.goals![tf] ?? [])) : undefined),
+    replace: (s, items) => {
+      if (!s.goals) return s;
+      const goals = items as unknown as Goal[];
+      const hierarchy = {} as GoalHierarchy;
+      for (const tf of GOAL_TIMEFRAMES) {
+        hierarchy[tf] = goals.filter((g) => g.timeframe === tf);
+      }
+      return { ...s, goals: hierarchy };
+    },
+  },
+  {
+    id: "systems",
+    name: "Systems",
+    select: (s) => asRecords(s.systems?.items),
+    replace: (s, items) =>
+      s.systems ? { ...s, systems: { ...s.systems, items: items as unknown as AppState["systems"]["items"] } } : s,
+  },
+  {
+    id: "routines",
+    name: "Routines",
+    select: (s) => asRecords(s.routines?.items),
+    replace: (s, items) =>
+      s.routines ? { ...s, routines: { ...s.routines, items: items as unknown as AppState["routines"]["items"] } } : s,
+  },
+  {
+    id: "financeTransactions",
+    name: "Transactions",
+    select: (s) => asRecords(s.finance?.transactions),
+    replace: (s, items) =>
+      s.finance
+        ? { ...s, finance: { ...s.finance, transactions: items as unknown as AppState["finance"]["transactions"] } }
+        : s,
+  },
+  {
+    id: "notes",
+    name: "Notes",
+    select: (s) => asRecords(s.notes),
+    replace: (s, items) => (s.notes ? { ...s, notes: items as unknown as AppState["notes"] } : s),
+  },
+  {
+    id: "decisions",
+    name: "Decisions",
+    select: (s) => asRecords(s.decisions?.decisions),
+    replace: (s, items) =>
+      s.decisions
+        ? { ...s, decisions: { ...s.decisions, decisions: items as unknown as AppState["decisions"]["decisions"] } }
+        : s,
+  },
+  {
+    id: "taskComments",
+    name: "Task comments",
+    select: (s) => asRecords(s.taskComments),
+    replace: (s, items) =>
+      s.taskComments ? { ...s, taskComments: items as unknown as AppState["taskComments"] } : s,
+  },
+  {
+    id: "taskActivity",
+    name: "Task activity",
+    select: (s) => asRecords(s.taskActivity),
+    replace: (s, items) =>
+      s.taskActivity ? { ...s, taskActivity: items as unknown as AppState["taskActivity"] } : s,
+  },
+];
+
+export function getSyncCollection(id: SyncCollectionId): SyncCollectionDef {
+  return SYNC_COLLECTIONS.find((c) => c.id === id)!;
+}
+
+// Replace every entity collection in `target` with the items from `source`.
+// Used to keep the root document free of entity arrays and to stop a root
+// snapshot from clobbering records that sync through their own collections.
+export function withEntityCollectionsFrom(
+  target: Partial<PersistedState>,
+  source: Partial<PersistedState>
+): Partial<PersistedState> {
+  let result = target;
+  for (const def of SYNC_COLLECTIONS) {
+    result = def.replace(result, def.select(source) ?? []);
+  }
+  return result;
+}
+
+// Check if a root document still carries entity arrays (pre-collection format)
+export function hasLegacyEntityData(root: Partial<PersistedState>): boolean {
+  return SYNC_COLLECTIONS.some((def) => (def.select(root)?.length ?? 0) > 0);
+}
+
+// Apply upserts and deletions to one collection in state
+export function applyRecordChanges(
+  state: Partial<PersistedState>,
+  collection: SyncCollectionId,
+  upserts: SyncRecord[],
+  deletedIds: string[]
+): Partial<PersistedState> {
+  const def = getSyncCollection(collection);
+  const current = def.select(state);
+  if (!current) return state;
+
+  const deleted = new Set(deletedIds);
+  const upsertById = new Map(upserts.map((r) => [r.id, r]));
+  const next = current
+    .filter((r) => !deleted.has(r.id))
+    .map((r) => upsertById.get(r.id) ?? r);
+  const existingIds = new Set(current.map((r) => r.id));
+  for (const record of upserts) {
+    if (!existingIds.has(record.id) && !deleted.has(record.id)) {
+      next.push(record);
+    }
+  }
+  return def.replace(state, next);
+}
+
+// Stable JSON (sorted keys, undefined dropped) so Firestore key order never looks like an edit
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v)).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+  return `{${entries.join(",")}}`;
+}
+
+// Short content hash (djb2) for change detection
+export function hashRecord(value: unknown): string {
+  const str = stableStringify(value);
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+  }
+  return `${(hash >>> 0).toString(36)}_${str.length}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Human-readable label for the conflict log
+export function getRecordLabel(record: Record<string, unknown> | null | undefined): string {
+  if (!record) return "(deleted)";
+  const label = record.title ?? record.name ?? record.description ?? record.id;
+  return typeof label === "string" ? label : String(record.id ?? "");
+}
+
+// Three-way merge of two versions of a record, field by field.
+// Fields changed on only one side take that side; fields changed on both sides
+// take the most recently updated version and are reported as conflicts.
+// Without a base (e.g. first sync after a reload), every differing field is a conflict.
+export function mergeRecordFields<T extends Record<string, unknown>>(
+  base: T | null | undefined,
+  local: T,
+  remote: T,
+  localUpdatedAt: string,
+  remoteUpdatedAt: string
+): { merged: T; conflicts: string[]; winner: SyncConflict["winner"] } {
+  const localWins = localUpdatedAt >= remoteUpdatedAt;
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  let tookLocal = false;
+  let tookRemote = false;
+
+  for (const key of keys) {
+    const l = local[key];
+    const r = remote[key];
+    if (sameValue(l, r)) {
+      merged[key] = l;
+      continue;
+    }
+    const b = base ? base[key] : undefined;
+    if (base && sameValue(l, b)) {
+      merged[key] = r;
+      tookRemote = true;
+    } else if (base && sameValue(r, b)) {
+      merged[key] = l;
+      tookLocal = true;
+    } else {
+      conflicts.push(key);
+      merged[key] = localWins ? l : r;
+      if (localWins) tookLocal = true;
+      else tookRemote = true;
+    }
+  }
+
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+
+  const winner = tookLocal && tookRemote ? "mixed" : tookRemote ? "remote" : "local";
+  return { merged: merged as T, conflicts, winner };
+}
+
+// Timestamp of the latest local edit to a record, falling back to "now"
+export function getRecordUpdatedAt(record: Record<string, unknown>): string {
+  const updatedAt = record.updatedAt ?? record.lastUpdated;
+  return typeof updatedAt === "string" ? updatedAt : new Date().toISOString();
+}
+
+export function createSyncConflict(
+  collection: SyncConflict["collection"],
+  recordId: string,
+  label: string,
+  fields: string[],
+  winner: SyncConflict["winner"]
+): SyncConflict {
+  return {
+    id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    collection,
+    recordId,
+    label,
+    fields,
+    winner,
+    resolvedAt: new Date().toISOString(),
+  };
+}
+
+// Slices fetched fresh on every device - never written to or applied from the root document
+type RootDocument = Partial<PersistedState>;
+
+const ROOT_META_KEYS = ["_deviceId", "_updatedAt", "_version", "_encryption"];
+
+// Build the root document for a state: everything except entity collections and fetched data
+export function toRootDocument(state: Partial<PersistedState>): RootDocument {
+  const { health, calendar, ...rest } = withEntityCollectionsFrom(state, {});
+  // Only the user-chosen embed URL is worth syncing; events are fetched per device
+  return calendar ? { ...rest, calendar: { embedUrl: calendar.embedUrl } as AppState["calendar"] } : rest;
+}
+
+// Normalize a root document read from Firestore (drops sync metadata and legacy fields)
+export function normalizeRootDocument(remote: Record<string, unknown>): RootDocument {
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(remote)) {
+    if (!ROOT_META_KEYS.includes(key)) rest[key] = value;
+  }
+  return toRootDocument(rest as Partial<PersistedState>);
+}
+
+// Turn a root document into a HYDRATE payload, keeping local entity collections and fetched data
+export function rootDocumentToState(rootDoc: RootDocument, local: PersistedState): Partial<PersistedState> {
+  const withEntities = withEntityCollectionsFrom(rootDoc, local);
+  if (!rootDoc.calendar) return withEntities;
+  return {
+    ...withEntities,
+    calendar: { ...local.calendar, embedUrl: rootDoc.calendar.embedUrl ?? local.calendar.embedUrl },
+  };
+}
@@ -1,7 +1,23 @@
 // Firebase service helpers - uses shared Firebase instance
-import { doc, setDoc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import {
+  doc,
+  setDoc,
+  onSnapshot,
+  collection,
+  getDocs,
+  runTransaction,
+  Unsubscribe,
+} from 'firebase/firestore';
 import { signInAnonymously, onAuthStateChanged, User } from 'firebase/auth';
 import { auth, db } from '../lib/firebase';
+import type { RemoteRecord, SyncCollectionId, SyncRecord } from './entitySync';
+import {
+  encryptRootDocument,
+  decryptRootDocument,
+  encryptRecordData,
+  decryptRecordData,
+  isCollectionLocked,
+} from './encryption';
 
 // Check if Firebase is properly configured
 export const isFirebaseConfigured = (): boolean => {
@@ -72,22 +88,26 @@ function cleanForFirestore(obj: unknown): unknown {
   return obj;
 }
 
-// Save state to Firestore
-export async function saveState(userId: string, state: object, version: number): Promise<boolean> {
+// Save the root state document to Firestore
+// Entity collections are stripped by the caller and synced per record (see saveRecord)
+export async function saveState(userId: string, state: object, deviceId: string): Promise<boolean> {
   if (!db) {
     console.log('[Firebase] No db for save');
     return false;
   }
 
   try {
-    console.log('[Firebase] Saving for user:', userId, 'version:', version);
+    console.log('[Firebase] Saving root for user:', userId);
     const docRef = doc(db, USERS_COLLECTION, userId);
+    // Sensitive fields are encrypted here when encryption is on (see encryption.ts)
+    const encoded = await encryptRootDocument(state);
     const data = cleanForFirestore({
-      ...state,
-      _version: version,
+      ...encoded,
+      _deviceId: deviceId,
       _updatedAt: new Date().toISOString(),
     });
-    await setDoc(docRef, data as Record<string, unknown>, { merge: true });
+    // Overwrite (no merge) so legacy entity arrays are dropped from the root document
+    await setDoc(docRef, data as Record<string, unknown>);
     console.log('[Firebase] Save success');
     return true;
   } catch (error) {
@@ -97,7 +117,7 @@ export async function saveState(userId: string, state: object, version: number):
 }
 
 // Load state from Firestore
-export async function loadState(userId: string): Promise<{ state: object; version: number } | null> {
+export async function loadState(userId: string): Promise<{ state: object; deviceId: string | null } | null> {
   if (!db) {
     console.log('[Firebase] No db for load');
     return null;
@@ -126,10 +146,10 @@ export async function loadState(userId: string): Promise<{ state: object; versio
     }
 
     if (docSnap.exists()) {
-      const data = docSnap.data();
-      const version = (data._version as number) || 0;
-      console.log('[Firebase] Loaded, version:', version);
-      return { state: data, version };
+      const data = await decryptRootDocument(userId, docSnap.data());
+      const deviceId = (data._deviceId as string) || null;
+      console.log('[Firebase] Loaded, last written by:', deviceId);
+      return { state: data, deviceId };
     }
     console.log('[Firebase] No doc exists');
     return null;
@@ -142,7 +162,7 @@ export async function loadState(userId: string): Promise<{ state: object; versio
 // Subscribe to state changes
 export function subscribeToState(
   userId: string,
-  callback: (state: object, version: number) => void
+  callback: (state: object, deviceId: string | null) => void
 ): Unsubscribe | null {
   if (!db) {
     console.log('[Firebase] No db for subscribe');
@@ -151,6 +171,8 @@ export function subscribeToState(
 
   console.log('[Firebase] Subscribing for user:', userId);
   const docRef = doc(db, USERS_COLLECTION, userId);
+  // Decryption is async - chain snapshots so they're delivered in order
+  let delivery = Promise.resolve();
 
   return onSnapshot(docRef, (docSnap) => {
     // Only process server updates, not local cache
@@ -160,10 +182,166 @@ export function subscribeToState(
     }
 
     if (docSnap.exists()) {
-      const data = docSnap.data();
-      const version = (data._version as number) || 0;
-      console.log('[Firebase] Snapshot received, version:', version);
-      callback(data, version);
+      const raw = docSnap.data();
+      delivery = delivery.then(async () => {
+        const data = await decryptRootDocument(userId, raw);
+        const deviceId = (data._deviceId as string) || null;
+        console.log('[Firebase] Snapshot received from device:', deviceId);
+        callback(data, deviceId);
+      }).catch((error) => {
+        console.error('[Firebase] Snapshot decode failed:', error);
+      });
     }
   });
 }
+
+// Entity collection helpers (users/{uid}/{collection}/{recordId})
+
+// Decode a stored record. Returns null when it's encrypted and this device is locked.
+async function toRemoteRecord(id: string, data: Record<string, unknown>): Promise<RemoteRecord | null> {
+  const decoded = await decryptRecordData(data.data);
+  if (decoded === undefined) return null;
+  return {
+    id,
+    data: decoded,
+    rev: (data._rev as number) || 0,
+    updatedAt: (data._updatedAt as string) || '',
+    deviceId: (data._deviceId as string) || '',
+    deleted: !!data._deleted,
+  };
+}
+
+async function toRemoteRecords(docs: Array<{ id: string; data: () => Record<string, unknown> }>): Promise<RemoteRecord[]> {
+  const records = await Promise.all(docs.map((d) => toRemoteRecord(d.id, d.data())));
+  return records.filter((r): r is RemoteRecord => r !== null);
+}
+
+// Load every record (including tombstones) in a collection
+export async function loadCollection(
+  userId: string,
+  collectionId: SyncCollectionId
+): Promise<RemoteRecord[] | null> {
+  if (!db) {
+    console.log('[Firebase] No db for collection load');
+    return null;
+  }
+
+  try {
+    const snap = await getDocs(collection(db, USERS_COLLECTION, userId, collectionId));
+    console.log('[Firebase] Loaded collection', collectionId, 'records:', snap.size);
+    return await toRemoteRecords(snap.docs);
+  } catch (error) {
+    console.error('[Firebase] Collection load failed:', collectionId, error);
+    return null;
+  }
+}
+
+// Result of writing a single record
+export type SaveRecordResult = {
+  written: RemoteRecord;
+  // Remote version found in place of the expected base revision, if any
+  conflictingRemote: RemoteRecord | null;
+};
+
+// Write one record with an optimistic revision check.
+// `resolve` is called inside the transaction when the cloud copy moved past
+// `baseRev`, and returns the data to write instead (null = delete).
+export async function saveRecord(
+  userId: string,
+  collectionId: SyncCollectionId,
+  recordId: string,
+  data: SyncRecord | null,
+  baseRev: number,
+  deviceId: string,
+  resolve: (remote: RemoteRecord) => SyncRecord | null
+): Promise<SaveRecordResult | null> {
+  if (!db) {
+    console.log('[Firebase] No db for record save');
+    return null;
+  }
+
+  if (isCollectionLocked(collectionId)) {
+    console.log('[Firebase] Encryption locked, not writing', collectionId, recordId);
+    return null;
+  }
+
+  const docRef = doc(db, USERS_COLLECTION, userId, collectionId, recordId);
+
+  try {
+    return await runTransaction(db, async (tx) => {
+      const snap = await tx.get(docRef);
+      const remote = snap.exists() ? await toRemoteRecord(recordId, snap.data()) : null;
+      if (snap.exists() && !remote) {
+        // Encrypted with a key this device doesn't hold - writing would destroy it
+        console.warn('[Firebase] Remote record is unreadable, not overwriting', collectionId, recordId);
+        return null;
+      }
+
+      let toWrite = data;
+      let conflictingRemote: RemoteRecord | null = null;
+      if (remote && remote.rev !== baseRev) {
+        conflictingRemote = remote;
+        toWrite = resolve(remote);
+      }
+
+      const written: RemoteRecord = {
+        id: recordId,
+        data: toWrite,
+        rev: Math.max(baseRev, remote?.rev ?? 0) + 1,
+        updatedAt: new Date().toISOString(),
+        deviceId,
+        deleted: toWrite === null,
+      };
+      tx.set(docRef, cleanForFirestore({
+        data: await encryptRecordData(collectionId, written.data),
+        _rev: written.rev,
+        _updatedAt: written.updatedAt,
+        _deviceId: written.deviceId,
+        _deleted: written.deleted,
+      }) as Record<string, unknown>);
+
+      return { written, conflictingRemote };
+    });
+  } catch (error) {
+    console.error('[Firebase] Record save failed:', collectionId, recordId, error);
+    return null;
+  }
+}
+
+// Subscribe to remote changes in a collection
+export function subscribeToCollection(
+  userId: string,
+  collectionId: SyncCollectionId,
+  callback: (records: RemoteRecord[]) => void
+): Unsubscribe | null {
+  if (!db) {
+    console.log('[Firebase] No db for collection subscribe');
+    return null;
+  }
+
+  // Decryption is async - chain snapshots so they're delivered in order
+  let delivery = Promise.resolve();
+
+  return onSnapshot(collection(db, USERS_COLLECTION, userId, collectionId), (snap) => {
+    // Only process server updates, not local cache
+    if (snap.metadata.hasPendingWrites) {
+      return;
+    }
+
+    const docs = snap
+      .docChanges()
+      .filter((change) => change.type !== 'removed')
+      .map((change) => change.doc);
+    if (docs.length === 0) return;
+
+    delivery = delivery.then(async () => {
+      const changed = await toRemoteRecords(docs);
+      if (changed.length > 0) {
+        console.log('[Firebase] Collection snapshot', collectionId, 'changes:', changed.length);
+        callback(changed);
+      }
+    }).catch((error) => {
+      console.error('[Firebase] Collection decode failed:', collectionId, error);
+    });
+  });
+}
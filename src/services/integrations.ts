@@ -1,6 +1,8 @@
 // Integration Services - Client-side API for managing integrations
 // Connects to Vercel serverless functions for OAuth and backend services
 
+import type { CalendarEvent, LooopsCalendarEvent } from "../types";
+
 // Use relative URLs for Vercel API routes, fall back to localhost for development
 const API_BASE = "";
 
@@ -296,6 +298,7 @@ export interface TodoistSyncTask {
   dueDate: string | null;
   dueString: string | null;
   isRecurring: boolean;
+  rrule?: string | null; // iCalendar RRULE, when the server can provide one
   url: string;
   order: number;
   createdAt: string;
@@ -479,6 +482,86 @@ export function disconnectCalendar(): void {
   clearTokens('google_calendar');
 }
 
+// Calendar write-back - events on the dedicated Looops calendar (see hooks/useCalendarWriteBack)
+export interface CalendarResult<T> {
+  data?: T;
+  needsReauth?: boolean; // No token, or it lacks write access - reconnect
+  missing?: boolean; // The calendar or event no longer exists
+  error?: string;
+}
+
+export interface LooopsEventInput {
+  key: string;
+  title: string;
+  description: string;
+  startTime: string;
+  endTime: string;
+}
+
+async function calendarRequest<T>(
+  query: Record<string, string>,
+  init?: { method: string; body?: unknown }
+): Promise<CalendarResult<T>> {
+  const tokens = getStoredTokens('google_calendar');
+  if (!tokens?.access_token) return { needsReauth: true };
+
+  try {
+    const res = await fetch(`${API_BASE}/api/calendar?${new URLSearchParams(query)}`, {
+      method: init?.method ?? 'GET',
+      headers: {
+        Authorization: `Bearer ${tokens.access_token}`,
+        ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init?.body ? JSON.stringify(init.body) : undefined,
+    });
+    const json = await res.json();
+    if (json.needsReauth) return { needsReauth: true };
+    if (!res.ok || json.error) return { error: json.error || `Calendar request failed (${res.status})` };
+    return { data: json.data, missing: !!(json.missing || json.calendarMissing) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Server not available' };
+  }
+}
+
+// The coming week's events across all calendars
+export function getCalendarWeekEvents(): Promise<CalendarResult<CalendarEvent[]>> {
+  return calendarRequest({ action: 'week' });
+}
+
+export function ensureLooopsCalendar(): Promise<CalendarResult<{ id: string; created: boolean }>> {
+  return calendarRequest(
+    { action: 'ensure' },
+    { method: 'POST', body: { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone } }
+  );
+}
+
+export function getLooopsCalendarEvents(
+  calendarId: string,
+  timeMin: string,
+  timeMax: string
+): Promise<CalendarResult<LooopsCalendarEvent[]>> {
+  return calendarRequest({ action: 'events', calendarId, timeMin, timeMax });
+}
+
+export function createLooopsEvent(
+  calendarId: string,
+  event: LooopsEventInput
+): Promise<CalendarResult<LooopsCalendarEvent>> {
+  return calendarRequest({ action: 'create' }, { method: 'POST', body: { calendarId, ...event } });
+}
+
+export function updateLooopsEvent(
+  calendarId: string,
+  eventId: string,
+  event: LooopsEventInput
+): Promise<CalendarResult<LooopsCalendarEvent>> {
+  return calendarRequest({ action: 'update' }, { method: 'PATCH', body: { calendarId, eventId, ...event } });
+}
+
+export function deleteLooopsEvent(calendarId: string, eventId: string): Promise<CalendarResult<{ id: string }>> {
+  return calendarRequest({ action: 'delete', calendarId, eventId }, { method: 'DELETE' });
+}
+
 // ============ Spotify Integration ============
 
 export async function getSpotifyStatus(): Promise<IntegrationStatus> {
@@ -569,6 +652,12 @@ export default {
   getCalendarStatus,
   getCalendarAuthUrl,
   disconnectCalendar,
+  getCalendarWeekEvents,
+  ensureLooopsCalendar,
+  getLooopsCalendarEvents,
+  createLooopsEvent,
+  updateLooopsEvent,
+  deleteLooopsEvent,
   // Spotify
   getSpotifyStatus,
   getSpotifyAuthUrl,
@@ -0,0 +1,106 @@
+// Notifications - permission, delivery and tap handling for local reminders
+//
+// Notifications go through the service worker registration when there is one, so they show on
+// mobile and a tap reaches public/notification-handler.js even with the app closed. The handler
+// focuses an open window and posts the target to it, or opens a new window on the deep link.
+
+import type { NotificationTarget } from "../types";
+import { getNotificationUrl } from "../types";
+import type { ScheduledNotification } from "../engines/reminderEngine";
+import { STORAGE_KEYS, getStorageItem, setStorageItem } from "../storage";
+
+// Message posted by the service worker when a notification is tapped
+export const NOTIFICATION_CLICK_MESSAGE = "looops-notification-click";
+
+// Delivered keys are forgotten after this - long past any occurrence they could match
+const DELIVERED_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+export function getNotificationPermission(): NotificationPermissionState {
+  return typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (typeof Notification === "undefined") return "unsupported";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// ==================== Delivered log ====================
+
+// Notification key → epoch ms it was shown
+function getDelivered(): Record<string, number> {
+  return getStorageItem<Record<string, number>>(STORAGE_KEYS.DELIVERED_NOTIFICATIONS, {});
+}
+
+export function wasDelivered(key: string): boolean {
+  return key in getDelivered();
+}
+
+function markDelivered(key: string, now: number = Date.now()) {
+  const delivered = getDelivered();
+  const kept: Record<string, number> = {};
+  for (const [k, at] of Object.entries(delivered)) {
+    if (now - at < DELIVERED_RETENTION_MS) kept[k] = at;
+  }
+  kept[key] = now;
+  setStorageItem(STORAGE_KEYS.DELIVERED_NOTIFICATIONS, kept);
+}
+
+// ==================== Delivery ====================
+
+/**
+ * Show a scheduled notification once per device.
+ * @param onOpen - Used when there is no service worker and the page handles the tap itself
+ * @returns false when notifications aren't permitted
+ */
+export async function showNotification(
+  notification: ScheduledNotification,
+  onOpen: (target: NotificationTarget) => void
+): Promise<boolean> {
+  if (getNotificationPermission() !== "granted") return false;
+  if (wasDelivered(notification.key)) return true;
+  markDelivered(notification.key);
+
+  const options: NotificationOptions = {
+    body: notification.body,
+    tag: notification.key,
+    icon: "/pwa-192x192.png",
+    badge: "/pwa-192x192.png",
+    data: {
+      target: notification.target,
+      url: getNotificationUrl(notification.target),
+    },
+  };
+
+  try {
+    const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(notification.title, options);
+      return true;
+    }
+    const shown = new Notification(notification.title, options);
+    shown.onclick = () => {
+      window.focus();
+      onOpen(notification.target);
+      shown.close();
+    };
+    return true;
+  } catch (error) {
+    console.error("[Notifications] Failed to show notification:", error);
+    return false;
+  }
+}
+
+// Taps forwarded by the service worker to an already-open window
+export function onNotificationClick(callback: (target: NotificationTarget) => void): () => void {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === NOTIFICATION_CLICK_MESSAGE && event.data.target) {
+      callback(event.data.target as NotificationTarget);
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+}
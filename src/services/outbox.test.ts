@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AppState } from "../context/AppContext";
+import type { Task } from "../types";
+import {
+  enqueueOutbox,
+  getOutbox,
+  queueOutboxMutationsForAction,
+  queueOutboxMutationsForTaskChange,
+  replayOutbox,
+} from "./outbox";
+
+function todoistTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    loop: "Work",
+    status: "todo",
+    priority: 2,
+    source: "todoist",
+    externalId: `td_${id}`,
+    createdAt: "2026-10-01T09:00:00.000Z",
+    ...overrides,
+  } as Task;
+}
+
+const stateWith = (items: Task[]) => ({ tasks: { items, todayStack: [] } }) as unknown as AppState;
+const queued = () => getOutbox().map((entry) => `${entry.kind}:${"taskId" in entry ? entry.taskId : ""}`);
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("undoing bulk task actions", () => {
+  it("cancels queued deletes when a bulk delete is undone before they are sent", () => {
+    const tasks = [todoistTask("a"), todoistTask("b")];
+    queueOutboxMutationsForAction({ type: "BULK_DELETE_TASKS", payload: ["a", "b"] }, stateWith(tasks));
+    expect(queued()).toEqual(["todoist.delete:a", "todoist.delete:b"]);
+
+    queueOutboxMutationsForTaskChange([], tasks);
+    expect(queued()).toEqual([]);
+  });
+
+  it("recreates tasks whose delete already reached Todoist", () => {
+    const tasks = [todoistTask("a"), todoistTask("b", { status: "done" })];
+
+    queueOutboxMutationsForTaskChange([], tasks);
+    expect(queued()).toEqual(["todoist.create:a", "todoist.create:b", "todoist.complete:b"]);
+  });
+
+  it("cancels queued completes when a bulk complete is undone", () => {
+    const tasks = [todoistTask("a"), todoistTask("b")];
+    queueOutboxMutationsForAction({ type: "BULK_COMPLETE_TASKS", payload: ["a", "b"] }, stateWith(tasks));
+    expect(queued()).toEqual(["todoist.complete:a", "todoist.complete:b"]);
+
+    const completed = tasks.map((task) => ({ ...task, status: "done" as const }));
+    queueOutboxMutationsForTaskChange(completed, tasks);
+    expect(queued()).toEqual([]);
+  });
+
+  it("reopens tasks whose completion was already sent", () => {
+    const tasks = [todoistTask("a")];
+    queueOutboxMutationsForTaskChange([{ ...tasks[0], status: "done" }], tasks);
+    expect(queued()).toEqual(["todoist.reopen:a"]);
+  });
+
+  it("sends the bulk change again on redo", () => {
+    const tasks = [todoistTask("a"), todoistTask("b")];
+    queueOutboxMutationsForTaskChange(tasks, []);
+    expect(queued()).toEqual(["todoist.delete:a", "todoist.delete:b"]);
+  });
+
+  it("leaves tasks that aren't from Todoist alone", () => {
+    queueOutboxMutationsForTaskChange([], [todoistTask("a", { source: "manual", externalId: undefined })]);
+    expect(queued()).toEqual([]);
+  });
+});
+
+describe("replaying entries that need a Todoist ID", () => {
+  it("waits for a queued create, then sends with the new ID", async () => {
+    enqueueOutbox({ kind: "todoist.create", taskId: "a", payload: { title: "Task a" } });
+    enqueueOutbox({ kind: "todoist.complete", taskId: "a" });
+    const sent: string[] = [];
+
+    await replayOutbox(async (entry) => {
+      sent.push(`${entry.kind}:${"externalId" in entry ? entry.externalId ?? "" : ""}`);
+      return entry.kind === "todoist.create" ? { externalId: "td_a" } : undefined;
+    }, () => {});
+
+    expect(sent).toEqual(["todoist.create:", "todoist.complete:td_a"]);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it("fails an entry whose task has no Todoist ID and no create queued", async () => {
+    enqueueOutbox({ kind: "todoist.complete", taskId: "a" });
+    const execute = vi.fn();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await replayOutbox(execute, () => {});
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(getOutbox()).toMatchObject([{ kind: "todoist.complete", failed: true }]);
+  });
+});
+
+describe("Todoist update payloads", () => {
+  const payloads = () => getOutbox().map((entry) => ("payload" in entry ? entry.payload : null));
+
+  it("leaves due fields out when the date didn't change", () => {
+    const task = todoistTask("a", { dueDate: "2026-10-20" });
+    queueOutboxMutationsForAction({ type: "UPDATE_TASK", payload: { ...task, title: "Renamed" } }, stateWith([task]));
+    expect(payloads()[0]).not.toHaveProperty("dueDate");
+    expect(payloads()[0]).toMatchObject({ title: "Renamed" });
+  });
+
+  it("sends the new date when it moved", () => {
+    const task = todoistTask("a", { dueDate: "2026-10-20" });
+    queueOutboxMutationsForAction({ type: "DEFER_TASKS", payload: { taskIds: ["a"], date: "2026-10-21" } }, stateWith([task]));
+    expect(payloads()).toEqual([expect.objectContaining({ dueDate: "2026-10-21" })]);
+  });
+
+  it("never sends a due date for a recurring task", () => {
+    const task = todoistTask("a", { dueDate: "2026-10-20", recurrence: { frequency: "weekly", interval: 1 } });
+    queueOutboxMutationsForAction({ type: "DEFER_TASKS", payload: { taskIds: ["a"], date: "2026-10-21" } }, stateWith([task]));
+    expect(getOutbox()).toEqual([]);
+
+    queueOutboxMutationsForAction(
+      { type: "UPDATE_TASK", payload: { ...task, title: "Renamed", dueDate: "2026-10-27" } },
+      stateWith([task])
+    );
+    expect(payloads()[0]).not.toHaveProperty("dueDate");
+    expect(payloads()[0]).not.toHaveProperty("rrule");
+  });
+});
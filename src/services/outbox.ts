@@ -0,0 +1,428 @@
+// Outbox - persistent queue of writes to external services (Todoist, SimpleFIN)
+//
+// Mutations are queued instead of sent directly so they survive being offline and
+// page reloads. The queue is replayed in order (see useOutbox), with exponential
+// backoff per entry. Queued mutations for the same task are collapsed, so a task
+// completed and reopened on the subway never reaches Todoist at all.
+
+import type { AppAction, AppState } from "../context/AppContext";
+import type { Task } from "../types";
+import { STORAGE_KEYS, getStorageItem, setStorageItem } from "../storage";
+import { looopsToTodoistTask, TodoistTask } from "./todoistSync";
+import { formatRRule } from "../engines/recurrenceEngine";
+import { applyBulkTaskChanges } from "../engines/bulkTaskEngine";
+
+export type TodoistPayload = Partial<TodoistTask>;
+
+export type OutboxMutation =
+  | { kind: "todoist.create"; taskId: string; payload: TodoistPayload }
+  | { kind: "todoist.update"; taskId: string; externalId?: string; payload: TodoistPayload }
+  | { kind: "todoist.complete"; taskId: string; externalId?: string }
+  | { kind: "todoist.reopen"; taskId: string; externalId?: string }
+  | { kind: "todoist.delete"; taskId: string; externalId?: string }
+  | { kind: "simplefin.sync"; connectionId: string };
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError: string | null;
+  failed: boolean; // Gave up after MAX_ATTEMPTS - kept until retried or discarded
+};
+
+// What a successful create returns, reconciled onto Task.externalId
+export type OutboxCreateResult = {
+  externalId: string;
+  externalUrl?: string;
+};
+
+// Runs one entry. Throws on failure; create entries return the new external ID.
+export type OutboxExecutor = (entry: OutboxEntry) => Promise<OutboxCreateResult | void>;
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+// ==================== Storage ====================
+
+export function getOutbox(): OutboxEntry[] {
+  return getStorageItem<OutboxEntry[]>(STORAGE_KEYS.OUTBOX, []);
+}
+
+function saveOutbox(entries: OutboxEntry[]) {
+  setStorageItem(STORAGE_KEYS.OUTBOX, entries);
+  listeners.forEach((listener) => listener(entries));
+}
+
+export function onOutboxChange(callback: (entries: OutboxEntry[]) => void): () => void {
+  listeners.add(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+}
+
+function createEntry(mutation: OutboxMutation): OutboxEntry {
+  return {
+    ...mutation,
+    id: `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    failed: false,
+  };
+}
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// ==================== Enqueue (with deduplication) ====================
+
+function isTaskEntry(entry: OutboxEntry, taskId: string): boolean {
+  return entry.kind !== "simplefin.sync" && entry.taskId === taskId && !entry.failed;
+}
+
+export function enqueueOutbox(mutation: OutboxMutation) {
+  let entries = getOutbox();
+
+  switch (mutation.kind) {
+    case "todoist.create": {
+      const existing = entries.find((e) => e.kind === "todoist.create" && isTaskEntry(e, mutation.taskId));
+      if (existing) {
+        entries = entries.map((e) => (e === existing ? { ...e, payload: mutation.payload } as OutboxEntry : e));
+      } else {
+        entries = [...entries, createEntry(mutation)];
+      }
+      break;
+    }
+
+    case "todoist.update": {
+      // Fold into a pending create or update for the same task
+      const existing = entries.find(
+        (e) => (e.kind === "todoist.create" || e.kind === "todoist.update") && isTaskEntry(e, mutation.taskId)
+      );
+      if (existing && (existing.kind === "todoist.create" || existing.kind === "todoist.update")) {
+        const merged = { ...existing, payload: { ...existing.payload, ...mutation.payload } };
+        entries = entries.map((e) => (e === existing ? merged : e));
+      } else {
+        entries = [...entries, createEntry(mutation)];
+      }
+      break;
+    }
+
+    case "todoist.complete":
+    case "todoist.reopen": {
+      const opposite = mutation.kind === "todoist.complete" ? "todoist.reopen" : "todoist.complete";
+      const pendingOpposite = entries.find((e) => e.kind === opposite && isTaskEntry(e, mutation.taskId));
+      if (pendingOpposite) {
+        // Completed then reopened (or the reverse) - the two cancel out
+        entries = entries.filter((e) => e !== pendingOpposite);
+      } else if (!entries.some((e) => e.kind === mutation.kind && isTaskEntry(e, mutation.taskId))) {
+        entries = [...entries, createEntry(mutation)];
+      }
+      break;
+    }
+
+    case "todoist.delete": {
+      const neverCreated = entries.some((e) => e.kind === "todoist.create" && isTaskEntry(e, mutation.taskId));
+      entries = entries.filter((e) => !isTaskEntry(e, mutation.taskId));
+      if (!neverCreated) {
+        entries = [...entries, createEntry(mutation)];
+      }
+      break;
+    }
+
+    case "simplefin.sync": {
+      const existing = entries.find(
+        (e) => e.kind === "simplefin.sync" && e.connectionId === mutation.connectionId && !e.failed
+      );
+      if (existing) {
+        entries = entries.map((e) => (e === existing ? { ...e, nextAttemptAt: 0 } : e));
+      } else {
+        entries = [...entries, createEntry(mutation)];
+      }
+      break;
+    }
+  }
+
+  console.log("[Outbox] Queued", mutation.kind, "- pending:", entries.length);
+  saveOutbox(entries);
+}
+
+// ==================== Mapping app actions to mutations ====================
+
+function todoistContentChanged(before: Task, after: Task): boolean {
+  return (
+    before.title !== after.title ||
+    (before.description || "") !== (after.description || "") ||
+    before.priority !== after.priority ||
+    before.dueDate !== after.dueDate ||
+    (before.recurrence ? formatRRule(before.recurrence) : "") !== (after.recurrence ? formatRRule(after.recurrence) : "") ||
+    JSON.stringify(before.labels || []) !== JSON.stringify(after.labels || [])
+  );
+}
+
+// Fields to send for a content change. Due fields go only when the date moved, and never
+// for recurring tasks - Todoist's REST API would replace the recurrence with a plain date.
+function getTodoistUpdatePayload(before: Task, after: Task): TodoistPayload {
+  const { dueDate, rrule: _rrule, ...payload } = looopsToTodoistTask(after);
+  const recurring = !!(before.recurrence || after.recurrence);
+  return before.dueDate !== after.dueDate && !recurring ? { ...payload, dueDate } : payload;
+}
+
+// Work out which Todoist writes a user action implies (called before the action is applied)
+export function getOutboxMutationsForAction(action: AppAction, state: AppState): OutboxMutation[] {
+  const findTask = (id: string) => state.tasks.items.find((t) => t.id === id);
+  const isTodoist = (task: Task | undefined): task is Task => task?.source === "todoist";
+
+  switch (action.type) {
+    case "ADD_TASK": {
+      const task = action.payload;
+      if (task.source !== "todoist" || task.externalId) return [];
+      return [{ kind: "todoist.create", taskId: task.id, payload: looopsToTodoistTask(task) }];
+    }
+
+    case "UPDATE_TASK": {
+      const before = findTask(action.payload.id);
+      const after = action.payload;
+      if (!isTodoist(before)) return [];
+      const ref = { taskId: after.id, externalId: before.externalId };
+      const mutations: OutboxMutation[] = [];
+      if (todoistContentChanged(before, after)) {
+        mutations.push({ kind: "todoist.update", ...ref, payload: getTodoistUpdatePayload(before, after) });
+      }
+      if (before.status !== "done" && after.status === "done") {
+        mutations.push({ kind: "todoist.complete", ...ref });
+      } else if (before.status === "done" && after.status !== "done") {
+        mutations.push({ kind: "todoist.reopen", ...ref });
+      }
+      return mutations;
+    }
+
+    case "COMPLETE_TASK": {
+      const task = findTask(action.payload);
+      if (!isTodoist(task) || task.status === "done") return [];
+      return [{ kind: "todoist.complete", taskId: task.id, externalId: task.externalId }];
+    }
+
+    case "UNCOMPLETE_TASK": {
+      const task = findTask(action.payload);
+      if (!isTodoist(task) || task.status !== "done") return [];
+      return [{ kind: "todoist.reopen", taskId: task.id, externalId: task.externalId }];
+    }
+
+    case "DELETE_TASK": {
+      const task = findTask(action.payload);
+      if (!isTodoist(task)) return [];
+      return [{ kind: "todoist.delete", taskId: task.id, externalId: task.externalId }];
+    }
+
+    case "DEFER_TASKS": {
+      const { taskIds, date } = action.payload;
+      return taskIds
+        .map(findTask)
+        .filter(isTodoist)
+        .filter((task) => task.dueDate !== date && !task.recurrence)
+        .map((task) => ({
+          kind: "todoist.update" as const,
+          taskId: task.id,
+          externalId: task.externalId,
+          payload: getTodoistUpdatePayload(task, { ...task, dueDate: date }),
+        }));
+    }
+
+    case "BULK_UPDATE_TASKS": {
+      const now = new Date().toISOString();
+      return action.payload.taskIds
+        .map(findTask)
+        .filter(isTodoist)
+        .map((task) => ({ before: task, after: applyBulkTaskChanges(task, action.payload.changes, now) }))
+        .filter(({ before, after }) => todoistContentChanged(before, after))
+        .map(({ before, after }) => ({
+          kind: "todoist.update" as const,
+          taskId: before.id,
+          externalId: before.externalId,
+          payload: getTodoistUpdatePayload(before, after),
+        }));
+    }
+
+    case "BULK_COMPLETE_TASKS":
+      return action.payload
+        .map(findTask)
+        .filter(isTodoist)
+        .filter((task) => task.status !== "done")
+        .map((task) => ({ kind: "todoist.complete" as const, taskId: task.id, externalId: task.externalId }));
+
+    case "BULK_DELETE_TASKS":
+      return action.payload
+        .map(findTask)
+        .filter(isTodoist)
+        .map((task) => ({ kind: "todoist.delete" as const, taskId: task.id, externalId: task.externalId }));
+
+    default:
+      return [];
+  }
+}
+
+export function queueOutboxMutationsForAction(action: AppAction, state: AppState) {
+  for (const mutation of getOutboxMutationsForAction(action, state)) {
+    enqueueOutbox(mutation);
+  }
+}
+
+// Drop a delete that hasn't been sent yet - true if there was one (the task still exists in Todoist)
+function cancelPendingDelete(taskId: string): boolean {
+  const entries = getOutbox();
+  const pending = entries.filter((e) => e.kind === "todoist.delete" && e.taskId === taskId);
+  if (pending.length === 0) return false;
+  saveOutbox(entries.filter((e) => !pending.includes(e)));
+  return true;
+}
+
+// Todoist writes that take Todoist from one set of tasks to another. Undo and redo swap in
+// a whole snapshot rather than replaying an action, so the remote side is diffed instead.
+export function getTodoistMutationsForTaskChange(before: Task[], after: Task[]): OutboxMutation[] {
+  const beforeById = new Map(before.map((task) => [task.id, task]));
+  const afterIds = new Set(after.map((task) => task.id));
+  const mutations: OutboxMutation[] = [];
+
+  for (const task of after) {
+    if (task.source !== "todoist") continue;
+    const previous = beforeById.get(task.id);
+    const ref = { taskId: task.id, externalId: task.externalId };
+
+    if (!previous) {
+      // Brought back - the delete may not have gone out yet
+      if (cancelPendingDelete(task.id)) continue;
+      mutations.push({ kind: "todoist.create", taskId: task.id, payload: looopsToTodoistTask(task) });
+      if (task.status === "done") mutations.push({ kind: "todoist.complete", ...ref });
+      continue;
+    }
+
+    if (todoistContentChanged(previous, task)) {
+      mutations.push({ kind: "todoist.update", ...ref, payload: getTodoistUpdatePayload(previous, task) });
+    }
+    if (previous.status !== "done" && task.status === "done") {
+      mutations.push({ kind: "todoist.complete", ...ref });
+    } else if (previous.status === "done" && task.status !== "done") {
+      mutations.push({ kind: "todoist.reopen", ...ref });
+    }
+  }
+
+  for (const task of before) {
+    if (task.source === "todoist" && !afterIds.has(task.id)) {
+      mutations.push({ kind: "todoist.delete", taskId: task.id, externalId: task.externalId });
+    }
+  }
+
+  return mutations;
+}
+
+export function queueOutboxMutationsForTaskChange(before: Task[], after: Task[]) {
+  if (before === after) return;
+  for (const mutation of getTodoistMutationsForTaskChange(before, after)) {
+    enqueueOutbox(mutation);
+  }
+}
+
+// ==================== Replay ====================
+
+let isReplaying = false;
+
+// Replay due entries in order. Entries for a task (or connection) that just failed are
+// held back so they never run ahead of it. New Todoist IDs are passed to onCreated.
+export async function replayOutbox(
+  execute: OutboxExecutor,
+  onCreated: (taskId: string, result: OutboxCreateResult) => void
+): Promise<void> {
+  if (isReplaying) return;
+  isReplaying = true;
+
+  try {
+    const blocked = new Set<string>();
+    const processed = new Set<string>();
+
+    for (;;) {
+      const now = Date.now();
+      const entry = getOutbox().find((e) => {
+        if (e.failed || processed.has(e.id)) return false;
+        return !blocked.has(getEntryGroup(e));
+      });
+      if (!entry) break;
+      processed.add(entry.id);
+
+      const group = getEntryGroup(entry);
+      if (entry.nextAttemptAt > now) {
+        blocked.add(group);
+        continue;
+      }
+      // Waiting on a create that hasn't gone through yet - with none queued, it would wait forever
+      if (entry.kind !== "todoist.create" && entry.kind !== "simplefin.sync" && !entry.externalId) {
+        const createQueued = getOutbox().some((e) => e.kind === "todoist.create" && e.taskId === entry.taskId);
+        if (!createQueued) {
+          console.warn("[Outbox] Failed", entry.kind, "- the task has no Todoist ID");
+          saveOutbox(getOutbox().map((e) =>
+            e.id === entry.id ? { ...e, failed: true, lastError: "This task has no Todoist ID" } : e
+          ));
+        }
+        blocked.add(group);
+        continue;
+      }
+
+      try {
+        const result = await execute(entry);
+        let entries = getOutbox().filter((e) => e.id !== entry.id);
+        if (entry.kind === "todoist.create" && result) {
+          // Later entries for this task can now address it in Todoist
+          entries = entries.map((e) =>
+            e.kind !== "simplefin.sync" && e.taskId === entry.taskId ? { ...e, externalId: result.externalId } : e
+          );
+          onCreated(entry.taskId, result);
+        }
+        saveOutbox(entries);
+        console.log("[Outbox] Sent", entry.kind);
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const failed = attempts >= MAX_ATTEMPTS;
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn("[Outbox] Failed", entry.kind, `(attempt ${attempts})`, message);
+        saveOutbox(getOutbox().map((e) =>
+          e.id === entry.id
+            ? { ...e, attempts, failed, lastError: message, nextAttemptAt: Date.now() + getBackoffMs(attempts) }
+            : e
+        ));
+        blocked.add(group);
+      }
+    }
+  } finally {
+    isReplaying = false;
+  }
+}
+
+function getEntryGroup(entry: OutboxEntry): string {
+  return entry.kind === "simplefin.sync" ? `simplefin:${entry.connectionId}` : `task:${entry.taskId}`;
+}
+
+// When the next backed-off entry becomes due (null if none are waiting)
+export function getNextOutboxAttempt(): number | null {
+  const now = Date.now();
+  const due = getOutbox().filter((e) => !e.failed && e.nextAttemptAt > now).map((e) => e.nextAttemptAt);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// Skip the backoff wait, and give failed entries another full set of attempts
+export function retryOutboxNow() {
+  saveOutbox(getOutbox().map((e) => ({
+    ...e,
+    nextAttemptAt: 0,
+    ...(e.failed ? { failed: false, attempts: 0 } : {}),
+  })));
+}
+
+export function discardFailedOutbox() {
+  saveOutbox(getOutbox().filter((e) => !e.failed));
+}
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import handler from "../../api/todoist/tasks";
+import {
+  completeTodoistTask,
+  createTodoistTask,
+  deleteTodoistTask,
+  reopenTodoistTask,
+  updateTodoistTask,
+} from "./todoistSync";
+
+type TodoistCall = { url: string; method: string; auth: string | null; body: unknown };
+
+let todoistCalls: TodoistCall[];
+let todoistReply: (call: TodoistCall) => Response;
+
+// Route the app's /api requests through the real handler; requests it makes to Todoist are recorded
+async function fakeFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(String(input), "https://looops.test");
+  const headers = new Headers(init.headers);
+  const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+
+  if (url.hostname === "api.todoist.com") {
+    const call = { url: url.toString(), method: init.method ?? "GET", auth: headers.get("Authorization"), body };
+    todoistCalls.push(call);
+    return todoistReply(call);
+  }
+
+  let status = 200;
+  let payload: unknown = null;
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => ((status = code), res),
+    json: (value: unknown) => ((payload = value), res),
+    end: () => res,
+  };
+  await handler(
+    {
+      method: init.method ?? "GET",
+      query: Object.fromEntries(url.searchParams),
+      headers: { authorization: headers.get("Authorization") ?? undefined },
+      body,
+    } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return new Response(JSON.stringify(payload), { status });
+}
+
+const todoistTask = {
+  id: "8675309",
+  content: "Call the dentist",
+  description: "",
+  labels: ["health"],
+  project_id: "inbox",
+  section_id: null,
+  parent_id: null,
+  priority: 3,
+  due: { date: "2026-10-20", string: "Oct 20", is_recurring: false },
+  url: "https://todoist.com/showTask?id=8675309",
+  order: 1,
+  created_at: "2026-10-19T09:00:00.000Z",
+};
+
+beforeEach(() => {
+  todoistCalls = [];
+  todoistReply = () => new Response(JSON.stringify(todoistTask), { status: 200 });
+  const store = new Map<string, string>([["looops_todoist_tokens", JSON.stringify({ access_token: "tok_123" })]]);
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("Todoist write-back", () => {
+  it("creates the task in Todoist with the user's token and returns its ID", async () => {
+    const created = await createTodoistTask({
+      title: "Call the dentist",
+      description: "",
+      labels: [],
+      priority: 3,
+      dueDate: "2026-10-20",
+      loop: "Health",
+    });
+
+    expect(created).toMatchObject({ id: "8675309", url: todoistTask.url });
+    expect(todoistCalls).toEqual([
+      {
+        url: "https://api.todoist.com/rest/v2/tasks",
+        method: "POST",
+        auth: "Bearer tok_123",
+        body: { content: "Call the dentist", description: "", priority: 3, labels: ["health"], due_date: "2026-10-20" },
+      },
+    ]);
+  });
+
+  it("updates, clearing the due date when the task no longer has one", async () => {
+    expect(await updateTodoistTask("8675309", { title: "Call the dentist", dueDate: null })).not.toBeNull();
+    expect(todoistCalls[0]).toMatchObject({
+      url: "https://api.todoist.com/rest/v2/tasks/8675309",
+      method: "POST",
+      body: { content: "Call the dentist", due_string: "no date" },
+    });
+  });
+
+  it("never overwrites a recurring task's due on update", async () => {
+    await updateTodoistTask("8675309", { title: "Call the dentist", dueDate: "2026-10-27", rrule: "RRULE:FREQ=WEEKLY" });
+    expect(todoistCalls[0].body).toEqual({ content: "Call the dentist" });
+  });
+
+  it("completes, reopens and deletes", async () => {
+    todoistReply = () => new Response(null, { status: 204 });
+
+    expect(await completeTodoistTask("8675309")).toBe(true);
+    expect(await reopenTodoistTask("8675309")).toBe(true);
+    expect(await deleteTodoistTask("8675309")).toBe(true);
+    expect(todoistCalls.map(({ method, url, auth }) => [method, url, auth])).toEqual([
+      ["POST", "https://api.todoist.com/rest/v2/tasks/8675309/close", "Bearer tok_123"],
+      ["POST", "https://api.todoist.com/rest/v2/tasks/8675309/reopen", "Bearer tok_123"],
+      ["DELETE", "https://api.todoist.com/rest/v2/tasks/8675309", "Bearer tok_123"],
+    ]);
+  });
+
+  it("treats deleting a task that's already gone as done", async () => {
+    todoistReply = () => new Response("Not found", { status: 404 });
+    expect(await deleteTodoistTask("8675309")).toBe(true);
+  });
+
+  it("reports failure when Todoist rejects the change, so the outbox retries", async () => {
+    todoistReply = () => new Response("Service unavailable", { status: 503 });
+    expect(await completeTodoistTask("8675309")).toBe(false);
+    expect(await createTodoistTask({ title: "Call the dentist" })).toBeNull();
+  });
+
+  it("disconnects Todoist when the token can't write, so it gets reconnected", async () => {
+    todoistReply = () => new Response("Forbidden", { status: 403 });
+    expect(await completeTodoistTask("8675309")).toBe(false);
+    expect(localStorage.getItem("looops_todoist_tokens")).toBeNull();
+  });
+
+  it("sends nothing without a Todoist connection", async () => {
+    localStorage.removeItem("looops_todoist_tokens");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(await completeTodoistTask("8675309")).toBe(false);
+    expect(todoistCalls).toEqual([]);
+  });
+});
@@ -1,12 +1,13 @@
 // Todoist Sync Service
 // Handles syncing tasks between Looops and Todoist
 
-import { Task, LoopId } from "../types";
+import { Task, LoopId, RecurrencePattern } from "../types";
+import { formatRRule, parseRRule } from "../engines/recurrenceEngine";
 
 const API_BASE = "/api/todoist";
 
 // Todoist task shape from API
-interface TodoistTask {
+export interface TodoistTask {
   id: string;
   todoistId: string;
   title: string;
@@ -20,6 +21,7 @@ interface TodoistTask {
   dueDate: string | null;
   dueString: string | null;
   isRecurring: boolean;
+  rrule?: string | null; // iCalendar RRULE, when the server can provide one
   url: string;
   order: number;
   createdAt: string;
@@ -146,6 +148,19 @@ export async function getTasksByLoop(loop: LoopId): Promise<TodoistTask[] | null
   }
 }
 
+/**
+ * Recurrence for an imported task - the RRULE when there is one, otherwise a
+ * daily placeholder so the task still shows as recurring
+ */
+export function recurrenceFromTodoist(
+  isRecurring: boolean,
+  rrule?: string | null
+): RecurrencePattern | undefined {
+  const parsed = rrule ? parseRRule(rrule) : null;
+  if (parsed) return parsed;
+  return isRecurring ? { frequency: "custom", interval: 1 } : undefined;
+}
+
 /**
  * Convert Todoist task to Looops task format
  */
@@ -166,13 +181,7 @@ export function todoistToLooopsTask(todoistTask: TodoistTask): Task {
     updatedAt: new Date().toISOString(),
     order: todoistTask.order,
     // Recurrence info
-    recurrence: todoistTask.isRecurring
-      ? {
-          frequency: "custom" as const,
-          interval: 1,
-          daysOfWeek: [],
-        }
-      : undefined,
+    recurrence: recurrenceFromTodoist(todoistTask.isRecurring, todoistTask.rrule),
   };
 }
 
@@ -186,10 +195,45 @@ export function looopsToTodoistTask(task: Task): Partial<TodoistTask> {
     labels: task.labels || [],
     priority: task.priority || 4,
     dueDate: task.dueDate || null,
+    rrule: task.recurrence ? formatRRule(task.recurrence) : null,
     loop: task.loop,
   };
 }
 
+/**
+ * Send a task write to /api/todoist/tasks - resolves to the response's data, or null
+ * when there's no token or the write didn't go through
+ */
+async function writeTodoistTask<T>(
+  query: Record<string, string>,
+  method: string,
+  body?: Partial<TodoistTask>
+): Promise<T | null> {
+  const token = getTodoistToken();
+  if (!token) {
+    console.log("No Todoist token found. Connect Todoist in Integrations.");
+    return null;
+  }
+
+  const params = new URLSearchParams(query).toString();
+  const res = await fetch(`${API_BASE}/tasks${params ? `?${params}` : ""}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json();
+
+  // Expired, or granted before Looops could write - Todoist shows as disconnected until reconnected
+  if (data.needsReauth) {
+    localStorage.removeItem('looops_todoist_tokens');
+    return null;
+  }
+  return data.data ?? null;
+}
+
 /**
  * Create a task in Todoist
  */
@@ -197,18 +241,7 @@ export async function createTodoistTask(
   task: Partial<TodoistTask>
 ): Promise<TodoistTask | null> {
   try {
-    const res = await fetch(`${API_BASE}/tasks`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(task),
-    });
-    const data = await res.json();
-
-    if (!data.data) {
-      return null;
-    }
-
-    return data.data;
+    return await writeTodoistTask<TodoistTask>({}, "POST", task);
   } catch (error) {
     console.error("Failed to create Todoist task:", error);
     return null;
@@ -223,18 +256,7 @@ export async function updateTodoistTask(
   updates: Partial<TodoistTask>
 ): Promise<TodoistTask | null> {
   try {
-    const res = await fetch(`${API_BASE}/tasks/${taskId}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(updates),
-    });
-    const data = await res.json();
-
-    if (!data.data) {
-      return null;
-    }
-
-    return data.data;
+    return await writeTodoistTask<TodoistTask>({ id: taskId }, "PUT", updates);
   } catch (error) {
     console.error("Failed to update Todoist task:", error);
     return null;
@@ -246,11 +268,8 @@ export async function updateTodoistTask(
  */
 export async function completeTodoistTask(taskId: string): Promise<boolean> {
   try {
-    const res = await fetch(`${API_BASE}/tasks/${taskId}/complete`, {
-      method: "POST",
-    });
-    const data = await res.json();
-    return data.data?.success || false;
+    const data = await writeTodoistTask<{ success: boolean }>({ id: taskId, action: "complete" }, "POST");
+    return data?.success || false;
   } catch (error) {
     console.error("Failed to complete Todoist task:", error);
     return false;
@@ -262,11 +281,8 @@ export async function completeTodoistTask(taskId: string): Promise<boolean> {
  */
 export async function reopenTodoistTask(taskId: string): Promise<boolean> {
   try {
-    const res = await fetch(`${API_BASE}/tasks/${taskId}/reopen`, {
-      method: "POST",
-    });
-    const data = await res.json();
-    return data.data?.success || false;
+    const data = await writeTodoistTask<{ success: boolean }>({ id: taskId, action: "reopen" }, "POST");
+    return data?.success || false;
   } catch (error) {
     console.error("Failed to reopen Todoist task:", error);
     return false;
@@ -278,11 +294,8 @@ export async function reopenTodoistTask(taskId: string): Promise<boolean> {
  */
 export async function deleteTodoistTask(taskId: string): Promise<boolean> {
   try {
-    const res = await fetch(`${API_BASE}/tasks/${taskId}`, {
-      method: "DELETE",
-    });
-    const data = await res.json();
-    return data.data?.success || false;
+    const data = await writeTodoistTask<{ success: boolean }>({ id: taskId }, "DELETE");
+    return data?.success || false;
   } catch (error) {
     console.error("Failed to delete Todoist task:", error);
     return false;
@@ -0,0 +1,305 @@
+// Full backup/restore - every persisted slice plus widget data kept outside AppState
+//
+// A backup file is plain JSON. It carries the state's schemaVersion, so an old backup
+// is migrated like any other persisted snapshot before it's restored.
+
+import type { AppState } from "../context/AppContext";
+import { ALL_LOOPS } from "../types/core";
+import { STORAGE_KEYS } from "./index";
+import { CURRENT_SCHEMA_VERSION, migratePersistedState } from "./migrations";
+
+export const BACKUP_FORMAT = "looops-backup";
+export const BACKUP_VERSION = 1;
+
+// Slices never written to a backup: UI state and data fetched fresh from APIs
+const EXCLUDED_SLICES = ["ui", "health", "calendar"] as const;
+
+export type BackupState = Omit<AppState, (typeof EXCLUDED_SLICES)[number]>;
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  state: Partial<BackupState>;
+  localStorage: Record<string, string>; // Raw values, keyed by storage key
+};
+
+export type BackupDiffStatus = "added" | "changed" | "unchanged" | "notInBackup";
+
+export type BackupDiffEntry = {
+  key: string;
+  label: string;
+  kind: "slice" | "storage";
+  status: BackupDiffStatus;
+  current: string; // Short summary, e.g. "12 items"
+  backup: string;
+};
+
+// Display names for slices and storage keys in the restore preview
+const SLICE_LABELS: Partial<Record<keyof BackupState, string>> = {
+  user: "Profile",
+  loops: "Loop states",
+  tasks: "Tasks",
+  projects: "Projects",
+  labels: "Labels",
+  savedFilters: "Saved filters",
+  taskComments: "Task comments",
+  taskActivity: "Task activity",
+  goals: "Goals",
+  routines: "Routines",
+  systems: "Systems",
+  habits: "Habits (legacy)",
+  intentions: "Intentions",
+  dashboards: "Dashboards",
+  notes: "Notes",
+  quickLinks: "Quick links",
+  checklists: "Checklists",
+  journal: "Journal",
+  timerSessions: "Timer sessions",
+  challenges: "Challenges",
+  babysitter: "Babysitter",
+  householdInfo: "Household info",
+  babysitterPins: "Babysitter PINs",
+  babysitterSchedule: "Babysitter schedule",
+  babysitterPayments: "Babysitter payments",
+  media: "Media",
+  directionalDocument: "Directions",
+  customTemplates: "Templates",
+  smartSchedule: "Day types",
+  mealPrep: "Meal prep",
+  workout: "Workouts",
+  finance: "Finance",
+  specialDates: "Special dates",
+  decisions: "Decisions",
+  reminders: "Reminders",
+  loopModel: "Loop prediction model",
+  timeBlockSettings: "Time blocking settings",
+  calendarSync: "Calendar write-back",
+  activeTimer: "Active timer",
+};
+
+const STORAGE_LABELS: Record<string, string> = {
+  [STORAGE_KEYS.GOOD_TIMES_ENTRIES]: "Good times",
+  [STORAGE_KEYS.WASTED_MONEY_ENTRIES]: "Wasted money",
+  [STORAGE_KEYS.EXPENSES]: "Budget expenses",
+  [STORAGE_KEYS.LOOP_BUDGETS]: "Loop budgets",
+  [STORAGE_KEYS.MONTHLY_INCOME]: "Monthly income",
+  [STORAGE_KEYS.SHEET_TRANSACTIONS]: "Imported transactions",
+  [STORAGE_KEYS.SHEET_ACCOUNTS]: "Imported accounts",
+  [STORAGE_KEYS.WASTE_TRANSACTIONS]: "Food waste expenses",
+  [STORAGE_KEYS.WEATHER_SETTINGS]: "Weather settings",
+  [STORAGE_KEYS.THEME]: "Theme",
+  [STORAGE_KEYS.TODAY_WIDGETS]: "Today widgets",
+};
+
+// localStorage keys included in a backup (integration tokens are deliberately left out)
+export function getBackupStorageKeys(): string[] {
+  return [
+    ...Object.keys(STORAGE_LABELS),
+    ...ALL_LOOPS.map((loop) => `${STORAGE_KEYS.QUICK_LINKS}_${loop}`),
+  ];
+}
+
+function getStorageLabel(key: string): string {
+  if (STORAGE_LABELS[key]) return STORAGE_LABELS[key];
+  if (key.startsWith(`${STORAGE_KEYS.QUICK_LINKS}_`)) {
+    return `${key.slice(STORAGE_KEYS.QUICK_LINKS.length + 1)} quick links`;
+  }
+  return key;
+}
+
+export function getSliceLabel(key: string): string {
+  return SLICE_LABELS[key as keyof BackupState] ?? key;
+}
+
+export function createBackup(state: AppState): BackupFile {
+  const backupState: Record<string, unknown> = { ...state };
+  for (const slice of EXCLUDED_SLICES) {
+    delete backupState[slice];
+  }
+
+  const storage: Record<string, string> = {};
+  for (const key of getBackupStorageKeys()) {
+    const value = localStorage.getItem(key);
+    if (value !== null) storage[key] = value;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: state.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    state: backupState as Partial<BackupState>,
+    localStorage: storage,
+  };
+}
+
+export function downloadBackup(backup: BackupFile): void {
+  const json = JSON.stringify(backup, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `looops-backup-${backup.exportedAt.split("T")[0]}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validate a backup file and migrate its state to the current schema
+export function parseBackup(text: string): { backup: BackupFile } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "This file isn't valid JSON." };
+  }
+
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { error: "This file isn't a Looops backup." };
+  }
+  if (typeof raw.backupVersion !== "number" || raw.backupVersion > BACKUP_VERSION) {
+    return { error: "This backup was made by a newer version of Looops. Update the app and try again." };
+  }
+  if (!isPlainObject(raw.state)) {
+    return { error: "This backup has no app data." };
+  }
+  const storage = isPlainObject(raw.localStorage) ? raw.localStorage : {};
+  if (Object.values(storage).some((value) => typeof value !== "string")) {
+    return { error: "This backup's widget data is corrupted." };
+  }
+
+  const state = migratePersistedState<Partial<BackupState>>(
+    { ...raw.state, schemaVersion: raw.schemaVersion ?? raw.state.schemaVersion },
+    "backup"
+  );
+  if ((state.schemaVersion ?? 0) > CURRENT_SCHEMA_VERSION) {
+    return { error: "This backup was made by a newer version of Looops. Update the app and try again." };
+  }
+
+  // Ignore anything we'd never write, even if the file was hand-edited
+  for (const slice of EXCLUDED_SLICES) {
+    delete (state as Record<string, unknown>)[slice];
+  }
+  const allowedKeys = new Set(getBackupStorageKeys());
+  const localStorageValues: Record<string, string> = {};
+  for (const [key, value] of Object.entries(storage)) {
+    if (allowedKeys.has(key)) localStorageValues[key] = value as string;
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      backupVersion: raw.backupVersion,
+      schemaVersion: state.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+      exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+      state,
+      localStorage: localStorageValues,
+    },
+  };
+}
+
+// Count records in a slice: array length, or the sum of its top-level arrays
+function countRecords(value: unknown): number | null {
+  if (Array.isArray(value)) return value.length;
+  if (!isPlainObject(value)) return null;
+  let total: number | null = null;
+  for (const child of Object.values(value)) {
+    if (Array.isArray(child)) total = (total ?? 0) + child.length;
+  }
+  return total;
+}
+
+function summarize(value: unknown): string {
+  if (value === undefined) return "—";
+  if (value === null) return "empty";
+  const count = countRecords(value);
+  if (count !== null) return `${count} item${count === 1 ? "" : "s"}`;
+  return typeof value === "object" ? "settings" : String(value);
+}
+
+function summarizeStorage(value: string | null): string {
+  if (value === null) return "—";
+  try {
+    return summarize(JSON.parse(value));
+  } catch {
+    return value;
+  }
+}
+
+function diffStatus(hasBackup: boolean, hasCurrent: boolean, same: boolean): BackupDiffStatus {
+  if (!hasBackup) return "notInBackup";
+  if (!hasCurrent) return "added";
+  return same ? "unchanged" : "changed";
+}
+
+// Compare a backup against current data for the restore preview
+export function diffBackup(current: AppState, backup: BackupFile): BackupDiffEntry[] {
+  const entries: BackupDiffEntry[] = [];
+
+  const sliceKeys = new Set([...Object.keys(backup.state), ...Object.keys(current)]);
+  for (const slice of EXCLUDED_SLICES) sliceKeys.delete(slice);
+  sliceKeys.delete("schemaVersion");
+
+  for (const key of sliceKeys) {
+    const currentValue = (current as Record<string, unknown>)[key];
+    const backupValue = (backup.state as Record<string, unknown>)[key];
+    const hasBackup = key in backup.state;
+    entries.push({
+      key,
+      label: getSliceLabel(key),
+      kind: "slice",
+      status: diffStatus(hasBackup, currentValue !== undefined, JSON.stringify(currentValue) === JSON.stringify(backupValue)),
+      current: summarize(currentValue),
+      backup: summarize(backupValue),
+    });
+  }
+
+  for (const key of getBackupStorageKeys()) {
+    const currentValue = localStorage.getItem(key);
+    const backupValue = backup.localStorage[key] ?? null;
+    if (currentValue === null && backupValue === null) continue;
+    entries.push({
+      key,
+      label: getStorageLabel(key),
+      kind: "storage",
+      status: diffStatus(backupValue !== null, currentValue !== null, currentValue === backupValue),
+      current: summarizeStorage(currentValue),
+      backup: summarizeStorage(backupValue),
+    });
+  }
+
+  return entries;
+}
+
+// Pick the chosen slices from a backup as a RESTORE_BACKUP payload
+export function getRestorePayload(backup: BackupFile, slices: string[]): Partial<AppState> {
+  const payload: Record<string, unknown> = {};
+  for (const key of slices) {
+    if (key in backup.state) {
+      payload[key] = (backup.state as Record<string, unknown>)[key];
+    }
+  }
+  if (slices.length > 0) payload.schemaVersion = backup.schemaVersion;
+  return payload as Partial<AppState>;
+}
+
+// Write the chosen widget keys back to localStorage
+export function restoreBackupStorage(backup: BackupFile, keys: string[]): void {
+  for (const key of keys) {
+    const value = backup.localStorage[key];
+    if (value === undefined) continue;
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      console.error(`Error restoring localStorage key "${key}":`, error);
+    }
+  }
+}
@@ -1,5 +1,8 @@
 // Local storage abstraction layer
 
+export { CURRENT_SCHEMA_VERSION, MIGRATIONS, migratePersistedState, getSchemaVersion } from "./migrations";
+export type { Migration, PersistedSnapshot } from "./migrations";
+
 const STORAGE_PREFIX = "looops_";
 
 export const STORAGE_KEYS = {
@@ -12,6 +15,26 @@ export const STORAGE_KEYS = {
   CASCADE_RULES: `${STORAGE_PREFIX}cascade_rules`,
   ONBOARDING_COMPLETE: `${STORAGE_PREFIX}onboarding_complete`,
   APP_STATE: `${STORAGE_PREFIX}app_state`,
+  DEVICE_ID: `${STORAGE_PREFIX}device_id`,
+  SYNC_SHADOW: `${STORAGE_PREFIX}sync_shadow`, // Suffixed with the user ID
+  SYNC_CONFLICTS: `${STORAGE_PREFIX}sync_conflicts`,
+  ENCRYPTION_KEY: `${STORAGE_PREFIX}encryption_key`, // Suffixed with the user ID
+  OUTBOX: `${STORAGE_PREFIX}outbox`, // Pending writes to external services
+  DELIVERED_NOTIFICATIONS: `${STORAGE_PREFIX}delivered_notifications`, // Per device - each device notifies once
+  // Widget data kept outside AppState (original key names, so existing data still loads)
+  GOOD_TIMES_ENTRIES: "goodtimes_entries",
+  WASTED_MONEY_ENTRIES: "wasted_money_entries",
+  EXPENSES: `${STORAGE_PREFIX}expenses`,
+  LOOP_BUDGETS: `${STORAGE_PREFIX}loop_budgets`,
+  MONTHLY_INCOME: `${STORAGE_PREFIX}monthly_income`,
+  SHEET_TRANSACTIONS: `${STORAGE_PREFIX}transactions`,
+  SHEET_ACCOUNTS: `${STORAGE_PREFIX}accounts`,
+  WASTE_TRANSACTIONS: `${STORAGE_PREFIX}waste_transactions`,
+  WEATHER_SETTINGS: "weather_settings",
+  QUICK_LINKS: "quicklinks", // Suffixed with the loop ID
+  // Device preferences
+  THEME: "looops-theme",
+  TODAY_WIDGETS: "looops-today-widgets",
 } as const;
 
 export type StorageKey = keyof typeof STORAGE_KEYS;
@@ -44,6 +67,15 @@ export function removeStorageItem(key: string): void {
   }
 }
 
+// Stable per-browser device ID (used to tell our own writes from other devices')
+export function getDeviceId(): string {
+  const existing = getStorageItem<string | null>(STORAGE_KEYS.DEVICE_ID, null);
+  if (existing) return existing;
+  const id = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  setStorageItem(STORAGE_KEYS.DEVICE_ID, id);
+  return id;
+}
+
 // Clear all Looops data
 export function clearAllStorage(): void {
   Object.values(STORAGE_KEYS).forEach((key) => {
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  PersistedSnapshot,
+  getSchemaVersion,
+  migratePersistedState,
+} from "./migrations";
+import snapshotV0 from "./__fixtures__/snapshot-v0.json";
+import snapshotV1 from "./__fixtures__/snapshot-v1.json";
+import snapshotV2 from "./__fixtures__/snapshot-v2.json";
+import { defaultCalendarSyncState } from "../types/calendar";
+import { INITIAL_LOOP_MODEL } from "../types/loopModel";
+import { DEFAULT_REMINDER_SETTINGS, INITIAL_REMINDERS_STATE } from "../types/reminders";
+import { DEFAULT_TIME_BLOCK_SETTINGS } from "../types/timeBlocking";
+
+// Fixtures are real-shaped snapshots as each schema version wrote them - add one per new version
+const clone = (snapshot: object): PersistedSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+describe("migration registry", () => {
+  it("has consecutive versions starting at 1", () => {
+    MIGRATIONS.forEach((migration, index) => expect(migration.version).toBe(index + 1));
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe("migratePersistedState", () => {
+  it("treats a snapshot without schemaVersion as v0", () => {
+    expect(getSchemaVersion(clone(snapshotV0))).toBe(0);
+  });
+
+  it("brings a v0 snapshot to the current version", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV0), "test");
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.finance).toEqual({
+      connections: [],
+      accounts: [{ id: "acct_1", name: "Checking" }],
+      transactions: [],
+      categories: [],
+      rules: [],
+      expenses: [],
+      loopBudgets: [],
+      monthlyIncome: 0,
+    });
+    expect(migrated.routines).toEqual({
+      items: [
+        { id: "routine_morning", title: "Morning", status: "active", steps: [] },
+        { id: "routine_evening", title: "Evening", status: "active", steps: [] },
+      ],
+      completions: [],
+    });
+    expect(migrated.systems).toEqual({ items: [], completions: [] });
+    expect(migrated.goals).toEqual({
+      annual: [{ id: "goal_1", title: "Run a half marathon" }],
+      quarterly: [],
+      monthly: [],
+      weekly: [],
+      daily: [],
+    });
+    expect(migrated.specialDates).toEqual({ people: [], dates: [] });
+    expect(migrated.decisions).toEqual({ decisions: [], quickDecisions: [] });
+    expect(migrated.smartSchedule).toEqual({ enabled: false, markedDates: [], customDayTypes: [] });
+  });
+
+  it("leaves slices that were never persisted absent and other data untouched", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV0), "test");
+
+    expect("habits" in migrated).toBe(false);
+    expect(migrated.tasks).toEqual(snapshotV0.tasks);
+    expect(migrated.user).toEqual(snapshotV0.user);
+  });
+
+  it("brings a v1 snapshot to the current version, running only later migrations", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV1), "test");
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.routines).toEqual({
+      items: [{ id: "routine_gym", title: "Gym", status: "active", steps: [] }],
+      completions: [{ routineId: "routine_gym", date: "2025-06-01" }],
+    });
+    expect(migrated.finance).toEqual(snapshotV1.finance);
+  });
+
+  it("brings a v2 snapshot to the current version, keeping the settings it had", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV2), "test");
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.loops).toEqual({
+      ...snapshotV2.loops,
+      dismissedSuggestions: [],
+      planAppliedOn: null,
+      advisor: { weights: {}, feedback: [] },
+    });
+    expect(migrated.savedFilters).toEqual(snapshotV2.savedFilters);
+    expect(migrated.taskComments).toEqual([]);
+    expect(migrated.taskActivity).toEqual([]);
+    expect(migrated.reminders).toEqual({
+      items: [],
+      settings: {
+        ...DEFAULT_REMINDER_SETTINGS,
+        enabled: true,
+        taskLeadMinutes: 15,
+        kinds: { ...DEFAULT_REMINDER_SETTINGS.kinds, task: false },
+      },
+    });
+    expect(migrated.loopModel).toEqual(INITIAL_LOOP_MODEL);
+    expect(migrated.timeBlockSettings).toEqual({ ...DEFAULT_TIME_BLOCK_SETTINGS, dayStart: "07:00", dayEnd: "17:00" });
+    expect(migrated.calendarSync).toEqual({ ...defaultCalendarSyncState, enabled: true, calendarId: "cal_looops" });
+  });
+
+  it("gives slices added in v3 their defaults when an older snapshot has none", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV1), "test");
+
+    expect(migrated.reminders).toEqual(INITIAL_REMINDERS_STATE);
+    expect(migrated.calendarSync).toEqual(defaultCalendarSyncState);
+    expect("loops" in migrated).toBe(false);
+  });
+
+  it("does not mutate the snapshot it was given", () => {
+    const snapshot = clone(snapshotV0);
+    migratePersistedState(snapshot, "test");
+    expect(snapshot).toEqual(clone(snapshotV0));
+  });
+
+  it("is stable once a snapshot is current", () => {
+    const migrated = migratePersistedState<PersistedSnapshot>(clone(snapshotV0), "test");
+    expect(migratePersistedState<PersistedSnapshot>(migrated, "test")).toBe(migrated);
+  });
+
+  it("loads snapshots from a newer app version as is", () => {
+    const newer = { ...clone(snapshotV1), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(migratePersistedState<PersistedSnapshot>(newer, "test")).toBe(newer);
+  });
+});
@@ -0,0 +1,167 @@
+// Schema migrations for persisted app state
+//
+// Every persisted snapshot (localStorage or the Firestore root document) carries a
+// `schemaVersion`. Snapshots written before versioning existed are version 0.
+// On load, each migration newer than the snapshot runs in order, so a shape change
+// is written once here instead of patched ad hoc wherever state is read.
+//
+// To change the persisted shape: append a migration with the next version number.
+// Never edit or reorder a migration that has shipped.
+
+import type { AppState } from "../context/AppContext";
+import { defaultCalendarSyncState } from "../types/calendar";
+import { INITIAL_LOOP_MODEL } from "../types/loopModel";
+import { INITIAL_REMINDERS_STATE } from "../types/reminders";
+import { DEFAULT_TIME_BLOCK_SETTINGS } from "../types/timeBlocking";
+
+// Loosely typed snapshot - older versions don't match the current AppState
+export type PersistedSnapshot = Record<string, unknown>;
+
+export type Migration = {
+  version: number; // Version the snapshot is at after this migration runs
+  description: string;
+  migrate: (snapshot: PersistedSnapshot) => PersistedSnapshot;
+};
+
+const GOAL_TIMEFRAMES = ["annual", "quarterly", "monthly", "weekly", "daily"] as const;
+
+function asRecord(value: unknown): PersistedSnapshot | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as PersistedSnapshot) : undefined;
+}
+
+// Fill missing array fields on a slice, leaving the slice alone if it wasn't persisted
+function withArrays(slice: unknown, keys: string[]): unknown {
+  const record = asRecord(slice);
+  if (!record) return slice;
+  const result = { ...record };
+  for (const key of keys) {
+    if (!Array.isArray(result[key])) result[key] = [];
+  }
+  return result;
+}
+
+// Fill missing fields of an object slice from its defaults - a slice that was never persisted gets the defaults
+function withDefaults(slice: unknown, defaults: object): PersistedSnapshot {
+  return { ...defaults, ...asRecord(slice) };
+}
+
+function dedupeById(items: unknown[]): unknown[] {
+  const seenIds = new Set<string>();
+  return items.filter((item) => {
+    const id = asRecord(item)?.id;
+    if (typeof id !== "string") return true;
+    if (seenIds.has(id)) {
+      console.log("[Migrations] Removing duplicate:", id);
+      return false;
+    }
+    seenIds.add(id);
+    return true;
+  });
+}
+
+function setSlice(snapshot: PersistedSnapshot, key: string, value: unknown): PersistedSnapshot {
+  return value === undefined ? snapshot : { ...snapshot, [key]: value };
+}
+
+// Ordered registry - versions must be consecutive starting at 1
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Back-fill array fields added after launch",
+    migrate: (snapshot) => {
+      let next = snapshot;
+      next = setSlice(next, "finance", withArrays(next.finance, [
+        "connections", "accounts", "transactions", "categories", "rules", "expenses", "loopBudgets",
+      ]));
+      const finance = asRecord(next.finance);
+      if (finance && typeof finance.monthlyIncome !== "number") {
+        next = { ...next, finance: { ...finance, monthlyIncome: 0 } };
+      }
+      next = setSlice(next, "routines", withArrays(next.routines, ["items", "completions"]));
+      next = setSlice(next, "systems", withArrays(next.systems, ["items", "completions"]));
+      next = setSlice(next, "habits", withArrays(next.habits, ["items", "completions"]));
+      next = setSlice(next, "goals", withArrays(next.goals, [...GOAL_TIMEFRAMES]));
+      next = setSlice(next, "specialDates", withArrays(next.specialDates, ["people", "dates"]));
+      next = setSlice(next, "decisions", withArrays(next.decisions, ["decisions", "quickDecisions"]));
+      next = setSlice(next, "smartSchedule", withArrays(next.smartSchedule, ["customDayTypes"]));
+      return next;
+    },
+  },
+  {
+    version: 2,
+    description: "Remove duplicate routines",
+    migrate: (snapshot) => {
+      const routines = asRecord(snapshot.routines);
+      if (!routines || !Array.isArray(routines.items)) return snapshot;
+      return {
+        ...snapshot,
+        routines: { ...routines, items: dedupeById(routines.items) },
+      };
+    },
+  },
+  {
+    version: 3,
+    description: "Back-fill filters, task history, reminders, loop model, time blocking and calendar write-back",
+    migrate: (snapshot) => {
+      let next = snapshot;
+      for (const key of ["savedFilters", "taskComments", "taskActivity"]) {
+        if (!Array.isArray(next[key])) next = { ...next, [key]: [] };
+      }
+      const loops = asRecord(next.loops);
+      if (loops) {
+        next = {
+          ...next,
+          loops: {
+            ...withArrays(loops, ["dismissedSuggestions"]) as PersistedSnapshot,
+            planAppliedOn: typeof loops.planAppliedOn === "string" ? loops.planAppliedOn : null,
+            advisor: withArrays(withDefaults(loops.advisor, { weights: {}, feedback: [] }), ["feedback"]),
+          },
+        };
+      }
+      const reminders = withArrays(withDefaults(next.reminders, INITIAL_REMINDERS_STATE), ["items"]) as PersistedSnapshot;
+      const settings = withDefaults(reminders.settings, INITIAL_REMINDERS_STATE.settings);
+      next = {
+        ...next,
+        reminders: {
+          ...reminders,
+          settings: { ...settings, kinds: withDefaults(settings.kinds, INITIAL_REMINDERS_STATE.settings.kinds) },
+        },
+      };
+      next = { ...next, loopModel: withDefaults(next.loopModel, INITIAL_LOOP_MODEL) };
+      next = { ...next, timeBlockSettings: withDefaults(next.timeBlockSettings, DEFAULT_TIME_BLOCK_SETTINGS) };
+      next = { ...next, calendarSync: withArrays(withDefaults(next.calendarSync, defaultCalendarSyncState), ["links", "removed"]) };
+      return next;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(snapshot: PersistedSnapshot): number {
+  return typeof snapshot.schemaVersion === "number" ? snapshot.schemaVersion : 0;
+}
+
+// Bring a persisted snapshot up to the current schema version.
+// Snapshots from a newer app version are returned untouched.
+export function migratePersistedState<T = Partial<AppState>>(
+  persisted: object,
+  source: string
+): T {
+  const snapshot = asRecord(persisted) ?? {};
+  const fromVersion = getSchemaVersion(snapshot);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`[Migrations] ${source} snapshot is schema v${fromVersion}, newer than v${CURRENT_SCHEMA_VERSION} - loading as is`);
+    return snapshot as T;
+  }
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return snapshot as T;
+  }
+
+  let migrated = snapshot;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    console.log(`[Migrations] ${source}: v${migration.version - 1} -> v${migration.version} (${migration.description})`);
+    migrated = { ...migration.migrate(migrated), schemaVersion: migration.version };
+  }
+  return migrated as T;
+}
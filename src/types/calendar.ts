@@ -225,3 +225,64 @@ export const defaultCalendarState: CalendarState = {
   error: null,
   lastFetched: null,
 };
+
+// =============================================================================
+// CALENDAR WRITE-BACK
+// =============================================================================
+
+// Planned task blocks and timed routines are written to a dedicated "Looops" Google calendar.
+// Each written event is linked back by ID: moving it in Google reschedules the task, deleting
+// it unschedules the task for the day.
+
+export const LOOOPS_CALENDAR_NAME = "Looops";
+
+export type CalendarSyncKind = "task" | "routine";
+
+export interface CalendarSyncLink {
+  key: string; // "task:<id>:<date>" or "routine:<id>:<date>"
+  kind: CalendarSyncKind;
+  sourceId: string; // Task or routine ID
+  date: string; // YYYY-MM-DD the block is for
+  eventId: string;
+  title: string;
+  startTime: string; // ISO - where the event is now, as last seen
+  endTime: string;
+  plannedStart: string; // ISO - what Looops last wrote, so a routine moved in Google isn't moved back
+  plannedEnd: string;
+}
+
+// A block deleted in Google - not written again that day
+export interface CalendarSyncRemoval {
+  key: string;
+  date: string;
+}
+
+// An event on the Looops calendar, as returned by /api/calendar?action=events
+export interface LooopsCalendarEvent {
+  id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  status: "confirmed" | "tentative" | "cancelled";
+  looopsKey?: string;
+}
+
+export interface CalendarSyncState {
+  enabled: boolean;
+  includeRoutines: boolean;
+  calendarId: string | null; // The calendar Looops created - the only one it writes to
+  links: CalendarSyncLink[];
+  removed: CalendarSyncRemoval[];
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export const defaultCalendarSyncState: CalendarSyncState = {
+  enabled: false,
+  includeRoutines: true,
+  calendarId: null,
+  links: [],
+  removed: [],
+  lastSyncedAt: null,
+  lastError: null,
+};
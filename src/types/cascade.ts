@@ -168,20 +168,47 @@ export const DEFAULT_CASCADE_RULES: CascadeRule[] = [
   },
 ];
 
-// Apply cascade rules to determine effective state
-export function applyCascadeRules(
-  rules: CascadeRule[],
-  loopStates: Record<LoopId, LoopStateType>,
-  targetLoop: LoopId
-): {
+// A state suggested by a recommend_state effect
+export type CascadeRecommendation = {
+  ruleId: string;
+  state: LoopStateType;
+  reason: string;
+};
+
+// A state ruled out by a block_state effect
+export type CascadeBlock = {
+  ruleId: string;
+  state: LoopStateType;
+  reason: string;
+};
+
+// Net effect of all matching rules on one loop
+export type CascadeResult = {
   maxState: LoopStateType;
   minState: LoopStateType;
   capacityAdjustment: number;
+  blockedStates: CascadeBlock[];
+  recommendations: CascadeRecommendation[];
   appliedRules: CascadeRule[];
-} {
+};
+
+// Least to most demanding
+export const CASCADE_STATE_ORDER: LoopStateType[] = ["HIBERNATE", "RECOVER", "MAINTAIN", "BUILD"];
+
+// Apply cascade rules to determine effective state.
+// Rules with a triggerCondition only apply when isConditionMet says so - without an
+// evaluator they're skipped, since their condition can't be checked.
+export function applyCascadeRules(
+  rules: CascadeRule[],
+  loopStates: Record<LoopId, LoopStateType>,
+  targetLoop: LoopId,
+  isConditionMet?: (rule: CascadeRule) => boolean
+): CascadeResult {
   let maxState: LoopStateType = "BUILD";
   let minState: LoopStateType = "HIBERNATE";
   let capacityAdjustment = 0;
+  const blockedStates: CascadeBlock[] = [];
+  const recommendations: CascadeRecommendation[] = [];
   const appliedRules: CascadeRule[] = [];
 
   // Sort by priority (highest first)
@@ -191,47 +218,47 @@ export function applyCascadeRules(
 
   for (const rule of sortedRules) {
     // Check if source condition is met
-    if (loopStates[rule.sourceLoop] === rule.sourceState) {
-      appliedRules.push(rule);
-
-      for (const effect of rule.effects) {
-        switch (effect.type) {
-          case "set_max_state":
-            if (effect.targetState) {
-              // Take the more restrictive max state
-              const stateOrder: LoopStateType[] = ["HIBERNATE", "RECOVER", "MAINTAIN", "BUILD"];
-              const currentIdx = stateOrder.indexOf(maxState);
-              const newIdx = stateOrder.indexOf(effect.targetState);
-              if (newIdx < currentIdx) {
-                maxState = effect.targetState;
-              }
-            }
-            break;
-
-          case "set_min_state":
-            if (effect.targetState) {
-              const stateOrder: LoopStateType[] = ["HIBERNATE", "RECOVER", "MAINTAIN", "BUILD"];
-              const currentIdx = stateOrder.indexOf(minState);
-              const newIdx = stateOrder.indexOf(effect.targetState);
-              if (newIdx > currentIdx) {
-                minState = effect.targetState;
-              }
-            }
-            break;
-
-          case "adjust_capacity":
-            if (effect.capacityAdjustment) {
-              capacityAdjustment += effect.capacityAdjustment;
-            }
-            break;
-
-          // recommend_state and block_state don't force changes
-          default:
-            break;
-        }
+    if (loopStates[rule.sourceLoop] !== rule.sourceState) continue;
+    if (rule.triggerCondition?.trim() && !isConditionMet?.(rule)) continue;
+
+    appliedRules.push(rule);
+
+    for (const effect of rule.effects) {
+      switch (effect.type) {
+        case "set_max_state":
+          // Take the more restrictive max state
+          if (effect.targetState && CASCADE_STATE_ORDER.indexOf(effect.targetState) < CASCADE_STATE_ORDER.indexOf(maxState)) {
+            maxState = effect.targetState;
+          }
+          break;
+
+        case "set_min_state":
+          if (effect.targetState && CASCADE_STATE_ORDER.indexOf(effect.targetState) > CASCADE_STATE_ORDER.indexOf(minState)) {
+            minState = effect.targetState;
+          }
+          break;
+
+        case "adjust_capacity":
+          if (effect.capacityAdjustment) {
+            capacityAdjustment += effect.capacityAdjustment;
+          }
+          break;
+
+        case "block_state":
+          if (effect.targetState && !blockedStates.some((b) => b.state === effect.targetState)) {
+            blockedStates.push({ ruleId: rule.id, state: effect.targetState, reason: effect.reason });
+          }
+          break;
+
+        // Suggestions only - higher priority rules come first
+        case "recommend_state":
+          if (effect.targetState) {
+            recommendations.push({ ruleId: rule.id, state: effect.targetState, reason: effect.reason });
+          }
+          break;
       }
     }
   }
 
-  return { maxState, minState, capacityAdjustment, appliedRules };
+  return { maxState, minState, capacityAdjustment, blockedStates, recommendations, appliedRules };
 }
@@ -137,6 +137,19 @@ export function parseLocalDate(dateString: string): Date | null {
   return new Date(year, month - 1, day);
 }
 
+/**
+ * Format a Date as a YYYY-MM-DD key in the local timezone.
+ * The counterpart of parseLocalDate - use this instead of toISOString() for "today".
+ *
+ * @param date - The date to format
+ * @returns A YYYY-MM-DD string
+ */
+export function getLocalDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Format a YYYY-MM-DD date string for display using local timezone.
  *
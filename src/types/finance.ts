@@ -1,6 +1,7 @@
 // Finance types - Bank account integration and transaction tracking
 
 import { LoopId } from "./index";
+import { STORAGE_KEYS } from "../storage";
 
 // Bank connection via SimpleFIN
 export interface FinanceConnection {
@@ -449,7 +450,7 @@ export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
 // Load expenses from Budget widget localStorage
 export function loadExpensesFromLocalStorage(): BudgetExpense[] {
   try {
-    const stored = localStorage.getItem("looops_expenses");
+    const stored = localStorage.getItem(STORAGE_KEYS.EXPENSES);
     if (stored) {
       return JSON.parse(stored);
     }
@@ -461,13 +462,13 @@ export function loadExpensesFromLocalStorage(): BudgetExpense[] {
 
 // Save expenses to Budget widget localStorage (for sync)
 export function saveExpensesToLocalStorage(expenses: BudgetExpense[]): void {
-  localStorage.setItem("looops_expenses", JSON.stringify(expenses));
+  localStorage.setItem(STORAGE_KEYS.EXPENSES, JSON.stringify(expenses));
 }
 
 // Load loop budgets from localStorage
 export function loadLoopBudgetsFromLocalStorage(): LoopBudget[] {
   try {
-    const stored = localStorage.getItem("looops_loop_budgets");
+    const stored = localStorage.getItem(STORAGE_KEYS.LOOP_BUDGETS);
     if (stored) {
       return JSON.parse(stored);
     }
@@ -479,13 +480,13 @@ export function loadLoopBudgetsFromLocalStorage(): LoopBudget[] {
 
 // Save loop budgets to localStorage
 export function saveLoopBudgetsToLocalStorage(budgets: LoopBudget[]): void {
-  localStorage.setItem("looops_loop_budgets", JSON.stringify(budgets));
+  localStorage.setItem(STORAGE_KEYS.LOOP_BUDGETS, JSON.stringify(budgets));
 }
 
 // Load monthly income from localStorage
 export function loadMonthlyIncomeFromLocalStorage(): number {
   try {
-    const stored = localStorage.getItem("looops_monthly_income");
+    const stored = localStorage.getItem(STORAGE_KEYS.MONTHLY_INCOME);
     if (stored) {
       return parseFloat(stored) || 0;
     }
@@ -497,7 +498,7 @@ export function loadMonthlyIncomeFromLocalStorage(): number {
 
 // Save monthly income to localStorage
 export function saveMonthlyIncomeToLocalStorage(income: number): void {
-  localStorage.setItem("looops_monthly_income", income.toString());
+  localStorage.setItem(STORAGE_KEYS.MONTHLY_INCOME, income.toString());
 }
 
 // Default state factory
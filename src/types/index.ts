@@ -20,3 +20,6 @@ export * from "./mealPrep";
 export * from "./finance";
 export * from "./specialDates";
 export * from "./decisions";
+export * from "./reminders";
+export * from "./loopModel";
+export * from "./timeBlocking";
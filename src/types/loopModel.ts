@@ -0,0 +1,33 @@
+// Loop model types - the on-device classifier that learns which loop a task title belongs to
+// Training and prediction live in engines/loopClassifier
+
+import { LoopId } from "./core";
+
+// Token → weighted count
+export type TokenCounts = Record<string, number>;
+
+// Everything learned about one class (a loop, or a sub-loop within a loop)
+export type LoopModelClass = {
+  docs: number; // Weighted number of titles seen
+  tokens: number; // Weighted number of tokens seen
+  counts: TokenCounts;
+};
+
+export type LoopModel = {
+  loops: Partial<Record<LoopId, LoopModelClass>>;
+  subLoops: Record<string, LoopModelClass>; // Keyed "Loop/SubLoop"
+  vocabulary: number; // Distinct tokens across all loops
+  documents: number; // Titles trained on
+  corrections: number; // Times a suggested or saved loop was changed by hand
+  taskWeights?: Record<string, number>; // Task ID → weight its title carries, for hand-corrected tasks
+  updatedAt: string | null;
+};
+
+export const INITIAL_LOOP_MODEL: LoopModel = {
+  loops: {},
+  subLoops: {},
+  vocabulary: 0,
+  documents: 0,
+  corrections: 0,
+  updatedAt: null,
+};
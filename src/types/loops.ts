@@ -15,6 +15,8 @@ export type StateTransitionTrigger = {
   condition: string;
   targetState: LoopStateType;
   enabled: boolean;
+  createdAt?: string;
+  lastFiredAt?: string; // Set by the trigger engine so a trigger fires once per occurrence
 };
 
 // State history entry
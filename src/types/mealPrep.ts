@@ -1,5 +1,6 @@
 // Meal Prep Types - Kitchen Profile, Recipes, Meal Planning
 import { LoopId } from "./core";
+import { STORAGE_KEYS } from "../storage";
 
 // ==================== Kitchen Profile ====================
 
@@ -972,8 +973,6 @@ interface WasteTransaction {
   wasteEntryId: string; // Link back to waste entry
 }
 
-const WASTE_TRANSACTION_STORAGE_KEY = "looops_waste_transactions";
-
 // Sync a waste entry to the transactions list
 export function syncWasteToExpenses(entry: WasteEntry): void {
   if (!entry.estimatedCost || entry.estimatedCost <= 0) {
@@ -1004,7 +1003,7 @@ export function syncWasteToExpenses(entry: WasteEntry): void {
   }
 
   // Save back
-  localStorage.setItem(WASTE_TRANSACTION_STORAGE_KEY, JSON.stringify(wasteTransactions));
+  localStorage.setItem(STORAGE_KEYS.WASTE_TRANSACTIONS, JSON.stringify(wasteTransactions));
 
   // Also update the main transactions list
   syncWasteTransactionsToMain(wasteTransactions);
@@ -1014,7 +1013,7 @@ export function syncWasteToExpenses(entry: WasteEntry): void {
 export function removeWasteTransaction(wasteEntryId: string): void {
   const wasteTransactions = getWasteTransactions();
   const filtered = wasteTransactions.filter(t => t.wasteEntryId !== wasteEntryId);
-  localStorage.setItem(WASTE_TRANSACTION_STORAGE_KEY, JSON.stringify(filtered));
+  localStorage.setItem(STORAGE_KEYS.WASTE_TRANSACTIONS, JSON.stringify(filtered));
 
   // Also update main transactions
   syncWasteTransactionsToMain(filtered);
@@ -1023,7 +1022,7 @@ export function removeWasteTransaction(wasteEntryId: string): void {
 // Get all waste transactions
 function getWasteTransactions(): WasteTransaction[] {
   try {
-    const stored = localStorage.getItem(WASTE_TRANSACTION_STORAGE_KEY);
+    const stored = localStorage.getItem(STORAGE_KEYS.WASTE_TRANSACTIONS);
     return stored ? JSON.parse(stored) : [];
   } catch {
     return [];
@@ -1033,8 +1032,7 @@ function getWasteTransactions(): WasteTransaction[] {
 // Sync waste transactions into the main transactions list
 function syncWasteTransactionsToMain(wasteTransactions: WasteTransaction[]): void {
   try {
-    const mainTransactionsKey = "looops_transactions";
-    const storedMain = localStorage.getItem(mainTransactionsKey);
+    const storedMain = localStorage.getItem(STORAGE_KEYS.SHEET_TRANSACTIONS);
     let mainTransactions: any[] = storedMain ? JSON.parse(storedMain) : [];
 
     // Remove all existing waste transactions (those with wasteEntryId or category "Food Waste")
@@ -1050,7 +1048,7 @@ function syncWasteTransactionsToMain(wasteTransactions: WasteTransaction[]): voi
       new Date(b.date).getTime() - new Date(a.date).getTime()
     );
 
-    localStorage.setItem(mainTransactionsKey, JSON.stringify(mainTransactions));
+    localStorage.setItem(STORAGE_KEYS.SHEET_TRANSACTIONS, JSON.stringify(mainTransactions));
   } catch {
     // Ignore errors
   }
@@ -2,6 +2,8 @@
 // Projects are containers for tasks, always aligned to a Loop
 
 import { LoopId, LoopStateType, Priority } from "./core";
+import type { RecurrencePattern, TaskConstraints } from "./tasks";
+import { parseQuickAdd, QuickAddContext } from "../engines/quickAddEngine";
 
 // Project view types
 export type ProjectView = "list" | "board";
@@ -13,6 +15,7 @@ export type ProjectSection = {
   name: string;
   order: number;
   collapsed: boolean;
+  wipLimit?: number; // Board view warns before more open tasks than this land here
 };
 
 // Project type
@@ -28,6 +31,7 @@ export type Project = {
   // Visual
   color: string;
   icon?: string;
+  view?: ProjectView; // Last view chosen for this project (list when unset)
 
   // Organization
   parentId?: string; // For sub-projects
@@ -54,7 +58,7 @@ export type Label = {
   order: number;
 };
 
-// Filter type (saved searches)
+// Filter type (saved searches) - query syntax in engines/filterQueryEngine
 export type SavedFilter = {
   id: string;
   name: string;
@@ -63,15 +67,32 @@ export type SavedFilter = {
   order: number;
 };
 
-// Task comment
+// Task comment - replies point at the comment they answer
 export type TaskComment = {
   id: string;
   taskId: string;
+  parentId?: string;
   content: string;
   createdAt: string;
   updatedAt?: string;
 };
 
+// Task activity - one recorded change to a tracked field
+export type TaskActivityField = "status" | "dueDate" | "loop" | "priority";
+
+// Which side made a change - Todoist tasks can change here or in Todoist
+export type TaskActivityOrigin = "local" | "todoist";
+
+export type TaskActivity = {
+  id: string;
+  taskId: string;
+  field: TaskActivityField;
+  from: string | number | null;
+  to: string | number | null;
+  origin: TaskActivityOrigin;
+  at: string;
+};
+
 // Task reminder
 export type TaskReminder = {
   id: string;
@@ -90,15 +111,21 @@ export type Subtask = {
   order: number;
 };
 
-// Quick add parsed result
+// Quick add parsed result - see engines/quickAddEngine for the syntax
 export type ParsedTaskInput = {
   title: string;
   description?: string;
   dueDate?: string;
+  dueTime?: string; // HH:MM
+  recurrence?: RecurrencePattern;
+  estimateMinutes?: number;
   priority?: Priority;
   loop?: LoopId;
+  subLoop?: string;
   projectId?: string;
+  projectName?: string; // +Project that matched no existing project
   labels?: string[];
+  constraints?: TaskConstraints; // Energy and location
 };
 
 // Task sort options
@@ -167,62 +194,8 @@ export const PROJECT_COLORS = [
 ];
 
 // Parse natural language input for task creation
-export function parseTaskInput(input: string): ParsedTaskInput {
-  const result: ParsedTaskInput = {
-    title: input,
-  };
-
-  let remaining = input;
-
-  // Parse priority (p1, p2, p3, p4, !!, !, etc.)
-  const priorityMatch = remaining.match(/\s+[pP]([1-4])\s*$|\s+(!!!?)\s*$/);
-  if (priorityMatch) {
-    if (priorityMatch[1]) {
-      result.priority = parseInt(priorityMatch[1]) as Priority;
-    } else if (priorityMatch[2]) {
-      result.priority = priorityMatch[2] === "!!" ? 1 : 2;
-    }
-    remaining = remaining.replace(priorityMatch[0], "").trim();
-  }
-
-  // Parse due date keywords
-  const todayMatch = remaining.match(/\s+today\s*$/i);
-  const tomorrowMatch = remaining.match(/\s+tomorrow\s*$/i);
-  const nextWeekMatch = remaining.match(/\s+next\s+week\s*$/i);
-
-  if (todayMatch) {
-    result.dueDate = new Date().toISOString().split("T")[0];
-    remaining = remaining.replace(todayMatch[0], "").trim();
-  } else if (tomorrowMatch) {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    result.dueDate = tomorrow.toISOString().split("T")[0];
-    remaining = remaining.replace(tomorrowMatch[0], "").trim();
-  } else if (nextWeekMatch) {
-    const nextWeek = new Date();
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    result.dueDate = nextWeek.toISOString().split("T")[0];
-    remaining = remaining.replace(nextWeekMatch[0], "").trim();
-  }
-
-  // Parse labels (@label)
-  const labelMatches = remaining.match(/@(\w+)/g);
-  if (labelMatches) {
-    result.labels = labelMatches.map(l => l.substring(1));
-    remaining = remaining.replace(/@\w+/g, "").trim();
-  }
-
-  // Parse loop (#Health, #Work, etc.)
-  const loopMatch = remaining.match(/#(Health|Wealth|Family|Work|Fun|Maintenance|Meaning)/i);
-  if (loopMatch) {
-    result.loop = loopMatch[1] as LoopId;
-    remaining = remaining.replace(loopMatch[0], "").trim();
-  }
-
-  // Clean up title
-  result.title = remaining.replace(/\s+/g, " ").trim();
-
-  return result;
+export function parseTaskInput(input: string, context?: QuickAddContext): ParsedTaskInput {
+  return parseQuickAdd(input, context).parsed;
 }
 
 // Create a new project with defaults
@@ -247,6 +220,17 @@ export function createProject(
   };
 }
 
+// Create a new saved filter
+export function createSavedFilter(name: string, query: string, order: number = 0): SavedFilter {
+  return {
+    id: `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    query,
+    color: PROJECT_COLORS[order % PROJECT_COLORS.length].hex,
+    order,
+  };
+}
+
 // Create a new section
 export function createSection(projectId: string, name: string, order: number = 0): ProjectSection {
   return {
@@ -257,3 +241,14 @@ export function createSection(projectId: string, name: string, order: number = 0
     collapsed: false,
   };
 }
+
+// Create a task comment - pass parentId to reply
+export function createTaskComment(taskId: string, content: string, parentId?: string): TaskComment {
+  return {
+    id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    taskId,
+    parentId,
+    content,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,98 @@
+// Reminder types - local notifications for tasks, routines, special dates and babysitter bookings
+// Scheduling lives in engines/reminderEngine; delivery in hooks/useReminderScheduler
+
+import { DayType } from "./dayTypes";
+import { TaskReminder } from "./projects";
+
+// What a reminder is about - also decides where tapping the notification leads
+export type ReminderKind = "task" | "reminder" | "routine" | "specialDate" | "babysitter";
+
+// Deep-link target carried by a notification - task reminders open their task
+export type NotificationTargetKind = Exclude<ReminderKind, "reminder">;
+
+export type NotificationTarget = {
+  kind: NotificationTargetKind;
+  id: string; // Task, routine, special date or schedule entry ID
+};
+
+// Window when notifications are held back - may wrap past midnight (22:00-07:00)
+export type QuietHours = {
+  start: string; // HH:MM
+  end: string; // HH:MM
+};
+
+export type ReminderSettings = {
+  enabled: boolean;
+  quietHours: QuietHours | null;
+  dayTypeQuietHours: Partial<Record<DayType, QuietHours>>; // Replaces quietHours on that day type
+  mutedDayTypes: DayType[]; // No notifications at all on these days (e.g. holiday, travel)
+  taskLeadMinutes: number; // How long before a task's due time to notify
+  routineLeadMinutes: number;
+  babysitterLeadMinutes: number;
+  specialDateTime: string; // HH:MM on the day itself
+  kinds: Record<ReminderKind, boolean>;
+};
+
+// State slice
+export type RemindersState = {
+  items: TaskReminder[];
+  settings: ReminderSettings;
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  quietHours: { start: "22:00", end: "07:00" },
+  dayTypeQuietHours: {},
+  mutedDayTypes: [],
+  taskLeadMinutes: 10,
+  routineLeadMinutes: 5,
+  babysitterLeadMinutes: 60,
+  specialDateTime: "09:00",
+  kinds: {
+    task: true,
+    reminder: true,
+    routine: true,
+    specialDate: true,
+    babysitter: true,
+  },
+};
+
+export const INITIAL_REMINDERS_STATE: RemindersState = {
+  items: [],
+  settings: DEFAULT_REMINDER_SETTINGS,
+};
+
+export const REMINDER_KIND_LABELS: Record<ReminderKind, string> = {
+  task: "Task due times",
+  reminder: "Task reminders",
+  routine: "Routine start times",
+  specialDate: "Special dates",
+  babysitter: "Babysitter bookings",
+};
+
+const TARGET_KINDS: NotificationTargetKind[] = ["task", "routine", "specialDate", "babysitter"];
+
+// Deep link for a notification target - read back by parseNotificationTarget
+export function getNotificationUrl(target: NotificationTarget, base: string = "/"): string {
+  return `${base}?open=${target.kind}:${encodeURIComponent(target.id)}`;
+}
+
+export function parseNotificationTarget(value: string | null): NotificationTarget | null {
+  if (!value) return null;
+  const separator = value.indexOf(":");
+  if (separator < 0) return null;
+  const kind = value.slice(0, separator) as NotificationTargetKind;
+  if (!TARGET_KINDS.includes(kind)) return null;
+  const id = decodeURIComponent(value.slice(separator + 1));
+  return id ? { kind, id } : null;
+}
+
+// Create a time reminder for a task - datetime is a local ISO string (YYYY-MM-DDTHH:MM)
+export function createTaskReminder(taskId: string, datetime: string): TaskReminder {
+  return {
+    id: `reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    taskId,
+    type: "time",
+    datetime,
+  };
+}
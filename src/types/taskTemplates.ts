@@ -1,11 +1,23 @@
 // Task Templates - Reusable project/task checklists
 import { LoopId } from './core';
 
+// Text fields may contain {{placeholders}} - filled in when the template is used
+// (engines/templateEngine). {{date}} is always available and becomes the anchor date.
 export interface TaskTemplateItem {
+  id?: string; // Key other items use to nest under or depend on this one
   title: string;
   description?: string;
   estimatedMinutes?: number;
   order: number;
+  parentId?: string; // Item id - nests this item under another instead of the top task
+  dependsOn?: string[]; // Item ids that have to be done first
+  dueOffsetDays?: number; // Due relative to the anchor date: -3 is "T-3 days"
+}
+
+export interface TemplateVariable {
+  key: string; // Used as {{key}}
+  label?: string; // Prompt shown when the template is used
+  defaultValue?: string;
 }
 
 export interface TaskTemplate {
@@ -16,6 +28,9 @@ export interface TaskTemplate {
   category: string;
   icon?: string;
   tasks: TaskTemplateItem[];
+  variables?: TemplateVariable[]; // Labels and defaults - placeholders work without being listed
+  projectId?: string; // Where created tasks go
+  sectionId?: string;
   // Future marketplace fields
   // authorId?: string;
   // price?: number;
@@ -1,8 +1,9 @@
 // Enhanced Task types for Personal Operating System
 
-import { LoopId, LoopStateType, Priority, TaskStatus, Duration } from "./core";
+import { LoopId, LoopStateType, Priority, TaskStatus, Duration, getLocalDateKey } from "./core";
 import { ArchetypeId } from "./identity";
 import { LoopState } from "./loops";
+import { describeRecurrence, getNextOccurrence, getNextRecurrence } from "../engines/recurrenceEngine";
 
 // Time tracking entry for detailed time logs
 export type TimeEntry = {
@@ -24,13 +25,29 @@ export type ActiveTimer = {
 // Recurrence types
 export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly" | "custom";
 
+// A weekday with its position in the month/year: { day: 2, ordinal: 2 } = 2nd Tuesday, ordinal -1 = last
+export type RecurrenceWeekday = {
+  day: number;
+  ordinal: number;
+};
+
+// Mirrors an iCalendar RRULE - see engines/recurrenceEngine for parsing and formatting
 export type RecurrencePattern = {
   frequency: RecurrenceFrequency;
   interval: number; // Every X days/weeks/months/years
-  daysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc. (for weekly)
+  daysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc. (BYDAY without an ordinal)
+  nthWeekdays?: RecurrenceWeekday[]; // e.g. 2nd Tuesday (BYDAY with an ordinal)
   dayOfMonth?: number; // 1-31 (for monthly)
+  monthDays?: number[]; // BYMONTHDAY - negative counts from the end, -1 = last day
+  months?: number[]; // BYMONTH, 1-12
+  setPositions?: number[]; // BYSETPOS - e.g. -1 with Mon-Fri = last weekday of the month
+  anchor?: "schedule" | "completion"; // completion: next date counts from when it was done
+  exceptions?: string[]; // Skipped dates (EXDATE), YYYY-MM-DD
   endDate?: string; // Optional end date for the recurrence
+  until?: string; // UNTIL exactly as parsed (may carry a time), written back while it still matches endDate
   count?: number; // Optional number of occurrences
+  occurrence?: number; // Which occurrence this task is (1 = first), for count
+  extraRules?: Record<string, string>; // RRULE parts kept verbatim for round-trips
 };
 
 // Preset recurrence options for UI
@@ -40,6 +57,7 @@ export const RECURRENCE_PRESETS: { id: string; label: string; pattern: Recurrenc
   { id: "weekly", label: "Weekly", pattern: { frequency: "weekly", interval: 1 } },
   { id: "biweekly", label: "Every 2 weeks", pattern: { frequency: "weekly", interval: 2 } },
   { id: "monthly", label: "Monthly", pattern: { frequency: "monthly", interval: 1 } },
+  { id: "last-weekday", label: "Last weekday of the month", pattern: { frequency: "monthly", interval: 1, daysOfWeek: [1, 2, 3, 4, 5], setPositions: [-1] } },
   { id: "quarterly", label: "Every 3 months", pattern: { frequency: "monthly", interval: 3 } },
   { id: "yearly", label: "Yearly", pattern: { frequency: "yearly", interval: 1 } },
 ];
@@ -350,114 +368,22 @@ export function calculateNextDueDate(
   currentDueDate: string | undefined,
   recurrence: RecurrencePattern
 ): string {
-  const baseDate = currentDueDate ? new Date(currentDueDate) : new Date();
-  const nextDate = new Date(baseDate);
-
-  switch (recurrence.frequency) {
-    case "daily":
-      nextDate.setDate(nextDate.getDate() + recurrence.interval);
-      break;
-
-    case "weekly":
-      if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-        // Find the next day of week in the list
-        const currentDay = nextDate.getDay();
-        const sortedDays = [...recurrence.daysOfWeek].sort((a, b) => a - b);
-
-        // Find the next day after current
-        let nextDay = sortedDays.find((d) => d > currentDay);
-
-        if (nextDay !== undefined) {
-          // Same week, advance to that day
-          nextDate.setDate(nextDate.getDate() + (nextDay - currentDay));
-        } else {
-          // Next week, go to first day in list
-          const daysUntilNextWeek = 7 - currentDay + sortedDays[0];
-          nextDate.setDate(nextDate.getDate() + daysUntilNextWeek + (recurrence.interval - 1) * 7);
-        }
-      } else {
-        // Simple weekly - add interval weeks
-        nextDate.setDate(nextDate.getDate() + recurrence.interval * 7);
-      }
-      break;
-
-    case "monthly":
-      if (recurrence.dayOfMonth) {
-        // Set to specific day of month
-        nextDate.setMonth(nextDate.getMonth() + recurrence.interval);
-        nextDate.setDate(Math.min(recurrence.dayOfMonth, getDaysInMonth(nextDate)));
-      } else {
-        // Same day of month
-        nextDate.setMonth(nextDate.getMonth() + recurrence.interval);
-      }
-      break;
-
-    case "yearly":
-      nextDate.setFullYear(nextDate.getFullYear() + recurrence.interval);
-      break;
-
-    case "custom":
-      // For custom, just add interval days
-      nextDate.setDate(nextDate.getDate() + recurrence.interval);
-      break;
-  }
-
-  return nextDate.toISOString().split("T")[0];
-}
-
-// Helper to get days in a month
-function getDaysInMonth(date: Date): number {
-  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  const baseDate = currentDueDate || getLocalDateKey();
+  return getNextOccurrence(recurrence, baseDate) ?? baseDate;
 }
 
 // Get human-readable recurrence description
 export function getRecurrenceLabel(recurrence: RecurrencePattern): string {
-  const { frequency, interval, daysOfWeek } = recurrence;
-
-  if (frequency === "daily") {
-    return interval === 1 ? "Daily" : `Every ${interval} days`;
-  }
-
-  if (frequency === "weekly") {
-    if (daysOfWeek && daysOfWeek.length > 0) {
-      if (daysOfWeek.length === 5 && daysOfWeek.every((d) => d >= 1 && d <= 5)) {
-        return "Weekdays";
-      }
-      const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-      const days = daysOfWeek.map((d) => dayNames[d]).join(", ");
-      return interval === 1 ? `Weekly on ${days}` : `Every ${interval} weeks on ${days}`;
-    }
-    return interval === 1 ? "Weekly" : `Every ${interval} weeks`;
-  }
-
-  if (frequency === "monthly") {
-    return interval === 1 ? "Monthly" : `Every ${interval} months`;
-  }
-
-  if (frequency === "yearly") {
-    return interval === 1 ? "Yearly" : `Every ${interval} years`;
-  }
-
-  return `Every ${interval} days`;
+  return describeRecurrence(recurrence);
 }
 
 // Create next occurrence of a recurring task
 export function createNextRecurrence(task: Task): Task | null {
   if (!task.recurrence) return null;
 
-  // Check if we've hit the end date
-  if (task.recurrence.endDate) {
-    const endDate = new Date(task.recurrence.endDate);
-    const today = new Date();
-    if (today > endDate) return null;
-  }
-
-  const nextDueDate = calculateNextDueDate(task.dueDate, task.recurrence);
-
-  // Check if next date is past end date
-  if (task.recurrence.endDate && nextDueDate > task.recurrence.endDate) {
-    return null;
-  }
+  // Stops once count or endDate is reached
+  const next = getNextRecurrence(task.recurrence, task.dueDate, getLocalDateKey());
+  if (!next) return null;
 
   return createTask(task.title, task.loop, {
     description: task.description,
@@ -465,8 +391,8 @@ export function createNextRecurrence(task: Task): Task | null {
     projectId: task.projectId,
     priority: task.priority,
     status: "todo",
-    dueDate: nextDueDate,
-    recurrence: task.recurrence,
+    dueDate: next.dueDate,
+    recurrence: { ...task.recurrence, occurrence: next.occurrence },
     estimateMinutes: task.estimateMinutes,
     labels: task.labels,
     tags: task.tags,
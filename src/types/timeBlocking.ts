@@ -0,0 +1,64 @@
+// Time blocking types - today's stack laid out in the free time between calendar events
+// The plan itself is derived on the fly by engines/timeBlockEngine; only settings persist
+
+import { LoopId } from "./core";
+import { EnergyLevel } from "./tasks";
+
+// When in the day energy runs highest - demanding tasks are steered there
+export type EnergyPeak = "morning" | "afternoon" | "evening";
+
+export type TimeBlockSettings = {
+  dayStart: string; // HH:MM - nothing is planned before this
+  dayEnd: string; // HH:MM
+  defaultEstimateMinutes: number; // For tasks without an estimate
+  energyPeak: EnergyPeak;
+};
+
+export const DEFAULT_TIME_BLOCK_SETTINGS: TimeBlockSettings = {
+  dayStart: "08:00",
+  dayEnd: "18:00",
+  defaultEstimateMinutes: 30,
+  energyPeak: "morning",
+};
+
+export const ENERGY_PEAK_LABELS: Record<EnergyPeak, string> = {
+  morning: "Morning",
+  afternoon: "Afternoon",
+  evening: "Evening",
+};
+
+export type TimeBlockKind = "task" | "event" | "break";
+
+// Times are minutes since local midnight on the plan's date
+export type TimeBlock = {
+  id: string;
+  kind: TimeBlockKind;
+  start: number;
+  end: number;
+  title: string;
+  loop?: LoopId;
+  taskId?: string;
+  eventId?: string;
+  energy?: EnergyLevel; // Energy expected at that time of day (task blocks)
+  fixed?: boolean; // Pinned by the task's due time
+  running?: boolean; // Timer is on right now
+  overrun?: boolean; // Already past its estimate - given extra time
+  missedDueTime?: boolean; // Due time has passed, so it floats with the rest
+};
+
+export type UnscheduledTask = {
+  taskId: string;
+  title: string;
+  loop: LoopId;
+  reason: string;
+};
+
+export type TimeBlockPlan = {
+  date: string; // YYYY-MM-DD
+  windowStart: number; // Where planning began - now, or the start of the day
+  windowEnd: number;
+  blocks: TimeBlock[]; // Events, tasks and breaks in time order
+  unscheduled: UnscheduledTask[];
+  plannedMinutes: number; // Task time placed
+  freeMinutes: number; // Time left over between blocks
+};
@@ -31,6 +31,8 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         // Don't cache API routes - let them go to the server
         navigateFallbackDenylist: [/^\/api/],
+        // Notification tap handling - deep links into the app
+        importScripts: ['notification-handler.js'],
       },
       devOptions: {
         enabled: false,